@@ -4,6 +4,7 @@ import { ExpenseProvider, useExpense } from './context/ExpenseContext';
 import { AuthProvider } from './context/AuthContext';
 import { SelectionProvider } from './context/SelectionContext';
 import { Toaster } from './components/ui/sonner';
+import { RemoteUpdateIndicator } from './components/RemoteUpdateIndicator';
 
 function AppDataBlocker() {
   const { isHydrated } = useExpense();
@@ -21,6 +22,7 @@ function AppDataBlocker() {
   return (
     <>
       <RouterProvider router={router} />
+      <RemoteUpdateIndicator />
       <Toaster
         toastOptions={{
           style: { marginBottom: '80px' },
@@ -10,16 +10,18 @@ interface CategoryFilterBarProps {
 }
 
 export function CategoryFilterBar({ transactions }: CategoryFilterBarProps) {
-  const { categories, selectedCategoryIds, setSelectedCategories } = useExpense();
+  const { categories, selectedCategoryIds, setSelectedCategories, accounts, selectedAccountIds, setSelectedAccounts } = useExpense();
   const [isOpen, setIsOpen] = useState(false);
 
   // Local state for the filter before applying
   const [localSelectedIds, setLocalSelectedIds] = useState<string[]>(selectedCategoryIds);
+  const [localAccountIds, setLocalAccountIds] = useState<string[]>(selectedAccountIds);
 
   // Keep local state in sync when external selected ids change (e.g. initial load or reset)
   useEffect(() => {
     setLocalSelectedIds(selectedCategoryIds);
-  }, [selectedCategoryIds, isOpen]);
+    setLocalAccountIds(selectedAccountIds);
+  }, [selectedCategoryIds, selectedAccountIds, isOpen]);
 
   const categoryCounts = useMemo(() => {
     const counts: Record<string, number> = {};
@@ -50,13 +52,23 @@ export function CategoryFilterBar({ transactions }: CategoryFilterBarProps) {
     );
   };
 
+  const toggleAccount = (accountId: string) => {
+    setLocalAccountIds(prev =>
+      prev.includes(accountId)
+        ? prev.filter(id => id !== accountId)
+        : [...prev, accountId]
+    );
+  };
+
   const handleApply = () => {
     setSelectedCategories(localSelectedIds);
+    setSelectedAccounts(localAccountIds);
     setIsOpen(false);
   };
 
   const handleClearAll = () => {
     setLocalSelectedIds([]);
+    setLocalAccountIds([]);
   };
 
   const handleSelectAll = () => {
@@ -75,6 +87,12 @@ export function CategoryFilterBar({ transactions }: CategoryFilterBarProps) {
       ? categories.find(c => c.id === selectedCategoryIds[0])?.name || 'Filter active'
       : `${selectedCategoryIds.length} categories`;
 
+  const accountFilterLabel = selectedAccountIds.length === 0
+    ? null
+    : selectedAccountIds.length === 1
+      ? accounts.find(a => a.id === selectedAccountIds[0])?.name || '1 account'
+      : `${selectedAccountIds.length} accounts`;
+
   const IconComponent = ({ iconName, color }: { iconName: string, color: string }) => {
     const Icon = (LucideIcons as any)[iconName];
     return Icon ? <Icon className="w-3.5 h-3.5" style={{ color }} /> : null;
@@ -91,6 +109,9 @@ export function CategoryFilterBar({ transactions }: CategoryFilterBarProps) {
           >
             <span className="text-[13px] text-gray-500">
               Filter: <span className="text-gray-900 font-semibold">{filterLabel}</span>
+              {accountFilterLabel && (
+                <span className="text-gray-900 font-semibold"> · {accountFilterLabel}</span>
+              )}
             </span>
             <ChevronDown className="w-4 h-4 text-gray-400" />
           </button>
@@ -129,6 +150,35 @@ export function CategoryFilterBar({ transactions }: CategoryFilterBarProps) {
               </button>
             </div>
 
+            {/* Accounts */}
+            {accounts.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3 pl-1">
+                  Accounts
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {accounts.map((account) => {
+                    const isSelected = localAccountIds.includes(account.id);
+
+                    return (
+                      <button
+                        key={account.id}
+                        onClick={() => toggleAccount(account.id)}
+                        className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-[13px] font-medium transition-all ${isSelected
+                          ? 'bg-blue-50 border-blue-600 text-blue-700'
+                          : 'border-gray-200 text-gray-500'
+                          }`}
+                      >
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: account.color }} />
+                        {account.name}
+                      </button>
+                    );
+                  })}
+                </div>
+                <div className="h-px bg-gray-50 mt-4 mx-1" />
+              </div>
+            )}
+
             {/* List with Groups */}
             <div className="space-y-6">
               {Object.entries(groupedCategories).map(([group, groupCats]) => {
@@ -5,6 +5,7 @@ import { Transaction } from '../types';
 import { TransactionItem } from './TransactionItem';
 import { motion } from 'motion/react';
 import { Plus } from 'lucide-react';
+import { getSpendAmount } from '../utils/cashFlow';
 
 interface DailyViewProps {
   currentDate: Date;
@@ -18,7 +19,7 @@ export function DailyView({ currentDate, transactions }: DailyViewProps) {
   const dateStr = format(currentDate, 'yyyy-MM-dd');
   const dayTransactions = transactions.filter(t => t.date === dateStr);
 
-  const totalSpent = dayTransactions.reduce((sum, t) => sum + t.amount, 0);
+  const totalSpent = dayTransactions.reduce((sum, t) => sum + getSpendAmount(t), 0);
 
   // Group transactions by category
   const transactionsByCategory: Record<string, { transactions: typeof dayTransactions; total: number }> = {};
@@ -27,7 +28,7 @@ export function DailyView({ currentDate, transactions }: DailyViewProps) {
       transactionsByCategory[t.category] = { transactions: [], total: 0 };
     }
     transactionsByCategory[t.category].transactions.push(t);
-    transactionsByCategory[t.category].total += t.amount;
+    transactionsByCategory[t.category].total += getSpendAmount(t);
   });
 
   // Sort categories by total (highest first)
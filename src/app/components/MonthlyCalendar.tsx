@@ -2,6 +2,7 @@ import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isTod
 import { useExpense } from '../context/ExpenseContext';
 import { Transaction } from '../types';
 import { motion } from 'motion/react';
+import { getSpendAmount } from '../utils/cashFlow';
 
 interface MonthlyCalendarProps {
   currentDate: Date;
@@ -22,7 +23,7 @@ export function MonthlyCalendar({ currentDate, onDayClick, transactions }: Month
   const getDayData = (date: Date) => {
     const dateStr = format(date, 'yyyy-MM-dd');
     const dayTransactions = transactions.filter(t => t.date === dateStr);
-    const total = dayTransactions.reduce((sum, t) => sum + t.amount, 0);
+    const total = dayTransactions.reduce((sum, t) => sum + getSpendAmount(t), 0);
 
     return { total, count: dayTransactions.length };
   };
@@ -34,7 +35,7 @@ export function MonthlyCalendar({ currentDate, onDayClick, transactions }: Month
       return tDate >= weekStart && tDate <= weekEnd;
     });
 
-    return weekTransactions.reduce((sum, t) => sum + t.amount, 0);
+    return weekTransactions.reduce((sum, t) => sum + getSpendAmount(t), 0);
   };
 
   const getIntensityStyles = (amount: number) => {
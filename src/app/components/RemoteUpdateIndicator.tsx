@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { useExpense } from '../context/ExpenseContext';
+
+const VISIBLE_MS = 3500;
+
+// A quiet pill, rather than a toast, when another device's edits arrive
+export function RemoteUpdateIndicator() {
+  const { remoteUpdateAt } = useExpense();
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    if (!remoteUpdateAt) return;
+    setVisible(true);
+    const timer = setTimeout(() => setVisible(false), VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [remoteUpdateAt]);
+
+  return (
+    <div
+      aria-hidden={!visible}
+      className={`pointer-events-none fixed inset-x-0 top-3 z-[90] flex justify-center transition-all duration-300 ${visible ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-2'}`}
+    >
+      <div className="flex items-center gap-1.5 rounded-full border border-gray-200 bg-white/95 px-3 py-1.5 text-xs font-medium text-gray-600 shadow-sm">
+        <RefreshCw className="w-3.5 h-3.5 text-blue-500" />
+        Updated from another device
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { TransactionDirection } from '../types';
+import { TRANSACTION_DIRECTIONS, TRANSACTION_DIRECTION_LABELS } from '../utils/cashFlow';
+
+interface TransactionDirectionPickerProps {
+  value: TransactionDirection;
+  onChange: (direction: TransactionDirection) => void;
+}
+
+export function TransactionDirectionPicker({ value, onChange }: TransactionDirectionPickerProps) {
+  return (
+    <div className="grid grid-cols-4 gap-1 p-1 bg-white rounded-2xl border border-gray-100 shadow-sm">
+      {TRANSACTION_DIRECTIONS.map((direction) => (
+        <button
+          key={direction}
+          type="button"
+          onClick={() => onChange(direction)}
+          className={`py-2 text-sm font-medium rounded-xl transition-colors ${value === direction
+            ? direction === 'income' || direction === 'refund'
+              ? 'bg-green-600 text-white'
+              : 'bg-black text-white'
+            : 'text-gray-600 hover:bg-gray-50'
+            }`}
+        >
+          {TRANSACTION_DIRECTION_LABELS[direction]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -4,6 +4,10 @@ import { Transaction } from '../types';
 import { useExpense } from '../context/ExpenseContext';
 import { useSelection } from '../context/SelectionContext';
 import { CheckCircle2, Circle } from 'lucide-react';
+import { formatSignedAmount, getTransactionDirection } from '../utils/cashFlow';
+import { DEFAULT_CURRENCY, formatCurrencyAmount } from '../utils/currency';
+import { getTransactionCategoryIds, hasSplits } from '../utils/splits';
+import { ReceiptThumbnail } from './receipt/ReceiptThumbnail';
 
 interface TransactionItemProps {
   transaction: Transaction;
@@ -11,11 +15,17 @@ interface TransactionItemProps {
 }
 
 export function TransactionItem({ transaction, onClick }: TransactionItemProps) {
-  const { getCategoryById, skipOccurrence, unskipOccurrence } = useExpense();
+  const { getCategoryById, skipOccurrence, unskipOccurrence, settings } = useExpense();
   const { isSelectionMode, selectedIds, toggleSelection } = useSelection();
   const category = getCategoryById(transaction.category);
 
   const isSelected = selectedIds.includes(transaction.id);
+  const direction = getTransactionDirection(transaction);
+  const amountColor = direction === 'income' || direction === 'refund'
+    ? 'text-green-600'
+    : direction === 'transfer' ? 'text-gray-500' : 'text-gray-900';
+  const homeCurrency = settings.currency || DEFAULT_CURRENCY;
+  const isForeign = !!transaction.currency && transaction.currency !== homeCurrency;
   const IconComponent = category ? (LucideIcons as any)[category.icon] : null;
 
   const handleContainerClick = () => {
@@ -59,7 +69,11 @@ export function TransactionItem({ transaction, onClick }: TransactionItemProps)
       <div className="flex-1 text-left min-w-0">
         <p className="font-semibold text-gray-900 text-[15px] truncate">{transaction.vendor}</p>
         <div className="flex items-center gap-2 mt-0.5">
-          {category && (
+          {hasSplits(transaction) ? (
+            <p className="text-xs text-gray-500 font-medium">
+              Split · {getTransactionCategoryIds(transaction).length} categories
+            </p>
+          ) : category && (
             <p className="text-xs text-gray-500 font-medium">{category.name}</p>
           )}
           {transaction.isRecurring && (
@@ -74,11 +88,27 @@ export function TransactionItem({ transaction, onClick }: TransactionItemProps)
         </div>
       </div>
 
+      {transaction.attachments && transaction.attachments.length > 0 && (
+        <div className="relative flex-shrink-0">
+          <ReceiptThumbnail attachment={transaction.attachments[0]} />
+          {transaction.attachments.length > 1 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-gray-900 text-white text-[10px] font-bold flex items-center justify-center">
+              {transaction.attachments.length}
+            </span>
+          )}
+        </div>
+      )}
+
       <div className="text-right flex-shrink-0 flex flex-col items-end gap-1">
-        <p className={`font-bold text-gray-900 text-base tabular-nums ${transaction.isSkipped ? 'line-through text-gray-400' : ''
+        <p className={`font-bold text-base tabular-nums ${transaction.isSkipped ? 'line-through text-gray-400' : amountColor
           }`}>
-          ${transaction.amount.toFixed(2)}
+          {formatSignedAmount(transaction, homeCurrency)}
         </p>
+        {isForeign && transaction.homeAmount !== undefined && (
+          <p className="text-[11px] text-gray-400 tabular-nums">
+            ≈ {formatCurrencyAmount(transaction.homeAmount, homeCurrency)}
+          </p>
+        )}
 
         {transaction.isVirtual && !isSelectionMode && (
           <button
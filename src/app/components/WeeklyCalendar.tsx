@@ -2,6 +2,7 @@ import { format, startOfWeek, endOfWeek, eachDayOfInterval, isToday } from 'date
 import { useExpense } from '../context/ExpenseContext';
 import { Transaction } from '../types';
 import { motion } from 'motion/react';
+import { getSpendAmount } from '../utils/cashFlow';
 
 interface WeeklyCalendarProps {
   currentDate: Date;
@@ -19,7 +20,7 @@ export function WeeklyCalendar({ currentDate, onDayClick, transactions }: Weekly
   const getDayData = (day: Date) => {
     const dateStr = format(day, 'yyyy-MM-dd');
     const dayTransactions = transactions.filter(t => t.date === dateStr);
-    const dayTotal = dayTransactions.reduce((sum, t) => sum + t.amount, 0);
+    const dayTotal = dayTransactions.reduce((sum, t) => sum + getSpendAmount(t), 0);
 
     // Get unique category names for this day
     const dayCategories = Array.from(new Set(dayTransactions.map(t => {
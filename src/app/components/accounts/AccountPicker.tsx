@@ -0,0 +1,42 @@
+import { Account } from '../../types';
+
+interface AccountPickerProps {
+  accounts: Account[];
+  value?: string;
+  onChange: (accountId: string | undefined) => void;
+  excludeId?: string;
+  emptyLabel?: string;
+}
+
+export function AccountPicker({ accounts, value, onChange, excludeId, emptyLabel = 'No account' }: AccountPickerProps) {
+  const options = accounts.filter(a => a.id !== excludeId);
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1 scrollbar-hide">
+      <button
+        type="button"
+        onClick={() => onChange(undefined)}
+        className={`shrink-0 px-4 py-2 rounded-full text-sm font-medium border transition-colors ${!value
+          ? 'bg-black text-white border-black'
+          : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+          }`}
+      >
+        {emptyLabel}
+      </button>
+      {options.map((account) => (
+        <button
+          key={account.id}
+          type="button"
+          onClick={() => onChange(account.id)}
+          className={`shrink-0 flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium border transition-colors ${value === account.id
+            ? 'bg-black text-white border-black'
+            : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+            }`}
+        >
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: account.color }} />
+          {account.name}
+        </button>
+      ))}
+    </div>
+  );
+}
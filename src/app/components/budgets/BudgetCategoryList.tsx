@@ -1,50 +1,67 @@
 import { useMemo } from 'react';
 import * as LucideIcons from 'lucide-react';
 import { Category } from '../../types';
-import { isPast, isSameMonth } from 'date-fns';
-
-interface BudgetRow {
-    id: string;
-    category_id: string;
-    monthly_limit: number;
-}
+import { format } from 'date-fns';
+import { BudgetProgress, formatBudgetWindow, getBudgetAvailable, getBudgetPace, getBudgetPeriodMeta } from '../../utils/budgetPeriods';
+import { getBudgetDisplay, getBudgetParentGroup } from '../../utils/budgetTargets';
 
 interface BudgetCategoryListProps {
-    budgets: BudgetRow[];
+    progress: BudgetProgress[];
     categories: Category[];
-    spentByCategory: Record<string, number>;
-    selectedMonthStart: Date;
-    onCategoryClick: (category: Category, spent: number, limit: number) => void;
+    onBudgetClick: (progress: BudgetProgress) => void;
 }
 
-export function BudgetCategoryList({ budgets, categories, spentByCategory, selectedMonthStart, onCategoryClick }: BudgetCategoryListProps) {
-    const today = new Date();
-    const isPastMonth = isPast(selectedMonthStart) && !isSameMonth(selectedMonthStart, today);
+// Highest percentage spent first, then by largest limit
+const byUsage = (a: BudgetProgress, b: BudgetProgress) => {
+    const limitA = getBudgetAvailable(a);
+    const limitB = getBudgetAvailable(b);
+    const pctA = limitA > 0 ? a.spent / limitA : 0;
+    const pctB = limitB > 0 ? b.spent / limitB : 0;
+
+    if (pctA !== pctB) return pctB - pctA; // Highest % first
+    return limitB - limitA; // Largest limit first
+};
 
-    // Sort budgets: highest percentage spent first, then by largest limit
-    const sortedBudgets = useMemo(() => {
-        return [...budgets].sort((a, b) => {
-            const spentA = spentByCategory[a.category_id] || 0;
-            const spentB = spentByCategory[b.category_id] || 0;
-            const pctA = a.monthly_limit > 0 ? spentA / a.monthly_limit : 0;
-            const pctB = b.monthly_limit > 0 ? spentB / b.monthly_limit : 0;
+export function BudgetCategoryList({ progress, categories, onBudgetClick }: BudgetCategoryListProps) {
+    // The overall budget leads, then group budgets with their category budgets
+    // nested underneath, alongside category budgets in groups without one
+    const rows = useMemo(() => {
+        const visible = progress.filter(p =>
+            p.budget.scope !== 'category' || categories.some(c => c.id === p.budget.categoryId)
+        );
+        const budgetedGroups = new Set(visible.filter(p => p.budget.scope === 'group').map(p => p.budget.group));
+        const parentOf = (p: BudgetProgress) => getBudgetParentGroup(p.budget, categories);
 
-            if (pctA !== pctB) return pctB - pctA; // Highest % first
-            return b.monthly_limit - a.monthly_limit; // Largest limit first
-        });
-    }, [budgets, spentByCategory]);
+        const result: { item: BudgetProgress; nested: boolean }[] = visible
+            .filter(p => p.budget.scope === 'total')
+            .map(item => ({ item, nested: false }));
+        const topLevel = visible
+            .filter(p => p.budget.scope === 'group' || (p.budget.scope === 'category' && !budgetedGroups.has(parentOf(p))))
+            .sort(byUsage);
+        for (const item of topLevel) {
+            result.push({ item, nested: false });
+            if (item.budget.scope !== 'group') continue;
+            visible
+                .filter(p => p.budget.scope === 'category' && parentOf(p) === item.budget.group)
+                .sort(byUsage)
+                .forEach(child => result.push({ item: child, nested: true }));
+        }
+        return result;
+    }, [progress, categories]);
 
-    if (sortedBudgets.length === 0) return null;
+    if (rows.length === 0) return null;
 
     return (
         <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden font-dm-sans">
-            {sortedBudgets.map((budget, index) => {
-                const category = categories.find(c => c.id === budget.category_id);
-                if (!category) return null;
+            {rows.map(({ item, nested }, index) => {
+                const { budget, window, spent } = item;
+                const display = getBudgetDisplay(budget, categories);
 
-                const spent = spentByCategory[category.id] || 0;
-                const limit = budget.monthly_limit;
-                const progressPercent = limit > 0 ? (spent / limit) * 100 : 0;
+                // Rolled-over money (or debt) moves the line for this period
+                const limit = getBudgetAvailable(item);
+                const pace = getBudgetPace(window, spent);
+                const isPastPeriod = pace.isFinished;
+                const progressPercent = limit > 0 ? (spent / limit) * 100 : spent > 0 ? 100 : 0;
                 const clampedProgress = Math.min(100, progressPercent);
                 const isOverBudget = spent > limit;
                 const isZero = spent === 0;
@@ -60,26 +77,26 @@ export function BudgetCategoryList({ budgets, categories, spentByCategory, selec
                     barColorClass = "bg-[#F59E0B]"; // Amber
                 }
 
-                const IconComponent = (LucideIcons as any)[category.icon];
+                const IconComponent = (LucideIcons as any)[display.icon];
 
                 return (
                     <button
                         key={budget.id}
-                        onClick={() => onCategoryClick(category, spent, limit)}
-                        className={`w-full text-left p-4 active:bg-gray-50 transition-colors ${index !== sortedBudgets.length - 1 ? 'border-b border-[#F1F5F9]' : ''
+                        onClick={() => onBudgetClick(item)}
+                        className={`w-full text-left p-4 active:bg-gray-50 transition-colors ${nested ? 'pl-10 bg-slate-50/50' : ''} ${index !== rows.length - 1 ? 'border-b border-[#F1F5F9]' : ''
                             }`}
                     >
                         {/* Top Row: Icon, Name, Subtitle, Spent/Limit */}
-                        <div className={`flex items-start gap-4 mb-3 ${isPastMonth ? 'opacity-60' : ''}`}>
+                        <div className={`flex items-start gap-4 mb-3 ${isPastPeriod ? 'opacity-60' : ''}`}>
                             {/* Icon */}
                             <div
                                 className="w-10 h-10 rounded-2xl flex items-center justify-center shrink-0"
-                                style={{ backgroundColor: `${category.color}20` }}
+                                style={{ backgroundColor: `${display.color}20` }}
                             >
                                 {IconComponent && (
                                     <IconComponent
                                         className="w-5 h-5"
-                                        style={{ color: category.color }}
+                                        style={{ color: display.color }}
                                     />
                                 )}
                             </div>
@@ -87,13 +104,25 @@ export function BudgetCategoryList({ budgets, categories, spentByCategory, selec
                             {/* Details */}
                             <div className="flex-1 min-w-0">
                                 <p className="text-[14px] font-bold text-gray-900 truncate">
-                                    {category.name}
+                                    {display.name}
+                                    {budget.scope !== 'category' && (
+                                        <span className="ml-1.5 text-[10px] font-semibold uppercase tracking-wide text-gray-400">
+                                            {budget.scope === 'group' ? 'Group' : 'Overall'}
+                                        </span>
+                                    )}
                                 </p>
+                                {budget.period !== 'monthly' && (
+                                    <p className="text-[11px] text-gray-400 font-medium">
+                                        {getBudgetPeriodMeta(budget.period).label} &middot; {formatBudgetWindow(budget, window)}
+                                    </p>
+                                )}
 
                                 <p className="text-[12px] mt-0.5">
-                                    {isZero ? (
+                                    {!pace.isActive && !pace.isFinished ? (
+                                        <span className="text-gray-400 font-medium">Starts {format(window.start, 'MMM d')}</span>
+                                    ) : isZero ? (
                                         <span className="text-gray-400 font-medium">No spending yet</span>
-                                    ) : isPastMonth ? (
+                                    ) : isPastPeriod ? (
                                         isOverBudget ? (
                                             <span className="text-rose-500 font-medium">Finished over budget</span>
                                         ) : (
@@ -107,6 +136,7 @@ export function BudgetCategoryList({ budgets, categories, spentByCategory, selec
                                         ) : (
                                             <span className="text-gray-500 font-medium">
                                                 {Math.round(progressPercent)}% used &middot; ${Math.round(remaining).toLocaleString()} left
+                                                {pace.daysLeft > 0 && ` · ${pace.daysLeft}d to go`}
                                             </span>
                                         )
                                     )}
@@ -119,13 +149,18 @@ export function BudgetCategoryList({ budgets, categories, spentByCategory, selec
                                     ${Math.round(spent).toLocaleString()}
                                 </p>
                                 <p className="text-[11px] text-gray-400 mt-0.5">
-                                    of ${Math.round(limit).toLocaleString()}
+                                    of ${Math.round(limit).toLocaleString()}{budget.period !== 'monthly' && ` / ${getBudgetPeriodMeta(budget.period).unit}`}
                                 </p>
+                                {item.carryIn !== 0 && (
+                                    <p className={`text-[11px] font-medium mt-0.5 ${item.carryIn > 0 ? 'text-green-600' : 'text-rose-500'}`}>
+                                        {item.carryIn > 0 ? '+' : '−'}${Math.round(Math.abs(item.carryIn)).toLocaleString()} rolled over
+                                    </p>
+                                )}
                             </div>
                         </div>
 
                         {/* Bottom Row: Progress Bar */}
-                        <div className={`w-full h-1.5 rounded-full bg-gray-100 overflow-hidden ${isPastMonth ? 'opacity-50' : ''}`}>
+                        <div className={`w-full h-1.5 rounded-full bg-gray-100 overflow-hidden ${isPastPeriod ? 'opacity-50' : ''}`}>
                             <div
                                 className={`h-full rounded-full transition-all duration-700 ease-out ${barColorClass}`}
                                 style={{ width: `${clampedProgress}%` }}
@@ -2,32 +2,50 @@ import { useMemo } from 'react';
 import { Drawer } from 'vaul';
 import { X } from 'lucide-react';
 import * as LucideIcons from 'lucide-react';
-import { format, isSameMonth, subMonths, isWithinInterval, startOfMonth, endOfMonth, parseISO } from 'date-fns';
+import { format, isWithinInterval, parseISO, eachDayOfInterval, eachMonthOfInterval, isSameDay, isSameMonth, min } from 'date-fns';
 import { useRef, useEffect } from 'react';
 import { Category, Transaction } from '../../types';
+import { getTransactionCategoryIds, hasSplits } from '../../utils/splits';
+import {
+    BudgetProgress,
+    formatBudgetWindow,
+    getBudgetAvailable,
+    getBudgetLedger,
+    getBudgetPace,
+    getBudgetWindowDays,
+    getPreviousBudgetWindow,
+} from '../../utils/budgetPeriods';
+import { getBudgetCategoryMatcher, getBudgetDisplay, getMatchedSpendAmount } from '../../utils/budgetTargets';
+
+// Periods longer than this chart one bar per month instead of per day
+const MAX_DAILY_BARS = 62;
+const LEDGER_ROWS = 12;
+
+const formatMoney = (value: number) => `${value < 0 ? '−' : ''}$${Math.round(Math.abs(value)).toLocaleString()}`;
 
 interface BudgetCategorySheetProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
-    category: Category | null;
-    selectedMonthStart: Date;
+    categories: Category[];
+    progress: BudgetProgress | null;
     transactions: Transaction[];
-    monthSpent: number;
-    monthLimit: number;
 }
 
 export function BudgetCategorySheet({
     open,
     onOpenChange,
-    category,
-    selectedMonthStart,
-    transactions,
-    monthSpent,
-    monthLimit
+    categories,
+    progress,
+    transactions
 }: BudgetCategorySheetProps) {
-    const isCurrentMonth = isSameMonth(selectedMonthStart, new Date());
     const scrollContainerRef = useRef<HTMLDivElement>(null);
 
+    // Which categories' spending this budget covers
+    const matches = useMemo(
+        () => (progress ? getBudgetCategoryMatcher(progress.budget, categories) : null),
+        [progress, categories]
+    );
+
     // Auto-scroll to the far right when opened
     // Use an interval to aggressively pin the scroll to the right during the entire 
     // Vaul Drawer slide-up animation (which alters container width dynamically).
@@ -52,76 +70,92 @@ export function BudgetCategorySheet({
                 clearTimeout(timeoutId);
             };
         }
-    }, [open, selectedMonthStart]);
+    }, [open, progress]);
 
     // Process transactions and history
     const {
         categoryTransactions,
-        dailyTotals,
-        maxDaily,
-        previousMonthSpent
+        chartBars,
+        maxBar,
+        previousSpent
     } = useMemo(() => {
-        if (!category) return { categoryTransactions: [], dailyTotals: [], maxDaily: 0, previousMonthSpent: 0 };
+        if (!matches || !progress) return { categoryTransactions: [], chartBars: [], maxBar: 0, previousSpent: null };
 
-        const monthEnd = endOfMonth(selectedMonthStart);
-        const prevMonthStart = startOfMonth(subMonths(selectedMonthStart, 1));
-        const prevMonthEnd = endOfMonth(prevMonthStart);
+        const { budget, window } = progress;
+        const previousWindow = getPreviousBudgetWindow(budget, window);
+        const byMonth = getBudgetWindowDays(window) > MAX_DAILY_BARS;
 
         const currentTxs: Transaction[] = [];
-        const daysMap = new Map<number, number>();
+        const barsMap = new Map<string, number>();
         let prevSpent = 0;
 
         transactions.forEach(t => {
-            if (t.category !== category.id || t.isRecurring) return;
+            if (!getTransactionCategoryIds(t).some(matches) || t.isRecurring) return;
+            const spend = getMatchedSpendAmount(t, matches);
 
             const tDate = parseISO(t.date);
 
-            // Current month processing
-            if (isWithinInterval(tDate, { start: selectedMonthStart, end: monthEnd })) {
+            // Current period processing
+            if (isWithinInterval(tDate, window)) {
                 currentTxs.push(t);
-                const day = tDate.getDate();
-                daysMap.set(day, (daysMap.get(day) || 0) + t.amount);
+                const key = format(tDate, byMonth ? 'yyyy-MM' : 'yyyy-MM-dd');
+                barsMap.set(key, (barsMap.get(key) || 0) + spend);
             }
 
-            // Previous month processing
-            if (isWithinInterval(tDate, { start: prevMonthStart, end: prevMonthEnd })) {
-                prevSpent += t.amount;
+            // Previous period processing
+            if (previousWindow && isWithinInterval(tDate, previousWindow)) {
+                prevSpent += spend;
             }
         });
 
-        // Generate array for all days in month up to the current day (if current month) OR the end of the month
-        const endDay = isSameMonth(selectedMonthStart, new Date())
-            ? Math.max(1, new Date().getDate())
-            : monthEnd.getDate();
+        // One bar per day (or month) of the period, up to today if it is still running
+        const chartEnd = min([window.end, new Date()]);
+        const slots = chartEnd < window.start
+            ? []
+            : byMonth
+                ? eachMonthOfInterval({ start: window.start, end: chartEnd })
+                : eachDayOfInterval({ start: window.start, end: chartEnd });
 
-        const dailyArr = [];
         let max = 0;
-        for (let i = 1; i <= endDay; i++) {
-            const val = daysMap.get(i) || 0;
-            if (val > max) max = val;
-            dailyArr.push({ day: i, amount: val });
-        }
+        const bars = slots.map((date) => {
+            const amount = barsMap.get(format(date, byMonth ? 'yyyy-MM' : 'yyyy-MM-dd')) || 0;
+            if (amount > max) max = amount;
+            const isToday = byMonth ? isSameMonth(date, new Date()) : isSameDay(date, new Date());
+            return { key: date.toISOString(), label: format(date, byMonth ? 'MMM' : 'd'), amount, isToday };
+        });
 
         // Sort latest first
         currentTxs.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
         return {
             categoryTransactions: currentTxs,
-            dailyTotals: dailyArr,
-            maxDaily: max,
-            previousMonthSpent: prevSpent
+            chartBars: bars,
+            maxBar: max,
+            previousSpent: previousWindow ? prevSpent : null
         };
-    }, [category, transactions, selectedMonthStart]);
+    }, [matches, transactions, progress]);
 
-    if (!category) return null;
+    // Carry ledger, latest period first
+    const ledger = useMemo(() => {
+        if (!progress?.budget.rollover) return [];
+        return getBudgetLedger(progress.budget, transactions, categories, progress.window.start).reverse().slice(0, LEDGER_ROWS);
+    }, [progress, transactions, categories]);
 
-    const IconComponent = (LucideIcons as any)[category.icon];
-    const diffFromPrev = monthSpent - previousMonthSpent;
-    const progressPercent = monthLimit > 0 ? (monthSpent / monthLimit) * 100 : 0;
+    if (!matches || !progress) return null;
+
+    const { budget, window, spent: periodSpent } = progress;
+    const periodLimit = getBudgetAvailable(progress);
+    const isCurrentPeriod = getBudgetPace(window, periodSpent).isActive;
+    const byMonth = getBudgetWindowDays(window) > MAX_DAILY_BARS;
+
+    const display = getBudgetDisplay(budget, categories);
+    const IconComponent = (LucideIcons as any)[display.icon];
+    const diffFromPrev = previousSpent === null ? 0 : periodSpent - previousSpent;
+    const progressPercent = periodLimit > 0 ? (periodSpent / periodLimit) * 100 : periodSpent > 0 ? 100 : 0;
     const clampedProgress = Math.min(100, progressPercent);
 
     let barColorClass = "bg-[#10B981]";
-    if (monthSpent > monthLimit || progressPercent > 90) {
+    if (periodSpent > periodLimit || progressPercent > 90) {
         barColorClass = "bg-[#EF4444]";
     } else if (progressPercent >= 70) {
         barColorClass = "bg-[#F59E0B]";
@@ -139,16 +173,16 @@ export function BudgetCategorySheet({
                             <div className="flex items-center gap-3">
                                 <div
                                     className="w-12 h-12 rounded-[14px] flex items-center justify-center shadow-sm"
-                                    style={{ backgroundColor: `${category.color}20` }}
+                                    style={{ backgroundColor: `${display.color}20` }}
                                 >
-                                    {IconComponent && <IconComponent className="w-6 h-6" style={{ color: category.color }} />}
+                                    {IconComponent && <IconComponent className="w-6 h-6" style={{ color: display.color }} />}
                                 </div>
                                 <div>
                                     <h2 className="text-[20px] font-bold text-gray-900 leading-tight tracking-tight">
-                                        {category.name}
+                                        {display.name}
                                     </h2>
                                     <p className="text-[13px] text-gray-500 font-medium">
-                                        {isCurrentMonth ? 'This month' : format(selectedMonthStart, 'MMMM yyyy')}
+                                        {isCurrentPeriod && budget.period === 'monthly' ? 'This month' : formatBudgetWindow(budget, window)}
                                     </p>
                                 </div>
                             </div>
@@ -168,12 +202,17 @@ export function BudgetCategorySheet({
                                 <div className="space-y-4 pt-1">
                                     <div className="flex items-end gap-2.5">
                                         <span className="text-4xl font-extrabold text-gray-900 tracking-tight leading-none">
-                                            ${Math.round(monthSpent).toLocaleString()}
+                                            ${Math.round(periodSpent).toLocaleString()}
                                         </span>
                                         <span className="text-lg font-medium text-gray-400 mb-1 leading-none">
-                                            / ${Math.round(monthLimit).toLocaleString()}
+                                            / ${Math.round(periodLimit).toLocaleString()}
                                         </span>
                                     </div>
+                                    {progress.carryIn !== 0 && (
+                                        <p className="text-[12px] text-gray-500 font-medium -mt-2">
+                                            ${Math.round(budget.limit).toLocaleString()} limit {progress.carryIn > 0 ? '+' : '−'} ${Math.round(Math.abs(progress.carryIn)).toLocaleString()} rolled over
+                                        </p>
+                                    )}
 
                                     <div className="w-full h-2.5 rounded-full bg-gray-100 overflow-hidden">
                                         <div
@@ -182,40 +221,42 @@ export function BudgetCategorySheet({
                                         />
                                     </div>
 
-                                    {/* Month over Month Comparison */}
-                                    <div className="flex items-center gap-2 mt-2">
-                                        {diffFromPrev < 0 ? (
-                                            <span className="inline-flex items-center gap-1 bg-green-50 text-green-700 text-[12px] font-bold px-2 py-0.5 rounded-md">
-                                                ↓ ${Math.round(Math.abs(diffFromPrev)).toLocaleString()}
-                                            </span>
-                                        ) : diffFromPrev > 0 ? (
-                                            <span className="inline-flex items-center gap-1 bg-red-50 text-red-700 text-[12px] font-bold px-2 py-0.5 rounded-md">
-                                                ↑ ${Math.round(diffFromPrev).toLocaleString()}
-                                            </span>
-                                        ) : (
-                                            <span className="inline-flex items-center gap-1 bg-gray-50 text-gray-600 text-[12px] font-bold px-2 py-0.5 rounded-md">
-                                                No change
-                                            </span>
-                                        )}
-                                        <span className="text-[12px] text-gray-400 font-medium">vs previous month</span>
-                                    </div>
+                                    {/* Period over Period Comparison */}
+                                    {previousSpent !== null && (
+                                        <div className="flex items-center gap-2 mt-2">
+                                            {diffFromPrev < 0 ? (
+                                                <span className="inline-flex items-center gap-1 bg-green-50 text-green-700 text-[12px] font-bold px-2 py-0.5 rounded-md">
+                                                    ↓ ${Math.round(Math.abs(diffFromPrev)).toLocaleString()}
+                                                </span>
+                                            ) : diffFromPrev > 0 ? (
+                                                <span className="inline-flex items-center gap-1 bg-red-50 text-red-700 text-[12px] font-bold px-2 py-0.5 rounded-md">
+                                                    ↑ ${Math.round(diffFromPrev).toLocaleString()}
+                                                </span>
+                                            ) : (
+                                                <span className="inline-flex items-center gap-1 bg-gray-50 text-gray-600 text-[12px] font-bold px-2 py-0.5 rounded-md">
+                                                    No change
+                                                </span>
+                                            )}
+                                            <span className="text-[12px] text-gray-400 font-medium">vs previous {budget.period === 'monthly' ? 'month' : 'period'}</span>
+                                        </div>
+                                    )}
                                 </div>
 
                                 <div>
                                     <h3 className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.15em] mb-4">
-                                        Daily Spending
+                                        {byMonth ? 'Monthly Spending' : 'Daily Spending'}
                                     </h3>
                                     <div
                                         ref={scrollContainerRef}
                                         className="w-full overflow-x-auto pb-2 scrollbar-hide"
                                     >
                                         <div className="flex items-end gap-[4px] h-[140px] px-1 min-w-max">
-                                            {dailyTotals.map((day) => {
-                                                const heightPct = maxDaily > 0 ? (day.amount / maxDaily) * 90 : 0;
-                                                const isToday = day.day === new Date().getDate() && isCurrentMonth;
+                                            {chartBars.map((day) => {
+                                                const heightPct = maxBar > 0 ? (day.amount / maxBar) * 90 : 0;
+                                                const isToday = day.isToday && isCurrentPeriod;
 
                                                 return (
-                                                    <div key={day.day} className="flex flex-col items-center justify-end h-full w-[14px] shrink-0 group relative">
+                                                    <div key={day.key} className="flex flex-col items-center justify-end h-full w-[14px] shrink-0 group relative">
                                                         {/* Tooltip on hover */}
                                                         {day.amount > 0 && (
                                                             <div className="absolute bottom-full mb-1 flex justify-center w-full opacity-0 group-hover:opacity-100 transition-opacity z-10">
@@ -238,7 +279,7 @@ export function BudgetCategorySheet({
                                                         {/* X-Axis Label Zone */}
                                                         <div className="mt-1 h-[28px] flex flex-col items-center justify-start">
                                                             <span className="text-[10px] whitespace-nowrap font-medium text-gray-400">
-                                                                {day.day}
+                                                                {day.label}
                                                             </span>
                                                             {isToday && (
                                                                 <div className="flex flex-col items-center">
@@ -254,6 +295,42 @@ export function BudgetCategorySheet({
                                     </div>
                                 </div>
 
+                                {/* Rollover Ledger */}
+                                {ledger.length > 0 && (
+                                    <div>
+                                        <h3 className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.15em] mb-3">
+                                            Rollover Ledger
+                                        </h3>
+                                        <div className="rounded-[16px] border border-gray-100 overflow-hidden">
+                                            <div className="grid grid-cols-[1.4fr_repeat(4,1fr)] gap-2 px-3 py-2 bg-gray-50 text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                                                <span>Period</span>
+                                                <span className="text-right">Limit</span>
+                                                <span className="text-right">Carry in</span>
+                                                <span className="text-right">Spent</span>
+                                                <span className="text-right">Carry out</span>
+                                            </div>
+                                            {ledger.map((entry) => (
+                                                <div
+                                                    key={entry.window.start.toISOString()}
+                                                    className="grid grid-cols-[1.4fr_repeat(4,1fr)] gap-2 px-3 py-2.5 border-t border-gray-100 text-[12px] font-mono tabular-nums"
+                                                >
+                                                    <span className="font-sans font-semibold text-gray-700 truncate">
+                                                        {formatBudgetWindow(budget, entry.window)}
+                                                    </span>
+                                                    <span className="text-right text-gray-600">{formatMoney(entry.limit)}</span>
+                                                    <span className={`text-right ${entry.carryIn < 0 ? 'text-rose-500' : 'text-gray-600'}`}>
+                                                        {formatMoney(entry.carryIn)}
+                                                    </span>
+                                                    <span className="text-right text-gray-900">{formatMoney(entry.spent)}</span>
+                                                    <span className={`text-right font-bold ${entry.carryOut < 0 ? 'text-rose-500' : 'text-green-600'}`}>
+                                                        {formatMoney(entry.carryOut)}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* Transaction List */}
                                 <div>
                                     <h3 className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.15em] mb-3">
@@ -276,12 +353,13 @@ export function BudgetCategorySheet({
                                                             </p>
                                                             <p className="text-[12px] text-gray-500">
                                                                 {format(parseISO(tx.date), 'MMM d, yyyy')}
+                                                                {hasSplits(tx) && ` · Split of $${tx.amount.toFixed(2)}`}
                                                             </p>
                                                         </div>
                                                     </div>
                                                     <div className="shrink-0 pl-3">
                                                         <p className="text-[15px] font-bold text-gray-900 font-mono">
-                                                            ${tx.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                                            ${(hasSplits(tx) ? getMatchedSpendAmount(tx, matches) : tx.amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                                                         </p>
                                                     </div>
                                                 </div>
@@ -290,7 +368,7 @@ export function BudgetCategorySheet({
                                     ) : (
                                         <div className="text-center py-6 bg-gray-50 rounded-[16px]">
                                             <p className="text-[13px] font-semibold text-gray-500">No transactions</p>
-                                            <p className="text-[12px] text-gray-400 mt-1">No spending in this category yet.</p>
+                                            <p className="text-[12px] text-gray-400 mt-1">No spending {budget.scope === 'category' ? 'in this category' : 'under this budget'} yet.</p>
                                         </div>
                                     )}
                                 </div>
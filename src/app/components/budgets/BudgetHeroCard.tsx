@@ -5,9 +5,10 @@ interface BudgetHeroCardProps {
     monthSpent: number;
     totalLimit: number;
     selectedMonthStart: Date;
+    isOverallBudget?: boolean; // The envelope is an overall cap rather than the sum of individual budgets
 }
 
-export function BudgetHeroCard({ monthSpent, totalLimit, selectedMonthStart }: BudgetHeroCardProps) {
+export function BudgetHeroCard({ monthSpent, totalLimit, selectedMonthStart, isOverallBudget }: BudgetHeroCardProps) {
     const today = new Date();
     const isCurrent = isSameMonth(selectedMonthStart, today);
     const isPastMonth = isPast(selectedMonthStart) && !isCurrent;
@@ -47,7 +48,7 @@ export function BudgetHeroCard({ monthSpent, totalLimit, selectedMonthStart }: B
 
             {/* Line 1: Month Label */}
             <p className="text-[12px] font-bold tracking-[0.15em] uppercase text-white/70 mb-4 z-10 relative">
-                {format(selectedMonthStart, 'MMMM yyyy')}
+                {format(selectedMonthStart, 'MMMM yyyy')}{isOverallBudget && ' · Overall budget'}
             </p>
 
             {/* Line 2: Large Amount Display */}
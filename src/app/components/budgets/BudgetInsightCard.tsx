@@ -1,71 +1,48 @@
 import { useMemo } from 'react';
-import { getDaysInMonth, isSameMonth } from 'date-fns';
-import { Category } from '../../types';
+import { Budget, Category } from '../../types';
 import { AlertCircle } from 'lucide-react';
-
-interface BudgetRow {
-    id: string;
-    category_id: string;
-    monthly_limit: number;
-}
+import { BudgetProgress, getBudgetAvailable, getBudgetPace } from '../../utils/budgetPeriods';
+import { getBudgetDisplay } from '../../utils/budgetTargets';
 
 interface BudgetInsightCardProps {
-    budgets: BudgetRow[];
+    progress: BudgetProgress[];
     categories: Category[];
-    spentByCategory: Record<string, number>;
-    selectedMonthStart: Date;
 }
 
-export function BudgetInsightCard({ budgets, categories, spentByCategory, selectedMonthStart }: BudgetInsightCardProps) {
-    const today = new Date();
-    const isCurrent = isSameMonth(selectedMonthStart, today);
-
-    // Only show insights for the current month
-    if (!isCurrent) return null;
-
+export function BudgetInsightCard({ progress, categories }: BudgetInsightCardProps) {
     const { worstCategory, worstOverage, daysLeft } = useMemo(() => {
+        const today = new Date();
         let maxOverage = 0;
-        let cId: string | null = null;
-        let cLimit = 0;
-        let cSpent = 0;
-
-        const totalDays = getDaysInMonth(selectedMonthStart);
-        const elapsed = Math.max(1, today.getDate());
+        let worst: { budget: Budget; limit: number; spent: number; daysLeft: number } | null = null;
 
-        // Don't calculate pace on the 1st of the month
-        if (elapsed <= 1) return { worstCategory: null, worstOverage: 0, daysLeft: totalDays };
+        for (const item of progress) {
+            const { budget, window, spent } = item;
+            const limit = getBudgetAvailable(item);
+            const pace = getBudgetPace(window, spent, today);
+            // Only periods in progress, and not on their first day
+            if (!pace.isActive || pace.elapsedDays <= 1 || limit <= 0) continue;
 
-        budgets.forEach(b => {
-            const spent = spentByCategory[b.category_id] || 0;
-            const pace = (spent / elapsed) * totalDays;
-            const overage = pace - b.monthly_limit;
+            const overage = pace.projected - limit;
 
             // We care if either: they are 80%+ already OR pacing to be over
-            if (overage > maxOverage || (spent / b.monthly_limit) >= 0.8) {
+            if (overage > maxOverage || (spent / limit) >= 0.8) {
                 // Prioritize pacing overage over just being at 80% if there are multiple
-                if (overage > maxOverage) {
-                    maxOverage = overage;
-                    cId = b.category_id;
-                    cLimit = b.monthly_limit;
-                    cSpent = spent;
-                } else if (!cId) {
+                if (overage > maxOverage || !worst) {
                     maxOverage = overage;
-                    cId = b.category_id;
-                    cLimit = b.monthly_limit;
-                    cSpent = spent;
+                    worst = { budget, limit, spent, daysLeft: pace.daysLeft };
                 }
             }
-        });
+        }
 
-        if (!cId) return { worstCategory: null, worstOverage: 0, daysLeft: totalDays - elapsed };
+        if (!worst) return { worstCategory: null, worstOverage: 0, daysLeft: 0 };
 
-        const category = categories.find(c => c.id === cId);
+        const { name } = getBudgetDisplay(worst.budget, categories);
         return {
-            worstCategory: category ? { ...category, limit: cLimit, spent: cSpent } : null,
+            worstCategory: { name, limit: worst.limit, spent: worst.spent },
             worstOverage: Math.round(Math.max(0, maxOverage)),
-            daysLeft: totalDays - elapsed
+            daysLeft: worst.daysLeft
         };
-    }, [budgets, categories, spentByCategory, selectedMonthStart, today]);
+    }, [progress, categories]);
 
     if (!worstCategory) return null;
 
@@ -87,9 +64,9 @@ export function BudgetInsightCard({ budgets, categories, spentByCategory, select
                         </>
                     ) : (
                         <>
-                            <span className="font-bold">{worstCategory.name}</span> reached {percentSpent}% of its limit this month.
+                            <span className="font-bold">{worstCategory.name}</span> reached {percentSpent}% of its limit this period.
                             {worstCategory.spent > worstCategory.limit && (
-                                <> Monthly limit exceeded by <span className="font-bold">${Math.round(worstCategory.spent - worstCategory.limit).toLocaleString()}</span>.</>
+                                <> Limit exceeded by <span className="font-bold">${Math.round(worstCategory.spent - worstCategory.limit).toLocaleString()}</span>.</>
                             )}
                         </>
                     )}
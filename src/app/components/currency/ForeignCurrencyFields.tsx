@@ -0,0 +1,91 @@
+import { useEffect, useRef } from 'react';
+import { useExpense } from '../../context/ExpenseContext';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { CURRENCIES, formatCurrencyAmount } from '../../utils/currency';
+
+interface ForeignCurrencyFieldsProps {
+  currency: string;
+  onCurrencyChange: (currency: string) => void;
+  rate: string;
+  onRateChange: (rate: string) => void;
+  amount: string;
+  date: string;
+}
+
+/**
+ * Currency chips plus, for foreign currencies, the rate that will be stored on
+ * the transaction. The rate is pre-filled from the local rate table.
+ */
+export function ForeignCurrencyFields({ currency, onCurrencyChange, rate, onRateChange, amount, date }: ForeignCurrencyFieldsProps) {
+  const { homeCurrency, getExchangeRate } = useExpense();
+  const isForeign = currency !== homeCurrency;
+  const lastLookup = useRef(`${currency}|${date}`);
+
+  // Re-fill from the table when the currency or date changes, not on every render
+  useEffect(() => {
+    const key = `${currency}|${date}`;
+    if (key === lastLookup.current && rate) return;
+    lastLookup.current = key;
+
+    if (!isForeign) {
+      onRateChange('');
+      return;
+    }
+    const tableRate = getExchangeRate(currency, date);
+    onRateChange(tableRate !== null ? String(tableRate) : '');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currency, date, isForeign]);
+
+  const parsedAmount = parseFloat(amount);
+  const parsedRate = parseFloat(rate);
+  const converted = parsedAmount > 0 && parsedRate > 0 ? parsedAmount * parsedRate : null;
+
+  const options = [
+    homeCurrency,
+    ...CURRENCIES.map(c => c.code).filter(code => code !== homeCurrency),
+  ];
+
+  return (
+    <div className="space-y-2">
+      <Label>Currency</Label>
+      <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1 scrollbar-hide">
+        {options.map((code) => (
+          <button
+            key={code}
+            type="button"
+            onClick={() => onCurrencyChange(code)}
+            className={`shrink-0 px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${currency === code
+              ? 'bg-black text-white border-black'
+              : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+          >
+            {code}
+          </button>
+        ))}
+      </div>
+
+      {isForeign && (
+        <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm space-y-2">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span className="shrink-0">1 {currency} =</span>
+            <Input
+              type="number"
+              step="0.0001"
+              placeholder="Rate"
+              value={rate}
+              onChange={(e) => onRateChange(e.target.value)}
+              className="h-10 rounded-xl"
+            />
+            <span className="shrink-0">{homeCurrency}</span>
+          </div>
+          <p className="text-xs text-gray-500">
+            {converted !== null
+              ? `≈ ${formatCurrencyAmount(converted, homeCurrency)} in your home currency`
+              : 'No rate on file for this date. Enter one or add it under Settings → Exchange Rates.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
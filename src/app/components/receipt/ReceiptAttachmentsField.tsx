@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Camera, ChevronLeft, ChevronRight, Loader2, X } from 'lucide-react';
+import { Label } from '../ui/label';
+import { TransactionAttachment } from '../../types';
+import { ReceiptThumbnail } from './ReceiptThumbnail';
+import { ReceiptGallery } from './ReceiptGallery';
+
+interface ReceiptAttachmentsFieldProps {
+  attachments: TransactionAttachment[];
+  onChange: (attachments: TransactionAttachment[]) => void;
+  onTakePhoto: () => void;
+  onUpload: () => void;
+  isAdding?: boolean;
+  scanProgress?: number | null; // 0-1 while OCR is reading the receipt
+  description?: string;
+}
+
+export function ReceiptAttachmentsField({
+  attachments,
+  onChange,
+  onTakePhoto,
+  onUpload,
+  isAdding = false,
+  scanProgress = null,
+  description = 'Receipts, invoices or warranties for reference later.',
+}: ReceiptAttachmentsFieldProps) {
+  const [galleryIndex, setGalleryIndex] = useState<number | null>(null);
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= attachments.length) return;
+    const next = [...attachments];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (index: number) => onChange(attachments.filter((_, i) => i !== index));
+
+  return (
+    <>
+      <div className="bg-white p-4 rounded-2xl border border-gray-200 shadow-sm space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Label className="text-gray-900 font-medium block">Attachments</Label>
+            <span className="text-xs text-gray-500">
+              {description} Images (JPG, PNG, WEBP, HEIC) up to 35 MB, PDFs up to 10 MB.
+            </span>
+          </div>
+          {scanProgress !== null ? (
+            <span className="inline-flex items-center gap-1 text-[11px] font-medium text-blue-600 bg-blue-50 px-2.5 py-1 rounded-full shrink-0">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Reading {Math.round(scanProgress * 100)}%
+            </span>
+          ) : attachments.length > 0 && (
+            <span className="text-[11px] font-medium text-green-600 bg-green-50 px-2.5 py-1 rounded-full shrink-0">
+              {attachments.length} attached
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={onTakePhoto}
+            disabled={isAdding}
+            className="inline-flex items-center gap-2 rounded-full border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Camera className="w-4 h-4" />
+            Take photo
+          </button>
+          <button
+            type="button"
+            onClick={onUpload}
+            disabled={isAdding}
+            className="inline-flex items-center gap-2 rounded-full border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <span className="text-base leading-none">🖼️</span>
+            Add files
+          </button>
+          {isAdding && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+        </div>
+
+        {attachments.length === 0 ? (
+          <div className="w-full h-24 rounded-2xl border border-dashed border-gray-200 bg-gray-50 flex items-center justify-center text-sm text-gray-400">
+            No attachments
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-3 sm:grid-cols-4">
+            {attachments.map((attachment, index) => (
+              <div key={attachment.id} className="relative">
+                <button
+                  type="button"
+                  onClick={() => setGalleryIndex(index)}
+                  className="block w-full text-left"
+                >
+                  <ReceiptThumbnail attachment={attachment} className="w-full aspect-[3/4] rounded-xl border border-gray-200" />
+                  <p className="mt-1 text-[11px] text-gray-500 truncate">{attachment.name}</p>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(index)}
+                  className="absolute top-1.5 right-1.5 p-1 rounded-full bg-black/60 text-white hover:bg-black/80 transition-colors"
+                  aria-label={`Remove ${attachment.name}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+                {attachments.length > 1 && (
+                  <div className="absolute bottom-6 inset-x-1.5 flex justify-between">
+                    <button
+                      type="button"
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 rounded-full bg-black/60 text-white hover:bg-black/80 transition-colors disabled:invisible"
+                      aria-label="Move earlier"
+                    >
+                      <ChevronLeft className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(index, 1)}
+                      disabled={index === attachments.length - 1}
+                      className="p-1 rounded-full bg-black/60 text-white hover:bg-black/80 transition-colors disabled:invisible"
+                      aria-label="Move later"
+                    >
+                      <ChevronRight className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ReceiptGallery
+        items={attachments.map((attachment) => ({ attachment }))}
+        startIndex={galleryIndex}
+        onClose={() => setGalleryIndex(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,26 @@
+import { ScanText } from 'lucide-react';
+import { getReceiptConfidenceLevel, ReceiptConfidenceLevel } from '../../utils/receiptParser';
+
+interface ReceiptConfidenceBadgeProps {
+  confidence: number;
+}
+
+const LEVEL_STYLES: Record<ReceiptConfidenceLevel, { label: string; className: string }> = {
+  high: { label: 'From receipt', className: 'text-green-700 bg-green-50' },
+  medium: { label: 'Check this', className: 'text-amber-700 bg-amber-50' },
+  low: { label: 'Low confidence', className: 'text-red-600 bg-red-50' },
+};
+
+export function ReceiptConfidenceBadge({ confidence }: ReceiptConfidenceBadgeProps) {
+  const style = LEVEL_STYLES[getReceiptConfidenceLevel(confidence)];
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-[11px] font-medium ${style.className}`}
+      title={`Read from the receipt · ${Math.round(confidence * 100)}% confidence`}
+    >
+      <ScanText className="w-3 h-3" />
+      {style.label}
+    </span>
+  );
+}
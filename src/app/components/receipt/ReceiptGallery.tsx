@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, ExternalLink, FileText, X } from 'lucide-react';
+import { TransactionAttachment } from '../../types';
+import { useReceiptUrl } from '../../hooks/useReceiptImage';
+import { isPdfAttachment } from '../../utils/receiptExtractionService';
+
+export interface ReceiptGalleryItem {
+  attachment: TransactionAttachment;
+  caption?: string; // e.g. the vendor and date when browsing across transactions
+  transactionId?: string;
+}
+
+interface ReceiptGalleryProps {
+  items: ReceiptGalleryItem[];
+  startIndex: number | null; // null keeps the gallery closed
+  onClose: () => void;
+  onOpenTransaction?: (transactionId: string) => void;
+}
+
+export function ReceiptGallery({ items, startIndex, onClose, onOpenTransaction }: ReceiptGalleryProps) {
+  const [index, setIndex] = useState(0);
+  const isOpen = startIndex !== null && items.length > 0;
+  const current = isOpen ? items[Math.min(index, items.length - 1)] : undefined;
+  const url = useReceiptUrl(current?.attachment, 'image', isOpen);
+  const isPdf = current ? isPdfAttachment(current.attachment) : false;
+
+  useEffect(() => {
+    if (startIndex !== null) setIndex(startIndex);
+  }, [startIndex]);
+
+  const showPrevious = () => setIndex((i) => (i - 1 + items.length) % items.length);
+  const showNext = () => setIndex((i) => (i + 1) % items.length);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+      if (event.key === 'ArrowLeft') showPrevious();
+      if (event.key === 'ArrowRight') showNext();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, items.length, onClose]);
+
+  if (!current) return null;
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black flex flex-col" role="dialog" aria-modal="true">
+      <div className="flex items-center gap-3 px-4 py-3 text-white">
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors" aria-label="Close">
+          <X className="w-5 h-5" />
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{current.caption ?? current.attachment.name}</p>
+          {items.length > 1 && (
+            <p className="text-xs text-white/60">{index + 1} of {items.length}</p>
+          )}
+        </div>
+        {current.transactionId && onOpenTransaction && (
+          <button
+            onClick={() => onOpenTransaction(current.transactionId!)}
+            className="inline-flex items-center gap-1.5 rounded-full bg-white/10 px-3 py-1.5 text-xs font-medium hover:bg-white/20 transition-colors"
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+            Transaction
+          </button>
+        )}
+        {url && (
+          <a
+            href={url}
+            download={current.attachment.name}
+            className="p-2 hover:bg-white/10 rounded-full transition-colors"
+            aria-label="Download"
+          >
+            <Download className="w-5 h-5" />
+          </a>
+        )}
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex items-center justify-center px-4 pb-6">
+        {!url ? (
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white" />
+        ) : isPdf ? (
+          <div className="w-full h-full max-w-3xl flex flex-col gap-3">
+            <iframe src={url} title={current.attachment.name} className="flex-1 w-full rounded-xl bg-white" />
+            <a
+              href={url}
+              target="_blank"
+              rel="noreferrer"
+              className="self-center inline-flex items-center gap-2 text-sm font-medium text-white/80 hover:text-white"
+            >
+              <FileText className="w-4 h-4" />
+              Open PDF in a new tab
+            </a>
+          </div>
+        ) : (
+          <img src={url} alt={current.attachment.name} className="max-w-full max-h-full object-contain" />
+        )}
+
+        {items.length > 1 && (
+          <>
+            <button
+              onClick={showPrevious}
+              className="absolute left-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+              aria-label="Previous"
+            >
+              <ChevronLeft className="w-6 h-6" />
+            </button>
+            <button
+              onClick={showNext}
+              className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+              aria-label="Next"
+            >
+              <ChevronRight className="w-6 h-6" />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { FileText, ReceiptText } from 'lucide-react';
+import { TransactionAttachment } from '../../types';
+import { useNearViewport, useReceiptUrl } from '../../hooks/useReceiptImage';
+import { isPdfAttachment } from '../../utils/receiptExtractionService';
+
+interface ReceiptThumbnailProps {
+  attachment: TransactionAttachment;
+  className?: string;
+}
+
+/** Attachment preview that only reads the image once it scrolls near the viewport. */
+export function ReceiptThumbnail({ attachment, className = 'w-10 h-10 rounded-xl' }: ReceiptThumbnailProps) {
+  const { ref, isNear } = useNearViewport<HTMLDivElement>();
+  const isPdf = isPdfAttachment(attachment);
+  const url = useReceiptUrl(attachment, 'thumbnail', isNear && !isPdf);
+
+  return (
+    <div ref={ref} className={`${className} overflow-hidden bg-gray-100 flex items-center justify-center flex-shrink-0`}>
+      {url ? (
+        <img src={url} alt={attachment.name} className="w-full h-full object-cover" />
+      ) : isPdf ? (
+        <FileText className="w-4 h-4 text-red-400" />
+      ) : (
+        <ReceiptText className="w-4 h-4 text-gray-300" />
+      )}
+    </div>
+  );
+}
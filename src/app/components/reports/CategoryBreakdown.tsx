@@ -1,5 +1,7 @@
 import { useState, useMemo } from 'react';
 import { Transaction, Category } from '../../types';
+import { getSpendAmount } from '../../utils/cashFlow';
+import { getCategoryAllocations, transactionHasCategory } from '../../utils/splits';
 import { motion, AnimatePresence } from 'motion/react';
 import { ChevronDown, ChevronRight, ChevronUp } from 'lucide-react';
 import { CategoryDetailSheet } from './CategoryDetailSheet';
@@ -18,8 +20,10 @@ export function CategoryBreakdown({ transactions, categories }: CategoryBreakdow
         let total = 0;
 
         transactions.forEach(t => {
-            counts[t.category] = (counts[t.category] || 0) + t.amount;
-            total += t.amount;
+            getCategoryAllocations(t).forEach(({ categoryId, amount }) => {
+                counts[categoryId] = (counts[categoryId] || 0) + amount;
+            });
+            total += getSpendAmount(t);
         });
 
         const breakdown = Object.entries(counts)
@@ -119,7 +123,7 @@ export function CategoryBreakdown({ transactions, categories }: CategoryBreakdow
                 isOpen={selectedCategory !== null}
                 onClose={() => setSelectedCategory(null)}
                 category={selectedCategory ? categories.find(c => c.id === selectedCategory.id) || null : null}
-                transactions={selectedCategory ? transactions.filter(t => t.category === selectedCategory.id) : []}
+                transactions={selectedCategory ? transactions.filter(t => transactionHasCategory(t, selectedCategory.id)) : []}
                 totalAmount={selectedCategory?.amount || 0}
             />
         </>
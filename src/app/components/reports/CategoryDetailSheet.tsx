@@ -2,6 +2,7 @@ import { motion, AnimatePresence } from 'motion/react';
 import { X } from 'lucide-react';
 import { Transaction, Category } from '../../types';
 import { format, parseISO } from 'date-fns';
+import { getCategorySpendAmount, hasSplits } from '../../utils/splits';
 
 interface CategoryDetailSheetProps {
     isOpen: boolean;
@@ -78,10 +79,11 @@ export function CategoryDetailSheet({ isOpen, onClose, category, transactions, t
                                                 <span className="text-[13px] text-gray-500 mt-0.5 font-medium">
                                                     {format(parseISO(t.date), 'MMM d, yyyy')}
                                                     {t.isRecurring && ' • Recurring'}
+                                                    {hasSplits(t) && ` • Split of $${t.amount.toFixed(0)}`}
                                                 </span>
                                             </div>
                                             <span className="text-[15px] font-bold text-gray-900 flex-none leading-none">
-                                                ${t.amount.toFixed(0)}
+                                                ${(hasSplits(t) && category ? getCategorySpendAmount(t, category.id) : t.amount).toFixed(0)}
                                             </span>
                                         </div>
                                     ))
@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import { Transaction, Category } from '../../types';
+import { getSpendAmount } from '../../utils/cashFlow';
 import { differenceInMonths, parseISO, isWithinInterval, subMonths } from 'date-fns';
 import { TimePeriod } from './PeriodSelector';
 import { TrendingDown, TrendingUp, Minus } from 'lucide-react';
@@ -32,9 +33,9 @@ export function ComparisonChart({ transactions, categories, dateRange, timePerio
             const catId = t.category;
 
             if (isWithinInterval(tDate, { start: dateRange.start, end: dateRange.end })) {
-                currentTotals[catId] = (currentTotals[catId] || 0) + t.amount;
+                currentTotals[catId] = (currentTotals[catId] || 0) + getSpendAmount(t);
             } else if (isWithinInterval(tDate, { start: prevStart, end: prevEnd })) {
-                previousTotals[catId] = (previousTotals[catId] || 0) + t.amount;
+                previousTotals[catId] = (previousTotals[catId] || 0) + getSpendAmount(t);
             }
         });
 
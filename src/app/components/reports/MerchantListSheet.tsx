@@ -3,6 +3,7 @@ import { X, ChevronRight } from 'lucide-react';
 import { Transaction, Category } from '../../types';
 import { useState } from 'react';
 import { MerchantDetailSheet } from './MerchantDetailSheet';
+import { getSpendAmount } from '../../utils/cashFlow';
 
 interface MerchantListSheetProps {
     isOpen: boolean;
@@ -24,7 +25,7 @@ export function MerchantListSheet({ isOpen, onClose, transactions, categories }:
         if (!vendorsMap[t.vendor]) {
             vendorsMap[t.vendor] = { total: 0, count: 0, categoryId: t.category };
         }
-        vendorsMap[t.vendor].total += t.amount;
+        vendorsMap[t.vendor].total += getSpendAmount(t);
         vendorsMap[t.vendor].count += 1;
     });
 
@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import { Transaction } from '../../types';
+import { getSpendAmount } from '../../utils/cashFlow';
 import { PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
 import { useExpense } from '../../context/ExpenseContext';
 
@@ -16,9 +17,9 @@ export function RecurringVsVariable({ transactions }: RecurringVsVariableProps)
 
         transactions.forEach(t => {
             if (t.isRecurring) {
-                rec += t.amount;
+                rec += getSpendAmount(t);
             } else {
-                varAmt += t.amount;
+                varAmt += getSpendAmount(t);
             }
         });
 
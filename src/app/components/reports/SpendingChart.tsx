@@ -3,6 +3,7 @@ import { Transaction } from '../../types';
 import { TimePeriod } from './PeriodSelector';
 import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer, Cell, YAxis, ReferenceLine } from 'recharts';
 import { format, parseISO, eachDayOfInterval, eachWeekOfInterval, isSameDay, isSameWeek, differenceInDays } from 'date-fns';
+import { getHomeAmount, getSpendAmount, getTransactionDirection } from '../../utils/cashFlow';
 
 interface SpendingChartProps {
     transactions: Transaction[];
@@ -24,10 +25,22 @@ export function SpendingChart({ transactions, dateRange, timePeriod }: SpendingC
         return daysDiff <= 14 ? 'daily' : 'weekly';
     }, [timePeriod, dateRange]);
 
-    const { chartData, average } = useMemo(() => {
-        let buckets: { label: string; fullDate: string; date: Date; amount: number; isCurrentPeriod: boolean }[] = [];
+    const { chartData, average, hasIncome } = useMemo(() => {
+        let buckets: { label: string; fullDate: string; date: Date; amount: number; income: number; isCurrentPeriod: boolean }[] = [];
         const today = new Date();
         let totalAmount = 0;
+        let totalIncome = 0;
+
+        // Spending bars are net of refunds; income is tracked separately so the chart can show cash flow
+        const addToBucket = (bucket: { amount: number; income: number }, t: Transaction) => {
+            const spend = getSpendAmount(t);
+            bucket.amount += spend;
+            totalAmount += spend;
+            if (getTransactionDirection(t) === 'income') {
+                bucket.income += getHomeAmount(t);
+                totalIncome += getHomeAmount(t);
+            }
+        };
 
         if (granularity === 'daily') {
             const days = eachDayOfInterval(dateRange);
@@ -36,6 +49,7 @@ export function SpendingChart({ transactions, dateRange, timePeriod }: SpendingC
                 fullDate: format(day, 'MMM d, yyyy'),
                 date: day,
                 amount: 0,
+                income: 0,
                 isCurrentPeriod: isSameDay(day, today)
             }));
 
@@ -43,8 +57,7 @@ export function SpendingChart({ transactions, dateRange, timePeriod }: SpendingC
                 const tDate = parseISO(t.date);
                 const bucket = buckets.find(b => isSameDay(b.date, tDate));
                 if (bucket) {
-                    bucket.amount += t.amount;
-                    totalAmount += t.amount;
+                    addToBucket(bucket, t);
                 }
             });
         } else {
@@ -54,6 +67,7 @@ export function SpendingChart({ transactions, dateRange, timePeriod }: SpendingC
                 fullDate: `Week of ${format(week, 'MMM d, yyyy')}`,
                 date: week,
                 amount: 0,
+                income: 0,
                 isCurrentPeriod: isSameWeek(week, today)
             }));
 
@@ -61,8 +75,7 @@ export function SpendingChart({ transactions, dateRange, timePeriod }: SpendingC
                 const tDate = parseISO(t.date);
                 const bucket = buckets.find(b => isSameWeek(b.date, tDate));
                 if (bucket) {
-                    bucket.amount += t.amount;
-                    totalAmount += t.amount;
+                    addToBucket(bucket, t);
                 }
             });
         }
@@ -75,7 +88,7 @@ export function SpendingChart({ transactions, dateRange, timePeriod }: SpendingC
 
         const avg = buckets.length > 0 ? totalAmount / buckets.length : 0;
 
-        return { chartData: buckets, average: avg };
+        return { chartData: buckets, average: avg, hasIncome: totalIncome > 0 };
     }, [transactions, dateRange, granularity, timePeriod]);
 
 
@@ -99,6 +112,9 @@ export function SpendingChart({ transactions, dateRange, timePeriod }: SpendingC
                         {data.fullDate}
                     </div>
                     ${displayAmount.toFixed(0)} spent
+                    {data.income > 0 && (
+                        <div className="text-green-400">+${data.income.toFixed(0)} in · net {data.income - displayAmount < 0 ? '-' : '+'}${Math.abs(data.income - displayAmount).toFixed(0)}</div>
+                    )}
                 </div>
             );
         }
@@ -112,9 +128,17 @@ export function SpendingChart({ transactions, dateRange, timePeriod }: SpendingC
 
     return (
         <div className="bg-white p-5 rounded-[16px] shadow-sm flex flex-col w-full h-[320px] relative">
-            <h3 className="text-[13px] font-bold text-gray-400 uppercase tracking-widest mb-4">
-                Spending Over Time
-            </h3>
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-[13px] font-bold text-gray-400 uppercase tracking-widest">
+                    {hasIncome ? 'Cash Flow Over Time' : 'Spending Over Time'}
+                </h3>
+                {hasIncome && (
+                    <div className="flex items-center gap-3 text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-[#3B82F6]" />Out</span>
+                        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-[#22C55E]" />In</span>
+                    </div>
+                )}
+            </div>
 
             {/* Scrollable Chart Container */}
             <div className="flex-1 w-full min-h-0 relative -ml-2 group">
@@ -191,6 +215,15 @@ export function SpendingChart({ transactions, dateRange, timePeriod }: SpendingC
                                         />
                                     ))}
                                 </Bar>
+                                {hasIncome && (
+                                    <Bar
+                                        dataKey="income"
+                                        radius={[4, 4, 4, 4]}
+                                        maxBarSize={40}
+                                        animationDuration={500}
+                                        fill="#86EFAC"
+                                    />
+                                )}
                             </BarChart>
                         </ResponsiveContainer>
                     </div>
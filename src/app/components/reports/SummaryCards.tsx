@@ -1,6 +1,7 @@
 import { useMemo } from 'react';
 import { Transaction } from '../../types';
 import { differenceInDays, parseISO, format } from 'date-fns';
+import { getSpendAmount, summarizeCashFlow } from '../../utils/cashFlow';
 
 interface SummaryCardsProps {
     transactions: Transaction[];
@@ -9,13 +10,13 @@ interface SummaryCardsProps {
 
 export function SummaryCards({ transactions, dateRange }: SummaryCardsProps) {
     const stats = useMemo(() => {
-        let totalSpent = 0;
+        const cashFlow = summarizeCashFlow(transactions);
+        const totalSpent = cashFlow.netSpend;
         const dailyTotals: Record<string, number> = {};
 
         transactions.forEach(t => {
-            totalSpent += t.amount;
             const dateKey = t.date;
-            dailyTotals[dateKey] = (dailyTotals[dateKey] || 0) + t.amount;
+            dailyTotals[dateKey] = (dailyTotals[dateKey] || 0) + getSpendAmount(t);
         });
 
         // Calculate days in period for average
@@ -36,6 +37,8 @@ export function SummaryCards({ transactions, dateRange }: SummaryCardsProps) {
 
         return {
             totalSpent,
+            income: cashFlow.income,
+            net: cashFlow.net,
             dailyAvg,
             biggestDay: {
                 date: biggestDayDate,
@@ -44,27 +47,43 @@ export function SummaryCards({ transactions, dateRange }: SummaryCardsProps) {
         };
     }, [transactions, dateRange]);
 
+    const netLabel = `${stats.net < 0 ? '-' : '+'}$${Math.abs(stats.net).toFixed(0)}`;
+
     return (
-        <div className="grid grid-cols-3 gap-2 w-full mt-4">
-            <div className="bg-white p-3 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-center">
-                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Total Spent</span>
-                <span className="text-lg font-bold text-gray-900">${stats.totalSpent.toFixed(0)}</span>
-            </div>
+        <div className="w-full mt-4 space-y-2">
+            <div className="grid grid-cols-3 gap-2 w-full">
+                <div className="bg-white p-3 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-center">
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Total Spent</span>
+                    <span className="text-lg font-bold text-gray-900">${stats.totalSpent.toFixed(0)}</span>
+                </div>
+
+                <div className="bg-white p-3 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-center">
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Daily Avg</span>
+                    <span className="text-lg font-bold text-gray-900">${stats.dailyAvg.toFixed(0)}</span>
+                </div>
 
-            <div className="bg-white p-3 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-center">
-                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Daily Avg</span>
-                <span className="text-lg font-bold text-gray-900">${stats.dailyAvg.toFixed(0)}</span>
+                <div className="bg-white p-3 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-center">
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Biggest Day</span>
+                    <div className="flex items-baseline gap-1 mt-1">
+                        <span className="text-[15px] font-bold text-gray-900 leading-none">
+                            {stats.biggestDay.amount > 0 ? `$${stats.biggestDay.amount.toFixed(0)}` : '-'}
+                        </span>
+                        <span className="text-[11px] font-medium text-gray-500 truncate leading-none pt-0.5">
+                            {stats.biggestDay.date ? format(parseISO(stats.biggestDay.date), 'MMM d (EEE)') : ''}
+                        </span>
+                    </div>
+                </div>
             </div>
 
-            <div className="bg-white p-3 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-center">
-                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Biggest Day</span>
-                <div className="flex items-baseline gap-1 mt-1">
-                    <span className="text-[15px] font-bold text-gray-900 leading-none">
-                        {stats.biggestDay.amount > 0 ? `$${stats.biggestDay.amount.toFixed(0)}` : '-'}
-                    </span>
-                    <span className="text-[11px] font-medium text-gray-500 truncate leading-none pt-0.5">
-                        {stats.biggestDay.date ? format(parseISO(stats.biggestDay.date), 'MMM d (EEE)') : ''}
-                    </span>
+            <div className="grid grid-cols-2 gap-2 w-full">
+                <div className="bg-white p-3 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-center">
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Money In</span>
+                    <span className="text-lg font-bold text-green-600">${stats.income.toFixed(0)}</span>
+                </div>
+
+                <div className="bg-white p-3 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-center">
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Net Cash Flow</span>
+                    <span className={`text-lg font-bold ${stats.net < 0 ? 'text-red-500' : 'text-green-600'}`}>{netLabel}</span>
                 </div>
             </div>
         </div>
@@ -1,5 +1,7 @@
 import { useMemo, useState } from 'react';
 import { Transaction, Category } from '../../types';
+import { getSpendAmount } from '../../utils/cashFlow';
+import { hasSplits } from '../../utils/splits';
 import * as LucideIcons from 'lucide-react';
 import { Store, ChevronRight } from 'lucide-react';
 import { MerchantListSheet } from './MerchantListSheet';
@@ -27,9 +29,17 @@ export function TopVendors({ transactions, categories, limit = 5 }: TopVendorsPr
                 vendorMap[vendorKey] = { amount: 0, count: 0, categoryIds: {} };
             }
 
-            vendorMap[vendorKey].amount += t.amount;
+            vendorMap[vendorKey].amount += getSpendAmount(t);
             vendorMap[vendorKey].count += 1;
-            vendorMap[vendorKey].categoryIds[t.category] = (vendorMap[vendorKey].categoryIds[t.category] || 0) + 1;
+            const categoryIds = vendorMap[vendorKey].categoryIds;
+            if (hasSplits(t) && t.amount > 0) {
+                // Split receipts vote for each of their categories by share of the total
+                t.splits!.forEach(split => {
+                    categoryIds[split.category] = (categoryIds[split.category] || 0) + split.amount / t.amount;
+                });
+            } else {
+                categoryIds[t.category] = (categoryIds[t.category] || 0) + 1;
+            }
         });
 
         // Map to array, sort, and resolve dominant category
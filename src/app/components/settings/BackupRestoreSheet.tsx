@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { Drawer } from 'vaul';
+import { format, parseISO } from 'date-fns';
+import { FileJson, Lock } from 'lucide-react';
+import { Input } from '../ui/input';
+import { BACKUP_VERSION, BackupRestoreMode, ParsedBackup } from '../../utils/backup';
+
+interface BackupRestoreSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  backup: ParsedBackup | null; // Null while an encrypted file is waiting for its passphrase
+  onUnlock: (passphrase: string) => Promise<void>;
+  onRestore: (mode: BackupRestoreMode) => Promise<void>;
+}
+
+const RESTORE_MODES: Array<{ value: BackupRestoreMode; label: string; description: string }> = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Adds records from the backup. Where both have the same record, the one edited last is kept. Your settings stay as they are.',
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Deletes everything on this device first, then restores the backup exactly, settings included.',
+  },
+];
+
+export function BackupRestoreSheet({ open, onOpenChange, fileName, backup, onUnlock, onRestore }: BackupRestoreSheetProps) {
+  const [mode, setMode] = useState<BackupRestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    setMode('merge');
+    setPassphrase('');
+    setUnlockError(null);
+  }, [backup, fileName]);
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : 'Could not decrypt this backup.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const counts = backup
+    ? [
+      { label: 'Transactions', value: backup.data.transactions.filter((t) => !t.deletedAt).length },
+      { label: 'Categories', value: backup.data.categories.filter((c) => !c.deletedAt).length },
+      { label: 'Vendor rules', value: backup.data.vendorRules.filter((r) => !r.deletedAt).length },
+      { label: 'Accounts', value: backup.data.accounts.filter((a) => !a.deletedAt).length },
+      { label: 'Budgets', value: backup.data.budgets.filter((b) => !b.deletedAt).length },
+      { label: 'Exchange rates', value: backup.data.exchangeRates.filter((r) => !r.deletedAt).length },
+    ]
+    : [];
+  const selectedMode = RESTORE_MODES.find((option) => option.value === mode) ?? RESTORE_MODES[0];
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      await onRestore(mode);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/40 z-50" />
+        <Drawer.Content className="app-drawer-frame">
+          <div className="app-drawer-panel">
+            <div className="flex justify-center pt-3 pb-2">
+              <div className="w-10 h-1 rounded-full bg-gray-300" />
+            </div>
+
+            <div className="px-5 pb-2">
+              <Drawer.Title className="text-lg font-semibold text-gray-900">Restore Backup</Drawer.Title>
+              <p className="text-sm text-gray-500 mt-1">
+                {backup ? 'The file was checked and can be restored.' : 'This backup is encrypted. Enter the passphrase it was exported with.'}
+              </p>
+            </div>
+
+            {!backup && (
+              <form
+                className="px-4 pb-8 space-y-3"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  void handleUnlock();
+                }}
+              >
+                <div className="rounded-xl border border-gray-100 px-4 py-4 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-xl bg-blue-50 flex items-center justify-center">
+                      <Lock className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <p className="flex-1 min-w-0 text-sm font-medium text-gray-900 truncate">{fileName}</p>
+                  </div>
+                  <Input
+                    type="password"
+                    autoComplete="current-password"
+                    placeholder="Passphrase"
+                    value={passphrase}
+                    onChange={(event) => setPassphrase(event.target.value)}
+                    autoFocus
+                  />
+                  {unlockError && <p className="text-xs text-red-600">{unlockError}</p>}
+                </div>
+                <button
+                  type="submit"
+                  disabled={isUnlocking || !passphrase}
+                  className="w-full h-12 rounded-xl bg-black text-white font-medium disabled:opacity-40"
+                >
+                  {isUnlocking ? 'Decrypting…' : 'Unlock backup'}
+                </button>
+              </form>
+            )}
+
+            {backup && (
+              <div className="px-4 pb-8 space-y-3 overflow-y-auto">
+                <div className="rounded-xl border border-gray-100 px-4 py-4 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-xl bg-blue-50 flex items-center justify-center">
+                      <FileJson className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{fileName}</p>
+                      <p className="text-xs text-gray-500">
+                        {backup.exportedAt ? `Exported ${format(parseISO(backup.exportedAt), 'MMM d, yyyy h:mm a')}` : 'Export date unknown'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {counts.map((count) => (
+                      <div key={count.label} className="rounded-lg bg-gray-50 px-2 py-2">
+                        <p className="text-sm font-semibold text-gray-900 tabular-nums">{count.value}</p>
+                        <p className="text-[11px] text-gray-500">{count.label}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {backup.sourceVersion < BACKUP_VERSION && (
+                    <p className="text-xs text-gray-500">
+                      Saved in an older backup format (version {backup.sourceVersion}) and upgraded for this version of the app.
+                    </p>
+                  )}
+                </div>
+
+                <div className="rounded-xl border border-gray-100 px-4 py-3 space-y-2">
+                  <p className="text-sm font-medium text-gray-900">How to restore</p>
+                  <div className="flex gap-2">
+                    {RESTORE_MODES.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setMode(option.value)}
+                        className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${mode === option.value
+                          ? 'bg-black text-white border-black'
+                          : 'bg-white text-gray-600 border-gray-200'
+                          }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">{selectedMode.description}</p>
+                </div>
+
+                <button
+                  onClick={handleRestore}
+                  disabled={isRestoring}
+                  className={`w-full h-12 rounded-xl text-white font-medium disabled:opacity-40 ${mode === 'replace' ? 'bg-red-600' : 'bg-black'}`}
+                >
+                  {isRestoring ? 'Restoring…' : mode === 'replace' ? 'Replace all data' : 'Merge backup'}
+                </button>
+              </div>
+            )}
+          </div>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  );
+}
@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Drawer } from 'vaul';
+import { format, parseISO } from 'date-fns';
+import { ChevronLeft, Trash2 } from 'lucide-react';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Switch } from '../ui/switch';
+import { CsvAmountConvention, CsvColumnMapping, CsvImportProfile } from '../../types';
+import {
+  applyCsvMapping,
+  CSV_AMOUNT_CONVENTIONS,
+  CSV_DATE_FORMATS,
+  CsvTable,
+  detectDateFormat,
+  findProfileForHeaders,
+  getHeaderSignature,
+  isMappingUsable,
+  suggestCsvMapping,
+} from '../../utils/csvMapping';
+import { ParsedSpreadsheetImport } from '../../utils/spreadsheetImport';
+
+interface CsvMappingSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  table: CsvTable | null;
+  profiles: CsvImportProfile[];
+  onSaveProfile: (profile: CsvImportProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  onContinue: (data: ParsedSpreadsheetImport) => void;
+}
+
+type MappingField = keyof CsvColumnMapping;
+
+const NONE = '__none__';
+const PREVIEW_ROWS = 10;
+
+const FIELD_LABELS: Record<MappingField, string> = {
+  date: 'Date',
+  amount: 'Amount',
+  debit: 'Debit (money out)',
+  credit: 'Credit (money in)',
+  vendor: 'Vendor / description',
+  category: 'Category',
+  notes: 'Notes',
+};
+
+export function CsvMappingSheet({
+  open,
+  onOpenChange,
+  fileName,
+  table,
+  profiles,
+  onSaveProfile,
+  onDeleteProfile,
+  onContinue,
+}: CsvMappingSheetProps) {
+  const [step, setStep] = useState<'map' | 'preview'>('map');
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ date: '', vendor: '' });
+  const [amountConvention, setAmountConvention] = useState<CsvAmountConvention>('negative-is-expense');
+  const [dateFormat, setDateFormat] = useState(CSV_DATE_FORMATS[0].pattern);
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState('');
+
+  const applyProfile = (profile: CsvImportProfile) => {
+    setProfileId(profile.id);
+    setMapping(profile.mapping);
+    setAmountConvention(profile.amountConvention);
+    setDateFormat(profile.dateFormat);
+    setProfileName(profile.name);
+  };
+
+  // Start each file from its saved profile, or from a guess based on the headers
+  useEffect(() => {
+    if (!table) return;
+    setStep('map');
+    setSaveProfile(true);
+
+    const saved = findProfileForHeaders(profiles, table.headers);
+    if (saved) {
+      applyProfile(saved);
+      return;
+    }
+
+    const suggested = suggestCsvMapping(table.headers);
+    const dateIndex = table.headers.indexOf(suggested.mapping.date);
+    setProfileId(null);
+    setMapping(suggested.mapping);
+    setAmountConvention(suggested.amountConvention);
+    setDateFormat(detectDateFormat(dateIndex >= 0 ? table.rows.map((row) => row[dateIndex]) : []));
+    setProfileName(fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [table]);
+
+  const headers = table?.headers ?? [];
+  const canContinue = !!table && isMappingUsable(mapping, amountConvention, headers);
+  const result = useMemo(
+    () => (table && canContinue ? applyCsvMapping(table, mapping, dateFormat, amountConvention) : null),
+    [table, canContinue, mapping, dateFormat, amountConvention],
+  );
+
+  const amountFields: MappingField[] = amountConvention === 'debit-credit-columns' ? ['debit', 'credit'] : ['amount'];
+  const fields: MappingField[] = ['date', ...amountFields, 'vendor', 'category', 'notes'];
+  const requiredFields = new Set<MappingField>(['date', 'vendor', 'amount']);
+
+  const setField = (field: MappingField, header: string) => {
+    const next = { ...mapping, [field]: header === NONE ? undefined : header };
+    setMapping(next as CsvColumnMapping);
+    if (field === 'date' && table && header !== NONE) {
+      const index = table.headers.indexOf(header);
+      setDateFormat(detectDateFormat(table.rows.map((row) => row[index])));
+    }
+  };
+
+  const handleContinue = () => {
+    if (!table || !result || result.expenses.length === 0) return;
+
+    if (saveProfile && profileName.trim()) {
+      const existing = profiles.find((profile) => profile.id === profileId);
+      onSaveProfile({
+        id: existing?.id ?? crypto.randomUUID(),
+        name: profileName.trim(),
+        mapping,
+        dateFormat,
+        amountConvention,
+        headerSignature: getHeaderSignature(table.headers),
+        createdAt: existing?.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+      });
+    }
+
+    const skipped = result.issues.length;
+    const warnings = skipped > 0 ? [`Skipped ${skipped} row${skipped === 1 ? '' : 's'} that the column mapping couldn't read.`] : [];
+
+    onContinue({ sourceType: 'csv', sourceName: fileName, expenses: result.expenses, categories: [], recurring: [], warnings });
+  };
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/40 z-50" />
+        <Drawer.Content className="app-drawer-frame">
+          <div className="app-drawer-panel max-h-[92dvh] flex flex-col">
+            <div className="flex justify-center pt-3 pb-2">
+              <div className="w-10 h-1 rounded-full bg-gray-300" />
+            </div>
+
+            <div className="px-5 pb-2 flex items-start gap-2">
+              {step === 'preview' && (
+                <button
+                  onClick={() => setStep('map')}
+                  className="p-1 -ml-1 mt-0.5 hover:bg-gray-100 rounded-full transition-colors"
+                >
+                  <ChevronLeft className="w-5 h-5 text-gray-600" />
+                </button>
+              )}
+              <div className="min-w-0">
+                <Drawer.Title className="text-lg font-semibold text-gray-900">
+                  {step === 'map' ? 'Map CSV columns' : 'Check the import'}
+                </Drawer.Title>
+                <p className="text-sm text-gray-500 mt-1 truncate">
+                  {fileName} · {table?.rows.length ?? 0} row{table?.rows.length === 1 ? '' : 's'}
+                </p>
+              </div>
+            </div>
+
+            {step === 'map' ? (
+              <div className="px-5 pb-8 space-y-5 overflow-y-auto">
+                {profiles.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Saved profiles</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {profiles.map((profile) => (
+                        <div
+                          key={profile.id}
+                          className={`flex items-center rounded-full border text-sm font-medium transition-colors ${profileId === profile.id
+                            ? 'bg-black text-white border-black'
+                            : 'bg-white text-gray-600 border-gray-200'
+                            }`}
+                        >
+                          <button type="button" onClick={() => applyProfile(profile)} className="pl-3 pr-2 py-1.5">
+                            {profile.name}
+                          </button>
+                          <button
+                            type="button"
+                            aria-label={`Delete ${profile.name}`}
+                            onClick={() => {
+                              onDeleteProfile(profile.id);
+                              if (profileId === profile.id) setProfileId(null);
+                            }}
+                            className="pr-2.5 py-1.5 opacity-60 hover:opacity-100"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Amounts</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {CSV_AMOUNT_CONVENTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setAmountConvention(option.value)}
+                        className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${amountConvention === option.value
+                          ? 'bg-black text-white border-black'
+                          : 'bg-white text-gray-600 border-gray-200'
+                          }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <Label>Columns</Label>
+                  {fields.map((field) => (
+                    <div key={field} className="flex items-center gap-3">
+                      <p className="w-36 shrink-0 text-sm text-gray-700">
+                        {FIELD_LABELS[field]}
+                        {requiredFields.has(field) && <span className="text-red-500"> *</span>}
+                      </p>
+                      <Select value={mapping[field] || NONE} onValueChange={(value) => setField(field, value)}>
+                        <SelectTrigger className="flex-1 min-w-0 h-10 rounded-xl">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="z-[60]">
+                          <SelectItem value={NONE}>Not in this file</SelectItem>
+                          {headers.filter(Boolean).map((header) => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                  {!mapping.category && (
+                    <p className="text-xs text-gray-500">Without a category column, categories come from your vendor rules.</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Date format</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {CSV_DATE_FORMATS.map((option) => (
+                      <button
+                        key={option.pattern}
+                        type="button"
+                        onClick={() => setDateFormat(option.pattern)}
+                        className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${dateFormat === option.pattern
+                          ? 'bg-black text-white border-black'
+                          : 'bg-white text-gray-600 border-gray-200'
+                          }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <button
+                  onClick={() => setStep('preview')}
+                  disabled={!canContinue}
+                  className="w-full h-12 rounded-xl bg-black text-white font-medium disabled:opacity-40"
+                >
+                  Preview rows
+                </button>
+              </div>
+            ) : (
+              <div className="px-5 pb-8 space-y-4 overflow-y-auto">
+                <div className="rounded-xl border border-gray-100 divide-y divide-gray-100">
+                  {result?.expenses.slice(0, PREVIEW_ROWS).map((row) => (
+                    <div key={row.rowNumber} className="flex items-center gap-3 px-4 py-2.5">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-900 truncate">{row.vendor}</p>
+                        <p className="text-[11px] text-gray-400 truncate">
+                          {format(parseISO(row.date), 'MMM d, yyyy')}
+                          {row.category && ` · ${row.category}`}
+                        </p>
+                      </div>
+                      <p className={`text-sm font-medium tabular-nums ${row.direction === 'income' ? 'text-green-600' : 'text-gray-900'}`}>
+                        {row.direction === 'income' ? '+' : ''}
+                        {row.amount.toFixed(2)}
+                      </p>
+                    </div>
+                  ))}
+                  {result && result.expenses.length > PREVIEW_ROWS && (
+                    <p className="px-4 py-2.5 text-xs text-gray-500">
+                      and {result.expenses.length - PREVIEW_ROWS} more
+                    </p>
+                  )}
+                </div>
+
+                {result && result.issues.length > 0 && (
+                  <div className="rounded-xl border border-amber-100 bg-amber-50 px-4 py-3 space-y-1">
+                    <p className="text-xs font-medium text-amber-900">
+                      {result.issues.length} row{result.issues.length === 1 ? '' : 's'} will be skipped
+                    </p>
+                    {result.issues.slice(0, 3).map((issue) => (
+                      <p key={issue.row} className="text-xs text-amber-800">Row {issue.row}: {issue.message}</p>
+                    ))}
+                  </div>
+                )}
+
+                <div className="rounded-xl border border-gray-100 px-4 py-3 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">Save as import profile</p>
+                      <p className="text-xs text-gray-500">Reused automatically for files with the same columns</p>
+                    </div>
+                    <Switch checked={saveProfile} onCheckedChange={setSaveProfile} />
+                  </div>
+                  {saveProfile && (
+                    <Input
+                      value={profileName}
+                      onChange={(event) => setProfileName(event.target.value)}
+                      placeholder="e.g. Chequing account"
+                      className="h-11 rounded-xl"
+                    />
+                  )}
+                </div>
+
+                <button
+                  onClick={handleContinue}
+                  disabled={!result || result.expenses.length === 0}
+                  className="w-full h-12 rounded-xl bg-black text-white font-medium disabled:opacity-40"
+                >
+                  Review {result?.expenses.length ?? 0} row{result?.expenses.length === 1 ? '' : 's'}
+                </button>
+              </div>
+            )}
+          </div>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  );
+}
@@ -1,5 +1,6 @@
 import { Drawer } from 'vaul';
 import { Check } from 'lucide-react';
+import { CURRENCIES } from '../../utils/currency';
 
 interface CurrencySheetProps {
     open: boolean;
@@ -8,15 +9,6 @@ interface CurrencySheetProps {
     onSelect: (currency: string) => void;
 }
 
-const CURRENCIES = [
-    { code: 'CAD', name: 'Canadian Dollar', symbol: '$' },
-    { code: 'USD', name: 'US Dollar', symbol: '$' },
-    { code: 'EUR', name: 'Euro', symbol: '€' },
-    { code: 'GBP', name: 'British Pound', symbol: '£' },
-    { code: 'AUD', name: 'Australian Dollar', symbol: '$' },
-    { code: 'ILS', name: 'Israeli New Shekel', symbol: '₪' },
-];
-
 export function CurrencySheet({ open, onOpenChange, selectedCurrency, onSelect }: CurrencySheetProps) {
     return (
         <Drawer.Root open={open} onOpenChange={onOpenChange}>
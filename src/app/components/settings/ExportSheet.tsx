@@ -1,14 +1,69 @@
+import { useState } from 'react';
 import { Drawer } from 'vaul';
-import { FileJson, FileSpreadsheet } from 'lucide-react';
+import { addMonths, format, startOfMonth, subMonths } from 'date-fns';
+import { ChevronLeft, ChevronRight, FileJson, FileSpreadsheet, FileText, Lock, Sheet } from 'lucide-react';
+import { Input } from '../ui/input';
+import { Switch } from '../ui/switch';
+import { MIN_PASSPHRASE_LENGTH } from '../../utils/backupCrypto';
+import { describeExportScope, ExportScope } from '../../utils/dataExport';
 
 interface ExportSheetProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
-    onExportJSON: () => void;
+    scope: ExportScope;
+    onScopeChange: (scope: ExportScope) => void;
+    onPickRange: () => void;
+    filterLabel?: string; // Summary of the active Home filter; unset when nothing is filtered
+    onExportJSON: (passphrase?: string) => Promise<void>;
     onExportCSV: () => void;
+    onExportXLSX: () => Promise<void>;
+    onExportPDF: (month: Date) => void;
 }
 
-export function ExportSheet({ open, onOpenChange, onExportJSON, onExportCSV }: ExportSheetProps) {
+export function ExportSheet({
+    open,
+    onOpenChange,
+    scope,
+    onScopeChange,
+    onPickRange,
+    filterLabel,
+    onExportJSON,
+    onExportCSV,
+    onExportXLSX,
+    onExportPDF,
+}: ExportSheetProps) {
+    const [statementMonth, setStatementMonth] = useState(() => startOfMonth(new Date()));
+    const [encryptBackup, setEncryptBackup] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const [isExportingBackup, setIsExportingBackup] = useState(false);
+
+    const passphraseError = !encryptBackup
+        ? null
+        : passphrase.length < MIN_PASSPHRASE_LENGTH
+            ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+            : passphrase !== confirmPassphrase
+                ? "Passphrases don't match"
+                : null;
+
+    const handleExportJSON = async () => {
+        setIsExportingBackup(true);
+        try {
+            await onExportJSON(encryptBackup ? passphrase : undefined);
+            setPassphrase('');
+            setConfirmPassphrase('');
+            onOpenChange(false);
+        } finally {
+            setIsExportingBackup(false);
+        }
+    };
+
+    const scopeOptions: Array<{ kind: ExportScope['kind']; label: string; onClick: () => void }> = [
+        { kind: 'all', label: 'All data', onClick: () => onScopeChange({ kind: 'all' }) },
+        ...(filterLabel ? [{ kind: 'filter' as const, label: 'Current filter', onClick: () => onScopeChange({ kind: 'filter' }) }] : []),
+        { kind: 'range', label: scope.kind === 'range' ? describeExportScope(scope) : 'Date range', onClick: onPickRange },
+    ];
+
     return (
         <Drawer.Root open={open} onOpenChange={onOpenChange}>
             <Drawer.Portal>
@@ -22,10 +77,32 @@ export function ExportSheet({ open, onOpenChange, onExportJSON, onExportCSV }: E
 
                         <div className="px-5 pb-2">
                             <h3 className="text-lg font-semibold text-gray-900">Export Data</h3>
-                            <p className="text-sm text-gray-500 mt-1">Choose a format for your backup</p>
+                            <p className="text-sm text-gray-500 mt-1">Choose what to include and a format</p>
                         </div>
 
-                        <div className="px-4 pb-8 space-y-2">
+                        <div className="px-4 pb-8 space-y-2 overflow-y-auto">
+                            <div className="rounded-xl border border-gray-100 px-4 py-3 space-y-2">
+                                <p className="text-sm font-medium text-gray-900">Include</p>
+                                <div className="flex flex-wrap gap-2">
+                                    {scopeOptions.map((option) => (
+                                        <button
+                                            key={option.kind}
+                                            type="button"
+                                            onClick={option.onClick}
+                                            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${scope.kind === option.kind
+                                                ? 'bg-black text-white border-black'
+                                                : 'bg-white text-gray-600 border-gray-200'
+                                                }`}
+                                        >
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {scope.kind === 'filter' && filterLabel && (
+                                    <p className="text-xs text-gray-500">{filterLabel}</p>
+                                )}
+                            </div>
+
                             <button
                                 onClick={() => {
                                     onExportCSV();
@@ -43,20 +120,107 @@ export function ExportSheet({ open, onOpenChange, onExportJSON, onExportCSV }: E
                             </button>
 
                             <button
-                                onClick={() => {
-                                    onExportJSON();
+                                onClick={async () => {
+                                    await onExportXLSX();
                                     onOpenChange(false);
                                 }}
                                 className="w-full flex items-center gap-4 px-4 py-4 rounded-xl hover:bg-gray-50 transition-colors border border-gray-100"
                             >
-                                <div className="w-10 h-10 rounded-xl bg-blue-50 flex items-center justify-center">
-                                    <FileJson className="w-5 h-5 text-blue-600" />
+                                <div className="w-10 h-10 rounded-xl bg-emerald-50 flex items-center justify-center">
+                                    <Sheet className="w-5 h-5 text-emerald-700" />
                                 </div>
                                 <div className="text-left">
-                                    <p className="text-[15px] font-medium text-gray-900">Export as JSON</p>
-                                    <p className="text-xs text-gray-500">Full backup with all data</p>
+                                    <p className="text-[15px] font-medium text-gray-900">Export as Excel</p>
+                                    <p className="text-xs text-gray-500">Expenses, categories and recurring items; can be imported again</p>
                                 </div>
                             </button>
+
+                            <div className="rounded-xl border border-gray-100">
+                                <button
+                                    onClick={() => {
+                                        onExportPDF(statementMonth);
+                                        onOpenChange(false);
+                                    }}
+                                    className="w-full flex items-center gap-4 px-4 py-4 rounded-xl hover:bg-gray-50 transition-colors"
+                                >
+                                    <div className="w-10 h-10 rounded-xl bg-red-50 flex items-center justify-center">
+                                        <FileText className="w-5 h-5 text-red-600" />
+                                    </div>
+                                    <div className="text-left">
+                                        <p className="text-[15px] font-medium text-gray-900">PDF statement</p>
+                                        <p className="text-xs text-gray-500">Categories, budgets vs. actual and top vendors</p>
+                                    </div>
+                                </button>
+                                {scope.kind !== 'range' && (
+                                    <div className="flex items-center justify-between px-4 pb-3">
+                                        <button
+                                            type="button"
+                                            onClick={() => setStatementMonth((month) => subMonths(month, 1))}
+                                            aria-label="Previous month"
+                                            className="p-1.5 rounded-full hover:bg-gray-100"
+                                        >
+                                            <ChevronLeft className="w-4 h-4 text-gray-600" />
+                                        </button>
+                                        <p className="text-sm font-medium text-gray-700">{format(statementMonth, 'MMMM yyyy')}</p>
+                                        <button
+                                            type="button"
+                                            onClick={() => setStatementMonth((month) => addMonths(month, 1))}
+                                            aria-label="Next month"
+                                            className="p-1.5 rounded-full hover:bg-gray-100"
+                                        >
+                                            <ChevronRight className="w-4 h-4 text-gray-600" />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="rounded-xl border border-gray-100">
+                                <button
+                                    onClick={handleExportJSON}
+                                    disabled={isExportingBackup || !!passphraseError}
+                                    className="w-full flex items-center gap-4 px-4 py-4 rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <div className="w-10 h-10 rounded-xl bg-blue-50 flex items-center justify-center">
+                                        {encryptBackup ? <Lock className="w-5 h-5 text-blue-600" /> : <FileJson className="w-5 h-5 text-blue-600" />}
+                                    </div>
+                                    <div className="text-left">
+                                        <p className="text-[15px] font-medium text-gray-900">
+                                            {isExportingBackup ? 'Encrypting…' : encryptBackup ? 'Export encrypted backup' : 'Export as JSON'}
+                                        </p>
+                                        <p className="text-xs text-gray-500">Full backup with all data, whatever is selected above</p>
+                                    </div>
+                                </button>
+                                <div className="px-4 pb-3 space-y-2">
+                                    <div className="flex items-center justify-between gap-4">
+                                        <div>
+                                            <p className="text-sm font-medium text-gray-900">Encrypt with a passphrase</p>
+                                            <p className="text-xs text-gray-500">Needed to restore it. It can't be recovered if you forget it.</p>
+                                        </div>
+                                        <Switch checked={encryptBackup} onCheckedChange={setEncryptBackup} />
+                                    </div>
+                                    {encryptBackup && (
+                                        <>
+                                            <Input
+                                                type="password"
+                                                autoComplete="new-password"
+                                                placeholder="Passphrase"
+                                                value={passphrase}
+                                                onChange={(event) => setPassphrase(event.target.value)}
+                                            />
+                                            <Input
+                                                type="password"
+                                                autoComplete="new-password"
+                                                placeholder="Repeat passphrase"
+                                                value={confirmPassphrase}
+                                                onChange={(event) => setConfirmPassphrase(event.target.value)}
+                                            />
+                                            {passphraseError && (passphrase || confirmPassphrase) && (
+                                                <p className="text-xs text-amber-700">{passphraseError}</p>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+                            </div>
                         </div>
                     </div>
                 </Drawer.Content>
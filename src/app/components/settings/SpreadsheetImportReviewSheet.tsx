@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Drawer } from 'vaul';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle2, Circle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Category } from '../../types';
+import { formatCurrencyAmount } from '../../utils/currency';
+import {
+  ParsedSpreadsheetImport,
+  SpreadsheetImportReviewRow,
+  SpreadsheetImportRowStatus,
+} from '../../utils/spreadsheetImport';
+
+interface SpreadsheetImportReviewSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  data: ParsedSpreadsheetImport | null;
+  categories: Category[];
+  homeCurrency: string;
+  review: (data: ParsedSpreadsheetImport) => SpreadsheetImportReviewRow[];
+  onConfirm: (data: ParsedSpreadsheetImport, forceImportRows: number[]) => Promise<void>;
+}
+
+type ReviewFilter = 'all' | Exclude<SpreadsheetImportRowStatus, 'recurring-linked'>;
+
+const NEW_CATEGORY = '__new__';
+
+const STATUS_STYLES: Record<SpreadsheetImportRowStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'text-green-700 bg-green-50' },
+  duplicate: { label: 'Duplicate', className: 'text-gray-600 bg-gray-100' },
+  'new-category': { label: 'New category', className: 'text-blue-700 bg-blue-50' },
+  warning: { label: 'Check', className: 'text-amber-700 bg-amber-50' },
+  'recurring-linked': { label: 'From recurring', className: 'text-gray-500 bg-gray-100' },
+};
+
+const FILTERS: Array<{ value: ReviewFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'new', label: 'New' },
+  { value: 'duplicate', label: 'Duplicates' },
+  { value: 'new-category', label: 'New categories' },
+  { value: 'warning', label: 'Warnings' },
+];
+
+export function SpreadsheetImportReviewSheet({
+  open,
+  onOpenChange,
+  data,
+  categories,
+  homeCurrency,
+  review,
+  onConfirm,
+}: SpreadsheetImportReviewSheetProps) {
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<number, string>>({});
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [forcedRows, setForcedRows] = useState<Set<number>>(new Set());
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    setCategoryOverrides({});
+    setExcludedRows(new Set());
+    setForcedRows(new Set());
+    setFilter('all');
+  }, [data]);
+
+  const editedData = useMemo(() => {
+    if (!data) return null;
+    return {
+      ...data,
+      expenses: data.expenses.map((row) =>
+        categoryOverrides[row.rowNumber] !== undefined ? { ...row, category: categoryOverrides[row.rowNumber] } : row,
+      ),
+    };
+  }, [data, categoryOverrides]);
+
+  // Re-run the dry run after each category fix, since it can change whether a row is a duplicate
+  const rows = useMemo(() => (editedData ? review(editedData) : []), [editedData, review]);
+
+  // Duplicates start unticked; ticking one forces it in
+  const isSelected = (item: SpreadsheetImportReviewRow) => {
+    if (item.status === 'recurring-linked') return false;
+    if (item.status === 'duplicate') return forcedRows.has(item.row.rowNumber);
+    return !excludedRows.has(item.row.rowNumber);
+  };
+
+  const toggleRow = (item: SpreadsheetImportReviewRow) => {
+    const rowNumber = item.row.rowNumber;
+    const update = (set: Set<number>) => {
+      const next = new Set(set);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    };
+    if (item.status === 'duplicate') setForcedRows(update);
+    else setExcludedRows(update);
+  };
+
+  const counts = rows.reduce<Record<string, number>>((acc, item) => {
+    acc[item.status] = (acc[item.status] ?? 0) + 1;
+    return acc;
+  }, {});
+  const selected = rows.filter(isSelected);
+  const visible = rows.filter((item) => filter === 'all' || item.status === filter);
+  const activeCategories = categories.filter((category) => !category.deletedAt);
+
+  const handleConfirm = async () => {
+    if (!editedData) return;
+    const selectedRowNumbers = new Set(selected.map((item) => item.row.rowNumber));
+    setIsImporting(true);
+    try {
+      await onConfirm(
+        {
+          ...editedData,
+          // Recurring-linked rows stay so the import summary still explains why they were skipped
+          expenses: editedData.expenses.filter((row) =>
+            selectedRowNumbers.has(row.rowNumber) || (row.isRecurring && row.recurringKey),
+          ),
+        },
+        selected.filter((item) => item.status === 'duplicate').map((item) => item.row.rowNumber),
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/40 z-50" />
+        <Drawer.Content className="app-drawer-frame">
+          <div className="app-drawer-panel max-h-[92dvh] flex flex-col">
+            <div className="flex justify-center pt-3 pb-2">
+              <div className="w-10 h-1 rounded-full bg-gray-300" />
+            </div>
+
+            <div className="px-5 pb-3">
+              <Drawer.Title className="text-lg font-semibold text-gray-900">Review import</Drawer.Title>
+              <p className="text-sm text-gray-500 mt-1">
+                Nothing is saved until you confirm. Untick rows to leave them out, or tick a duplicate to import it anyway.
+              </p>
+              {data && (data.categories.length > 0 || data.recurring.length > 0) && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Also imports {data.categories.length} categor{data.categories.length === 1 ? 'y' : 'ies'} and {data.recurring.length} recurring item{data.recurring.length === 1 ? '' : 's'} from the workbook.
+                </p>
+              )}
+            </div>
+
+            <div className="px-5 pb-3 flex gap-2 overflow-x-auto">
+              {FILTERS.map((option) => {
+                const count = option.value === 'all' ? rows.length : counts[option.value] ?? 0;
+                if (option.value !== 'all' && count === 0) return null;
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setFilter(option.value)}
+                    className={`shrink-0 px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${filter === option.value
+                      ? 'bg-black text-white border-black'
+                      : 'bg-white text-gray-600 border-gray-200'
+                      }`}
+                  >
+                    {option.label} · {count}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 divide-y divide-gray-100 border-y border-gray-100">
+              {visible.map((item) => {
+                const { row } = item;
+                const style = STATUS_STYLES[item.status];
+                const checked = isSelected(item);
+                const canToggle = item.status !== 'recurring-linked';
+                return (
+                  <div key={row.rowNumber} className={`py-3 flex items-start gap-3 ${checked ? '' : 'opacity-60'}`}>
+                    <button
+                      type="button"
+                      disabled={!canToggle}
+                      onClick={() => toggleRow(item)}
+                      aria-label={checked ? 'Leave out this row' : 'Include this row'}
+                      className="mt-0.5 disabled:opacity-30"
+                    >
+                      {checked
+                        ? <CheckCircle2 className="w-5 h-5 text-black" />
+                        : <Circle className="w-5 h-5 text-gray-300" />}
+                    </button>
+
+                    <div className="flex-1 min-w-0 space-y-1.5">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">{row.vendor}</p>
+                          <p className="text-[11px] text-gray-400">
+                            Row {row.rowNumber} · {format(parseISO(row.date), 'MMM d, yyyy')}
+                          </p>
+                        </div>
+                        <p className={`text-sm font-medium tabular-nums shrink-0 ${row.direction === 'income' || row.direction === 'refund' ? 'text-green-600' : 'text-gray-900'}`}>
+                          {row.direction === 'income' || row.direction === 'refund' ? '+' : ''}
+                          {formatCurrencyAmount(row.amount, row.currency, homeCurrency)}
+                        </p>
+                      </div>
+
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider ${style.className}`}>
+                          {style.label}
+                        </span>
+                        {item.warnings.map((warning) => (
+                          <span key={warning} className="text-[11px] text-amber-700">{warning}</span>
+                        ))}
+                      </div>
+
+                      {canToggle && (
+                        <Select
+                          value={item.categoryId ?? NEW_CATEGORY}
+                          onValueChange={(value) => {
+                            const category = activeCategories.find((c) => c.id === value);
+                            if (!category) return;
+                            setCategoryOverrides((prev) => ({ ...prev, [row.rowNumber]: category.name }));
+                          }}
+                        >
+                          <SelectTrigger className="h-8 rounded-lg text-xs w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="z-[60]">
+                            {!item.categoryId && (
+                              <SelectItem value={NEW_CATEGORY}>Create “{row.category}”</SelectItem>
+                            )}
+                            {activeCategories.map((category) => (
+                              <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="px-5 pt-3 pb-6">
+              <button
+                onClick={handleConfirm}
+                disabled={isImporting || (selected.length === 0 && !data?.categories.length && !data?.recurring.length)}
+                className="w-full h-12 rounded-xl bg-black text-white font-medium disabled:opacity-40"
+              >
+                {isImporting ? 'Importing…' : `Import ${selected.length} row${selected.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  );
+}
@@ -75,7 +75,7 @@ export function SpreadsheetImportSheet({
                 </div>
                 <div className="text-left">
                   <p className="text-[15px] font-medium text-gray-900">Upload .xlsx or .csv</p>
-                  <p className="text-xs text-gray-500">Excel imports Categories, Recurring, and Expenses. CSV imports Expenses only.</p>
+                  <p className="text-xs text-gray-500">Excel imports Categories, Recurring, and Expenses. Bank CSVs can be mapped column by column.</p>
                 </div>
               </button>
 
@@ -0,0 +1,258 @@
+import { useEffect, useRef, useState } from 'react';
+import { Drawer } from 'vaul';
+import { format, parseISO } from 'date-fns';
+import { FileText, Landmark, LoaderCircle, Upload } from 'lucide-react';
+import { Progress } from '../ui/progress';
+import { Switch } from '../ui/switch';
+import { Account } from '../../types';
+import { formatCurrencyAmount } from '../../utils/currency';
+import { SpreadsheetImportSummary } from '../../utils/spreadsheetImport';
+import {
+  ParsedStatementImport,
+  STATEMENT_FILE_ACCEPT,
+  STATEMENT_FILE_LABELS,
+  StatementImportOptions,
+} from '../../utils/statementImport';
+
+interface StatementImportSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelectFile: (file: File) => Promise<void>;
+  onImport: (options: StatementImportOptions) => Promise<void>;
+  onClearPreview: () => void;
+  preview: ParsedStatementImport | null;
+  accounts: Account[];
+  homeCurrency: string;
+  isImporting: boolean;
+  progress: number;
+  statusText: string;
+  summary: SpreadsheetImportSummary | null;
+}
+
+const PREVIEW_ROWS = 8;
+
+export function StatementImportSheet({
+  open,
+  onOpenChange,
+  onSelectFile,
+  onImport,
+  onClearPreview,
+  preview,
+  accounts,
+  homeCurrency,
+  isImporting,
+  progress,
+  statusText,
+  summary,
+}: StatementImportSheetProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [includeCredits, setIncludeCredits] = useState(false);
+  const [accountId, setAccountId] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (preview) {
+      setIncludeCredits(false);
+      setAccountId(undefined);
+    }
+  }, [preview]);
+
+  const debits = preview?.transactions.filter((row) => row.direction === 'expense') ?? [];
+  const credits = preview?.transactions.filter((row) => row.direction === 'income') ?? [];
+  const included = includeCredits ? preview?.transactions ?? [] : debits;
+  const dates = preview?.transactions.map((row) => row.date).sort() ?? [];
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/40 z-50" />
+        <Drawer.Content className="app-drawer-frame">
+          <div className="app-drawer-panel">
+            <div className="flex justify-center pt-3 pb-2">
+              <div className="w-10 h-1 rounded-full bg-gray-300" />
+            </div>
+
+            <div className="px-5 pb-2">
+              <h3 className="text-lg font-semibold text-gray-900">Import Bank Statement</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Upload a statement downloaded from your bank. Debits become expenses and are categorized from your vendor rules.
+              </p>
+            </div>
+
+            <div className="px-4 pb-8 space-y-3 overflow-y-auto">
+              <input
+                ref={inputRef}
+                type="file"
+                accept={STATEMENT_FILE_ACCEPT}
+                className="hidden"
+                onChange={async (event) => {
+                  const file = event.target.files?.[0];
+                  if (!file) {
+                    return;
+                  }
+
+                  await onSelectFile(file);
+                  event.target.value = '';
+                }}
+              />
+
+              {!preview && (
+                <button
+                  onClick={() => inputRef.current?.click()}
+                  disabled={isImporting}
+                  className="w-full flex items-center gap-4 px-4 py-4 rounded-xl hover:bg-gray-50 transition-colors border border-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <div className="w-10 h-10 rounded-xl bg-sky-50 flex items-center justify-center">
+                    <Upload className="w-5 h-5 text-sky-600" />
+                  </div>
+                  <div className="text-left">
+                    <p className="text-[15px] font-medium text-gray-900">Choose statement file</p>
+                    <p className="text-xs text-gray-500">OFX, QFX, CAMT.053 (.xml) or MT940 (.sta, .940)</p>
+                  </div>
+                </button>
+              )}
+
+              {preview && !isImporting && (
+                <>
+                  <div className="rounded-xl border border-gray-100 px-4 py-4 space-y-3">
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-xl bg-gray-100 flex items-center justify-center">
+                        <Landmark className="w-5 h-5 text-gray-700" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {STATEMENT_FILE_LABELS[preview.sourceType]}
+                          {preview.accountLabel && <span className="text-gray-400"> · {preview.accountLabel}</span>}
+                        </p>
+                        {dates.length > 0 && (
+                          <p className="text-xs text-gray-500">
+                            {format(parseISO(dates[0]), 'MMM d, yyyy')} – {format(parseISO(dates[dates.length - 1]), 'MMM d, yyyy')}
+                          </p>
+                        )}
+                      </div>
+                      <button
+                        onClick={onClearPreview}
+                        className="text-xs font-medium text-gray-500 hover:text-gray-900"
+                      >
+                        Change
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-600">
+                      {debits.length} debit{debits.length === 1 ? '' : 's'} · {credits.length} credit{credits.length === 1 ? '' : 's'}
+                    </p>
+                  </div>
+
+                  <div className="rounded-xl border border-gray-100 divide-y divide-gray-100">
+                    {included.slice(0, PREVIEW_ROWS).map((row) => (
+                      <div key={row.rowNumber} className="flex items-center gap-3 px-4 py-2.5">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-gray-900 truncate">{row.vendor}</p>
+                          <p className="text-[11px] text-gray-400">{format(parseISO(row.date), 'MMM d')}</p>
+                        </div>
+                        <p className={`text-sm font-medium tabular-nums ${row.direction === 'income' ? 'text-green-600' : 'text-gray-900'}`}>
+                          {row.direction === 'income' ? '+' : ''}
+                          {formatCurrencyAmount(row.amount, row.currency, homeCurrency)}
+                        </p>
+                      </div>
+                    ))}
+                    {included.length > PREVIEW_ROWS && (
+                      <p className="px-4 py-2.5 text-xs text-gray-500">
+                        and {included.length - PREVIEW_ROWS} more
+                      </p>
+                    )}
+                  </div>
+
+                  {credits.length > 0 && (
+                    <div className="flex items-center justify-between gap-4 rounded-xl border border-gray-100 px-4 py-3">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">Import credits as income</p>
+                        <p className="text-xs text-gray-500">Deposits, transfers in and refunds</p>
+                      </div>
+                      <Switch checked={includeCredits} onCheckedChange={setIncludeCredits} />
+                    </div>
+                  )}
+
+                  {accounts.length > 0 && (
+                    <div className="rounded-xl border border-gray-100 px-4 py-3 space-y-2">
+                      <p className="text-sm font-medium text-gray-900">Account</p>
+                      <div className="flex flex-wrap gap-2">
+                        {[{ id: undefined, name: 'Unassigned' }, ...accounts].map((account) => (
+                          <button
+                            key={account.id ?? 'none'}
+                            type="button"
+                            onClick={() => setAccountId(account.id)}
+                            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${accountId === account.id
+                              ? 'bg-black text-white border-black'
+                              : 'bg-white text-gray-600 border-gray-200'
+                              }`}
+                          >
+                            {account.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {preview.warnings.map((warning) => (
+                    <p key={warning} className="text-xs text-amber-700 px-1">
+                      {warning}
+                    </p>
+                  ))}
+
+                  <button
+                    onClick={() => onImport({ includeCredits, accountId })}
+                    disabled={included.length === 0}
+                    className="w-full h-12 rounded-xl bg-black text-white font-medium disabled:opacity-40"
+                  >
+                    Import {included.length} transaction{included.length === 1 ? '' : 's'}
+                  </button>
+                </>
+              )}
+
+              <div className="rounded-xl border border-gray-100 bg-gray-50 px-4 py-3">
+                <p className="text-xs font-medium text-gray-900">Rows that match an existing transaction are skipped.</p>
+                <p className="text-xs text-gray-500 mt-1">A match has the same date, amount, vendor, category and type.</p>
+              </div>
+
+              {isImporting && (
+                <div className="rounded-xl border border-gray-100 px-4 py-4 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-xl bg-gray-100 flex items-center justify-center">
+                      {progress > 0 ? (
+                        <FileText className="w-5 h-5 text-gray-700" />
+                      ) : (
+                        <LoaderCircle className="w-5 h-5 text-gray-700 animate-spin" />
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{statusText}</p>
+                      <p className="text-xs text-gray-500">Please keep this sheet open until import finishes.</p>
+                    </div>
+                  </div>
+                  <Progress value={progress} className="h-2 bg-gray-200 [&_[data-slot=progress-indicator]]:bg-gray-900" />
+                </div>
+              )}
+
+              {summary && !isImporting && (
+                <div className="rounded-xl border border-emerald-100 bg-emerald-50 px-4 py-4 space-y-2">
+                  <p className="text-sm font-semibold text-emerald-950">
+                    Imported {summary.expenses} transaction{summary.expenses === 1 ? '' : 's'}
+                  </p>
+                  {summary.skippedDuplicates > 0 && (
+                    <p className="text-xs text-emerald-900">
+                      Skipped {summary.skippedDuplicates} duplicate row{summary.skippedDuplicates === 1 ? '' : 's'}.
+                    </p>
+                  )}
+                  {summary.warnings.map((warning) => (
+                    <p key={warning} className="text-xs text-emerald-900">
+                      {warning}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  );
+}
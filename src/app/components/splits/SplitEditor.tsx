@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import * as LucideIcons from 'lucide-react';
+import { Plus, X } from 'lucide-react';
+import { useExpense } from '../../context/ExpenseContext';
+import { FullCategoryPicker } from '../category/FullCategoryPicker';
+import { Input } from '../ui/input';
+import { TransactionSplit } from '../../types';
+
+/** Editable split line; the amount stays a string so partially typed values survive re-renders. */
+export interface SplitLine {
+  id: string;
+  category: string;
+  amount: string;
+  note?: string;
+}
+
+export const toSplitLines = (splits: TransactionSplit[]): SplitLine[] =>
+  splits.map((split) => ({ ...split, amount: split.amount.toString() }));
+
+export const toTransactionSplits = (lines: SplitLine[]): TransactionSplit[] =>
+  lines.map((line) => ({
+    id: line.id,
+    category: line.category,
+    amount: parseFloat(line.amount) || 0,
+    note: line.note?.trim() || undefined,
+  }));
+
+export const createSplitLine = (category = '', amount = ''): SplitLine => ({
+  id: crypto.randomUUID(),
+  category,
+  amount,
+});
+
+interface SplitEditorProps {
+  total: number;
+  lines: SplitLine[];
+  onChange: (lines: SplitLine[]) => void;
+}
+
+export function SplitEditor({ total, lines, onChange }: SplitEditorProps) {
+  const { getCategoryById } = useExpense();
+  const [pickerLineId, setPickerLineId] = useState<string | null>(null);
+
+  const allocated = lines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0);
+  const remaining = Math.round((total - allocated) * 100) / 100;
+
+  const updateLine = (id: string, updates: Partial<SplitLine>) => {
+    onChange(lines.map((line) => (line.id === id ? { ...line, ...updates } : line)));
+  };
+
+  const removeLine = (id: string) => {
+    onChange(lines.filter((line) => line.id !== id));
+  };
+
+  const addLine = () => {
+    onChange([...lines, createSplitLine('', remaining > 0 ? remaining.toFixed(2) : '')]);
+  };
+
+  const pickerLine = lines.find((line) => line.id === pickerLineId);
+
+  return (
+    <div className="space-y-3">
+      {lines.map((line) => {
+        const category = getCategoryById(line.category);
+        const Icon = category ? (LucideIcons as any)[category.icon] : null;
+
+        return (
+          <div key={line.id} className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setPickerLineId(line.id)}
+              className="flex-1 min-w-0 h-12 px-3 flex items-center gap-2 bg-white rounded-xl border border-gray-100 shadow-sm text-left"
+            >
+              <span
+                className="w-7 h-7 rounded-lg flex items-center justify-center shrink-0"
+                style={{ backgroundColor: category ? `${category.color}15` : '#f3f4f6' }}
+              >
+                {Icon && <Icon className="w-4 h-4" style={{ color: category?.color }} />}
+              </span>
+              <span className={`text-sm truncate ${category ? 'text-gray-900 font-medium' : 'text-gray-400'}`}>
+                {category?.name || 'Choose category'}
+              </span>
+            </button>
+            <div className="relative w-28 shrink-0">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">$</span>
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={line.amount}
+                onChange={(e) => updateLine(line.id, { amount: e.target.value })}
+                className="h-12 rounded-xl pl-6 shadow-sm border-gray-100"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => removeLine(line.id)}
+              disabled={lines.length <= 2}
+              className="p-2 text-gray-300 hover:text-red-500 disabled:opacity-30 disabled:hover:text-gray-300 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={addLine}
+          className="flex items-center gap-1 text-sm font-semibold text-blue-600"
+        >
+          <Plus className="w-4 h-4" /> Add split
+        </button>
+        <span className={`text-xs font-semibold tabular-nums ${remaining === 0 ? 'text-green-600' : 'text-amber-600'}`}>
+          {remaining === 0
+            ? 'Fully allocated'
+            : remaining > 0
+              ? `$${remaining.toFixed(2)} left`
+              : `$${Math.abs(remaining).toFixed(2)} over`}
+        </span>
+      </div>
+
+      <FullCategoryPicker
+        isOpen={pickerLineId !== null}
+        onClose={() => setPickerLineId(null)}
+        selectedCategoryId={pickerLine?.category || null}
+        onSelect={(id) => {
+          if (pickerLineId && id) updateLine(pickerLineId, { category: id });
+        }}
+      />
+    </div>
+  );
+}
@@ -40,6 +40,7 @@ export const SYSTEM_CATEGORIES: Category[] = [
   { id: 'cat-taxes', name: 'Taxes & Fees', icon: 'Receipt', color: '#828282', group: 'Money Matters' },
   { id: 'cat-debt', name: 'Debt Payments', icon: 'Wallet', color: '#6B7280', group: 'Money Matters' },
   { id: 'cat-credit-card-payments', name: 'Credit Card Payments', icon: 'CreditCard', color: '#0F172A', group: 'Money Matters' },
+  { id: 'cat-income', name: 'Income', icon: 'Banknote', color: '#16A34A', group: 'Money Matters' },
   { id: 'cat-gifts', name: 'Gifts', icon: 'Gift', color: '#F2C94C', group: 'Giving' },
   { id: 'cat-uncategorized', name: 'Uncategorized', icon: 'CircleHelp', color: '#94A3B8', group: 'Other' },
 ];
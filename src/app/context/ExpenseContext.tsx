@@ -1,17 +1,60 @@
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
-import { Transaction, Category, VendorRule, Settings, RecurringException } from '../types';
+import { Transaction, TransactionDirection, Category, VendorRule, Settings, RecurringException, Account, ExchangeRate, Budget, AppNotification, TransactionAttachment, ImportBatch, SyncCollection, SyncConflict } from '../types';
 import { generateDemoData } from '../utils/generateDemoData';
 import { format, addDays, startOfToday, endOfYear, addYears, isBefore, isAfter, parseISO, addWeeks, addMonths } from 'date-fns';
 import { getStorageScope, storage } from '../utils/storage';
 import { toast } from 'sonner';
 import { ensureUUIDs } from '../utils/uuidMigration';
-import { SyncService } from '../../lib/syncService';
+import { RemoteRowChange, SyncOptions, SyncService } from '../../lib/syncService';
+import { clearRemoteReceipts, downloadReceipt } from '../../lib/receiptStorage';
 import { useAuth } from './AuthContext';
 import { LocalTransaction } from '../../lib/calendarService';
-import { ParsedSpreadsheetImport, SpreadsheetImportSummary } from '../utils/spreadsheetImport';
+import { ParsedSpreadsheetImport, SpreadsheetImportReviewRow, SpreadsheetImportSummary } from '../utils/spreadsheetImport';
+import { ParsedStatementImport, StatementImportOptions } from '../utils/statementImport';
+import { BackupData, BackupRestoreMode, serializeBackup } from '../utils/backup';
+import { encryptBackup } from '../utils/backupCrypto';
+import { downloadBlob } from '../utils/dataExport';
+import {
+  SnapshotReason,
+  SnapshotStoreDiff,
+  SnapshotSummary,
+  deleteSnapshot,
+  diffSnapshot,
+  listSnapshots,
+  restoreSnapshot,
+  takeDailySnapshotIfDue,
+  takeSnapshot,
+  takeSyncSnapshotIfDue,
+  withDeviceSettings,
+} from '../utils/snapshots';
+import { countOutbox, queueSyncChanges } from '../utils/syncOutbox';
+import { usePersistedCollection } from '../hooks/usePersistedCollection';
+import { electLeader, subscribeToOtherTabs, tryWithTabLock, withTabLock } from '../utils/tabSync';
+import { stableStringify } from '../utils/stableStringify';
 import { SYSTEM_CATEGORIES, isSystemCategoryId } from '../constants/systemCategories';
 import { findBestVendorCategoryMatch, PREMADE_VENDOR_RULES } from '../constants/vendorIntelligence';
 import { ensureSystemCategories } from '../../lib/systemCategorySync';
+import { getHomeAmount, getTransactionDirection, isSpendingTransaction } from '../utils/cashFlow';
+import { calculateAccountBalances } from '../utils/accountBalances';
+import { BudgetAllocationIssue, describeBudgetAllocationIssue, getBudgetAllocationIssues, getBudgetProgress, normalizeBudget } from '../utils/budgetPeriods';
+import { evaluateBudgetRules, evaluateRecurringRules, getNotificationPreferences } from '../utils/notificationRules';
+import { getBudgetTargetKey } from '../utils/budgetTargets';
+import { DEFAULT_CURRENCY, applyHomeCurrency, findExchangeRate, getMissingRateCurrencies, roundToCents } from '../utils/currency';
+import { getTransactionCategoryIds, hasSplits, transactionHasCategory } from '../utils/splits';
+import { PreparedReceiptFile } from '../utils/receiptExtractionService';
+import {
+  ReceiptVariant,
+  getReceiptUrl as loadReceiptUrl,
+  markReceiptDeleted,
+  migrateReceiptAttachments,
+  pruneOrphanReceipts,
+  releaseReceiptUrls,
+  saveReceipt,
+} from '../utils/receiptStore';
+
+// Scope defaults to 'category'
+type BudgetInput = Pick<Budget, 'limit'> &
+  Partial<Pick<Budget, 'scope' | 'categoryId' | 'group' | 'period' | 'periodStart' | 'periodEnd' | 'rollover'>>;
 
 interface ExpenseContextType {
   transactions: Transaction[];
@@ -19,6 +62,34 @@ interface ExpenseContextType {
   vendorRules: VendorRule[];
   settings: Settings;
   selectedCategoryIds: string[];
+  accounts: Account[];
+  accountBalances: Record<string, number>;
+  selectedAccountIds: string[];
+  setSelectedAccounts: (accountIds: string[]) => void;
+  addAccount: (account: Omit<Account, 'id' | 'createdAt'>) => void;
+  updateAccount: (id: string, account: Partial<Account>) => void;
+  deleteAccount: (id: string) => void;
+  homeCurrency: string;
+  exchangeRates: ExchangeRate[];
+  missingRateCurrencies: string[];
+  addExchangeRate: (rate: Omit<ExchangeRate, 'id' | 'createdAt'>) => void;
+  deleteExchangeRate: (id: string) => void;
+  importExchangeRates: (rates: Omit<ExchangeRate, 'id' | 'createdAt'>[]) => Promise<number>;
+  getExchangeRate: (currency: string, date: string) => number | null;
+  budgets: Budget[];
+  setBudget: (budget: BudgetInput) => Promise<boolean>;
+  setBudgets: (budgets: BudgetInput[]) => void;
+  removeBudget: (id: string) => void;
+  notifications: AppNotification[];
+  unreadNotificationCount: number;
+  markNotificationRead: (id: string) => void;
+  markAllNotificationsRead: () => void;
+  dismissNotification: (id: string) => void;
+  clearNotifications: () => void;
+  importBatches: ImportBatch[];
+  rollbackImportBatch: (id: string) => Promise<void>;
+  addReceipt: (file: PreparedReceiptFile) => Promise<TransactionAttachment>;
+  getReceiptUrl: (attachment: TransactionAttachment, variant: ReceiptVariant) => Promise<string | null>;
   addTransaction: (transaction: Omit<Transaction, 'id'>) => void;
   updateTransaction: (id: string, transaction: Partial<Transaction>) => void;
   updateRecurringRule: (id: string, updates: Partial<Transaction>) => void;
@@ -42,16 +113,32 @@ interface ExpenseContextType {
   includeRecurring: boolean;
   setIncludeRecurring: (value: boolean) => void;
   filteredTransactions: Transaction[];
-  exportBackup: () => void;
-  importBackup: (jsonString: string) => Promise<void>;
+  exportBackup: (passphrase?: string) => Promise<void>;
+  restoreBackup: (data: BackupData, mode: BackupRestoreMode) => Promise<void>;
+  reviewSpreadsheetImport: (data: ParsedSpreadsheetImport) => SpreadsheetImportReviewRow[];
   importSpreadsheet: (
     data: ParsedSpreadsheetImport,
     onProgress?: (message: string, percent: number) => void,
+    forceImportRows?: number[],
+  ) => Promise<SpreadsheetImportSummary>;
+  importStatement: (
+    data: ParsedStatementImport,
+    options: StatementImportOptions,
+    onProgress?: (message: string, percent: number) => void,
   ) => Promise<SpreadsheetImportSummary>;
   clearAllData: () => Promise<void>;
+  getSnapshots: () => Promise<SnapshotSummary[]>;
+  createSnapshot: () => Promise<SnapshotSummary | null>;
+  restoreFromSnapshot: (id: string) => Promise<void>;
+  compareSnapshot: (id: string) => Promise<SnapshotStoreDiff[]>;
+  removeSnapshot: (id: string) => Promise<void>;
   isHydrated: boolean;
-  syncData: () => Promise<void>;
+  syncData: (options?: SyncOptions) => Promise<void>;
   isSyncing: boolean;
+  getPendingSyncCounts: () => Promise<Partial<Record<SyncCollection, number>>>;
+  syncConflicts: SyncConflict[];
+  resolveSyncConflict: (id: string, keep: 'local' | 'remote') => void;
+  remoteUpdateAt: number | null; // Last time Realtime brought in another device's changes
   selectedDate: string;
   setSelectedDate: (date: string) => void;
   buildCalendarPayload: () => LocalTransaction[];
@@ -180,8 +267,18 @@ const migrateData = (
     }
   });
 
-  // 2. Remap transactions
-  const migratedTransactions = transactions.map(t => {
+  // 2. Remap transactions (split lines follow the same rules as the parent category)
+  const remapSplitCategory = (categoryId: string) => {
+    if (idMap[categoryId]) return idMap[categoryId];
+    return finalCategories.some(c => c.id === categoryId) ? categoryId : 'cat-uncategorized';
+  };
+
+  const migratedTransactions = transactions.map(original => {
+    let t = original;
+    if (original.splits?.some(s => remapSplitCategory(s.category) !== s.category)) {
+      changed = true;
+      t = { ...original, splits: original.splits.map(s => ({ ...s, category: remapSplitCategory(s.category) })) };
+    }
     if (idMap[t.category]) {
       changed = true;
       return { ...t, category: idMap[t.category] };
@@ -241,6 +338,12 @@ const DEFAULT_SETTINGS: Settings = {
   disableDemoData: false,
 };
 
+// Dismissed and read notifications are kept (for de-duplication) up to this many
+const MAX_STORED_NOTIFICATIONS = 200;
+
+const pruneNotifications = (items: AppNotification[]) =>
+  [...items].sort((a, b) => b.createdAt - a.createdAt).slice(0, MAX_STORED_NOTIFICATIONS);
+
 const DEFAULT_IMPORTED_CATEGORY = {
   icon: 'Tag',
   color: '#94A3B8',
@@ -255,6 +358,52 @@ const LEGACY_LOCAL_STORAGE_KEYS = [
   'recurringExceptions',
 ] as const;
 
+// Replaces records by id in place and appends new ones
+const upsertById = <T extends { id: string }>(current: T[], updates: T[], removedIds: string[] = []) => {
+  if (updates.length === 0 && removedIds.length === 0) return current;
+  const updatesById = new Map(updates.map((record) => [record.id, record]));
+  const next = current
+    .filter((record) => !removedIds.includes(record.id))
+    .map((record) => {
+      const update = updatesById.get(record.id);
+      updatesById.delete(record.id);
+      return update ?? record;
+    });
+  return [...next, ...updatesById.values()];
+};
+
+// Applies records another tab wrote or deleted; deleted ones come back from storage as null
+const mergeTabEntries = <T extends { id: string }>(
+  current: T[],
+  entries: Array<[string, T | null]>,
+  getKey: (record: T) => string = (record) => record.id,
+) => {
+  const removedKeys = new Set(entries.filter(([, value]) => !value).map(([key]) => key));
+  const updated = entries.flatMap(([, value]) => (value ? [value] : []));
+  return upsertById(removedKeys.size > 0 ? current.filter((record) => !removedKeys.has(getKey(record))) : current, updated);
+};
+
+// Stores this provider keeps in memory; writes by other tabs to the rest need no action
+const TAB_SYNCED_STORES = new Set([
+  'transactions', 'categories', 'vendorRules', 'recurringExceptions', 'accounts', 'exchangeRates',
+  'budgets', 'notifications', 'importBatches', 'syncConflicts', 'settings',
+]);
+
+// Mobile browsers (Android Chrome) only show notifications through a service worker and throw on the constructor
+const showBrowserNotification = (notification: AppNotification) => {
+  const options = { body: notification.body, tag: notification.key };
+  try {
+    new Notification(notification.title, options);
+  } catch {
+    navigator.serviceWorker?.getRegistration()
+      .then(registration => registration?.showNotification(notification.title, options))
+      .catch(error => console.warn('Browser notification failed:', error));
+  }
+};
+
+// Realtime events are gathered briefly so a bulk edit elsewhere lands as one update
+const REMOTE_CHANGE_DEBOUNCE_MS = 500;
+
 const getScopedMetaKey = (baseKey: string, scope: string) => `calendarspent:${baseKey}:${scope}`;
 
 const clearLegacyLocalStorage = () => {
@@ -289,12 +438,13 @@ const getNextRecurrenceDate = (date: Date, cadence: Transaction['recurrenceType'
   }
 };
 
-const buildTransactionSignature = (transaction: Pick<Transaction, 'date' | 'amount' | 'vendor' | 'category'>) => {
+const buildTransactionSignature = (transaction: Pick<Transaction, 'date' | 'amount' | 'vendor' | 'category' | 'direction'>) => {
   return [
     transaction.date,
     transaction.amount.toFixed(2),
     normalizeLabel(transaction.vendor),
     transaction.category,
+    getTransactionDirection(transaction),
   ].join('|');
 };
 
@@ -308,10 +458,36 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
   const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
   const [selectedCategoryIds, setSelectedCategoryIds] = useState<string[]>([]);
   const [recurringExceptions, setRecurringExceptions] = useState<RecurringException[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [budgets, setBudgetsState] = useState<Budget[]>([]);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [remoteUpdateAt, setRemoteUpdateAt] = useState<number | null>(null);
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[]>([]);
   const [includeRecurring, setIncludeRecurringState] = useState(false);
   const [isHydrated, setIsHydrated] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0); // Bumped to re-read storage after a snapshot restore
+  const [isLeaderTab, setIsLeaderTab] = useState(false); // Syncs on its own and listens to Realtime for every open tab
   const [selectedDate, setSelectedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const devVerificationLoggedRef = useRef(false);
+  const settledRecordsRef = useRef(new WeakSet<object>()); // Loaded from storage or the server; not re-saved or queued
+
+  const markSettled = (...collections: object[][]) => {
+    collections.forEach((records) => records.forEach((record) => settledRecordsRef.current.add(record)));
+  };
+
+  const addSyncConflicts = (newConflicts: SyncConflict[]) => {
+    if (newConflicts.length === 0) return;
+    setSyncConflicts(prev => [
+      ...newConflicts,
+      ...prev.filter(existing => !newConflicts.some(conflict => conflict.id === existing.id)),
+    ]);
+    toast.warning(`${newConflicts.length} edit${newConflicts.length === 1 ? '' : 's'} clashed with another device`, {
+      description: 'Pick which version to keep in Settings → Sync Conflicts',
+    });
+  };
 
   const setIncludeRecurring = React.useCallback((value: boolean) => {
     setIncludeRecurringState(value);
@@ -322,36 +498,146 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     });
   }, [storageScope]);
 
-  const syncData = React.useCallback(async () => {
+  const syncData = React.useCallback(async (options?: SyncOptions) => {
     if (!supabaseConfigured || !user) return;
     setIsSyncing(true);
     try {
-      await SyncService.sync(
-        transactions,
-        categories,
-        vendorRules,
-        recurringExceptions,
-        settings,
-        (newTransactions, newCategories, newRules, newExceptions, newSettings) => {
-          const reconciled = migrateData(newCategories, newTransactions, newRules);
-          setTransactions(reconciled.transactions);
-          setCategories(reconciled.categories);
-          setVendorRules(reconciled.vendorRules);
-          setRecurringExceptions(newExceptions);
-          setSettings(prev => ({ ...prev, ...newSettings }));
+      // Only one tab syncs a scope at a time; the others get its results over the tab channel
+      await tryWithTabLock(`sync:${storageScope}`, async () => {
+        try {
+          await takeSyncSnapshotIfDue(storageScope);
+        } catch (error) {
+          console.warn('Snapshot before sync failed:', error);
         }
-      );
+        await SyncService.sync(
+          transactions,
+          categories,
+          vendorRules,
+          recurringExceptions,
+          accounts,
+          budgets,
+          settings,
+          (newTransactions, newCategories, newRules, newExceptions, newAccounts, newBudgets, newSettings, newConflicts) => {
+            // SyncService saved these and pushed the queued ones; only what migrateData changes is new
+            markSettled(newTransactions, newCategories, newRules, newExceptions, newAccounts, newBudgets);
+            const reconciled = migrateData(newCategories, newTransactions, newRules);
+            setTransactions(reconciled.transactions);
+            setCategories(reconciled.categories);
+            setVendorRules(reconciled.vendorRules);
+            setRecurringExceptions(newExceptions);
+            setAccounts(newAccounts);
+            setBudgetsState(newBudgets);
+            setSettings(prev => ({ ...prev, ...newSettings }));
+            addSyncConflicts(newConflicts);
+          },
+          options
+        );
+      });
     } finally {
       setIsSyncing(false);
     }
-  }, [supabaseConfigured, user, transactions, categories, vendorRules, settings, recurringExceptions]);
+  }, [supabaseConfigured, user, storageScope, transactions, categories, vendorRules, settings, recurringExceptions, accounts, budgets]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const resign = electLeader(storageScope, () => {
+      if (!cancelled) setIsLeaderTab(true);
+    });
+    return () => {
+      cancelled = true;
+      resign();
+      setIsLeaderTab(false);
+    };
+  }, [storageScope]);
 
+  // Also runs when this tab takes over from a leader that closed, catching up on what it missed
   useEffect(() => {
-    if (isHydrated && user && supabaseConfigured) {
+    if (isHydrated && isLeaderTab && user && supabaseConfigured) {
       syncData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isHydrated, user?.id, supabaseConfigured]);
+  }, [isHydrated, isLeaderTab, user?.id, supabaseConfigured]);
+
+  // Realtime handlers outlive renders, so they read the latest state through refs
+  const liveStateRef = useRef({ transactions, categories, vendorRules, recurringExceptions, accounts, budgets, isSyncing, syncData });
+  liveStateRef.current = { transactions, categories, vendorRules, recurringExceptions, accounts, budgets, isSyncing, syncData };
+
+  // Merge other devices' changes as they are saved, instead of waiting for the next sync
+  useEffect(() => {
+    if (!isHydrated || !isLeaderTab || !user || !supabaseConfigured) return;
+
+    let pending: RemoteRowChange[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let applying = false;
+    let connected = false;
+    let cancelled = false;
+
+    const schedule = () => {
+      if (timer === undefined) timer = setTimeout(flush, REMOTE_CHANGE_DEBOUNCE_MS);
+    };
+
+    const flush = async () => {
+      timer = undefined;
+      // A running sync is about to replace state and save new bases; merge against those
+      if (applying || liveStateRef.current.isSyncing) {
+        schedule();
+        return;
+      }
+      const changes = pending;
+      pending = [];
+      applying = true;
+      try {
+        const live = liveStateRef.current;
+        await SyncService.applyRemoteChanges(
+          changes,
+          live.transactions,
+          live.categories,
+          live.vendorRules,
+          live.recurringExceptions,
+          live.accounts,
+          live.budgets,
+          (update) => {
+            if (cancelled) return;
+            markSettled(update.transactions, update.categories, update.vendorRules, update.recurringExceptions, update.accounts, update.budgets);
+            setTransactions(prev => upsertById(prev, update.transactions));
+            setCategories(prev => upsertById(prev, update.categories));
+            setVendorRules(prev => upsertById(prev, update.vendorRules));
+            setRecurringExceptions(prev => upsertById(prev, update.recurringExceptions));
+            setAccounts(prev => upsertById(prev, update.accounts));
+            setBudgetsState(prev => upsertById(prev, update.budgets, update.removedBudgetIds));
+            addSyncConflicts(update.conflicts);
+            const count = update.transactions.length + update.categories.length + update.vendorRules.length
+              + update.recurringExceptions.length + update.accounts.length + update.budgets.length;
+            if (count > 0) setRemoteUpdateAt(Date.now());
+          }
+        );
+      } catch (error) {
+        console.warn('Applying realtime changes failed:', error);
+      } finally {
+        applying = false;
+      }
+    };
+
+    const unsubscribe = SyncService.subscribeToChanges(
+      user.id,
+      (change) => {
+        pending.push(change);
+        schedule();
+      },
+      () => {
+        // The first connect follows the sync on sign-in; later ones catch up on what was missed
+        if (connected && !liveStateRef.current.isSyncing) liveStateRef.current.syncData();
+        connected = true;
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      if (timer !== undefined) clearTimeout(timer);
+      unsubscribe();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHydrated, isLeaderTab, user?.id, supabaseConfigured]);
 
   // Rehydrate local state for the active auth scope.
   useEffect(() => {
@@ -365,8 +651,16 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
       setCategories(DEFAULT_CATEGORIES);
       setVendorRules([]);
       setRecurringExceptions([]);
+      setAccounts([]);
+      setExchangeRates([]);
+      setBudgetsState([]);
+      setNotifications([]);
+      setImportBatches([]);
+      setSyncConflicts([]);
+      setRemoteUpdateAt(null);
       setSettings(DEFAULT_SETTINGS);
       setSelectedCategoryIds([]);
+      setSelectedAccountIds([]);
       setIncludeRecurringState(false);
 
       // 1. Try to load from scoped IndexedDB
@@ -375,6 +669,15 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
       let dbRules = await storage.getAll<VendorRule>('vendorRules', storageScope);
       let dbSettings = await storage.get<Settings>('settings', 'app_settings', storageScope);
       let dbExceptions = await storage.getAll<RecurringException>('recurringExceptions', storageScope);
+      const dbAccounts = await storage.getAll<Account>('accounts', storageScope);
+      const dbExchangeRates = await storage.getAll<ExchangeRate>('exchangeRates', storageScope);
+      const dbBudgets = await storage.getAll<Budget>('budgets', storageScope);
+      const dbNotifications = pruneNotifications(await storage.getAll<AppNotification>('notifications', storageScope));
+      for (const stale of await storage.getAll<AppNotification>('notifications', storageScope)) {
+        if (!dbNotifications.some(n => n.id === stale.id)) await storage.remove('notifications', stale.id, storageScope);
+      }
+      const dbImportBatches = await storage.getAll<ImportBatch>('importBatches', storageScope);
+      const dbSyncConflicts = await storage.getAll<SyncConflict>('syncConflicts', storageScope);
 
       // 2. One-time migration from legacy localStorage into guest scope only.
       const hasMigrated = localStorage.getItem(getScopedMetaKey('indexeddb_migrated', storageScope));
@@ -483,42 +786,150 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
         pipelineExceptions = uuidMigrationResult.exceptions;
       }
 
-      // 6. Final State Commit
+      // 6. Move older receipt references into attachments
+      const receiptMigration = await migrateReceiptAttachments(pipelineTransactions, storageScope);
+      if (receiptMigration.changed) {
+        needsSave = true;
+        pipelineTransactions = receiptMigration.transactions;
+      }
+      await pruneOrphanReceipts(pipelineTransactions, storageScope);
+
+      // 7. Final State Commit
       if (cancelled) return;
 
+      const loadedBudgets = dbBudgets.map(normalizeBudget);
+      markSettled(pipelineCategories, pipelineTransactions, pipelineRules, pipelineExceptions, dbAccounts, dbExchangeRates, loadedBudgets, dbNotifications, dbImportBatches);
+
       setCategories(pipelineCategories);
       setTransactions(pipelineTransactions);
       setVendorRules(pipelineRules);
       setRecurringExceptions(pipelineExceptions);
+      setAccounts(dbAccounts);
+      setExchangeRates(dbExchangeRates);
+      setBudgetsState(loadedBudgets);
+      setNotifications(dbNotifications);
+      setImportBatches(dbImportBatches.sort((a, b) => b.createdAt - a.createdAt));
+      setSyncConflicts(dbSyncConflicts.sort((a, b) => b.detectedAt - a.detectedAt));
 
       if (dbSettings) {
         setSettings(dbSettings);
         if (dbSettings.defaultCategoryFilter) {
           setSelectedCategoryIds(dbSettings.defaultCategoryFilter);
         }
+        if (dbSettings.defaultAccountFilter) {
+          setSelectedAccountIds(dbSettings.defaultAccountFilter);
+        }
         if (dbSettings.includeRecurringInReports !== undefined) {
           setIncludeRecurringState(dbSettings.includeRecurringInReports);
         }
       }
 
-      // 7. Persist pipeline if mutated
+      // 8. Persist pipeline if mutated
       // If we loaded demo data, it also counts as needsSave.
-      if (needsSave || dbTransactions.length === 0) {
-        for (const c of pipelineCategories) await storage.set('categories', c.id, c, storageScope);
-        for (const t of pipelineTransactions) await storage.set('transactions', t.id, t, storageScope);
-        for (const r of pipelineRules) await storage.set('vendorRules', r.id, r, storageScope);
-        for (const e of pipelineExceptions) await storage.set('recurringExceptions', `${e.ruleId}-${e.date}`, e, storageScope);
+      if (needsSave || dbTransactions.length === 0 || dbCategories.length === 0) {
+        await storage.putEntries({
+          categories: pipelineCategories.map((c) => [c.id, c]),
+          transactions: pipelineTransactions.map((t) => [t.id, t]),
+          vendorRules: pipelineRules.map((r) => [r.id, r]),
+          recurringExceptions: pipelineExceptions.map((e) => [`${e.ruleId}-${e.date}`, e]),
+        }, storageScope);
+      }
+
+      // 9. Queue edits made before the sync outbox existed; they were found by comparing with lastPushAt
+      const outboxMigrationKey = getScopedMetaKey('sync_outbox_v1', storageScope);
+      if (user && !localStorage.getItem(outboxMigrationKey)) {
+        const lastPushAt = dbSettings?.lastPushAt ?? 0;
+        const unpushed = (records: Array<{ id: string; updatedAt?: number }>) =>
+          records.filter((record) => (record.updatedAt ?? 0) > lastPushAt).map((record) => record.id);
+        await queueSyncChanges(storageScope, {
+          transactions: unpushed(pipelineTransactions),
+          categories: unpushed(pipelineCategories),
+          vendorRules: unpushed(pipelineRules),
+          recurringExceptions: unpushed(pipelineExceptions),
+          accounts: unpushed(dbAccounts),
+          budgets: unpushed(loadedBudgets),
+        });
+        localStorage.setItem(outboxMigrationKey, 'true');
       }
 
       if (cancelled) return;
       setIsHydrated(true);
+
+      takeDailySnapshotIfDue(storageScope).catch((error) => console.warn('Daily snapshot failed:', error));
     }
 
-    loadData();
+    // One tab at a time, so two tabs opened together don't both run the migrations
+    withTabLock(`load:${storageScope}`, loadData);
     return () => {
       cancelled = true;
     };
-  }, [authLoading, storageScope, user]);
+  }, [authLoading, storageScope, user, reloadToken]);
+
+  // Another tab changed the same database: re-read what it wrote, so this tab
+  // shows it and doesn't later save a stale copy over it
+  const isHydratedRef = useRef(isHydrated);
+  isHydratedRef.current = isHydrated;
+  const missedTabChangesRef = useRef(false);
+
+  useEffect(() => {
+    if (!isHydrated || !missedTabChangesRef.current) return;
+    // Changes that arrived mid-load may not be in what was loaded
+    missedTabChangesRef.current = false;
+    setReloadToken((token) => token + 1);
+  }, [isHydrated]);
+
+  useEffect(() => {
+    const applyTabEntries = async <T extends { id: string }>(
+      keys: Record<string, string[]>,
+      storeName: string,
+      setRecords: React.Dispatch<React.SetStateAction<T[]>>,
+      getKey?: (record: T) => string,
+      order?: (a: T, b: T) => number,
+    ) => {
+      if (!keys[storeName]) return;
+      const entries = await storage.getMany<T>(storeName, keys[storeName], storageScope);
+      markSettled(entries.flatMap(([, value]) => (value ? [value] : [])));
+      setRecords((prev) => {
+        const next = mergeTabEntries(prev, entries, getKey);
+        return order ? [...next].sort(order) : next;
+      });
+    };
+
+    const applyTabChange = async (keys: Record<string, string[]>) => {
+      await applyTabEntries(keys, 'transactions', setTransactions);
+      await applyTabEntries(keys, 'categories', setCategories);
+      await applyTabEntries(keys, 'vendorRules', setVendorRules);
+      await applyTabEntries(keys, 'recurringExceptions', setRecurringExceptions, (e) => `${e.ruleId}-${e.date}`);
+      await applyTabEntries(keys, 'accounts', setAccounts);
+      await applyTabEntries(keys, 'exchangeRates', setExchangeRates);
+      await applyTabEntries(keys, 'budgets', setBudgetsState);
+      await applyTabEntries(keys, 'notifications', setNotifications);
+      await applyTabEntries(keys, 'importBatches', setImportBatches, undefined, (a, b) => b.createdAt - a.createdAt);
+      await applyTabEntries(keys, 'syncConflicts', setSyncConflicts, undefined, (a, b) => b.detectedAt - a.detectedAt);
+
+      if (keys.settings?.includes('app_settings')) {
+        const next = await storage.get<Settings>('settings', 'app_settings', storageScope);
+        if (!next) return;
+        // Saving settings here announces them back; an unchanged copy stops the echo
+        setSettings((prev) => (stableStringify(prev) === stableStringify(next) ? prev : next));
+        if (next.includeRecurringInReports !== undefined) setIncludeRecurringState(next.includeRecurringInReports);
+      }
+    };
+
+    return subscribeToOtherTabs((change) => {
+      if (change.scope !== null && change.scope !== storageScope) return;
+      if (change.keys !== 'all' && !Object.keys(change.keys).some((storeName) => TAB_SYNCED_STORES.has(storeName))) return;
+
+      if (!isHydratedRef.current) {
+        missedTabChangesRef.current = true;
+      } else if (change.keys === 'all') {
+        setReloadToken((token) => token + 1);
+      } else {
+        applyTabChange(change.keys).catch((error) => console.warn('Applying changes from another tab failed:', error));
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storageScope]);
 
   // Helpers for expansion
   const getSuggestedCategory = (vendor: string) => {
@@ -565,13 +976,16 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     return expanded;
   };
 
+  const homeCurrency = settings.currency || DEFAULT_CURRENCY;
+
   // 2. Expand and process transactions
   const processedTransactions = React.useMemo(() => {
     // 0. Filter out cleanly deleted items (tombstones)
     const activeTransactions = transactions.filter(t => !t.deletedAt);
 
-    // 1. Apply vendor rules first
+    // 1. Apply vendor rules first (income, transfers and split transactions keep the categories they were saved with)
     const withRules = activeTransactions.map((t) => {
+      if (!isSpendingTransaction(t) || hasSplits(t)) return t;
       const suggestedCategory = getSuggestedCategory(t.vendor);
       if (suggestedCategory) {
         return { ...t, category: suggestedCategory };
@@ -579,9 +993,9 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
       return t;
     });
 
-    // 2. Expand recurring
-    return expandTransactions(withRules);
-  }, [transactions, categories, vendorRules, recurringExceptions]);
+    // 2. Expand recurring, then convert into the home currency (per occurrence, since rates are dated)
+    return applyHomeCurrency(expandTransactions(withRules), homeCurrency, exchangeRates);
+  }, [transactions, categories, vendorRules, recurringExceptions, homeCurrency, exchangeRates]);
 
   // 3. Apply global filters (on expanded set)
   const filteredTransactions = React.useMemo(() => {
@@ -589,7 +1003,15 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
 
     // Filter by category
     if (selectedCategoryIds.length > 0) {
-      filtered = filtered.filter(t => selectedCategoryIds.includes(t.category));
+      filtered = filtered.filter(t => selectedCategoryIds.some(id => transactionHasCategory(t, id)));
+    }
+
+    // Filter by account (transfers match on either side)
+    if (selectedAccountIds.length > 0) {
+      filtered = filtered.filter(t =>
+        (t.accountId && selectedAccountIds.includes(t.accountId)) ||
+        (t.transferAccountId && selectedAccountIds.includes(t.transferAccountId))
+      );
     }
 
     // Filter by recurring toggle
@@ -601,7 +1023,59 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     filtered = filtered.filter(t => !t.isSkipped);
 
     return filtered;
-  }, [processedTransactions, selectedCategoryIds, includeRecurring]);
+  }, [processedTransactions, selectedCategoryIds, selectedAccountIds, includeRecurring]);
+
+  const activeAccounts = React.useMemo(() => accounts.filter(a => !a.deletedAt), [accounts]);
+  const activeExchangeRates = React.useMemo(() => exchangeRates.filter(r => !r.deletedAt), [exchangeRates]);
+  const activeBudgets = React.useMemo(() => budgets.filter(b => !b.deletedAt), [budgets]);
+
+  // Raise notifications for budget thresholds and upcoming recurring charges.
+  // Each event has a stable key, so re-evaluating only adds what is new. Only
+  // the leader tab evaluates; the others get what it raised over the tab channel.
+  const notificationsRef = useRef(notifications);
+  notificationsRef.current = notifications;
+  useEffect(() => {
+    if (!isHydrated || !isLeaderTab || !settings.notifications) return;
+
+    const preferences = getNotificationPreferences(settings);
+    const activeCategories = categories.filter(c => !c.deletedAt);
+    const today = new Date();
+    const progress = activeBudgets.map(b => getBudgetProgress(b, processedTransactions, activeCategories, today));
+    const candidates = [
+      ...evaluateBudgetRules(progress, activeCategories, preferences, homeCurrency, today),
+      ...evaluateRecurringRules(processedTransactions, activeCategories, preferences, homeCurrency, today),
+    ];
+
+    const seen = new Set(notificationsRef.current.map(n => n.key));
+    const now = Date.now();
+    const raised: AppNotification[] = candidates
+      .filter(c => !seen.has(c.key))
+      .map(c => ({ ...c, id: crypto.randomUUID(), createdAt: now }));
+    if (raised.length === 0) return;
+
+    setNotifications(prev => pruneNotifications([...raised.filter(n => !prev.some(p => p.key === n.key)), ...prev]));
+    if (raised.length === 1) {
+      toast(raised[0].title, { description: raised[0].body });
+    } else {
+      toast(`${raised.length} new alerts`, { description: 'Open Notifications to see them' });
+    }
+    if (preferences.browserAlerts && 'Notification' in window && Notification.permission === 'granted') {
+      raised.forEach(showBrowserNotification);
+    }
+  }, [isHydrated, isLeaderTab, processedTransactions, activeBudgets, categories, settings, homeCurrency]);
+
+  const visibleNotifications = React.useMemo(() => notifications.filter(n => !n.deletedAt), [notifications]);
+  const unreadNotificationCount = visibleNotifications.filter(n => !n.readAt).length;
+
+  const missingRateCurrencies = React.useMemo(
+    () => getMissingRateCurrencies(processedTransactions, homeCurrency, exchangeRates),
+    [processedTransactions, homeCurrency, exchangeRates]
+  );
+
+  const accountBalances = React.useMemo(
+    () => calculateAccountBalances(activeAccounts, processedTransactions),
+    [activeAccounts, processedTransactions]
+  );
 
   // Calendar Sync Payload builder
   const buildCalendarPayload = React.useCallback((): LocalTransaction[] => {
@@ -609,17 +1083,24 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     const pastCutoff = format(addDays(today, -14), 'yyyy-MM-dd');
     const futureCutoff = format(addDays(today, 14), 'yyyy-MM-dd');
 
-    return transactions
-      .filter(t => !t.deletedAt && !t.isSkipped && t.date >= pastCutoff && t.date <= futureCutoff)
-      .map(t => ({
+    const inWindow = transactions.filter(t => !t.deletedAt && !t.isSkipped && t.date >= pastCutoff && t.date <= futureCutoff);
+    // Daily totals are in the home currency; split lines convert at their transaction's rate
+    return applyHomeCurrency(inWindow, homeCurrency, exchangeRates).map(t => {
+      const homeRatio = t.amount !== 0 ? getHomeAmount(t) / t.amount : 1;
+      return {
         id: t.id,
         date: t.date,
-        amount: t.amount,
+        amount: getHomeAmount(t),
         vendor: t.vendor,
         category: categories.find(c => c.id === t.category)?.name ?? t.category,
+        splits: hasSplits(t)
+          ? t.splits!.map(s => ({ category: categories.find(c => c.id === s.category)?.name ?? s.category, amount: roundToCents(s.amount * homeRatio) }))
+          : undefined,
+        direction: getTransactionDirection(t),
         isRecurring: !!t.isRecurring,
-      }));
-  }, [transactions, categories]);
+      };
+    });
+  }, [transactions, categories, homeCurrency, exchangeRates]);
 
   // Auto-sync Google Calendar on transaction changes (debounced)
   useEffect(() => {
@@ -634,48 +1115,28 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     return () => clearTimeout(timeoutId);
   }, [transactions, recurringExceptions, settings.googleCalendarAutoSync, isHydrated]);
 
-  // Sync state to IndexedDB whenever it changes
-  // We use key-based storage for arrays to avoid massive single-key reads if needed later, 
-  // but for now, we just overwrite the whole collection to match the sync nature of the app.
-  useEffect(() => {
-    if (!isHydrated) return;
-    // Clear and rewrite (minimal implementation for now)
-    const sync = async () => {
-      // Transactions
-      for (const t of transactions) await storage.set('transactions', t.id, t, storageScope);
-    };
-    sync();
-  }, [transactions, isHydrated, storageScope]);
-
-  useEffect(() => {
-    if (!isHydrated) return;
-    const sync = async () => {
-      for (const c of categories) await storage.set('categories', c.id, c, storageScope);
-    };
-    sync();
-  }, [categories, isHydrated, storageScope]);
-
-  useEffect(() => {
-    if (!isHydrated) return;
-    const sync = async () => {
-      for (const r of vendorRules) await storage.set('vendorRules', r.id, r, storageScope);
-    };
-    sync();
-  }, [vendorRules, isHydrated, storageScope]);
+  // Save edited records to IndexedDB, and queue the synced collections for the next push
+  const persistOptions = { scope: storageScope, enabled: isHydrated, settled: settledRecordsRef.current };
+  const syncOutbox = (collection: SyncCollection) => (user && supabaseConfigured ? collection : undefined);
+  usePersistedCollection('transactions', transactions, { ...persistOptions, outbox: syncOutbox('transactions') });
+  usePersistedCollection('categories', categories, { ...persistOptions, outbox: syncOutbox('categories') });
+  usePersistedCollection('vendorRules', vendorRules, { ...persistOptions, outbox: syncOutbox('vendorRules') });
+  usePersistedCollection('accounts', accounts, { ...persistOptions, outbox: syncOutbox('accounts') });
+  usePersistedCollection('budgets', budgets, { ...persistOptions, outbox: syncOutbox('budgets') });
+  usePersistedCollection('recurringExceptions', recurringExceptions, {
+    ...persistOptions,
+    outbox: syncOutbox('recurringExceptions'),
+    getKey: (e) => `${e.ruleId}-${e.date}`,
+  });
+  usePersistedCollection('exchangeRates', exchangeRates, persistOptions);
+  usePersistedCollection('notifications', notifications, persistOptions);
+  usePersistedCollection('importBatches', importBatches, persistOptions);
 
   useEffect(() => {
     if (!isHydrated) return;
     storage.set('settings', 'app_settings', settings, storageScope);
   }, [settings, isHydrated, storageScope]);
 
-  useEffect(() => {
-    if (!isHydrated) return;
-    const sync = async () => {
-      for (const e of recurringExceptions) await storage.set('recurringExceptions', `${e.ruleId}-${e.date}`, e, storageScope);
-    };
-    sync();
-  }, [recurringExceptions, isHydrated, storageScope]);
-
   useEffect(() => {
     if (!import.meta.env.DEV || !isHydrated || devVerificationLoggedRef.current) return;
 
@@ -703,15 +1164,26 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     });
   }, [categories, vendorRules, isHydrated]);
 
+  const getExchangeRate = (currency: string, date: string) =>
+    findExchangeRate(exchangeRates, currency, homeCurrency, date);
+
+  // Stamps the current table rate on foreign-currency transactions so later rate edits don't rewrite history
+  const withCapturedRate = <T extends Omit<Transaction, 'id'>>(transaction: T): T => {
+    if (!transaction.currency || transaction.currency === homeCurrency) return transaction;
+    if (transaction.exchangeRate && transaction.exchangeRateCurrency) return transaction;
+
+    const rate = getExchangeRate(transaction.currency, transaction.date);
+    return rate === null ? transaction : { ...transaction, exchangeRate: rate, exchangeRateCurrency: homeCurrency };
+  };
+
   const addTransaction = async (transaction: Omit<Transaction, 'id'>) => {
     const newTransaction = {
-      ...transaction,
+      ...withCapturedRate(transaction),
       id: crypto.randomUUID(),
       isActive: transaction.isRecurring ? true : undefined,
       updatedAt: Date.now(),
     };
     setTransactions((prev) => [...prev, newTransaction]);
-    await storage.set('transactions', newTransaction.id, newTransaction, storageScope);
   };
 
   const updateTransaction = async (id: string, updates: Partial<Transaction>) => {
@@ -721,10 +1193,28 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     );
     const existing = transactions.find(t => t.id === id);
     if (existing) {
-      await storage.set('transactions', id, { ...existing, ...updates, updatedAt: now }, storageScope);
+      // Removed attachments are discarded unless a split-off recurring rule still shows them
+      if (updates.attachments) {
+        const keptIds = new Set(updates.attachments.map(a => a.id));
+        for (const attachment of existing.attachments ?? []) {
+          if (keptIds.has(attachment.id)) continue;
+          const isShared = transactions.some(t => t.id !== id && t.attachments?.some(a => a.id === attachment.id));
+          if (!isShared) await markReceiptDeleted(attachment.id, storageScope);
+        }
+      }
     }
   };
 
+  const addReceipt = (file: PreparedReceiptFile) => saveReceipt(file, storageScope);
+
+  const getReceiptUrl = (attachment: TransactionAttachment, variant: ReceiptVariant) =>
+    loadReceiptUrl(
+      attachment,
+      variant,
+      storageScope,
+      supabaseConfigured && user ? (remote) => downloadReceipt(user.id, remote) : undefined,
+    );
+
   const deleteTransaction = async (id: string) => {
     const now = Date.now();
 
@@ -732,7 +1222,6 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     const exactMatch = transactions.find(t => t.id === id);
     if (exactMatch) {
       setTransactions((prev) => prev.map((t) => (t.id === id ? { ...t, deletedAt: now, updatedAt: now } : t)));
-      await storage.set('transactions', id, { ...exactMatch, deletedAt: now, updatedAt: now }, storageScope);
       return;
     }
 
@@ -749,17 +1238,34 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
   const bulkDeleteTransactions = async (ids: string[], recurringOption: 'single' | 'future' | 'all' = 'single') => {
     const now = Date.now();
     const currentTransactions = [...transactions];
+    const batch: ImportBatch = {
+      id: crypto.randomUUID(),
+      kind: 'bulk-delete',
+      label: `Deleted ${ids.length} transaction${ids.length === 1 ? '' : 's'}`,
+      createdAt: now,
+      transactionIds: [],
+      categoryIds: [],
+      exceptionIds: [],
+      endedRules: [],
+    };
+
+    const endRule = async (rule: Transaction, endedAt: string) => {
+      if (!batch.endedRules.some(r => r.id === rule.id)) {
+        batch.endedRules.push({ id: rule.id, endedAt: rule.endedAt, isActive: rule.isActive });
+      }
+      await updateTransaction(rule.id, { endedAt, isActive: false, batchId: batch.id });
+    };
 
     for (const id of ids) {
       // 1. Try exact match (one-time or base rule)
       const exactMatch = currentTransactions.find(t => t.id === id);
       if (exactMatch) {
         if (!exactMatch.isRecurring || recurringOption === 'all') {
-          setTransactions((prev) => prev.map((t) => (t.id === id ? { ...t, deletedAt: now, updatedAt: now } : t)));
-          await storage.set('transactions', id, { ...exactMatch, deletedAt: now, updatedAt: now }, storageScope);
+          setTransactions((prev) => prev.map((t) => (t.id === id ? { ...t, deletedAt: now, updatedAt: now, batchId: batch.id } : t)));
+          batch.transactionIds.push(id);
         } else if (recurringOption === 'future') {
           const yesterday = format(addDays(new Date(), -1), 'yyyy-MM-dd');
-          await updateTransaction(id, { endedAt: yesterday, isActive: false });
+          await endRule(exactMatch, yesterday);
         }
         continue;
       }
@@ -772,18 +1278,23 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
 
         if (recurringOption === 'single') {
           await skipOccurrence(ruleId, datePart, 'Bulk Deleted');
+          batch.exceptionIds.push(`${ruleId}-${datePart}`);
         } else if (recurringOption === 'future') {
           const dayBefore = format(addDays(parseISO(datePart), -1), 'yyyy-MM-dd');
-          await updateTransaction(ruleId, { endedAt: dayBefore, isActive: false });
+          await endRule(parentRule, dayBefore);
         } else if (recurringOption === 'all') {
           const rule = currentTransactions.find(t => t.id === ruleId);
-          if (rule) {
-            setTransactions((prev) => prev.map((t) => (t.id === ruleId ? { ...t, deletedAt: now, updatedAt: now } : t)));
-            await storage.set('transactions', ruleId, { ...rule, deletedAt: now, updatedAt: now }, storageScope);
+          if (rule && !batch.transactionIds.includes(ruleId)) {
+            setTransactions((prev) => prev.map((t) => (t.id === ruleId ? { ...t, deletedAt: now, updatedAt: now, batchId: batch.id } : t)));
+            batch.transactionIds.push(ruleId);
           }
         }
       }
     }
+
+    if (batch.transactionIds.length + batch.exceptionIds.length + batch.endedRules.length > 0) {
+      setImportBatches((prev) => [batch, ...prev]);
+    }
   };
 
   const validateCategory = (name: string, group: string, id?: string) => {
@@ -814,7 +1325,6 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
       updatedAt: Date.now(),
     };
     setCategories((prev) => [...prev, newCategory]);
-    await storage.set('categories', newCategory.id, newCategory, storageScope);
   };
 
   const updateCategory = async (id: string, updates: Partial<Category>) => {
@@ -827,7 +1337,6 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     setCategories((prev) =>
       prev.map((c) => (c.id === id ? { ...c, ...updates, updatedAt: now } : c))
     );
-    await storage.set('categories', id, { ...existing, ...updates, updatedAt: now }, storageScope);
   };
 
   const deleteCategory = (id: string) => {
@@ -839,10 +1348,15 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
 
     const now = Date.now();
     const fallbackId = 'cat-uncategorized';
+    const remap = (t: Transaction): Transaction => ({
+      ...t,
+      category: t.category === id ? fallbackId : t.category,
+      splits: t.splits?.map(s => (s.category === id ? { ...s, category: fallbackId } : s)),
+      updatedAt: now,
+    });
 
-    // 1. Update State immediately
     setTransactions((prev) =>
-      prev.map((t) => (t.category === id ? { ...t, category: fallbackId, updatedAt: now } : t))
+      prev.map((t) => (transactionHasCategory(t, id) || t.category === id ? remap(t) : t))
     );
     setVendorRules((prev) =>
       prev.map((r) => (r.categoryId === id ? { ...r, categoryId: fallbackId, updatedAt: now } : r))
@@ -850,30 +1364,11 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     setCategories((prev) =>
       prev.map((c) => c.id === id ? { ...c, deletedAt: now, updatedAt: now } : c)
     );
-
-    // 2. Persist to Storage
-    const removeOperations = async () => {
-      // Remap Transactions
-      const allTransactions = await storage.getAll<Transaction>('transactions', storageScope);
-      const affectedTrans = allTransactions.filter(t => t.category === id);
-      for (const t of affectedTrans) {
-        await storage.set('transactions', t.id, { ...t, category: fallbackId, updatedAt: now }, storageScope);
-      }
-
-      // Remap Vendor Rules
-      const allRules = await storage.getAll<VendorRule>('vendorRules', storageScope);
-      const affectedRules = allRules.filter(r => r.categoryId === id);
-      for (const r of affectedRules) {
-        await storage.set('vendorRules', r.id, { ...r, categoryId: fallbackId, updatedAt: now }, storageScope);
-      }
-
-      // Soft Delete Category
-      const existing = categories.find(c => c.id === id);
-      if (existing) {
-        await storage.set('categories', id, { ...existing, deletedAt: now, updatedAt: now }, storageScope);
-      }
-    };
-    removeOperations();
+    setBudgetsState((prev) =>
+      prev.map((b) =>
+        b.scope === 'category' && b.categoryId === id && !b.deletedAt ? { ...b, deletedAt: now, updatedAt: now } : b
+      )
+    );
 
     toast.success('Category removed and transactions remapped');
   };
@@ -887,16 +1382,196 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
       updatedAt: Date.now(),
     };
     setVendorRules((prev) => [...prev, newRule]);
-    await storage.set('vendorRules', newRule.id, newRule, storageScope);
   };
 
   const deleteVendorRule = async (id: string) => {
     const now = Date.now();
     setVendorRules((prev) => prev.map((r) => r.id === id ? { ...r, deletedAt: now, updatedAt: now } : r));
-    const existing = vendorRules.find(r => r.id === id);
-    if (existing) {
-      await storage.set('vendorRules', id, { ...existing, deletedAt: now, updatedAt: now }, storageScope);
+  };
+
+  const addAccount = async (account: Omit<Account, 'id' | 'createdAt'>) => {
+    if (!account.name.trim()) {
+      toast.error('Account name cannot be empty');
+      return;
+    }
+
+    const now = Date.now();
+    const newAccount: Account = {
+      ...account,
+      name: account.name.trim(),
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    setAccounts((prev) => [...prev, newAccount]);
+  };
+
+  const updateAccount = async (id: string, updates: Partial<Account>) => {
+    const existing = accounts.find(a => a.id === id);
+    if (!existing) return;
+
+    const now = Date.now();
+    setAccounts((prev) => prev.map((a) => (a.id === id ? { ...a, ...updates, updatedAt: now } : a)));
+  };
+
+  const deleteAccount = async (id: string) => {
+    const existing = accounts.find(a => a.id === id);
+    if (!existing) return;
+
+    const now = Date.now();
+    const detach = (t: Transaction): Transaction => ({
+      ...t,
+      accountId: t.accountId === id ? undefined : t.accountId,
+      transferAccountId: t.transferAccountId === id ? undefined : t.transferAccountId,
+      updatedAt: now,
+    });
+
+    // Transactions stay, they just become unassigned
+    setTransactions((prev) => prev.map((t) => (t.accountId === id || t.transferAccountId === id ? detach(t) : t)));
+    setAccounts((prev) => prev.map((a) => (a.id === id ? { ...a, deletedAt: now, updatedAt: now } : a)));
+    setSelectedAccountIds((prev) => prev.filter(accountId => accountId !== id));
+    toast.success('Account removed');
+  };
+
+  const addExchangeRate = async (rate: Omit<ExchangeRate, 'id' | 'createdAt'>) => {
+    if (!(rate.rate > 0) || rate.fromCurrency === rate.toCurrency) {
+      toast.error('Enter a positive rate between two different currencies');
+      return;
     }
+
+    const now = Date.now();
+    const newRate: ExchangeRate = { ...rate, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+    setExchangeRates((prev) => [...prev, newRate]);
+  };
+
+  const deleteExchangeRate = async (id: string) => {
+    const existing = exchangeRates.find(r => r.id === id);
+    if (!existing) return;
+
+    const now = Date.now();
+    setExchangeRates((prev) => prev.map((r) => (r.id === id ? { ...r, deletedAt: now, updatedAt: now } : r)));
+  };
+
+  const importExchangeRates = async (rates: Omit<ExchangeRate, 'id' | 'createdAt'>[]) => {
+    const rateKey = (r: Pick<ExchangeRate, 'fromCurrency' | 'toCurrency' | 'date'>) => `${r.fromCurrency}|${r.toCurrency}|${r.date}`;
+    const existingKeys = new Set(exchangeRates.filter(r => !r.deletedAt).map(rateKey));
+    const now = Date.now();
+
+    // Same pair on the same date is treated as a duplicate rather than an update
+    const created: ExchangeRate[] = rates
+      .filter(r => !existingKeys.has(rateKey(r)))
+      .map(r => ({ ...r, id: crypto.randomUUID(), createdAt: now, updatedAt: now }));
+
+    setExchangeRates((prev) => [...prev, ...created]);
+    return created.length;
+  };
+
+  // Budgets are keyed by target (category, group or overall): saving over a
+  // removed budget revives its record so the remote one-budget-per-target
+  // constraint keeps holding. Inputs without a period keep the existing one
+  // (or start out monthly).
+  const resolveBudgets = (inputs: BudgetInput[]): Budget[] => {
+    const now = Date.now();
+    const byTarget = new Map(budgets.map(b => [getBudgetTargetKey(b), b]));
+    return inputs.map((input): Budget => {
+      const scope = input.scope ?? 'category';
+      const target = {
+        scope,
+        categoryId: scope === 'category' ? input.categoryId : undefined,
+        group: scope === 'group' ? input.group : undefined,
+      };
+      const existing = byTarget.get(getBudgetTargetKey(target));
+      const period = input.period
+        ? { period: input.period, periodStart: input.periodStart, periodEnd: input.periodEnd }
+        : { period: existing?.period ?? 'monthly' as const };
+      const rollover = input.rollover ?? existing?.rollover;
+      return existing
+        ? { ...existing, ...period, limit: input.limit, rollover, deletedAt: undefined, updatedAt: now }
+        : { id: crypto.randomUUID(), ...target, limit: input.limit, ...period, rollover, createdAt: now, updatedAt: now };
+    });
+  };
+
+  const upsertBudgets = (saved: Budget[]) => {
+    const savedIds = new Set(saved.map(b => b.id));
+    setBudgetsState((prev) => [...prev.filter(b => !savedIds.has(b.id)), ...saved]);
+  };
+
+  // Allocation problems `saved` would introduce or make worse; ones that
+  // already existed (e.g. after moving a category between groups) don't count.
+  const getNewAllocationIssues = (saved: Budget[]): BudgetAllocationIssue[] => {
+    const activeCategories = categories.filter(c => !c.deletedAt);
+    const savedIds = new Set(saved.map(b => b.id));
+    const before = getBudgetAllocationIssues(activeBudgets, activeCategories);
+    const after = getBudgetAllocationIssues(
+      [...activeBudgets.filter(b => !savedIds.has(b.id)), ...saved],
+      activeCategories
+    );
+    return after.filter(issue => {
+      const previous = before.find(p => p.budget.id === issue.budget.id);
+      return !previous || issue.allocated - issue.limit > previous.allocated - previous.limit;
+    });
+  };
+
+  const setBudget = async (budget: BudgetInput) => {
+    if (!(budget.limit > 0)) {
+      toast.error('Budget must be greater than zero');
+      return false;
+    }
+    if (budget.period === 'custom' && (!budget.periodStart || !budget.periodEnd || budget.periodEnd < budget.periodStart)) {
+      toast.error('Custom budgets need a start date on or before the end date');
+      return false;
+    }
+    if ((budget.scope ?? 'category') === 'category' ? !budget.categoryId : budget.scope === 'group' && !budget.group) {
+      toast.error('Choose what this budget applies to');
+      return false;
+    }
+
+    const [saved] = resolveBudgets([budget]);
+    const [issue] = getNewAllocationIssues([saved]);
+    if (issue) {
+      toast.error(describeBudgetAllocationIssue(issue, homeCurrency));
+      return false;
+    }
+    upsertBudgets([saved]);
+    return true;
+  };
+
+  // Bulk saves (e.g. applying suggestions) go through, but flag any budget
+  // they push over its group or the overall cap.
+  const setBudgets = async (inputs: BudgetInput[]) => {
+    const saved = resolveBudgets(inputs.filter(b => b.limit > 0));
+    const [issue] = getNewAllocationIssues(saved);
+    upsertBudgets(saved);
+    if (issue) toast.warning(describeBudgetAllocationIssue(issue, homeCurrency));
+  };
+
+  const removeBudget = async (id: string) => {
+    const existing = budgets.find(b => b.id === id && !b.deletedAt);
+    if (!existing) return;
+
+    const now = Date.now();
+    setBudgetsState((prev) => prev.map((b) => (b.id === existing.id ? { ...b, deletedAt: now, updatedAt: now } : b)));
+  };
+
+  const markNotificationRead = (id: string) => {
+    const now = Date.now();
+    setNotifications(prev => prev.map(n => (n.id === id && !n.readAt ? { ...n, readAt: now } : n)));
+  };
+
+  const markAllNotificationsRead = () => {
+    const now = Date.now();
+    setNotifications(prev => prev.map(n => (n.readAt ? n : { ...n, readAt: now })));
+  };
+
+  // Dismissed notifications stay as tombstones so their events aren't raised again
+  const dismissNotification = (id: string) => {
+    const now = Date.now();
+    setNotifications(prev => prev.map(n => (n.id === id ? { ...n, readAt: n.readAt ?? now, deletedAt: now } : n)));
+  };
+
+  const clearNotifications = () => {
+    const now = Date.now();
+    setNotifications(prev => prev.map(n => (n.deletedAt ? n : { ...n, readAt: n.readAt ?? now, deletedAt: now })));
   };
 
   const updateSettings = (updates: Partial<Settings>) => {
@@ -915,6 +1590,10 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     setSelectedCategoryIds(categoryIds);
   };
 
+  const setSelectedAccounts = (accountIds: string[]) => {
+    setSelectedAccountIds(accountIds);
+  };
+
 
   const updateRecurringRule = (id: string, updates: Partial<Transaction>) => {
     const original = transactions.find(t => t.id === id);
@@ -951,7 +1630,11 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
 
   const saveFilterAsDefault = () => {
     // Save the current selectedCategoryIds to settings
-    setSettings((prev) => ({ ...prev, defaultCategoryFilter: selectedCategoryIds }));
+    setSettings((prev) => ({
+      ...prev,
+      defaultCategoryFilter: selectedCategoryIds,
+      defaultAccountFilter: selectedAccountIds,
+    }));
   };
 
   const skipOccurrence = async (ruleId: string, date: string, note?: string) => {
@@ -968,18 +1651,12 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
       ...prev.filter(e => e.id !== id),
       newException
     ]);
-    await storage.set('recurringExceptions', id, newException, storageScope);
   };
 
   const unskipOccurrence = async (ruleId: string, date: string) => {
     const id = `${ruleId}-${date}`;
     const now = Date.now();
     setRecurringExceptions(prev => prev.map(e => (e.id === id ? { ...e, deletedAt: now, updatedAt: now } : e)));
-    const existing = recurringExceptions.find(e => e.id === id);
-    if (existing) {
-      const updated = { ...existing, deletedAt: now, updatedAt: now };
-      await storage.set('recurringExceptions', id, updated, storageScope);
-    }
   };
 
   const stopRecurringRule = (id: string) => {
@@ -1000,95 +1677,197 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const exportBackup = () => {
+  const exportBackup = async (passphrase?: string) => {
     try {
-      const backupData = {
-        version: "1",
-        exportedAt: new Date().toISOString(),
-        expenses: transactions,
+      const backupJson = await serializeBackup({
+        transactions,
         categories,
         vendorRules,
+        recurringExceptions,
+        accounts,
+        exchangeRates,
+        budgets,
         settings,
-        recurringExceptions
-      };
-
-      const jsonString = JSON.stringify(backupData, null, 2);
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-
-      const dateStr = format(new Date(), 'yyyy-MM-dd');
-      link.href = url;
-      link.download = `calendarspent-backup-${dateStr}.json`;
-
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      toast.success('Backup exported successfully');
+      });
+      const json = passphrase ? await encryptBackup(backupJson, passphrase) : backupJson;
+      downloadBlob(
+        new Blob([json], { type: 'application/json' }),
+        `calendarspent-backup-${format(new Date(), 'yyyy-MM-dd')}${passphrase ? '-encrypted' : ''}.json`,
+      );
+      toast.success(passphrase ? 'Encrypted backup exported' : 'Backup exported successfully');
     } catch (error) {
       console.error('Export failed:', error);
       toast.error('Failed to export backup');
     }
   };
 
-  const importBackup = async (jsonString: string) => {
+  // A failed snapshot shouldn't stop the change it was meant to protect
+  const snapshotBefore = async (reason: SnapshotReason, label?: string) => {
     try {
-      const parsed = JSON.parse(jsonString);
-
-      // Basic validation
-      if (
-        !parsed ||
-        typeof parsed !== 'object' ||
-        !parsed.version ||
-        !Array.isArray(parsed.expenses)
-      ) {
-        throw new Error('Invalid Backup JSON. Use a backup exported from CalendarSpent.');
-      }
+      await takeSnapshot(storageScope, reason, label);
+    } catch (error) {
+      console.warn('Snapshot failed:', error);
+    }
+  };
 
-      // Clear all existing data from DB
-      await storage.clearScope(storageScope);
+  const getSnapshots = () => listSnapshots(storageScope);
+  const getPendingSyncCounts = () => countOutbox(storageScope);
+
+  const createSnapshot = () => takeSnapshot(storageScope, 'manual');
+
+  const restoreFromSnapshot = async (id: string) => {
+    const touched = await restoreSnapshot(storageScope, id);
+    // The reload below marks everything as saved, so the restored records are queued for sync here
+    if (user && supabaseConfigured) {
+      await queueSyncChanges(storageScope, {
+        transactions: touched.transactions,
+        categories: touched.categories,
+        vendorRules: touched.vendorRules,
+        recurringExceptions: touched.recurringExceptions,
+        accounts: touched.accounts,
+        budgets: touched.budgets,
+      });
+    }
+    setReloadToken((token) => token + 1);
+  };
 
-      // Also clear legacy localStorage keys just in case
-      clearLegacyLocalStorage();
+  const compareSnapshot = (id: string) => diffSnapshot(storageScope, id);
+
+  const removeSnapshot = (id: string) => deleteSnapshot(storageScope, id);
 
-      const restoredTransactions = parsed.expenses || [];
-      const restoredCategories = parsed.categories || DEFAULT_CATEGORIES;
-      const restoredRules = parsed.vendorRules || [];
-      const restoredSettings = parsed.settings || DEFAULT_SETTINGS;
-      const restoredExceptions = parsed.recurringExceptions || [];
+  // Backups are validated and upgraded to the current format by parseBackup before they get here
+  const restoreBackup = async (data: BackupData, mode: BackupRestoreMode) => {
+    await snapshotBefore('import', 'Backup restore');
+    try {
+      if (mode === 'replace') {
+        // Clear all existing data from DB. Receipt files aren't in backups, so the
+        // restored transactions still need the ones stored here.
+        await storage.clearScope(storageScope, ['receipts']);
+
+        // Also clear legacy localStorage keys just in case
+        clearLegacyLocalStorage();
+      }
+
+      // Merging keeps whichever copy of a record was edited last, like sync does. Restored
+      // copies are stamped so the next sync pushes them.
+      const now = Date.now();
+      let mergedCount = 0;
+      const mergeById = <T extends { id: string; updatedAt?: number }>(current: T[], incoming: T[]): T[] => {
+        if (mode === 'replace') return incoming;
+        const byId = new Map(current.map((record) => [record.id, record]));
+        incoming.forEach((record) => {
+          const existing = byId.get(record.id);
+          if (existing && (existing.updatedAt ?? 0) >= (record.updatedAt ?? 0)) return;
+          byId.set(record.id, { ...record, updatedAt: now });
+          mergedCount += 1;
+        });
+        return Array.from(byId.values());
+      };
+
+      const restoredSettings = mode === 'replace' ? withDeviceSettings({ ...DEFAULT_SETTINGS, ...data.settings }, settings) : settings;
       const {
         categories: reconciledCategories,
         transactions: reconciledTransactions,
         vendorRules: reconciledRules,
-      } = migrateData(restoredCategories, restoredTransactions, restoredRules);
+      } = migrateData(
+        mergeById(categories, data.categories),
+        mergeById(transactions, data.transactions),
+        mergeById(vendorRules, data.vendorRules),
+      );
 
       // Update state (this will trigger the useEffect syncs to write to DB)
       setTransactions(reconciledTransactions);
       setCategories(reconciledCategories);
       setVendorRules(reconciledRules);
-      setSettings(restoredSettings);
-      setRecurringExceptions(restoredExceptions);
-      setIncludeRecurringState(restoredSettings.includeRecurringInReports ?? false);
-
-      if (restoredSettings.defaultCategoryFilter) {
-        setSelectedCategoryIds(restoredSettings.defaultCategoryFilter);
+      setRecurringExceptions(mergeById(recurringExceptions, data.recurringExceptions));
+      setAccounts(mergeById(accounts, data.accounts));
+      setExchangeRates(mergeById(exchangeRates, data.exchangeRates));
+      setBudgetsState(mergeById(budgets, data.budgets.map(normalizeBudget)));
+
+      if (mode === 'replace') {
+        setSettings(restoredSettings);
+        setSelectedAccountIds(restoredSettings.defaultAccountFilter ?? []);
+        setIncludeRecurringState(restoredSettings.includeRecurringInReports ?? false);
+        setSelectedCategoryIds(restoredSettings.defaultCategoryFilter ?? []);
+        setSyncConflicts([]);
+        toast.success('Backup restored');
       } else {
-        setSelectedCategoryIds([]);
+        toast.success(
+          mergedCount > 0
+            ? `Merged ${mergedCount} record${mergedCount === 1 ? '' : 's'} from the backup`
+            : 'Everything in the backup is already here',
+        );
       }
-
-      toast.success('Backup imported successfully');
     } catch (error) {
-      console.error('Import failed:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to import backup JSON.');
+      console.error('Restore failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore backup.');
     }
   };
 
+  // Rows imported without a category get one from the vendor rules; credits land in Income
+  const matchImportedCategory = (vendor: string, direction: TransactionDirection, available: Category[]) => {
+    const { categoryId } = direction === 'income'
+      ? { categoryId: 'cat-income' }
+      : findBestVendorCategoryMatch(vendor, vendorRules);
+    return categoryId && available.some((category) => category.id === categoryId && !category.deletedAt)
+      ? categoryId
+      : 'cat-uncategorized';
+  };
+
+  // Dry run of importSpreadsheet's expense pass: same category lookup and duplicate signature, nothing saved
+  const reviewSpreadsheetImport = (data: ParsedSpreadsheetImport): SpreadsheetImportReviewRow[] => {
+    const activeCategories = categories.filter((category) => !category.deletedAt);
+    const activeTransactions = transactions.filter((transaction) => !transaction.deletedAt && !transaction.isVirtual);
+    const categoryIdsByName = new Map(
+      activeCategories.map((category) => [normalizeLabel(category.name), category.id]),
+    );
+    const seenTransactionSignatures = new Set(
+      activeTransactions.map((transaction) => buildTransactionSignature(transaction)),
+    );
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    return data.expenses.map((row) => {
+      if (row.isRecurring && row.recurringKey) {
+        return { row, status: 'recurring-linked', warnings: ['Generated from the Recurring sheet'] };
+      }
+
+      const categoryId = row.category
+        ? categoryIdsByName.get(normalizeLabel(row.category))
+        : matchImportedCategory(row.vendor, row.direction, activeCategories);
+
+      const warnings: string[] = [];
+      if (row.date > today) {
+        warnings.push('Dated in the future');
+      }
+      if (row.currency && row.currency !== homeCurrency && getExchangeRate(row.currency, row.date) === null) {
+        warnings.push(`No ${row.currency} exchange rate on file`);
+      }
+
+      // Rows that create their category can't match anything yet
+      let isDuplicate = false;
+      if (categoryId) {
+        const signature = buildTransactionSignature({ ...row, vendor: row.vendor.trim(), category: categoryId });
+        isDuplicate = seenTransactionSignatures.has(signature);
+        seenTransactionSignatures.add(signature);
+      }
+
+      const status = isDuplicate
+        ? 'duplicate'
+        : !categoryId
+          ? 'new-category'
+          : warnings.length > 0 ? 'warning' : 'new';
+      return { row, status, categoryId, warnings };
+    });
+  };
+
   const importSpreadsheet = async (
     data: ParsedSpreadsheetImport,
     onProgress?: (message: string, percent: number) => void,
+    forceImportRows: number[] = [],
   ): Promise<SpreadsheetImportSummary> => {
+    await snapshotBefore('import', data.sourceName ?? 'Spreadsheet import');
+    const forcedRows = new Set(forceImportRows);
+    const batchId = crypto.randomUUID();
     const activeCategories = categories.filter((category) => !category.deletedAt);
     const activeTransactions = transactions.filter((transaction) => !transaction.deletedAt && !transaction.isVirtual);
     const nextCategories = [...activeCategories];
@@ -1131,6 +1910,7 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
         group: sanitizeImportedGroup(options?.group),
         icon: options?.icon?.trim() || DEFAULT_IMPORTED_CATEGORY.icon,
         color: sanitizeImportedColor(options?.color),
+        batchId,
         updatedAt: Date.now(),
       };
 
@@ -1154,7 +1934,7 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     });
 
     data.expenses.forEach((row) => {
-      ensureCategory(row.category);
+      if (row.category) ensureCategory(row.category);
     });
 
     updateImportProgress('Creating recurring items', 55);
@@ -1171,6 +1951,8 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
         vendor: row.vendor.trim(),
         amount: row.amount,
         category: categoryId,
+        direction: row.direction,
+        currency: row.currency && row.currency !== homeCurrency ? row.currency : undefined,
         date: row.startDate,
         note: row.notes,
         isRecurring: true,
@@ -1178,6 +1960,7 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
         recurringKey: row.recurringKey,
         endDate: row.endDate,
         isActive: true,
+        batchId,
         updatedAt: Date.now(),
       };
 
@@ -1207,39 +1990,49 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
         return;
       }
 
-      const categoryId = ensureCategory(row.category);
+      const categoryId = row.category
+        ? ensureCategory(row.category)
+        : matchImportedCategory(row.vendor, row.direction, nextCategories);
       const expenseTransaction: Transaction = {
         id: crypto.randomUUID(),
         vendor: row.vendor.trim(),
         amount: row.amount,
         category: categoryId,
+        direction: row.direction,
         date: row.date,
         note: row.notes,
-        currency: row.currency,
+        currency: row.currency && row.currency !== homeCurrency ? row.currency : undefined,
+        batchId,
         updatedAt: Date.now(),
       };
 
       const signature = buildTransactionSignature(expenseTransaction);
-      if (seenTransactionSignatures.has(signature)) {
+      if (seenTransactionSignatures.has(signature) && !forcedRows.has(row.rowNumber)) {
         skippedDuplicates += 1;
         return;
       }
 
       seenTransactionSignatures.add(signature);
       nextTransactions.push(expenseTransaction);
-      createdExpenses.push(expenseTransaction);
+      createdExpenses.push(withCapturedRate(expenseTransaction));
     });
 
     updateImportProgress('Saving imported data', 95);
     setCategories((prev) => [...prev, ...createdCategories]);
     setTransactions((prev) => [...prev, ...createdRecurring, ...createdExpenses]);
 
-    for (const category of createdCategories) {
-      await storage.set('categories', category.id, category, storageScope);
-    }
-
-    for (const transaction of [...createdRecurring, ...createdExpenses]) {
-      await storage.set('transactions', transaction.id, transaction, storageScope);
+    const createdTransactionIds = [...createdRecurring, ...createdExpenses].map((transaction) => transaction.id);
+    if (createdTransactionIds.length + createdCategories.length > 0) {
+      setImportBatches((prev) => [{
+        id: batchId,
+        kind: 'spreadsheet-import',
+        label: data.sourceName ?? 'Spreadsheet import',
+        createdAt: Date.now(),
+        transactionIds: createdTransactionIds,
+        categoryIds: createdCategories.map((category) => category.id),
+        exceptionIds: [],
+        endedRules: [],
+      }, ...prev]);
     }
 
     const warnings = [...data.warnings];
@@ -1260,7 +2053,191 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
     };
   };
 
+  const importStatement = async (
+    data: ParsedStatementImport,
+    options: StatementImportOptions,
+    onProgress?: (message: string, percent: number) => void,
+  ): Promise<SpreadsheetImportSummary> => {
+    await snapshotBefore('import', data.sourceName ?? 'Bank statement');
+    const activeTransactions = transactions.filter((transaction) => !transaction.deletedAt && !transaction.isVirtual);
+    // Bank references are unique per account, so they recognise a line even after it was edited here
+    const getReferenceKey = (accountId: string | undefined, reference: string) => `${accountId ?? ''}|${reference}`;
+    const seenReferences = new Set(
+      activeTransactions
+        .filter((transaction) => transaction.bankReference)
+        .map((transaction) => getReferenceKey(transaction.accountId, transaction.bankReference!)),
+    );
+    // Records without a reference can only be recognised by their details. Rows of
+    // this file aren't compared with each other: identical lines are separate purchases.
+    const existingSignatures = new Set(
+      activeTransactions
+        .filter((transaction) => !transaction.bankReference)
+        .map((transaction) => buildTransactionSignature(transaction)),
+    );
+    const createdExpenses: Transaction[] = [];
+    const batchId = crypto.randomUUID();
+    let skippedDuplicates = 0;
+    let skippedCredits = 0;
+
+    onProgress?.('Matching categories', 40);
+    data.transactions.forEach((row) => {
+      if (row.direction === 'income' && !options.includeCredits) {
+        skippedCredits += 1;
+        return;
+      }
+
+      const expenseTransaction: Transaction = {
+        id: crypto.randomUUID(),
+        vendor: row.vendor,
+        amount: row.amount,
+        category: matchImportedCategory(row.vendor, row.direction, categories),
+        direction: row.direction,
+        date: row.date,
+        note: row.notes,
+        currency: row.currency && row.currency !== homeCurrency ? row.currency : undefined,
+        accountId: options.accountId,
+        bankReference: row.bankReference,
+        batchId,
+        updatedAt: Date.now(),
+      };
+
+      const referenceKey = row.bankReference && getReferenceKey(options.accountId, row.bankReference);
+      if (referenceKey && seenReferences.has(referenceKey)) {
+        skippedDuplicates += 1;
+        return;
+      }
+      if (existingSignatures.has(buildTransactionSignature(expenseTransaction))) {
+        skippedDuplicates += 1;
+        return;
+      }
+
+      if (referenceKey) seenReferences.add(referenceKey);
+      createdExpenses.push(withCapturedRate(expenseTransaction));
+    });
+
+    onProgress?.('Saving imported transactions', 85);
+    setTransactions((prev) => [...prev, ...createdExpenses]);
+    if (createdExpenses.length > 0) {
+      setImportBatches((prev) => [{
+        id: batchId,
+        kind: 'statement-import',
+        label: data.sourceName ?? 'Bank statement',
+        createdAt: Date.now(),
+        transactionIds: createdExpenses.map((transaction) => transaction.id),
+        categoryIds: [],
+        exceptionIds: [],
+        endedRules: [],
+      }, ...prev]);
+    }
+
+    const warnings = [...data.warnings];
+    if (skippedCredits > 0) {
+      warnings.push(`Left out ${skippedCredits} credit${skippedCredits === 1 ? '' : 's'} (deposits and refunds).`);
+    }
+
+    onProgress?.('Import complete', 100);
+    return {
+      expenses: createdExpenses.length,
+      categories: 0,
+      recurring: 0,
+      skippedDuplicates,
+      skippedRecurringExpenseRows: 0,
+      warnings,
+    };
+  };
+
+  /**
+   * Undo an import or bulk delete. Only records whose batchId still points at
+   * this batch are touched, so anything edited by a later batch is left alone.
+   * Changes go through state like any edit, so the next sync pushes them.
+   */
+  const rollbackImportBatch = async (id: string) => {
+    const batch = importBatches.find((b) => b.id === id);
+    if (!batch || batch.rolledBackAt) return;
+
+    const now = Date.now();
+    const batchTransactionIds = new Set(batch.transactionIds);
+    const endedRules = new Map(batch.endedRules.map((rule) => [rule.id, rule]));
+    let changedSince = 0;
+
+    const nextTransactions = transactions.map((t) => {
+      if (!batchTransactionIds.has(t.id) && !endedRules.has(t.id)) return t;
+      if (t.batchId !== batch.id) {
+        changedSince += 1;
+        return t;
+      }
+      if (batch.kind !== 'bulk-delete') {
+        return t.deletedAt ? t : { ...t, deletedAt: now, updatedAt: now };
+      }
+      const ended = endedRules.get(t.id);
+      if (ended) return { ...t, endedAt: ended.endedAt, isActive: ended.isActive, updatedAt: now };
+      return t.deletedAt ? { ...t, deletedAt: undefined, updatedAt: now } : t;
+    });
+
+    // Imported categories go too, unless something outside the batch now uses them
+    const stillUsed = new Set(
+      nextTransactions.filter((t) => !t.deletedAt).flatMap((t) => getTransactionCategoryIds(t)),
+    );
+    const batchCategoryIds = new Set(batch.categoryIds);
+    const nextCategories = categories.map((c) =>
+      batchCategoryIds.has(c.id) && c.batchId === batch.id && !c.deletedAt && !stillUsed.has(c.id)
+        ? { ...c, deletedAt: now, updatedAt: now }
+        : c,
+    );
+
+    const batchExceptionIds = new Set(batch.exceptionIds);
+    setRecurringExceptions((prev) => prev.map((e) =>
+      batchExceptionIds.has(e.id) && !e.deletedAt ? { ...e, deletedAt: now, updatedAt: now } : e,
+    ));
+    setTransactions(nextTransactions);
+    setCategories(nextCategories);
+    setImportBatches((prev) => prev.map((b) => (b.id === id ? { ...b, rolledBackAt: now } : b)));
+
+    toast.success(`Undid "${batch.label}"`, {
+      description: changedSince > 0
+        ? `${changedSince} record${changedSince === 1 ? ' was' : 's were'} changed later and left as is`
+        : undefined,
+    });
+  };
+
+  // The chosen value is stamped as a new edit so the next sync pushes it to the other devices
+  const resolveSyncConflict = (id: string, keep: 'local' | 'remote') => {
+    const conflict = syncConflicts.find((c) => c.id === id);
+    if (!conflict) return;
+
+    const now = Date.now();
+    const value = keep === 'local' ? conflict.localValue : conflict.remoteValue;
+    const applyTo = <T extends { id: string }>(records: T[]) => records.map((record) =>
+      record.id === conflict.recordId ? { ...record, [conflict.field]: value, updatedAt: now } : record,
+    );
+
+    switch (conflict.collection) {
+      case 'transactions':
+        setTransactions(applyTo);
+        break;
+      case 'categories':
+        setCategories(applyTo);
+        break;
+      case 'vendorRules':
+        setVendorRules(applyTo);
+        break;
+      case 'recurringExceptions':
+        setRecurringExceptions(applyTo);
+        break;
+      case 'accounts':
+        setAccounts(applyTo);
+        break;
+      case 'budgets':
+        setBudgetsState(applyTo);
+        break;
+    }
+
+    setSyncConflicts((prev) => prev.filter((c) => c.id !== id));
+    storage.remove('syncConflicts', id, storageScope);
+  };
+
   const clearAllData = async () => {
+    await snapshotBefore('clear');
     try {
       // ── 1. Wipe Supabase data (if signed in) ──────────────────────────────
       const { supabase } = await import('../../lib/supabaseClient');
@@ -1274,6 +2251,7 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
             'recurring_exceptions',
             'vendor_rules',
             'expenses',
+            'accounts',
           ] as const;
 
           for (const table of remoteTables) {
@@ -1293,12 +2271,14 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
             throw new Error(`Failed to clear custom categories: ${categoryError.message}`);
           }
 
+          await clearRemoteReceipts(uid);
           await ensureSystemCategories(uid);
         }
       }
 
       // ── 2. Wipe local storage ─────────────────────────────────────────────
       await storage.clearScope(storageScope);
+      releaseReceiptUrls();
       clearLegacyLocalStorage();
       localStorage.removeItem(getScopedMetaKey('indexeddb_migrated', storageScope));
       localStorage.removeItem(getScopedMetaKey('category_schema_v1', storageScope));
@@ -1323,10 +2303,17 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
       setVendorRules([]);
       setSettings(freshSettings);
       setRecurringExceptions([]);
+      setAccounts([]);
+      setExchangeRates([]);
+      setBudgetsState([]);
+      setNotifications([]);
+      setImportBatches([]);
+      setSyncConflicts([]);
       setSelectedCategoryIds([]);
+      setSelectedAccountIds([]);
       setIncludeRecurring(false);
 
-      toast.success('Expenses, budgets, recurring items, and custom categories were cleared');
+      toast.success('Expenses, budgets, recurring items, accounts, exchange rates, and custom categories were cleared');
     } catch (error) {
       console.error('Clear data failed:', error);
       toast.error('Failed to clear data');
@@ -1350,6 +2337,34 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
         vendorRules: vendorRules.filter(r => !r.deletedAt),
         settings,
         selectedCategoryIds,
+        accounts: activeAccounts,
+        accountBalances,
+        homeCurrency,
+        exchangeRates: activeExchangeRates,
+        missingRateCurrencies,
+        addExchangeRate,
+        deleteExchangeRate,
+        importExchangeRates,
+        getExchangeRate,
+        budgets: activeBudgets,
+        setBudget,
+        setBudgets,
+        removeBudget,
+        notifications: visibleNotifications,
+        unreadNotificationCount,
+        markNotificationRead,
+        markAllNotificationsRead,
+        dismissNotification,
+        clearNotifications,
+        importBatches,
+        rollbackImportBatch,
+        addReceipt,
+        getReceiptUrl,
+        selectedAccountIds,
+        setSelectedAccounts,
+        addAccount,
+        updateAccount,
+        deleteAccount,
         addTransaction,
         updateTransaction,
         updateRecurringRule,
@@ -1374,12 +2389,23 @@ export function ExpenseProvider({ children }: { children: React.ReactNode }) {
         setIncludeRecurring,
         filteredTransactions,
         exportBackup,
-        importBackup,
+        restoreBackup,
+        reviewSpreadsheetImport,
         importSpreadsheet,
+        importStatement,
         clearAllData,
+        getSnapshots,
+        createSnapshot,
+        restoreFromSnapshot,
+        compareSnapshot,
+        removeSnapshot,
         isHydrated,
         syncData,
         isSyncing,
+        getPendingSyncCounts,
+        syncConflicts,
+        resolveSyncConflict,
+        remoteUpdateAt,
         selectedDate,
         setSelectedDate,
         buildCalendarPayload
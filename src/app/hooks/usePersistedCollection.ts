@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+import { SyncCollection } from '../types';
+import { storage } from '../utils/storage';
+import { buildOutboxEntries, OUTBOX_STORE } from '../utils/syncOutbox';
+
+interface PersistedCollectionOptions<T> {
+  scope: string;
+  enabled: boolean; // False until the scope has been loaded
+  settled: WeakSet<object>; // Records that came from storage or the server, so are already saved
+  outbox?: SyncCollection; // Queue local edits for sync under this collection; unset when not syncing
+  getKey?: (record: T) => string;
+}
+
+/**
+ * Saves the records of a collection that changed since the last render, in one
+ * IndexedDB transaction, and queues them in the sync outbox. State updates
+ * always replace an edited record with a new object, so comparing references
+ * finds the edits without looking at the rest of the history.
+ */
+export function usePersistedCollection<T extends { id: string }>(
+  storeName: string,
+  records: T[],
+  { scope, enabled, settled, outbox, getKey = (record) => record.id }: PersistedCollectionOptions<T>,
+) {
+  const previousRef = useRef(new Map<string, T>());
+
+  useEffect(() => {
+    if (!enabled) {
+      previousRef.current = new Map();
+      return;
+    }
+
+    const previous = previousRef.current;
+    const next = new Map<string, T>();
+    const changed: T[] = [];
+    records.forEach((record) => {
+      const key = getKey(record);
+      next.set(key, record);
+      if (previous.get(key) !== record && !settled.has(record)) changed.push(record);
+    });
+    previousRef.current = next;
+    if (changed.length === 0) return;
+
+    storage.putEntries({
+      [storeName]: changed.map((record) => [getKey(record), record]),
+      ...(outbox ? { [OUTBOX_STORE]: buildOutboxEntries(outbox, changed.map((record) => record.id)) } : {}),
+    }, scope).catch((error) => console.error(`Saving ${storeName} failed:`, error));
+    // getKey and settled are stable for the life of the provider
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [records, enabled, scope, outbox]);
+}
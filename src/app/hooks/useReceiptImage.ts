@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { useExpense } from '../context/ExpenseContext';
+import { TransactionAttachment } from '../types';
+import { ReceiptVariant } from '../utils/receiptStore';
+import {
+  prepareReceiptFile,
+  PreparedReceiptFile,
+  ReceiptFileValidationError,
+  validateReceiptFile,
+} from '../utils/receiptExtractionService';
+
+/** Object URL for a stored attachment; nothing is read until `enabled` is true. */
+export function useReceiptUrl(attachment: TransactionAttachment | undefined, variant: ReceiptVariant, enabled = true) {
+  const { getReceiptUrl } = useExpense();
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!attachment || !enabled) return;
+
+    let cancelled = false;
+    getReceiptUrl(attachment, variant).then((nextUrl) => {
+      if (!cancelled) setUrl(nextUrl);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // getReceiptUrl changes identity every render; the scope it closes over is covered by the id
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attachment?.id, variant, enabled]);
+
+  return url;
+}
+
+/** True once the element has scrolled near the viewport, so off-screen thumbnails aren't loaded. */
+export function useNearViewport<T extends Element>() {
+  const ref = useRef<T>(null);
+  const [isNear, setIsNear] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || isNear) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setIsNear(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setIsNear(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: '200px' },
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isNear]);
+
+  return { ref, isNear };
+}
+
+/**
+ * Validate, compress and store picked files so they can be attached to a
+ * transaction. Files that fail are reported and skipped.
+ */
+export function useAttachmentUpload() {
+  const { addReceipt } = useExpense();
+  const [isAdding, setIsAdding] = useState(false);
+
+  const addFiles = async (files: File[]) => {
+    const added: { attachment: TransactionAttachment; prepared: PreparedReceiptFile }[] = [];
+    setIsAdding(true);
+    try {
+      for (const file of files) {
+        try {
+          validateReceiptFile(file);
+          const prepared = await prepareReceiptFile(file);
+          added.push({ attachment: await addReceipt(prepared), prepared });
+        } catch (error) {
+          if (error instanceof ReceiptFileValidationError) {
+            toast.error(error.message);
+          } else {
+            console.error('Failed to process attachment', error);
+            toast.error(`Couldn't process ${file.name || 'this file'}`);
+          }
+        }
+      }
+    } finally {
+      setIsAdding(false);
+    }
+
+    if (added.length > 0) {
+      toast.success(added.length === 1 ? 'Attachment added' : `${added.length} attachments added`);
+    }
+    return added;
+  };
+
+  return { addFiles, isAdding };
+}
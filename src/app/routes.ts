@@ -53,6 +53,55 @@ export const router = createBrowserRouter([
       return { Component: BudgetsTracking };
     },
   },
+  {
+    path: '/settings/accounts',
+    async lazy() {
+      const { Accounts } = await import('./screens/Accounts');
+      return { Component: Accounts };
+    },
+  },
+  {
+    path: '/settings/exchange-rates',
+    async lazy() {
+      const { ExchangeRates } = await import('./screens/ExchangeRates');
+      return { Component: ExchangeRates };
+    },
+  },
+  {
+    path: '/settings/receipts',
+    async lazy() {
+      const { Receipts } = await import('./screens/Receipts');
+      return { Component: Receipts };
+    },
+  },
+  {
+    path: '/settings/history',
+    async lazy() {
+      const { ImportHistory } = await import('./screens/ImportHistory');
+      return { Component: ImportHistory };
+    },
+  },
+  {
+    path: '/settings/conflicts',
+    async lazy() {
+      const { SyncConflicts } = await import('./screens/SyncConflicts');
+      return { Component: SyncConflicts };
+    },
+  },
+  {
+    path: '/settings/sync',
+    async lazy() {
+      const { SyncStatus } = await import('./screens/SyncStatus');
+      return { Component: SyncStatus };
+    },
+  },
+  {
+    path: '/settings/snapshots',
+    async lazy() {
+      const { Snapshots } = await import('./screens/Snapshots');
+      return { Component: Snapshots };
+    },
+  },
   {
     path: '/settings/recurring',
     async lazy() {
@@ -77,8 +126,15 @@ export const router = createBrowserRouter([
   {
     path: '/settings/notifications',
     async lazy() {
-      const { NotificationsPlaceholder } = await import('./screens/NotificationsPlaceholder');
-      return { Component: NotificationsPlaceholder };
+      const { NotificationSettings } = await import('./screens/NotificationSettings');
+      return { Component: NotificationSettings };
+    },
+  },
+  {
+    path: '/notifications',
+    async lazy() {
+      const { Notifications } = await import('./screens/Notifications');
+      return { Component: Notifications };
     },
   },
 ]);
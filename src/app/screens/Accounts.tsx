@@ -0,0 +1,379 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { ChevronLeft, ChevronDown, Plus, Wallet, Trash2, Check } from 'lucide-react';
+import * as LucideIcons from 'lucide-react';
+import { Drawer } from 'vaul';
+import { motion, AnimatePresence } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { useExpense } from '../context/ExpenseContext';
+import { Account, AccountType } from '../types';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import {
+    ACCOUNT_COLORS,
+    ACCOUNT_TYPES,
+    ACCOUNT_TYPE_ICONS,
+    ACCOUNT_TYPE_LABELS,
+    buildAccountLedger,
+    formatBalance,
+} from '../utils/accountBalances';
+
+const LEDGER_PREVIEW_LIMIT = 20;
+
+function AccountIcon({ type, color }: { type: AccountType; color: string }) {
+    const Icon = (LucideIcons as any)[ACCOUNT_TYPE_ICONS[type]] || Wallet;
+    return <Icon className="w-6 h-6" style={{ color }} />;
+}
+
+interface AccountEditorSheetProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    account: Account | null;
+    isDefault: boolean;
+    onSave: (values: Omit<Account, 'id' | 'createdAt'>, makeDefault: boolean) => void;
+    onDelete: (id: string) => void;
+}
+
+function AccountEditorSheet({ open, onOpenChange, account, isDefault, onSave, onDelete }: AccountEditorSheetProps) {
+    const [name, setName] = useState(account?.name || '');
+    const [type, setType] = useState<AccountType>(account?.type || 'chequing');
+    const [openingBalance, setOpeningBalance] = useState(account ? account.openingBalance.toString() : '');
+    const [color, setColor] = useState(account?.color || ACCOUNT_COLORS[0]);
+    const [makeDefault, setMakeDefault] = useState(isDefault);
+
+    const handleSave = () => {
+        if (!name.trim()) return;
+        onSave({ name, type, openingBalance: parseFloat(openingBalance) || 0, color }, makeDefault);
+        onOpenChange(false);
+    };
+
+    return (
+        <Drawer.Root open={open} onOpenChange={onOpenChange}>
+            <Drawer.Portal>
+                <Drawer.Overlay className="fixed inset-0 bg-black/40 z-50" />
+                <Drawer.Content className="app-drawer-frame">
+                    <div className="app-drawer-panel">
+                        {/* Handle */}
+                        <div className="flex justify-center pt-3 pb-2">
+                            <div className="w-10 h-1 rounded-full bg-gray-300" />
+                        </div>
+
+                        <div className="px-5 pb-2">
+                            <Drawer.Title className="text-lg font-semibold text-gray-900">
+                                {account ? 'Edit Account' : 'New Account'}
+                            </Drawer.Title>
+                        </div>
+
+                        <div className="px-5 pb-8 space-y-5">
+                            <div className="space-y-2">
+                                <Label htmlFor="account-name">Name</Label>
+                                <Input
+                                    id="account-name"
+                                    value={name}
+                                    placeholder="e.g. Everyday Chequing"
+                                    onChange={(e) => setName(e.target.value)}
+                                    className="h-12 rounded-xl"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Type</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {ACCOUNT_TYPES.map((option) => (
+                                        <button
+                                            key={option}
+                                            type="button"
+                                            onClick={() => setType(option)}
+                                            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${type === option
+                                                ? 'bg-black text-white border-black'
+                                                : 'bg-white text-gray-600 border-gray-200'
+                                                }`}
+                                        >
+                                            {ACCOUNT_TYPE_LABELS[option]}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="account-opening">Opening Balance</Label>
+                                <Input
+                                    id="account-opening"
+                                    type="number"
+                                    step="0.01"
+                                    placeholder="0.00"
+                                    value={openingBalance}
+                                    onChange={(e) => setOpeningBalance(e.target.value)}
+                                    className="h-12 rounded-xl"
+                                />
+                                <p className="text-xs text-gray-400">Use a negative amount for money owed, like a credit card balance.</p>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Color</Label>
+                                <div className="flex gap-3">
+                                    {ACCOUNT_COLORS.map((option) => (
+                                        <button
+                                            key={option}
+                                            type="button"
+                                            onClick={() => setColor(option)}
+                                            className="w-8 h-8 rounded-full flex items-center justify-center"
+                                            style={{ backgroundColor: option }}
+                                        >
+                                            {color === option && <Check className="w-4 h-4 text-white" />}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {account && (
+                                <button
+                                    type="button"
+                                    onClick={() => setMakeDefault(!makeDefault)}
+                                    className="w-full flex items-center justify-between py-2"
+                                >
+                                    <div className="text-left">
+                                        <p className="text-[15px] font-medium text-gray-900">Default for new transactions</p>
+                                        <p className="text-xs text-gray-500">Pre-selected on the Add Expense screen</p>
+                                    </div>
+                                    <span className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${makeDefault ? 'bg-black' : 'bg-gray-200'}`}>
+                                        <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${makeDefault ? 'translate-x-6' : 'translate-x-1'}`} />
+                                    </span>
+                                </button>
+                            )}
+
+                            <div className="flex gap-3">
+                                {account && (
+                                    <button
+                                        type="button"
+                                        onClick={() => {
+                                            if (confirm(`Remove ${account.name}? Its transactions will be kept but no longer assigned to an account.`)) {
+                                                onDelete(account.id);
+                                                onOpenChange(false);
+                                            }
+                                        }}
+                                        className="h-12 px-4 rounded-xl bg-red-50 text-red-600"
+                                    >
+                                        <Trash2 className="w-5 h-5" />
+                                    </button>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={handleSave}
+                                    disabled={!name.trim()}
+                                    className="flex-1 h-12 rounded-xl bg-black text-white font-semibold disabled:opacity-40"
+                                >
+                                    {account ? 'Save Changes' : 'Add Account'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </Drawer.Content>
+            </Drawer.Portal>
+        </Drawer.Root>
+    );
+}
+
+export function Accounts() {
+    const navigate = useNavigate();
+    const {
+        accounts,
+        accountBalances,
+        transactions,
+        settings,
+        homeCurrency,
+        addAccount,
+        updateAccount,
+        deleteAccount,
+        updateSettings,
+    } = useExpense();
+
+    const [editorOpen, setEditorOpen] = useState(false);
+    const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const totalBalance = useMemo(
+        () => accounts.reduce((sum, a) => sum + (accountBalances[a.id] ?? a.openingBalance), 0),
+        [accounts, accountBalances]
+    );
+
+    const expandedLedger = useMemo(() => {
+        const account = accounts.find(a => a.id === expandedId);
+        if (!account) return [];
+        return buildAccountLedger(account, transactions).reverse().slice(0, LEDGER_PREVIEW_LIMIT);
+    }, [accounts, expandedId, transactions]);
+
+    const openEditor = (account: Account | null) => {
+        setEditingAccount(account);
+        setEditorOpen(true);
+    };
+
+    const handleSave = (values: Omit<Account, 'id' | 'createdAt'>, makeDefault: boolean) => {
+        const wasDefault = !!editingAccount && settings.defaultAccountId === editingAccount.id;
+
+        if (editingAccount) {
+            updateAccount(editingAccount.id, values);
+            if (makeDefault && !wasDefault) updateSettings({ defaultAccountId: editingAccount.id });
+            if (!makeDefault && wasDefault) updateSettings({ defaultAccountId: undefined });
+        } else {
+            addAccount(values);
+        }
+    };
+
+    const handleDelete = (id: string) => {
+        deleteAccount(id);
+        if (settings.defaultAccountId === id) updateSettings({ defaultAccountId: undefined });
+        if (expandedId === id) setExpandedId(null);
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 pb-20">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+                <div className="max-w-lg mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate('/settings')}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <ChevronLeft className="w-6 h-6 text-gray-600" />
+                        </button>
+                        <h1 className="text-xl font-semibold text-gray-900 flex-1">Accounts</h1>
+                        <button
+                            onClick={() => openEditor(null)}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <Plus className="w-6 h-6 text-gray-900" />
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-lg mx-auto px-4 py-6">
+                {accounts.length === 0 ? (
+                    <div className="text-center py-12 bg-white rounded-3xl border border-gray-100 shadow-sm">
+                        <div className="w-16 h-16 bg-gray-50 rounded-full flex items-center justify-center mx-auto mb-4">
+                            <Wallet className="w-8 h-8 text-gray-300" />
+                        </div>
+                        <p className="text-gray-500 font-medium">No accounts yet</p>
+                        <p className="text-sm text-gray-400 mt-1">Track balances for cash, bank and card accounts</p>
+                        <button
+                            onClick={() => openEditor(null)}
+                            className="mt-5 px-5 py-2.5 rounded-xl bg-black text-white text-sm font-semibold"
+                        >
+                            Add Account
+                        </button>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        <div className="bg-white rounded-2xl p-4 shadow-sm">
+                            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Net Balance</p>
+                            <p className={`text-2xl font-bold mt-1 ${totalBalance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                {formatBalance(totalBalance, homeCurrency)}
+                            </p>
+                        </div>
+
+                        {accounts.map((account) => {
+                            const balance = accountBalances[account.id] ?? account.openingBalance;
+                            const isExpanded = expandedId === account.id;
+
+                            return (
+                                <div key={account.id} className="bg-white rounded-2xl shadow-sm overflow-hidden">
+                                    <motion.button
+                                        whileTap={{ scale: 0.98 }}
+                                        onClick={() => setExpandedId(isExpanded ? null : account.id)}
+                                        className="w-full p-4 flex items-center gap-4 text-left"
+                                    >
+                                        <div
+                                            className="w-12 h-12 rounded-2xl flex items-center justify-center shrink-0"
+                                            style={{ backgroundColor: `${account.color}15` }}
+                                        >
+                                            <AccountIcon type={account.type} color={account.color} />
+                                        </div>
+
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center justify-between">
+                                                <p className="font-semibold text-gray-900 truncate">{account.name}</p>
+                                                <p className={`font-bold ${balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                                    {formatBalance(balance, homeCurrency)}
+                                                </p>
+                                            </div>
+                                            <div className="flex items-center gap-2 mt-1">
+                                                <span className="text-xs text-gray-500">{ACCOUNT_TYPE_LABELS[account.type]}</span>
+                                                {settings.defaultAccountId === account.id && (
+                                                    <>
+                                                        <span className="w-1 h-1 bg-gray-300 rounded-full" />
+                                                        <span className="text-xs text-blue-600">Default</span>
+                                                    </>
+                                                )}
+                                            </div>
+                                        </div>
+
+                                        <ChevronDown className={`w-5 h-5 text-gray-300 shrink-0 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                                    </motion.button>
+
+                                    <AnimatePresence initial={false}>
+                                        {isExpanded && (
+                                            <motion.div
+                                                initial={{ height: 0, opacity: 0 }}
+                                                animate={{ height: 'auto', opacity: 1 }}
+                                                exit={{ height: 0, opacity: 0 }}
+                                                className="border-t border-gray-100"
+                                            >
+                                                {expandedLedger.length === 0 ? (
+                                                    <p className="px-4 py-4 text-sm text-gray-400">No transactions in this account yet</p>
+                                                ) : (
+                                                    <div className="divide-y divide-gray-50">
+                                                        {expandedLedger.map(({ transaction, change, balance: running }) => (
+                                                            <button
+                                                                key={transaction.id}
+                                                                onClick={() => navigate(`/transaction/${transaction.id}`)}
+                                                                className="w-full px-4 py-3 flex items-center justify-between text-left hover:bg-gray-50"
+                                                            >
+                                                                <div className="min-w-0">
+                                                                    <p className="text-sm font-medium text-gray-900 truncate">{transaction.vendor}</p>
+                                                                    <p className="text-xs text-gray-400">{format(parseISO(transaction.date), 'MMM d, yyyy')}</p>
+                                                                </div>
+                                                                <div className="text-right shrink-0">
+                                                                    <p className={`text-sm font-semibold ${change >= 0 ? 'text-green-600' : 'text-gray-900'}`}>
+                                                                        {change >= 0 ? '+' : '-'}${Math.abs(change).toFixed(2)}
+                                                                    </p>
+                                                                    <p className="text-xs text-gray-400">{formatBalance(running, homeCurrency)}</p>
+                                                                </div>
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                                <div className="px-4 py-3 flex items-center justify-between bg-gray-50/60">
+                                                    <span className="text-xs text-gray-500">
+                                                        Opening balance {formatBalance(account.openingBalance, homeCurrency)}
+                                                    </span>
+                                                    <button
+                                                        onClick={() => openEditor(account)}
+                                                        className="text-xs font-semibold text-blue-600"
+                                                    >
+                                                        Edit
+                                                    </button>
+                                                </div>
+                                            </motion.div>
+                                        )}
+                                    </AnimatePresence>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            <AccountEditorSheet
+                key={editingAccount?.id ?? (editorOpen ? 'new' : 'closed')}
+                open={editorOpen}
+                onOpenChange={setEditorOpen}
+                account={editingAccount}
+                isDefault={!!editingAccount && settings.defaultAccountId === editingAccount.id}
+                onSave={handleSave}
+                onDelete={handleDelete}
+            />
+        </div>
+    );
+}
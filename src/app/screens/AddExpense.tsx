@@ -3,59 +3,99 @@ import { useNavigate, useLocation } from 'react-router';
 import { ChevronLeft } from 'lucide-react';
 import { useExpense } from '../context/ExpenseContext';
 import { useVendorSuggestions } from '../hooks/useVendorSuggestions';
+import { useAttachmentUpload } from '../hooks/useReceiptImage';
 import { CategoryPicker } from '../components/category/CategoryPicker';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Textarea } from '../components/ui/textarea';
-import { ReceiptAttachmentField } from '../components/receipt/ReceiptAttachmentField';
+import { ReceiptAttachmentsField } from '../components/receipt/ReceiptAttachmentsField';
+import { ReceiptConfidenceBadge } from '../components/receipt/ReceiptConfidenceBadge';
+import { TransactionDirectionPicker } from '../components/TransactionDirectionPicker';
+import { AccountPicker } from '../components/accounts/AccountPicker';
+import { ForeignCurrencyFields } from '../components/currency/ForeignCurrencyFields';
+import { getCurrencySymbol } from '../utils/currency';
+import { TransactionAttachment, TransactionDirection } from '../types';
+import { TRANSACTION_DIRECTION_LABELS } from '../utils/cashFlow';
+import { findBestVendorCategoryMatch } from '../constants/vendorIntelligence';
 import { format } from 'date-fns';
 import { motion, AnimatePresence } from 'motion/react';
 import { toast } from 'sonner';
-import { readReceiptFileAsDataUrl, ReceiptFileValidationError, validateReceiptFile } from '../utils/receiptExtractionService';
+import { extractReceiptData, isPdfAttachment } from '../utils/receiptExtractionService';
+
+type ScannedField = 'vendor' | 'amount' | 'date';
 
 const RECURRENCE_OPTIONS = ['daily', 'weekly', 'monthly', 'yearly'] as const;
 
 export function AddExpense() {
   const navigate = useNavigate();
   const location = useLocation();
-  const { addTransaction, categories, addVendorRule, getSuggestedCategory, selectedDate } = useExpense();
+  const { addTransaction, categories, addVendorRule, getSuggestedCategory, selectedDate, accounts, settings, homeCurrency, vendorRules } = useExpense();
   const dropdownRef = useRef<HTMLDivElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const galleryInputRef = useRef<HTMLInputElement>(null);
 
   const [amount, setAmount] = useState('');
+  const [direction, setDirection] = useState<TransactionDirection>('expense');
   const [vendor, setVendor] = useState(location.state?.vendor || '');
   const [categoryId, setCategoryId] = useState(categories[0]?.id || '');
   const [date, setDate] = useState(selectedDate);
+  const [accountId, setAccountId] = useState<string | undefined>(
+    accounts.some(a => a.id === settings.defaultAccountId) ? settings.defaultAccountId : undefined
+  );
+  const [transferAccountId, setTransferAccountId] = useState<string | undefined>();
+  const [currency, setCurrency] = useState(homeCurrency);
+  const [exchangeRate, setExchangeRate] = useState('');
   const [note, setNote] = useState('');
-  const [photoUrl, setPhotoUrl] = useState('');
+  const [attachments, setAttachments] = useState<TransactionAttachment[]>([]);
+  const { addFiles, isAdding: isAddingAttachments } = useAttachmentUpload();
   const [isRecurring, setIsRecurring] = useState(false);
   const [recurrenceType, setRecurrenceType] = useState<typeof RECURRENCE_OPTIONS[number]>('monthly');
   const [endDate, setEndDate] = useState('');
   const [categorySource, setCategorySource] = useState<'manual' | 'suggestion'>('manual');
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [userTouchedCategory, setUserTouchedCategory] = useState(false);
+  const [scanProgress, setScanProgress] = useState<number | null>(null);
+  // Confidence of each field pre-filled from the receipt; cleared once the user edits it
+  const [scannedFields, setScannedFields] = useState<Partial<Record<ScannedField, number>>>({});
+  const [scannedTax, setScannedTax] = useState<number | null>(null);
 
   const { suggestions: filteredSuggestions } = useVendorSuggestions(vendor);
 
   // Auto-apply suggested category
   useEffect(() => {
-    if (userTouchedCategory) return;
+    if (userTouchedCategory || direction === 'income' || direction === 'transfer') return;
 
     const suggestion = getSuggestedCategory(vendor);
     if (suggestion && suggestion !== categoryId) {
       setCategoryId(suggestion);
       setCategorySource('suggestion');
     }
-  }, [vendor, getSuggestedCategory, categoryId, userTouchedCategory]);
+  }, [vendor, getSuggestedCategory, categoryId, userTouchedCategory, direction]);
+
+  const handleDirectionChange = (nextDirection: TransactionDirection) => {
+    setDirection(nextDirection);
+    if (nextDirection === 'income' && !userTouchedCategory && categories.some(c => c.id === 'cat-income')) {
+      setCategoryId('cat-income');
+      setCategorySource('manual');
+    }
+  };
 
   // Ensure page is scrolled to top on mount
   useEffect(() => {
     window.scrollTo(0, 0);
   }, []);
 
+  const clearScannedField = (field: ScannedField) => {
+    setScannedFields(prev => {
+      if (!(field in prev)) return prev;
+      const { [field]: _cleared, ...rest } = prev;
+      return rest;
+    });
+  };
+
   const handleVendorChange = (newVendor: string) => {
     setVendor(newVendor);
+    clearScannedField('vendor');
     if (!newVendor.trim()) {
       setCategorySource('manual');
       setShowSuggestions(false);
@@ -66,6 +106,7 @@ export function AddExpense() {
 
   const handleSelectSuggestion = (suggestion: string) => {
     setVendor(suggestion);
+    clearScannedField('vendor');
     setShowSuggestions(false);
   };
 
@@ -80,19 +121,56 @@ export function AddExpense() {
     }
   };
 
-  const handleReceiptSelected = async (file: File) => {
+  const handleReceiptsSelected = async (files: File[]) => {
+    const hadImage = attachments.some(a => !isPdfAttachment(a));
+    const added = await addFiles(files);
+    setAttachments(prev => [...prev, ...added.map(a => a.attachment)]);
+
+    // Read the first photo of the receipt; later pages and PDFs are kept as attachments only
+    const firstImage = added.find(a => !isPdfAttachment(a.attachment));
+    if (!hadImage && firstImage) {
+      await scanReceipt(firstImage.prepared.image);
+    }
+  };
+
+  // Only fills fields the user hasn't filled in themselves
+  const scanReceipt = async (image: Blob) => {
+    setScanProgress(0);
     try {
-      validateReceiptFile(file);
-    } catch (error) {
-      if (error instanceof ReceiptFileValidationError) {
-        toast.error(error.message);
+      const scan = await extractReceiptData(image, setScanProgress);
+      const filled: Partial<Record<ScannedField, number>> = {};
+
+      if (scan.vendor && !vendor.trim()) {
+        const match = findBestVendorCategoryMatch(scan.vendor.value, vendorRules);
+        setVendor(match.matchedVendor ?? scan.vendor.value);
+        filled.vendor = scan.vendor.confidence;
+        if (match.categoryId && !userTouchedCategory && direction === 'expense') {
+          setCategoryId(match.categoryId);
+          setCategorySource('suggestion');
+        }
       }
-      return;
-    }
+      if (scan.total && !amount) {
+        setAmount(scan.total.value.toFixed(2));
+        filled.amount = scan.total.confidence;
+      }
+      if (scan.date && date === selectedDate) {
+        setDate(scan.date.value);
+        filled.date = scan.date.confidence;
+      }
+      setScannedFields(filled);
+      setScannedTax(scan.tax?.value ?? null);
 
-    const nextPhotoUrl = await readReceiptFileAsDataUrl(file);
-    setPhotoUrl(nextPhotoUrl);
-    toast.success('Receipt attached');
+      if (Object.keys(filled).length > 0) {
+        toast.success('Filled in from the receipt — check the marked fields');
+      } else if (!scan.vendor && !scan.total && !scan.date) {
+        toast.warning("Couldn't read this receipt");
+      }
+    } catch (error) {
+      console.error('Receipt OCR failed', error);
+      toast.error("Couldn't read this receipt");
+    } finally {
+      setScanProgress(null);
+    }
   };
 
   const handleSave = () => {
@@ -100,19 +178,36 @@ export function AddExpense() {
       return;
     }
 
+    if (direction === 'transfer' && accountId && accountId === transferAccountId) {
+      toast.error('Choose two different accounts for a transfer');
+      return;
+    }
+
+    const isForeign = currency !== homeCurrency;
+    const parsedRate = parseFloat(exchangeRate);
+    const currencyFields = {
+      currency: isForeign ? currency : undefined,
+      exchangeRate: isForeign && parsedRate > 0 ? parsedRate : undefined,
+      exchangeRateCurrency: isForeign && parsedRate > 0 ? homeCurrency : undefined,
+    };
+
     addTransaction({
       vendor,
       amount: parseFloat(amount),
       category: categoryId,
+      direction,
+      accountId,
+      transferAccountId: direction === 'transfer' ? transferAccountId : undefined,
+      ...currencyFields,
       date,
       note: note || undefined,
-      photoUrl: photoUrl || undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
       isRecurring,
       recurrenceType: isRecurring ? recurrenceType : undefined,
       endDate: isRecurring && endDate ? endDate : undefined,
     });
 
-    if (categorySource === 'suggestion') {
+    if (categorySource === 'suggestion' && direction === 'expense') {
       // Auto-create rule if suggested category was applied
       addVendorRule({
         vendorContains: vendor.trim(),
@@ -136,7 +231,9 @@ export function AddExpense() {
               <ChevronLeft className="w-6 h-6 text-gray-600" />
             </button>
 
-            <h1 className="text-xl font-semibold text-gray-900">Add Expense</h1>
+            <h1 className="text-xl font-semibold text-gray-900">
+              {direction === 'expense' ? 'Add Expense' : 'Add Transaction'}
+            </h1>
 
             <div className="w-10" />
           </div>
@@ -156,32 +253,38 @@ export function AddExpense() {
           capture="environment"
           className="hidden"
           onChange={(event) => {
-            const file = event.target.files?.[0];
-            if (!file) return;
-            void handleReceiptSelected(file);
+            const files = Array.from(event.target.files ?? []);
+            if (files.length === 0) return;
+            void handleReceiptsSelected(files);
             event.target.value = '';
           }}
         />
         <input
           ref={galleryInputRef}
           type="file"
-          accept="image/*"
+          accept="image/*,application/pdf"
+          multiple
           className="hidden"
           onChange={(event) => {
-            const file = event.target.files?.[0];
-            if (!file) return;
-            void handleReceiptSelected(file);
+            const files = Array.from(event.target.files ?? []);
+            if (files.length === 0) return;
+            void handleReceiptsSelected(files);
             event.target.value = '';
           }}
         />
 
+        <TransactionDirectionPicker value={direction} onChange={handleDirectionChange} />
+
         {/* Vendor */}
         <div className="space-y-2 relative" ref={dropdownRef}>
-          <Label htmlFor="vendor">Vendor</Label>
+          <Label htmlFor="vendor">
+            {direction === 'income' ? 'Source' : 'Vendor'}
+            {scannedFields.vendor !== undefined && <ReceiptConfidenceBadge confidence={scannedFields.vendor} />}
+          </Label>
           <Input
             id="vendor"
             type="text"
-            placeholder="Where did you spend?"
+            placeholder={direction === 'income' ? 'Who paid you?' : 'Where did you spend?'}
             value={vendor}
             onChange={(e) => handleVendorChange(e.target.value)}
             onFocus={() => vendor.trim() && setShowSuggestions(true)}
@@ -219,10 +322,13 @@ export function AddExpense() {
         <div className="grid gap-6 md:grid-cols-2 md:items-start">
           {/* Amount */}
           <div className="space-y-2">
-            <Label htmlFor="amount">Amount</Label>
+            <Label htmlFor="amount">
+              Amount
+              {scannedFields.amount !== undefined && <ReceiptConfidenceBadge confidence={scannedFields.amount} />}
+            </Label>
             <div className="relative">
               <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 text-lg">
-                $
+                {getCurrencySymbol(currency)}
               </span>
               <Input
                 id="amount"
@@ -230,25 +336,69 @@ export function AddExpense() {
                 step="0.01"
                 placeholder="0.00"
                 value={amount}
-                onChange={(e) => setAmount(e.target.value)}
+                onChange={(e) => {
+                  setAmount(e.target.value);
+                  clearScannedField('amount');
+                }}
                 className="h-14 rounded-2xl text-base pl-8 shadow-sm border-gray-100 focus:border-blue-500 transition-all"
               />
             </div>
+            {scannedTax !== null && (
+              <p className="text-xs text-gray-500 ml-1">
+                Receipt shows {getCurrencySymbol(currency)}{scannedTax.toFixed(2)} tax
+              </p>
+            )}
           </div>
 
           {/* Date */}
           <div className="space-y-2">
-            <Label htmlFor="date">Date</Label>
+            <Label htmlFor="date">
+              Date
+              {scannedFields.date !== undefined && <ReceiptConfidenceBadge confidence={scannedFields.date} />}
+            </Label>
             <Input
               id="date"
               type="date"
               value={date}
-              onChange={(e) => setDate(e.target.value)}
+              onChange={(e) => {
+                setDate(e.target.value);
+                clearScannedField('date');
+              }}
               className="h-14 rounded-2xl text-base shadow-sm border-gray-100 focus:border-blue-500 transition-all"
             />
           </div>
         </div>
 
+        <ForeignCurrencyFields
+          currency={currency}
+          onCurrencyChange={setCurrency}
+          rate={exchangeRate}
+          onRateChange={setExchangeRate}
+          amount={amount}
+          date={date}
+        />
+
+        {/* Account */}
+        {accounts.length > 0 && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label>{direction === 'transfer' ? 'From Account' : 'Account'}</Label>
+              <AccountPicker accounts={accounts} value={accountId} onChange={setAccountId} />
+            </div>
+            {direction === 'transfer' && (
+              <div className="space-y-2">
+                <Label>To Account</Label>
+                <AccountPicker
+                  accounts={accounts}
+                  value={transferAccountId}
+                  onChange={setTransferAccountId}
+                  excludeId={accountId}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Category Tiered Selection */}
         <div className="space-y-3">
           <Label className="text-gray-900 font-bold ml-1">Category</Label>
@@ -322,10 +472,14 @@ export function AddExpense() {
           )}
         </div>
 
-        <ReceiptAttachmentField
-          photoUrl={photoUrl}
+        <ReceiptAttachmentsField
+          attachments={attachments}
+          onChange={setAttachments}
+          isAdding={isAddingAttachments}
           onTakePhoto={() => cameraInputRef.current?.click()}
           onUpload={() => galleryInputRef.current?.click()}
+          scanProgress={scanProgress}
+          description="Vendor, date and total are read from the first photo, on this device."
         />
 
         {/* Note */}
@@ -346,7 +500,7 @@ export function AddExpense() {
           disabled={!vendor || !amount || !categoryId}
           className="w-full h-14 bg-blue-500 text-white rounded-2xl font-semibold hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors shadow-lg"
         >
-          Save Expense
+          {direction === 'expense' ? 'Save Expense' : `Save ${TRANSACTION_DIRECTION_LABELS[direction]}`}
         </button>
       </motion.div>
     </div>
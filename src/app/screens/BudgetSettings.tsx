@@ -1,38 +1,50 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router';
 import * as LucideIcons from 'lucide-react';
-import { ChevronLeft, ChevronRight, Sparkles, Info, X, Pencil } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Sparkles, Info, X, Pencil, AlertTriangle } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { parseISO, subMonths, isAfter, startOfDay, format } from 'date-fns';
 import { toast } from 'sonner';
 
 import { useExpense, CANONICAL_GROUPS } from '../context/ExpenseContext';
-import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../lib/supabaseClient';
-import { ensureSystemCategories } from '../../lib/systemCategorySync';
-import type { Category, Transaction } from '../types';
-
-interface BudgetRow {
-  id: string;
-  category_id: string;
-  monthly_limit: number;
-}
+import { Switch } from '../components/ui/switch';
+import type { Budget, BudgetPeriod, Transaction } from '../types';
+import { getCategoryAllocations, getTransactionCategoryIds } from '../utils/splits';
+import {
+  BUDGET_PERIODS,
+  describeBudgetAllocationIssue,
+  getBudgetAllocationIssues,
+  getBudgetMonthFactor,
+  getBudgetPeriodMeta,
+} from '../utils/budgetPeriods';
+import {
+  BudgetDisplay,
+  BudgetTarget,
+  getBudgetCategoryMatcher,
+  getBudgetDisplay,
+  getBudgetTargetKey,
+  getMatchedSpendAmount,
+} from '../utils/budgetTargets';
 
 type SuggestionsMap = Record<string, number>;
 
+type SheetTarget = BudgetTarget & BudgetDisplay;
+
+const TOTAL_TARGET: BudgetTarget = { scope: 'total' };
+
 export function BudgetSettings() {
   const navigate = useNavigate();
-  const { categories, transactions } = useExpense();
-  const { user, supabaseConfigured } = useAuth();
-
-  const [budgets, setBudgets] = useState<BudgetRow[]>([]);
-  const [loadingBudgets, setLoadingBudgets] = useState(false);
+  const { categories, transactions, budgets, setBudget, setBudgets, removeBudget, homeCurrency } = useExpense();
 
   const [suggestions, setSuggestions] = useState<SuggestionsMap>({});
 
   const [sheetOpen, setSheetOpen] = useState(false);
-  const [sheetCategory, setSheetCategory] = useState<Category | null>(null);
+  const [sheetTarget, setSheetTarget] = useState<SheetTarget | null>(null);
   const [sheetValue, setSheetValue] = useState<string>('');
+  const [sheetPeriod, setSheetPeriod] = useState<BudgetPeriod>('monthly');
+  const [sheetPeriodStart, setSheetPeriodStart] = useState('');
+  const [sheetPeriodEnd, setSheetPeriodEnd] = useState('');
+  const [sheetRollover, setSheetRollover] = useState(false);
   const [sheetSaving, setSheetSaving] = useState(false);
 
   const [historyLoading, setHistoryLoading] = useState(false);
@@ -48,22 +60,38 @@ export function BudgetSettings() {
 
   const hasSuggestions = Object.keys(suggestions).length > 0;
 
+  // History is monthly; scale it to the period being edited
+  const periodFactor = useMemo(
+    () => getBudgetMonthFactor({
+      period: sheetPeriod,
+      periodStart: sheetPeriodStart || undefined,
+      periodEnd: sheetPeriodEnd || undefined,
+    }),
+    [sheetPeriod, sheetPeriodStart, sheetPeriodEnd]
+  );
+  const periodAverage = historyAverage != null ? historyAverage * periodFactor : null;
+
   const spendLessValue = useMemo(() => {
-    if (historyAverage == null) return null;
-    const raw = Math.floor((historyAverage * 0.75) / 5) * 5;
+    if (periodAverage == null) return null;
+    const raw = Math.floor((periodAverage * 0.75) / 5) * 5;
     return Math.round(raw <= 0 ? 5 : raw);
-  }, [historyAverage]);
+  }, [periodAverage]);
 
-  const avgRounded = historyAverage != null ? Math.round(historyAverage) : null;
+  const avgRounded = periodAverage != null ? Math.round(periodAverage) : null;
 
-  const budgetByCategory = useMemo(() => {
-    const map: Record<string, BudgetRow> = {};
+  const budgetByTarget = useMemo(() => {
+    const map: Record<string, Budget> = {};
     for (const b of budgets) {
-      map[b.category_id] = b;
+      map[getBudgetTargetKey(b)] = b;
     }
     return map;
   }, [budgets]);
 
+  const findBudget = (target: BudgetTarget): Budget | undefined => budgetByTarget[getBudgetTargetKey(target)];
+  const findCategoryBudget = (categoryId: string) => findBudget({ scope: 'category', categoryId });
+
+  const allocationIssues = useMemo(() => getBudgetAllocationIssues(budgets, categories), [budgets, categories]);
+
   // Compute smart suggestions from the last 3 months of non-recurring expenses
   useEffect(() => {
     const next: SuggestionsMap = {};
@@ -88,16 +116,17 @@ export function BudgetSettings() {
         return;
       }
 
-      const categoryId = tx.category;
-      if (!categoryId) return;
-
       const monthKey = format(date, 'yyyy-MM-01');
-      if (!perMonthTotals.has(categoryId)) {
-        perMonthTotals.set(categoryId, new Map());
-      }
-      const monthMap = perMonthTotals.get(categoryId)!;
-      const prev = monthMap.get(monthKey) ?? 0;
-      monthMap.set(monthKey, prev + tx.amount);
+      getCategoryAllocations(tx).forEach(({ categoryId, amount }) => {
+        if (!categoryId) return;
+
+        if (!perMonthTotals.has(categoryId)) {
+          perMonthTotals.set(categoryId, new Map());
+        }
+        const monthMap = perMonthTotals.get(categoryId)!;
+        const prev = monthMap.get(monthKey) ?? 0;
+        monthMap.set(monthKey, prev + amount);
+      });
     };
 
     transactions.forEach(addToTotals);
@@ -117,51 +146,17 @@ export function BudgetSettings() {
     setSuggestions(next);
   }, [transactions]);
 
-  // Load budgets from Supabase when available
-  useEffect(() => {
-    const loadBudgets = async () => {
-      if (!supabaseConfigured || !supabase || !user) return;
-      setLoadingBudgets(true);
-      try {
-        await ensureSystemCategories(user.id);
-
-        const { data, error } = await supabase
-          .from('budgets')
-          .select('id, category_id, monthly_limit')
-          .eq('user_id', user.id);
-
-        if (error) throw error;
-
-        const rows: BudgetRow[] = (data || []).map((row: any) => ({
-          id: row.id,
-          category_id: row.category_id,
-          monthly_limit:
-            typeof row.monthly_limit === 'string'
-              ? parseFloat(row.monthly_limit)
-              : row.monthly_limit,
-        }));
-        setBudgets(rows);
-      } catch (err: any) {
-        console.error('Failed to load budgets', err);
-        toast.error('Failed to load budgets');
-      } finally {
-        setLoadingBudgets(false);
-      }
-    };
-
-    loadBudgets();
-  }, [supabaseConfigured, user?.id]);
-
-  const loadHistoryForCategory = (categoryId: string) => {
+  const loadHistoryForTarget = (target: BudgetTarget) => {
     setHistoryLoading(true);
     setHistoryRows([]);
     setHistoryAverage(null);
 
     const threeMonthsAgo = subMonths(startOfDay(new Date()), 3);
     const perMonthTotals = new Map<string, number>();
+    const matches = getBudgetCategoryMatcher(target, categories);
 
     transactions.forEach((tx: Transaction) => {
-      if (tx.category !== categoryId) return;
+      if (!getTransactionCategoryIds(tx).some(matches)) return;
       if (tx.isRecurring) return;
       if ((tx as any).isVirtual) return;
       if ((tx as any).deletedAt) return;
@@ -174,7 +169,7 @@ export function BudgetSettings() {
       const monthKey = format(date, 'yyyy-MM-01');
       const prev = perMonthTotals.get(monthKey) ?? 0;
       // Ensure numeric with parseFloat before storing
-      perMonthTotals.set(monthKey, parseFloat((prev + tx.amount).toString()));
+      perMonthTotals.set(monthKey, parseFloat((prev + getMatchedSpendAmount(tx, matches)).toString()));
     });
 
     const entries = Array.from(perMonthTotals.entries())
@@ -199,21 +194,29 @@ export function BudgetSettings() {
     setHistoryLoading(false);
   };
 
-  const openSheetForCategory = (category: Category) => {
-    const existing = budgetByCategory[category.id];
-    setSheetCategory(category);
+  const openSheet = (target: BudgetTarget) => {
+    const existing = findBudget(target);
+    setSheetTarget({ ...target, ...getBudgetDisplay(target, categories) });
     setSheetValue(
-      existing ? Math.round(existing.monthly_limit).toString() : ''
+      existing ? Math.round(existing.limit).toString() : ''
     );
+    setSheetPeriod(existing?.period ?? 'monthly');
+    setSheetPeriodStart(existing?.periodStart ?? '');
+    setSheetPeriodEnd(existing?.periodEnd ?? '');
+    setSheetRollover(!!existing?.rollover);
     setSheetOpen(true);
-    loadHistoryForCategory(category.id);
+    loadHistoryForTarget(target);
   };
 
   const closeSheet = () => {
     if (sheetSaving) return;
     setSheetOpen(false);
-    setSheetCategory(null);
+    setSheetTarget(null);
     setSheetValue('');
+    setSheetPeriod('monthly');
+    setSheetPeriodStart('');
+    setSheetPeriodEnd('');
+    setSheetRollover(false);
     setHistoryRows([]);
     setHistoryAverage(null);
     setPrimaryInputFocused(false);
@@ -227,85 +230,67 @@ export function BudgetSettings() {
   };
 
   const handleSaveBudget = async () => {
-    if (!supabaseConfigured || !supabase || !user || !sheetCategory) return;
+    if (!sheetTarget) return;
 
     const amount = parseAmount(sheetValue);
-    if (amount === null) {
+    if (amount === null || amount === 0) {
       toast.error('Please enter a valid amount');
       return;
     }
+    if (sheetPeriod === 'custom' && (!sheetPeriodStart || !sheetPeriodEnd || sheetPeriodEnd < sheetPeriodStart)) {
+      toast.error('Choose a start date on or before the end date');
+      return;
+    }
+
+    // Bi-weekly budgets count fortnights from the week they were first saved
+    const existing = findBudget(sheetTarget);
+    const periodStart = sheetPeriod === 'custom'
+      ? sheetPeriodStart
+      : sheetPeriod === 'biweekly'
+        ? (existing?.period === 'biweekly' && existing.periodStart) || format(new Date(), 'yyyy-MM-dd')
+        : undefined;
 
     setSheetSaving(true);
     try {
-      await ensureSystemCategories(user.id);
-
-      const payload = {
-        user_id: user.id,
-        category_id: sheetCategory.id,
-        monthly_limit: amount,
-        updated_at: new Date().toISOString(),
-      };
-
-      const { data, error } = await supabase
-        .from('budgets')
-        .upsert(payload, { onConflict: 'user_id,category_id' })
-        .select('id, category_id, monthly_limit');
-
-      if (error) throw error;
-
-      const rows: BudgetRow[] = (data || []).map((row: any) => ({
-        id: row.id,
-        category_id: row.category_id,
-        monthly_limit:
-          typeof row.monthly_limit === 'string'
-            ? parseFloat(row.monthly_limit)
-            : row.monthly_limit,
-      }));
-
-      setBudgets((prev) => {
-        const byCat = new Map<string, BudgetRow>();
-        prev.forEach((b) => byCat.set(b.category_id, b));
-        rows.forEach((b) => byCat.set(b.category_id, b));
-        return Array.from(byCat.values());
+      const saved = await setBudget({
+        scope: sheetTarget.scope,
+        categoryId: sheetTarget.categoryId,
+        group: sheetTarget.group,
+        limit: amount,
+        period: sheetPeriod,
+        periodStart,
+        periodEnd: sheetPeriod === 'custom' ? sheetPeriodEnd : undefined,
+        // A custom range is a single period, so there is nothing to roll into
+        rollover: sheetPeriod !== 'custom' && sheetRollover,
       });
-
+      if (!saved) return;
       toast.success('Budget saved');
       closeSheet();
     } catch (err: any) {
       console.error('Failed to save budget', err);
-      toast.error(err?.message ? `Failed to save budget: ${err.message}` : 'Failed to save budget');
+      toast.error('Failed to save budget');
     } finally {
       setSheetSaving(false);
     }
   };
 
   const handleRemoveBudget = async () => {
-    if (!supabaseConfigured || !supabase || !user || !sheetCategory) return;
+    if (!sheetTarget) return;
 
-    const existing = budgetByCategory[sheetCategory.id];
+    const existing = findBudget(sheetTarget);
     if (!existing) {
       closeSheet();
       return;
     }
 
     const confirmed = window.confirm(
-      `Remove budget for ${sheetCategory.name}? This won't affect your expense history.`
+      `Remove budget for ${sheetTarget.name}? This won't affect your expense history.`
     );
     if (!confirmed) return;
 
     setSheetSaving(true);
     try {
-      const { error } = await supabase
-        .from('budgets')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('category_id', sheetCategory.id);
-
-      if (error) throw error;
-
-      setBudgets((prev) =>
-        prev.filter((b) => b.category_id !== sheetCategory.id)
-      );
+      await removeBudget(existing.id);
       toast.success('Budget removed');
       closeSheet();
     } catch (err: any) {
@@ -320,91 +305,33 @@ export function BudgetSettings() {
     const category = categories.find((c) => c.id === categoryId);
     if (!category) return;
     const suggested = suggestions[categoryId];
-    if (!supabaseConfigured || !supabase || !user || !suggested) return;
+    if (!suggested) return;
 
     try {
-      await ensureSystemCategories(user.id);
-
-      const payload = {
-        user_id: user.id,
-        category_id: categoryId,
-        monthly_limit: Math.round(suggested),
-        updated_at: new Date().toISOString(),
-      };
-
-      const { data, error } = await supabase
-        .from('budgets')
-        .upsert(payload, { onConflict: 'user_id,category_id' })
-        .select('id, category_id, monthly_limit');
-
-      if (error) throw error;
-
-      const rows: BudgetRow[] = (data || []).map((row: any) => ({
-        id: row.id,
-        category_id: row.category_id,
-        monthly_limit:
-          typeof row.monthly_limit === 'string'
-            ? parseFloat(row.monthly_limit)
-            : row.monthly_limit,
-      }));
-
-      setBudgets((prev) => {
-        const byCat = new Map<string, BudgetRow>();
-        prev.forEach((b) => byCat.set(b.category_id, b));
-        rows.forEach((b) => byCat.set(b.category_id, b));
-        return Array.from(byCat.values());
-      });
-
-      toast.success(`Applied suggestion for ${category.name}`);
+      const saved = await setBudget({ categoryId, limit: Math.round(suggested) });
+      if (saved) toast.success(`Applied suggestion for ${category.name}`);
     } catch (err: any) {
       console.error('Failed to apply suggestion', err);
-      toast.error(err?.message ? `Failed to apply suggestion: ${err.message}` : 'Failed to apply suggestion');
+      toast.error('Failed to apply suggestion');
     }
   };
 
   const handleApplyAllSuggestions = async () => {
-    if (!supabaseConfigured || !supabase || !user) return;
     const entries = Object.entries(suggestions);
     if (entries.length === 0) return;
 
     setApplyingAll(true);
     try {
-      await ensureSystemCategories(user.id);
-
-      const payload = entries.map(([categoryId, amount]) => ({
-        user_id: user.id,
-        category_id: categoryId,
-        monthly_limit: Math.round(amount),
-        updated_at: new Date().toISOString(),
-      }));
-
-      const { data, error } = await supabase
-        .from('budgets')
-        .upsert(payload, { onConflict: 'user_id,category_id' })
-        .select('id, category_id, monthly_limit');
-
-      if (error) throw error;
-
-      const rows: BudgetRow[] = (data || []).map((row: any) => ({
-        id: row.id,
-        category_id: row.category_id,
-        monthly_limit:
-          typeof row.monthly_limit === 'string'
-            ? parseFloat(row.monthly_limit)
-            : row.monthly_limit,
-      }));
-
-      setBudgets((prev) => {
-        const byCat = new Map<string, BudgetRow>();
-        prev.forEach((b) => byCat.set(b.category_id, b));
-        rows.forEach((b) => byCat.set(b.category_id, b));
-        return Array.from(byCat.values());
-      });
-
+      await setBudgets(
+        entries.map(([categoryId, amount]) => {
+          const existing = findCategoryBudget(categoryId);
+          return { categoryId, limit: Math.round(amount * (existing ? getBudgetMonthFactor(existing) : 1)) };
+        })
+      );
       toast.success('Applied all smart suggestions');
     } catch (err: any) {
       console.error('Failed to apply all suggestions', err);
-      toast.error(err?.message ? `Failed to apply all suggestions: ${err.message}` : 'Failed to apply all suggestions');
+      toast.error('Failed to apply all suggestions');
     } finally {
       setApplyingAll(false);
     }
@@ -427,50 +354,6 @@ export function BudgetSettings() {
     setSheetValue(raw);
   };
 
-  if (!supabaseConfigured || !user) {
-    return (
-      <div className="min-h-screen bg-gray-50 pb-10">
-        {/* Header */}
-        <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
-          <div className="max-w-lg mx-auto px-4 py-4">
-            <div className="flex items-center gap-4">
-              <button
-                onClick={() => navigate('/settings')}
-                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
-              >
-                <ChevronLeft className="w-6 h-6 text-gray-600" />
-              </button>
-              <div>
-                <h1 className="text-xl font-semibold text-gray-900">
-                  Budget Settings
-                </h1>
-                <p className="text-sm text-gray-500">
-                  Set monthly limits per category
-                </p>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        <div className="max-w-lg mx-auto px-4 py-6">
-          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5 flex gap-3">
-            <div className="w-10 h-10 rounded-full bg-blue-50 flex items-center justify-center flex-none">
-              <Info className="w-5 h-5 text-blue-500" />
-            </div>
-            <div>
-              <h2 className="text-sm font-semibold text-gray-900">
-                Budgets require an account
-              </h2>
-              <p className="text-sm text-gray-500 mt-1">
-                Sign in and connect Supabase to sync your budgets across devices.
-              </p>
-            </div>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gray-50 pb-10">
       {/* Header */}
@@ -488,7 +371,7 @@ export function BudgetSettings() {
                 Budget Settings
               </h1>
               <p className="text-sm text-gray-500">
-                Set monthly limits per category
+                Set limits per category, group or overall
               </p>
             </div>
           </div>
@@ -512,7 +395,7 @@ export function BudgetSettings() {
               <button
                 type="button"
                 onClick={handleApplyAllSuggestions}
-                disabled={applyingAll || loadingBudgets}
+                disabled={applyingAll}
                 className="mt-3 inline-flex items-center justify-center rounded-xl bg-blue-600 px-4 py-2 text-xs font-semibold text-white shadow-sm hover:bg-blue-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
               >
                 {applyingAll ? 'Applying…' : 'Apply All Suggestions'}
@@ -535,90 +418,154 @@ export function BudgetSettings() {
           </div>
         )}
 
+        {/* Over-allocation warnings */}
+        {allocationIssues.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
+            <div className="space-y-1">
+              {allocationIssues.map((issue) => (
+                <p key={issue.budget.id} className="text-xs font-medium text-amber-800">
+                  {describeBudgetAllocationIssue(issue, homeCurrency)}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Overall Budget */}
+        {(() => {
+          const totalBudget = findBudget(TOTAL_TARGET);
+          const display = getBudgetDisplay(TOTAL_TARGET, categories);
+          const IconComponent = (LucideIcons as any)[display.icon];
+          return (
+            <motion.button
+              type="button"
+              whileTap={{ scale: 0.98 }}
+              onClick={() => openSheet(TOTAL_TARGET)}
+              className="w-full bg-white rounded-2xl p-4 flex items-center gap-4 shadow-sm border border-transparent hover:border-gray-200 transition-all text-left"
+            >
+              <div
+                className="w-11 h-11 rounded-2xl flex items-center justify-center shrink-0 shadow-sm"
+                style={{ backgroundColor: `${display.color}20` }}
+              >
+                {IconComponent && <IconComponent className="w-6 h-6" style={{ color: display.color }} />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-gray-900">Overall budget</p>
+                  {totalBudget && (
+                    <p className="text-sm font-semibold text-blue-600 whitespace-nowrap">
+                      {formatCurrency(totalBudget.limit)} / {getBudgetPeriodMeta(totalBudget.period).unit}{totalBudget.rollover && ' ↻'}
+                    </p>
+                  )}
+                </div>
+                <p className="mt-1 text-[13px] font-medium text-slate-400">
+                  {totalBudget ? 'A cap on all spending combined' : '+ Set a cap on all spending'}
+                </p>
+              </div>
+              <ChevronRight className="w-4 h-4 text-gray-300 shrink-0" />
+            </motion.button>
+          );
+        })()}
+
         {/* Category List */}
         <div className="space-y-4">
           {CANONICAL_GROUPS.filter((group) =>
             categories.some((c) => c.group === group)
-          ).map((group) => (
-            <div key={group} className="space-y-2">
-              <h3 className="px-1 text-[10px] font-bold text-gray-400 uppercase tracking-[0.18em]">
-                {group}
-              </h3>
-
-              <div className="space-y-2">
-                {categories
-                  .filter((c) => c.group === group)
-                  .map((category) => {
-                    const IconComponent = (LucideIcons as any)[category.icon];
-                    const budget = budgetByCategory[category.id];
-                    const suggested = !budget ? suggestions[category.id] : undefined;
-
-                    return (
-                      <motion.button
-                        key={category.id}
-                        type="button"
-                        whileTap={{ scale: 0.98 }}
-                        onClick={() => openSheetForCategory(category)}
-                        className="w-full bg-white rounded-2xl p-4 flex items-center gap-4 shadow-sm border border-transparent hover:border-gray-200 transition-all text-left"
-                      >
-                        <div
-                          className="w-11 h-11 rounded-2xl flex items-center justify-center shrink-0 shadow-sm"
-                          style={{ backgroundColor: `${category.color}20` }}
-                        >
-                          {IconComponent && (
-                            <IconComponent
-                              className="w-6 h-6"
-                              style={{ color: category.color }}
-                            />
-                          )}
-                        </div>
+          ).map((group) => {
+            const groupBudget = findBudget({ scope: 'group', group });
+            return (
+              <div key={group} className="space-y-2">
+                <div className="px-1 flex items-center justify-between gap-2">
+                  <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-[0.18em]">
+                    {group}
+                  </h3>
+                  <button
+                    type="button"
+                    onClick={() => openSheet({ scope: 'group', group })}
+                    className={`text-[11px] font-semibold ${groupBudget ? 'text-blue-600' : 'text-slate-400'} hover:underline`}
+                  >
+                    {groupBudget
+                      ? `${formatCurrency(groupBudget.limit)} / ${getBudgetPeriodMeta(groupBudget.period).unit}${groupBudget.rollover ? ' ↻' : ''}`
+                      : '+ Group limit'}
+                  </button>
+                </div>
 
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center justify-between gap-2">
-                            <p className="font-medium text-gray-900">
-                              {category.name}
-                            </p>
-                            {budget && (
-                              <p className="text-sm font-semibold text-blue-600 whitespace-nowrap">
-                                {formatCurrency(budget.monthly_limit)} / mo
-                              </p>
+                <div className="space-y-2">
+                  {categories
+                    .filter((c) => c.group === group)
+                    .map((category) => {
+                      const IconComponent = (LucideIcons as any)[category.icon];
+                      const budget = findCategoryBudget(category.id);
+                      const suggested = !budget ? suggestions[category.id] : undefined;
+
+                      return (
+                        <motion.button
+                          key={category.id}
+                          type="button"
+                          whileTap={{ scale: 0.98 }}
+                          onClick={() => openSheet({ scope: 'category', categoryId: category.id })}
+                          className="w-full bg-white rounded-2xl p-4 flex items-center gap-4 shadow-sm border border-transparent hover:border-gray-200 transition-all text-left"
+                        >
+                          <div
+                            className="w-11 h-11 rounded-2xl flex items-center justify-center shrink-0 shadow-sm"
+                            style={{ backgroundColor: `${category.color}20` }}
+                          >
+                            {IconComponent && (
+                              <IconComponent
+                                className="w-6 h-6"
+                                style={{ color: category.color }}
+                              />
                             )}
                           </div>
 
-                          <div className="mt-1 min-h-[20px]">
-                            {suggested ? (
-                              <button
-                                type="button"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  handleApplySuggestionForCategory(category.id);
-                                }}
-                                className="inline-flex items-center gap-1 rounded-full bg-amber-50 border border-amber-200 px-2.5 py-1 text-[11px] font-semibold text-amber-700 hover:bg-amber-100 active:scale-95 transition"
-                              >
-                                <Sparkles className="w-3 h-3" />
-                                <span>Suggested {formatCurrency(suggested)}</span>
-                              </button>
-                            ) : !budget ? (
-                              <p className="text-[13px] font-medium text-slate-400">
-                                + Set limit
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="font-medium text-gray-900">
+                                {category.name}
                               </p>
-                            ) : null}
+                              {budget && (
+                                <p className="text-sm font-semibold text-blue-600 whitespace-nowrap">
+                                  {formatCurrency(budget.limit)} / {getBudgetPeriodMeta(budget.period).unit}{budget.rollover && ' ↻'}
+                                </p>
+                              )}
+                            </div>
+
+                            <div className="mt-1 min-h-[20px]">
+                              {suggested ? (
+                                <button
+                                  type="button"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleApplySuggestionForCategory(category.id);
+                                  }}
+                                  className="inline-flex items-center gap-1 rounded-full bg-amber-50 border border-amber-200 px-2.5 py-1 text-[11px] font-semibold text-amber-700 hover:bg-amber-100 active:scale-95 transition"
+                                >
+                                  <Sparkles className="w-3 h-3" />
+                                  <span>Suggested {formatCurrency(suggested)}</span>
+                                </button>
+                              ) : !budget ? (
+                                <p className="text-[13px] font-medium text-slate-400">
+                                  + Set limit
+                                </p>
+                              ) : null}
+                            </div>
                           </div>
-                        </div>
 
-                        <ChevronRight className="w-4 h-4 text-gray-300 shrink-0" />
-                      </motion.button>
-                    );
-                  })}
+                          <ChevronRight className="w-4 h-4 text-gray-300 shrink-0" />
+                        </motion.button>
+                      );
+                    })}
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
 
       {/* Edit Budget Bottom Sheet */}
       <AnimatePresence>
-        {sheetOpen && sheetCategory && (
+        {sheetOpen && sheetTarget && (
           <>
             <motion.div
               initial={{ opacity: 0 }}
@@ -638,29 +585,30 @@ export function BudgetSettings() {
                 <div className="flex items-center gap-3">
                   <div
                     className="w-10 h-10 rounded-[12px] flex items-center justify-center shadow-sm"
-                    style={{ backgroundColor: sheetCategory.color + '20' }}
+                    style={{ backgroundColor: sheetTarget.color + '20' }}
                   >
                     {(() => {
-                      const IconComponent = (LucideIcons as any)[sheetCategory.icon];
+                      const IconComponent = (LucideIcons as any)[sheetTarget.icon];
                       return IconComponent ? (
                         <IconComponent
                           className="w-5 h-5"
-                          style={{ color: sheetCategory.color }}
+                          style={{ color: sheetTarget.color }}
                         />
                       ) : (
                         <div
                           className="w-3.5 h-3.5 rounded-full"
-                          style={{ backgroundColor: sheetCategory.color }}
+                          style={{ backgroundColor: sheetTarget.color }}
                         />
                       );
                     })()}
                   </div>
                   <div>
                     <h2 className="text-lg font-semibold text-gray-900 leading-tight">
-                      {sheetCategory.name}
+                      {sheetTarget.name}
                     </h2>
                     <p className="text-[13px] text-gray-500 mt-0.5">
-                      Monthly budget
+                      {getBudgetPeriodMeta(sheetPeriod).label}
+                      {sheetTarget.scope === 'group' ? ' group' : sheetTarget.scope === 'total' ? ' overall' : ''} budget
                     </p>
                   </div>
                 </div>
@@ -760,8 +708,8 @@ export function BudgetSettings() {
                         Not enough data yet
                       </p>
                       <p className="text-[12px] text-slate-400 mt-1 leading-relaxed">
-                        Log 2+ months of expenses in this category to unlock smart
-                        suggestions.
+                        Log 2+ months of expenses {sheetTarget.scope === 'category' ? 'in this category' : 'here'} to
+                        unlock smart suggestions.
                       </p>
                     </div>
                   )}
@@ -770,6 +718,66 @@ export function BudgetSettings() {
                 {/* Divider */}
                 <div className="h-px bg-[#E2E8F0]" />
 
+                {/* Period */}
+                <div className="space-y-3">
+                  <p
+                    className="text-[11px] font-semibold tracking-[0.12em] uppercase"
+                    style={{ color: '#64748B' }}
+                  >
+                    BUDGET PERIOD
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {BUDGET_PERIODS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setSheetPeriod(option.value)}
+                        className={`px-3 py-1.5 rounded-full text-[13px] font-medium border transition-colors ${
+                          sheetPeriod === option.value
+                            ? 'bg-[#2563EB] text-white border-[#2563EB]'
+                            : 'bg-white text-[#64748B] border-[#E2E8F0]'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  {sheetPeriod === 'custom' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <label className="space-y-1">
+                        <span className="text-[12px] text-[#64748B]">Starts</span>
+                        <input
+                          type="date"
+                          value={sheetPeriodStart}
+                          onChange={(e) => setSheetPeriodStart(e.target.value)}
+                          className="w-full h-11 rounded-xl border-[1.5px] border-[#E2E8F0] px-3 text-[14px] text-[#0F172A] focus:outline-none focus:border-[#2563EB]"
+                        />
+                      </label>
+                      <label className="space-y-1">
+                        <span className="text-[12px] text-[#64748B]">Ends</span>
+                        <input
+                          type="date"
+                          value={sheetPeriodEnd}
+                          min={sheetPeriodStart || undefined}
+                          onChange={(e) => setSheetPeriodEnd(e.target.value)}
+                          className="w-full h-11 rounded-xl border-[1.5px] border-[#E2E8F0] px-3 text-[14px] text-[#0F172A] focus:outline-none focus:border-[#2563EB]"
+                        />
+                      </label>
+                    </div>
+                  )}
+                  {sheetPeriod !== 'custom' && (
+                    <div className="flex items-center justify-between gap-4 rounded-xl bg-slate-50 border border-slate-100 px-4 py-3">
+                      <div>
+                        <p className="text-[14px] font-medium text-[#0F172A]">Roll over</p>
+                        <p className="text-[12px] text-[#64748B] mt-0.5">
+                          Carry unspent money, or overspending, into the next period
+                        </p>
+                      </div>
+                      <Switch checked={sheetRollover} onCheckedChange={setSheetRollover} />
+                    </div>
+                  )}
+                </div>
+
                 {/* Segmented Control + Primary Input + Range Slider */}
                 {(() => {
                   const parsed = parseAmount(sheetValue);
@@ -787,13 +795,13 @@ export function BudgetSettings() {
                   const historyMin =
                     historyRows.length > 0
                       ? Math.round(
-                          Math.min(...historyRows.map((r) => r.total))
+                          Math.min(...historyRows.map((r) => r.total)) * periodFactor
                         )
                       : 0;
                   const historyMax =
                     historyRows.length > 0
                       ? Math.round(
-                          Math.max(...historyRows.map((r) => r.total))
+                          Math.max(...historyRows.map((r) => r.total)) * periodFactor
                         )
                       : 0;
                   const currentVal = parsed ?? 0;
@@ -818,7 +826,7 @@ export function BudgetSettings() {
                         SET YOUR BUDGET
                       </p>
 
-                      {historyAverage != null && spendLessValue != null ? (
+                      {periodAverage != null && spendLessValue != null ? (
                         <>
                           {/* Segmented Control */}
                           <div className="flex rounded-xl bg-slate-100 p-1">
@@ -989,7 +997,7 @@ export function BudgetSettings() {
                   {sheetSaving ? 'Saving…' : 'Save Budget'}
                 </button>
 
-                {budgetByCategory[sheetCategory.id] && (
+                {findBudget(sheetTarget) && (
                   <button
                     type="button"
                     onClick={handleRemoveBudget}
@@ -1,144 +1,77 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router';
 import { startOfMonth, endOfMonth, parseISO, isWithinInterval, subMonths, format, isSameMonth } from 'date-fns';
 import { BottomNav } from '../components/BottomNav';
 import { MonthNavigator } from '../components/reports/MonthNavigator';
 import { useExpense } from '../context/ExpenseContext';
-import { toast } from 'sonner';
 import { Target } from 'lucide-react';
 
-import { useAuth } from '../context/AuthContext';
-import { supabase } from '../../lib/supabaseClient';
-
 import { BudgetHeroCard } from '../components/budgets/BudgetHeroCard';
 import { BudgetInsightCard } from '../components/budgets/BudgetInsightCard';
 import { BudgetCategoryList } from '../components/budgets/BudgetCategoryList';
 import { BudgetCategorySheet } from '../components/budgets/BudgetCategorySheet';
-import { Category } from '../types';
-
-interface BudgetRow {
-    id: string;
-    category_id: string;
-    monthly_limit: number;
-}
+import { getCategoryAllocations } from '../utils/splits';
+import { BudgetProgress, getBudgetProgress, getBudgetReferenceDate, getBudgetShareForRange } from '../utils/budgetPeriods';
+import { getBudgetCategoryMatcher, getBudgetParentGroup } from '../utils/budgetTargets';
 
 export function BudgetsTracking() {
     const navigate = useNavigate();
-    const { user, supabaseConfigured } = useAuth();
-    const { transactions, categories } = useExpense();
+    const { transactions, categories, budgets } = useExpense();
 
     const [selectedMonthStart, setSelectedMonthStart] = useState<Date>(startOfMonth(new Date()));
-    const [budgets, setBudgets] = useState<BudgetRow[]>([]);
-    const [loadingBudgets, setLoadingBudgets] = useState(true);
 
     const [sheetOpen, setSheetOpen] = useState(false);
-    const [sheetCategory, setSheetCategory] = useState<Category | null>(null);
-    const [sheetSpent, setSheetSpent] = useState(0);
-    const [sheetLimit, setSheetLimit] = useState(0);
+    const [sheetProgress, setSheetProgress] = useState<BudgetProgress | null>(null);
     const showInsightCard = isSameMonth(selectedMonthStart, new Date());
 
-    // Fetch budgets from Supabase
-    useEffect(() => {
-        const loadBudgets = async () => {
-            if (!supabaseConfigured || !supabase || !user) {
-                setLoadingBudgets(false);
-                return;
-            }
-
-            setLoadingBudgets(true);
-            try {
-                const { data, error } = await supabase
-                    .from('budgets')
-                    .select('id, category_id, monthly_limit')
-                    .eq('user_id', user.id);
-
-                if (error) throw error;
-
-                const rows: BudgetRow[] = (data || []).map((row: any) => ({
-                    id: row.id,
-                    category_id: row.category_id,
-                    monthly_limit: typeof row.monthly_limit === 'string'
-                        ? parseFloat(row.monthly_limit)
-                        : row.monthly_limit,
-                }));
-                setBudgets(rows);
-            } catch (err: any) {
-                console.error('Failed to load budgets tracking', err);
-                toast.error('Failed to load budgets');
-            } finally {
-                setLoadingBudgets(false);
-            }
-        };
-
-        loadBudgets();
-    }, [supabaseConfigured, user?.id]);
-
-    // Calculate spent amounts for the selected month
-    const { monthSpent, spentByCategory } = useMemo(() => {
-        let monthTotal = 0;
-        const byCat: Record<string, number> = {};
-
-        // Initialize all budgeted categories with 0
-        budgets.forEach(b => {
-            byCat[b.category_id] = 0;
-        });
-
-        const monthEnd = endOfMonth(selectedMonthStart);
-
-        transactions.forEach(t => {
-            // Ignore recurring expenses per requirements
-            if (t.isRecurring) return;
-
-            const tDate = parseISO(t.date);
-            if (isWithinInterval(tDate, { start: selectedMonthStart, end: monthEnd })) {
-                // Only count spending for categories that have budgets
-                if (t.category && byCat[t.category] !== undefined) {
-                    byCat[t.category] += t.amount;
-                    monthTotal += t.amount;
-                }
-            }
-        });
-
-        return { monthSpent: monthTotal, spentByCategory: byCat };
-    }, [transactions, selectedMonthStart, budgets]);
+    // Each budget is measured over its own period, as of the selected month
+    const budgetProgress = useMemo(() => {
+        const referenceDate = getBudgetReferenceDate(selectedMonthStart);
+        return budgets.map(budget => getBudgetProgress(budget, transactions, categories, referenceDate));
+    }, [budgets, transactions, categories, selectedMonthStart]);
+
+    // The budgets that make up the overall envelope without counting anything
+    // twice: the overall budget when there is one, otherwise group budgets plus
+    // category budgets outside a budgeted group
+    const envelopeBudgets = useMemo(() => {
+        const totalBudget = budgets.find(b => b.scope === 'total');
+        if (totalBudget) return [totalBudget];
+
+        const budgetedGroups = new Set(budgets.filter(b => b.scope === 'group').map(b => b.group));
+        return budgets.filter(b =>
+            b.scope === 'group' || !budgetedGroups.has(getBudgetParentGroup(b, categories))
+        );
+    }, [budgets, categories]);
 
-    // Calculate total limits
-    const totalLimit = useMemo(() => {
-        return budgets.reduce((sum, b) => sum + b.monthly_limit, 0);
-    }, [budgets]);
+    // The hero card is a monthly envelope: non-monthly limits are prorated into the month
+    const { monthSpent, totalLimit } = useMemo(() => {
+        const month = { start: selectedMonthStart, end: endOfMonth(selectedMonthStart) };
+        return envelopeBudgets.reduce((acc, budget) => {
+            const share = getBudgetShareForRange(budget, transactions, categories, month);
+            return { monthSpent: acc.monthSpent + share.spent, totalLimit: acc.totalLimit + share.limit };
+        }, { monthSpent: 0, totalLimit: 0 });
+    }, [envelopeBudgets, transactions, categories, selectedMonthStart]);
 
     // Calculate previous month total spent
     const previousMonthTotal = useMemo(() => {
         const prevStart = startOfMonth(subMonths(selectedMonthStart, 1));
         const prevEnd = endOfMonth(prevStart);
         let total = 0;
+        const matchers = envelopeBudgets.map(b => getBudgetCategoryMatcher(b, categories));
 
         // Sum only categories that are tracked in budgets
         transactions.forEach(t => {
             if (t.isRecurring) return;
-            const hasBudget = budgets.some(b => b.category_id === t.category);
-            if (!hasBudget) return;
 
             const tDate = parseISO(t.date);
-            if (isWithinInterval(tDate, { start: prevStart, end: prevEnd })) {
-                total += t.amount;
-            }
+            if (!isWithinInterval(tDate, { start: prevStart, end: prevEnd })) return;
+
+            getCategoryAllocations(t).forEach(({ categoryId, amount }) => {
+                if (matchers.some(matches => matches(categoryId))) total += amount;
+            });
         });
         return total;
-    }, [transactions, selectedMonthStart, budgets]);
-
-    if (loadingBudgets) {
-        return (
-            <div className="app-screen-with-nav h-[100dvh] flex flex-col bg-[#F1F5F9] overflow-hidden relative font-dm-sans">
-                <div className="flex-1 flex justify-center items-center">
-                    <div className="animate-spin w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full" />
-                </div>
-                <div className="flex-none bg-white border-t border-gray-100 z-20 lg:h-0 lg:border-t-0 lg:bg-transparent">
-                    <BottomNav />
-                </div>
-            </div>
-        );
-    }
+    }, [transactions, selectedMonthStart, envelopeBudgets, categories]);
 
     // Empty state - No budgets configured
     if (budgets.length === 0) {
@@ -151,7 +84,7 @@ export function BudgetsTracking() {
                         </div>
                         <h2 className="text-xl font-bold text-gray-900 mb-2">No budgets set yet</h2>
                         <p className="text-gray-500 text-sm max-w-[250px] mb-8 leading-relaxed">
-                            Set monthly limits to start tracking your spending and stay on top of your finances.
+                            Set spending limits to start tracking your spending and stay on top of your finances.
                         </p>
                         <button
                             onClick={() => navigate('/settings/budgets')}
@@ -189,30 +122,25 @@ export function BudgetsTracking() {
                                 monthSpent={monthSpent}
                                 totalLimit={totalLimit}
                                 selectedMonthStart={selectedMonthStart}
+                                isOverallBudget={envelopeBudgets.some(b => b.scope === 'total')}
                             />
                         </div>
 
                         {showInsightCard && (
                             <div className="lg:col-span-4">
                                 <BudgetInsightCard
-                                    budgets={budgets}
+                                    progress={budgetProgress}
                                     categories={categories}
-                                    spentByCategory={spentByCategory}
-                                    selectedMonthStart={selectedMonthStart}
                                 />
                             </div>
                         )}
 
                         <div className={showInsightCard ? 'lg:col-span-8' : 'lg:col-span-12'}>
                             <BudgetCategoryList
-                                budgets={budgets}
+                                progress={budgetProgress}
                                 categories={categories}
-                                spentByCategory={spentByCategory}
-                                selectedMonthStart={selectedMonthStart}
-                                onCategoryClick={(category, spent, limit) => {
-                                    setSheetCategory(category);
-                                    setSheetSpent(spent);
-                                    setSheetLimit(limit);
+                                onBudgetClick={(progress) => {
+                                    setSheetProgress(progress);
                                     setSheetOpen(true);
                                 }}
                             />
@@ -268,11 +196,9 @@ export function BudgetsTracking() {
             <BudgetCategorySheet
                 open={sheetOpen}
                 onOpenChange={setSheetOpen}
-                category={sheetCategory}
-                selectedMonthStart={selectedMonthStart}
+                categories={categories}
+                progress={sheetProgress}
                 transactions={transactions}
-                monthSpent={sheetSpent}
-                monthLimit={sheetLimit}
             />
         </div>
     );
@@ -4,11 +4,14 @@ import { ChevronLeft, Plus, Download, CheckSquare, X } from 'lucide-react';
 import { useExpense } from '../context/ExpenseContext';
 import { useSelection } from '../context/SelectionContext';
 import { TransactionItem } from '../components/TransactionItem';
+import { ReceiptThumbnail } from '../components/receipt/ReceiptThumbnail';
+import { ReceiptGallery, ReceiptGalleryItem } from '../components/receipt/ReceiptGallery';
 import { BulkActionBar } from '../components/BulkActionBar';
 import { motion, AnimatePresence } from 'motion/react';
 import { downloadICS } from '../utils/icsExport';
 import { useEffect, useState, useMemo } from 'react';
 import { toast } from 'sonner';
+import { getSpendAmount } from '../utils/cashFlow';
 
 export function DayDetail() {
   const { date } = useParams<{ date: string }>();
@@ -19,6 +22,7 @@ export function DayDetail() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [recurringOption, setRecurringOption] = useState<'single' | 'future' | 'all'>('single');
   const [showConfirm, setShowConfirm] = useState(false);
+  const [galleryIndex, setGalleryIndex] = useState<number | null>(null);
 
   useEffect(() => {
     if (date) {
@@ -33,7 +37,7 @@ export function DayDetail() {
 
   const parsedDate = parseISO(date);
   const dayTransactions = transactions.filter((t) => t.date === date);
-  const totalSpent = dayTransactions.reduce((sum, t) => sum + t.amount, 0);
+  const totalSpent = dayTransactions.reduce((sum, t) => sum + getSpendAmount(t), 0);
 
   const handleBulkDelete = async () => {
     setIsDeleting(true);
@@ -63,7 +67,16 @@ export function DayDetail() {
       transactionsByCategory[t.category] = { transactions: [], total: 0 };
     }
     transactionsByCategory[t.category].transactions.push(t);
-    transactionsByCategory[t.category].total += t.amount;
+    transactionsByCategory[t.category].total += getSpendAmount(t);
+  });
+
+  // Recurring occurrences share their rule's attachments, so show each file once
+  const dayAttachments: ReceiptGalleryItem[] = [];
+  dayTransactions.forEach((t) => {
+    (t.attachments ?? []).forEach((attachment) => {
+      if (dayAttachments.some(item => item.attachment.id === attachment.id)) return;
+      dayAttachments.push({ attachment, caption: t.vendor, transactionId: t.id });
+    });
   });
 
   // Sort categories by total (highest first)
@@ -185,6 +198,23 @@ export function DayDetail() {
                 </button>
               </div>
             )}
+            {!isSelectionMode && dayAttachments.length > 0 && (
+              <div>
+                <h3 className="font-bold text-gray-400 text-xs uppercase tracking-widest mb-3 px-1">Receipts</h3>
+                <div className="flex gap-3 overflow-x-auto pb-1">
+                  {dayAttachments.map((item, index) => (
+                    <button
+                      key={item.attachment.id}
+                      onClick={() => setGalleryIndex(index)}
+                      className="flex-shrink-0 text-left"
+                    >
+                      <ReceiptThumbnail attachment={item.attachment} className="w-20 h-24 rounded-2xl shadow-sm" />
+                      <p className="mt-1 w-20 text-[11px] font-medium text-gray-500 truncate">{item.caption}</p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             {sortedCategories.map(([categoryId, { transactions: categoryTransactions, total }], categoryIndex) => {
               const category = getCategoryById(categoryId);
               if (!category) return null;
@@ -235,6 +265,13 @@ export function DayDetail() {
 
       <BulkActionBar onDelete={() => setShowConfirm(true)} />
 
+      <ReceiptGallery
+        items={dayAttachments}
+        startIndex={galleryIndex}
+        onClose={() => setGalleryIndex(null)}
+        onOpenTransaction={(transactionId) => navigate(`/transaction/${transactionId}`)}
+      />
+
       {/* Confirmation Modal */}
       <AnimatePresence>
         {showConfirm && (
@@ -0,0 +1,279 @@
+import { useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { ChevronLeft, Plus, Upload, ArrowRightLeft, Trash2, AlertTriangle } from 'lucide-react';
+import { Drawer } from 'vaul';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { useExpense } from '../context/ExpenseContext';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { CURRENCIES, ExchangeRateImportError, parseExchangeRateCsv } from '../utils/currency';
+
+interface AddRateSheetProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    homeCurrency: string;
+    initialCurrency?: string;
+    onSave: (fromCurrency: string, rate: number, date: string) => void;
+}
+
+function AddRateSheet({ open, onOpenChange, homeCurrency, initialCurrency, onSave }: AddRateSheetProps) {
+    const foreignCurrencies = CURRENCIES.map(c => c.code).filter(code => code !== homeCurrency);
+    const [fromCurrency, setFromCurrency] = useState(initialCurrency || foreignCurrencies[0]);
+    const [rate, setRate] = useState('');
+    const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+    const parsedRate = parseFloat(rate);
+    const canSave = parsedRate > 0 && !!date;
+
+    return (
+        <Drawer.Root open={open} onOpenChange={onOpenChange}>
+            <Drawer.Portal>
+                <Drawer.Overlay className="fixed inset-0 bg-black/40 z-50" />
+                <Drawer.Content className="app-drawer-frame">
+                    <div className="app-drawer-panel">
+                        {/* Handle */}
+                        <div className="flex justify-center pt-3 pb-2">
+                            <div className="w-10 h-1 rounded-full bg-gray-300" />
+                        </div>
+
+                        <div className="px-5 pb-2">
+                            <Drawer.Title className="text-lg font-semibold text-gray-900">Add Exchange Rate</Drawer.Title>
+                        </div>
+
+                        <div className="px-5 pb-8 space-y-5">
+                            <div className="space-y-2">
+                                <Label>Currency</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {foreignCurrencies.map((code) => (
+                                        <button
+                                            key={code}
+                                            type="button"
+                                            onClick={() => setFromCurrency(code)}
+                                            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${fromCurrency === code
+                                                ? 'bg-black text-white border-black'
+                                                : 'bg-white text-gray-600 border-gray-200'
+                                                }`}
+                                        >
+                                            {code}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="rate-value">Rate</Label>
+                                <div className="flex items-center gap-2 text-sm text-gray-600">
+                                    <span className="shrink-0">1 {fromCurrency} =</span>
+                                    <Input
+                                        id="rate-value"
+                                        type="number"
+                                        step="0.0001"
+                                        placeholder="0.0000"
+                                        value={rate}
+                                        onChange={(e) => setRate(e.target.value)}
+                                        className="h-12 rounded-xl"
+                                    />
+                                    <span className="shrink-0">{homeCurrency}</span>
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="rate-date">Effective from</Label>
+                                <Input
+                                    id="rate-date"
+                                    type="date"
+                                    value={date}
+                                    onChange={(e) => setDate(e.target.value)}
+                                    className="h-12 rounded-xl"
+                                />
+                            </div>
+
+                            <button
+                                type="button"
+                                disabled={!canSave}
+                                onClick={() => {
+                                    onSave(fromCurrency, parsedRate, date);
+                                    onOpenChange(false);
+                                }}
+                                className="w-full h-12 rounded-xl bg-black text-white font-semibold disabled:opacity-40"
+                            >
+                                Save Rate
+                            </button>
+                        </div>
+                    </div>
+                </Drawer.Content>
+            </Drawer.Portal>
+        </Drawer.Root>
+    );
+}
+
+export function ExchangeRates() {
+    const navigate = useNavigate();
+    const {
+        homeCurrency,
+        exchangeRates,
+        missingRateCurrencies,
+        addExchangeRate,
+        deleteExchangeRate,
+        importExchangeRates,
+    } = useExpense();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [sheetOpen, setSheetOpen] = useState(false);
+    const [sheetCurrency, setSheetCurrency] = useState<string | undefined>();
+
+    const sortedRates = useMemo(
+        () => [...exchangeRates].sort((a, b) =>
+            b.date.localeCompare(a.date) || a.fromCurrency.localeCompare(b.fromCurrency)
+        ),
+        [exchangeRates]
+    );
+
+    const openSheet = (currency?: string) => {
+        setSheetCurrency(currency);
+        setSheetOpen(true);
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const parsed = parseExchangeRateCsv(await file.text(), homeCurrency);
+            const created = await importExchangeRates(parsed);
+            const skipped = parsed.length - created;
+            toast.success(`Imported ${created} rate${created === 1 ? '' : 's'}${skipped > 0 ? ` (${skipped} already on file)` : ''}`);
+        } catch (error) {
+            if (error instanceof ExchangeRateImportError) {
+                toast.error(error.message);
+                return;
+            }
+            console.error('Rate import failed:', error);
+            toast.error('Could not read that file');
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 pb-20">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+                <div className="max-w-lg mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate('/settings')}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <ChevronLeft className="w-6 h-6 text-gray-600" />
+                        </button>
+                        <h1 className="text-xl font-semibold text-gray-900 flex-1">Exchange Rates</h1>
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <Upload className="w-5 h-5 text-gray-900" />
+                        </button>
+                        <button
+                            onClick={() => openSheet()}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <Plus className="w-6 h-6 text-gray-900" />
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    if (!file) return;
+                    void handleImport(file);
+                    event.target.value = '';
+                }}
+            />
+
+            <div className="max-w-lg mx-auto px-4 py-6 space-y-4">
+                <p className="text-sm text-gray-500 px-1">
+                    Totals are shown in {homeCurrency}. Each transaction keeps the rate it was saved with; these rates fill in when one is missing.
+                </p>
+
+                {missingRateCurrencies.length > 0 && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex gap-3">
+                        <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
+                        <div className="text-sm">
+                            <p className="font-semibold text-amber-900">Some amounts aren't converted</p>
+                            <p className="text-amber-800 mt-0.5">
+                                No rate for {missingRateCurrencies.join(', ')} → {homeCurrency}. Those transactions are counted at face value.
+                            </p>
+                            <div className="flex gap-2 mt-2">
+                                {missingRateCurrencies.map((code) => (
+                                    <button
+                                        key={code}
+                                        onClick={() => openSheet(code)}
+                                        className="text-xs font-bold text-amber-900 bg-white/70 px-2.5 py-1 rounded-lg"
+                                    >
+                                        Add {code}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {sortedRates.length === 0 ? (
+                    <div className="text-center py-12 bg-white rounded-3xl border border-gray-100 shadow-sm">
+                        <div className="w-16 h-16 bg-gray-50 rounded-full flex items-center justify-center mx-auto mb-4">
+                            <ArrowRightLeft className="w-8 h-8 text-gray-300" />
+                        </div>
+                        <p className="text-gray-500 font-medium">No exchange rates yet</p>
+                        <p className="text-sm text-gray-400 mt-1 px-6">
+                            Add one manually or import a CSV with date, currency and rate columns
+                        </p>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {sortedRates.map((rate) => (
+                            <motion.div
+                                key={rate.id}
+                                layout
+                                className="bg-white rounded-2xl p-4 flex items-center gap-4 shadow-sm"
+                            >
+                                <div className="w-12 h-12 rounded-2xl bg-blue-50 flex items-center justify-center shrink-0">
+                                    <span className="text-xs font-bold text-blue-700">{rate.fromCurrency}</span>
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-semibold text-gray-900">
+                                        1 {rate.fromCurrency} = {rate.rate} {rate.toCurrency}
+                                    </p>
+                                    <div className="flex items-center gap-2 mt-1">
+                                        <span className="text-xs text-gray-500">From {format(parseISO(rate.date), 'MMM d, yyyy')}</span>
+                                        <span className="w-1 h-1 bg-gray-300 rounded-full" />
+                                        <span className="text-xs text-gray-400 capitalize">{rate.source}</span>
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => deleteExchangeRate(rate.id)}
+                                    className="p-2 text-gray-300 hover:text-red-500 transition-colors"
+                                >
+                                    <Trash2 className="w-5 h-5" />
+                                </button>
+                            </motion.div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <AddRateSheet
+                key={sheetOpen ? `open-${sheetCurrency ?? ''}` : 'closed'}
+                open={sheetOpen}
+                onOpenChange={setSheetOpen}
+                homeCurrency={homeCurrency}
+                initialCurrency={sheetCurrency}
+                onSave={(fromCurrency, rate, date) =>
+                    addExchangeRate({ fromCurrency, toCurrency: homeCurrency, rate, date, source: 'manual' })
+                }
+            />
+        </div>
+    );
+}
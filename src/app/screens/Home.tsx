@@ -15,6 +15,7 @@ import { motion, AnimatePresence } from 'motion/react';
 import { ChevronLeft, ChevronRight, Download, CheckSquare, X, Search } from 'lucide-react';
 import { downloadICS } from '../utils/icsExport';
 import { toast } from 'sonner';
+import { getSpendAmount } from '../utils/cashFlow';
 
 type TimeView = 'daily' | 'weekly' | 'monthly';
 
@@ -109,7 +110,7 @@ export function Home() {
     });
   }, [processedTransactions, rangeStart, rangeEnd, includeRecurring]);
 
-  const currentTotal = rangeTransactions.reduce((sum: number, t: any) => sum + t.amount, 0);
+  const currentTotal = rangeTransactions.reduce((sum: number, t: any) => sum + getSpendAmount(t), 0);
 
   // Get display text for current period
   const getPeriodText = () => {
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router';
+import { ChevronLeft, FileSpreadsheet, History, Landmark, Trash2, Undo2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useExpense } from '../context/ExpenseContext';
+import { ImportBatch, ImportBatchKind } from '../types';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '../components/ui/alert-dialog';
+
+const KIND_STYLES: Record<ImportBatchKind, { icon: typeof FileSpreadsheet; label: string; color: string; bg: string }> = {
+    'spreadsheet-import': { icon: FileSpreadsheet, label: 'Spreadsheet import', color: '#16A34A', bg: '#F0FDF4' },
+    'statement-import': { icon: Landmark, label: 'Bank statement', color: '#0284C7', bg: '#E0F2FE' },
+    'bulk-delete': { icon: Trash2, label: 'Bulk delete', color: '#DC2626', bg: '#FEE2E2' },
+};
+
+function describeBatch(batch: ImportBatch) {
+    const parts: string[] = [];
+    const transactions = batch.transactionIds.length;
+    if (batch.kind === 'bulk-delete') {
+        if (transactions > 0) parts.push(`${transactions} deleted`);
+        if (batch.exceptionIds.length > 0) parts.push(`${batch.exceptionIds.length} occurrence${batch.exceptionIds.length === 1 ? '' : 's'} skipped`);
+        if (batch.endedRules.length > 0) parts.push(`${batch.endedRules.length} recurring rule${batch.endedRules.length === 1 ? '' : 's'} ended`);
+    } else {
+        parts.push(`${transactions} transaction${transactions === 1 ? '' : 's'}`);
+        if (batch.categoryIds.length > 0) parts.push(`${batch.categoryIds.length} new categor${batch.categoryIds.length === 1 ? 'y' : 'ies'}`);
+    }
+    return parts.join(' · ');
+}
+
+export function ImportHistory() {
+    const navigate = useNavigate();
+    const { importBatches, rollbackImportBatch } = useExpense();
+    const [pendingBatch, setPendingBatch] = useState<ImportBatch | null>(null);
+
+    return (
+        <div className="min-h-screen bg-gray-50 pb-20">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+                <div className="max-w-lg mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate('/settings')}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <ChevronLeft className="w-6 h-6 text-gray-600" />
+                        </button>
+                        <h1 className="text-xl font-semibold text-gray-900 flex-1">Import History</h1>
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-lg mx-auto px-4 py-6 space-y-3">
+                {importBatches.length === 0 ? (
+                    <div className="text-center py-16">
+                        <History className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                        <p className="text-gray-500 font-medium">Nothing to undo</p>
+                        <p className="text-sm text-gray-400 mt-1">Imports and bulk deletes on this device show up here.</p>
+                    </div>
+                ) : (
+                    importBatches.map((batch) => {
+                        const style = KIND_STYLES[batch.kind];
+                        const Icon = style.icon;
+                        return (
+                            <div key={batch.id} className="bg-white rounded-2xl border border-gray-100 px-4 py-3 flex items-center gap-3">
+                                <div
+                                    className="w-10 h-10 rounded-xl flex items-center justify-center shrink-0"
+                                    style={{ backgroundColor: style.bg }}
+                                >
+                                    <Icon className="w-5 h-5" style={{ color: style.color }} />
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className={`text-sm font-medium truncate ${batch.rolledBackAt ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                                        {batch.label}
+                                    </p>
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {style.label} · {format(batch.createdAt, 'MMM d, h:mm a')}
+                                    </p>
+                                    <p className="text-xs text-gray-400 truncate">
+                                        {batch.rolledBackAt
+                                            ? `Undone ${format(batch.rolledBackAt, 'MMM d, h:mm a')}`
+                                            : describeBatch(batch)}
+                                    </p>
+                                </div>
+                                {!batch.rolledBackAt && (
+                                    <button
+                                        onClick={() => setPendingBatch(batch)}
+                                        className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                                    >
+                                        <Undo2 className="w-4 h-4" />
+                                        Undo
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+
+            <AlertDialog open={!!pendingBatch} onOpenChange={(open) => !open && setPendingBatch(null)}>
+                <AlertDialogContent className="w-[calc(100%-2rem)] max-w-sm rounded-2xl p-6">
+                    <AlertDialogHeader className="text-left space-y-3">
+                        <AlertDialogTitle className="text-xl text-center">Undo this {pendingBatch?.kind === 'bulk-delete' ? 'delete' : 'import'}?</AlertDialogTitle>
+                        <AlertDialogDescription className="text-base text-center">
+                            {pendingBatch?.kind === 'bulk-delete'
+                                ? 'The deleted transactions come back and any ended recurring rules resume.'
+                                : 'Transactions and categories this import created are removed on every synced device.'}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="flex gap-3 mt-8">
+                        <AlertDialogCancel className="w-1/2 flex-1 rounded-xl h-12 m-0 bg-gray-100 hover:bg-gray-200 border-0 font-medium text-gray-900">
+                            Cancel
+                        </AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={() => pendingBatch && rollbackImportBatch(pendingBatch.id)}
+                            className="w-1/2 flex-1 rounded-xl h-12 m-0 bg-black hover:bg-gray-800 font-medium text-white shadow-none"
+                        >
+                            Undo
+                        </AlertDialogAction>
+                    </div>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
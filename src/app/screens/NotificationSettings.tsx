@@ -0,0 +1,271 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router';
+import * as LucideIcons from 'lucide-react';
+import { ChevronLeft, ChevronRight, Inbox } from 'lucide-react';
+import { toast } from 'sonner';
+import { useExpense } from '../context/ExpenseContext';
+import { Switch } from '../components/ui/switch';
+import type { NotificationPreferences } from '../types';
+import {
+    LEAD_DAY_OPTIONS,
+    THRESHOLD_OPTIONS,
+    getNotificationPreferences,
+} from '../utils/notificationRules';
+
+const browserNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+interface ThresholdChipsProps {
+    selected: number[];
+    onChange: (thresholds: number[]) => void;
+    disabled?: boolean;
+}
+
+function ThresholdChips({ selected, onChange, disabled }: ThresholdChipsProps) {
+    const toggle = (value: number) => {
+        const next = selected.includes(value) ? selected.filter(t => t !== value) : [...selected, value];
+        // At least one threshold, otherwise the alert could never fire
+        if (next.length === 0) return;
+        onChange(next.sort((a, b) => a - b));
+    };
+
+    return (
+        <div className={`flex flex-wrap gap-2 ${disabled ? 'opacity-40 pointer-events-none' : ''}`}>
+            {THRESHOLD_OPTIONS.map((value) => (
+                <button
+                    key={value}
+                    type="button"
+                    onClick={() => toggle(value)}
+                    className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${selected.includes(value)
+                        ? 'bg-black text-white border-black'
+                        : 'bg-white text-gray-600 border-gray-200'
+                        }`}
+                >
+                    {value}%
+                </button>
+            ))}
+        </div>
+    );
+}
+
+function ToggleRow({ label, sub, checked, onChange, disabled }: {
+    label: string;
+    sub: string;
+    checked: boolean;
+    onChange: (checked: boolean) => void;
+    disabled?: boolean;
+}) {
+    return (
+        <div className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+                <p className="font-medium text-gray-900">{label}</p>
+                <p className="text-xs text-gray-500 mt-0.5">{sub}</p>
+            </div>
+            <Switch checked={checked} onCheckedChange={onChange} disabled={disabled} />
+        </div>
+    );
+}
+
+export function NotificationSettings() {
+    const navigate = useNavigate();
+    const { settings, updateSettings, categories, budgets, unreadNotificationCount } = useExpense();
+    const [expandedCategoryId, setExpandedCategoryId] = useState<string | null>(null);
+
+    const preferences = getNotificationPreferences(settings);
+    const enabled = settings.notifications;
+
+    const updatePreferences = (updates: Partial<NotificationPreferences>) => {
+        updateSettings({ notificationPreferences: { ...preferences, ...updates } });
+    };
+
+    // Thresholds only matter for categories with a budget
+    const budgetedCategories = useMemo(() => {
+        const ids = new Set(budgets.filter(b => b.scope === 'category').map(b => b.categoryId));
+        return categories.filter(c => ids.has(c.id));
+    }, [budgets, categories]);
+
+    const setCategoryThresholds = (categoryId: string, thresholds: number[] | null) => {
+        const { [categoryId]: _previous, ...rest } = preferences.categoryThresholds;
+        updatePreferences({ categoryThresholds: thresholds ? { ...rest, [categoryId]: thresholds } : rest });
+    };
+
+    const handleBrowserAlerts = async (checked: boolean) => {
+        if (!checked) {
+            updatePreferences({ browserAlerts: false });
+            return;
+        }
+        if (!browserNotificationsSupported()) {
+            toast.error("This browser doesn't support notifications");
+            return;
+        }
+        const permission = Notification.permission === 'default'
+            ? await Notification.requestPermission()
+            : Notification.permission;
+        if (permission !== 'granted') {
+            toast.error('Notifications are blocked for this site in your browser settings');
+            return;
+        }
+        updatePreferences({ browserAlerts: true });
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 pb-20">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+                <div className="max-w-lg mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate('/settings')}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <ChevronLeft className="w-6 h-6 text-gray-600" />
+                        </button>
+                        <h1 className="text-xl font-semibold text-gray-900 flex-1">Notifications & Alerts</h1>
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-lg mx-auto px-4 py-6 space-y-4">
+                {/* Inbox */}
+                <button
+                    onClick={() => navigate('/notifications')}
+                    className="w-full bg-white rounded-2xl p-4 flex items-center gap-4 shadow-sm text-left"
+                >
+                    <div className="w-11 h-11 rounded-2xl bg-blue-50 flex items-center justify-center shrink-0">
+                        <Inbox className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900">Inbox</p>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                            {unreadNotificationCount > 0 ? `${unreadNotificationCount} unread` : 'All caught up'}
+                        </p>
+                    </div>
+                    <ChevronRight className="w-4 h-4 text-gray-300 shrink-0" />
+                </button>
+
+                <div className="bg-white rounded-2xl p-4 shadow-sm">
+                    <ToggleRow
+                        label="Alerts"
+                        sub="Check budgets and recurring charges while the app is open"
+                        checked={enabled}
+                        onChange={(checked) => updateSettings({ notifications: checked })}
+                    />
+                </div>
+
+                {/* Budget thresholds */}
+                <div className={`bg-white rounded-2xl p-4 shadow-sm space-y-4 ${enabled ? '' : 'opacity-60'}`}>
+                    <ToggleRow
+                        label="Budget alerts"
+                        sub="When spending passes a share of a budget"
+                        checked={preferences.budgetAlerts}
+                        onChange={(checked) => updatePreferences({ budgetAlerts: checked })}
+                        disabled={!enabled}
+                    />
+                    <div className="space-y-2">
+                        <p className="text-[11px] font-semibold tracking-[0.12em] uppercase text-gray-500">Default thresholds</p>
+                        <ThresholdChips
+                            selected={preferences.budgetThresholds}
+                            onChange={(thresholds) => updatePreferences({ budgetThresholds: thresholds })}
+                            disabled={!enabled || !preferences.budgetAlerts}
+                        />
+                    </div>
+                </div>
+
+                {/* Per-category thresholds */}
+                {budgetedCategories.length > 0 && (
+                    <div className={`space-y-2 ${enabled && preferences.budgetAlerts ? '' : 'opacity-60 pointer-events-none'}`}>
+                        <h3 className="px-1 text-[10px] font-bold text-gray-400 uppercase tracking-[0.18em]">
+                            Per category
+                        </h3>
+                        <div className="bg-white rounded-2xl shadow-sm overflow-hidden">
+                            {budgetedCategories.map((category, index) => {
+                                const IconComponent = (LucideIcons as any)[category.icon];
+                                const override = preferences.categoryThresholds[category.id];
+                                const isExpanded = expandedCategoryId === category.id;
+
+                                return (
+                                    <div
+                                        key={category.id}
+                                        className={index !== budgetedCategories.length - 1 ? 'border-b border-gray-100' : ''}
+                                    >
+                                        <button
+                                            type="button"
+                                            onClick={() => setExpandedCategoryId(isExpanded ? null : category.id)}
+                                            className="w-full p-4 flex items-center gap-3 text-left"
+                                        >
+                                            <div
+                                                className="w-9 h-9 rounded-xl flex items-center justify-center shrink-0"
+                                                style={{ backgroundColor: `${category.color}20` }}
+                                            >
+                                                {IconComponent && <IconComponent className="w-4 h-4" style={{ color: category.color }} />}
+                                            </div>
+                                            <p className="flex-1 min-w-0 font-medium text-gray-900 truncate">{category.name}</p>
+                                            <span className={`text-xs font-semibold ${override ? 'text-blue-600' : 'text-gray-400'}`}>
+                                                {override ? override.map(t => `${t}%`).join(' · ') : 'Default'}
+                                            </span>
+                                        </button>
+                                        {isExpanded && (
+                                            <div className="px-4 pb-4 space-y-3">
+                                                <ThresholdChips
+                                                    selected={override ?? preferences.budgetThresholds}
+                                                    onChange={(thresholds) => setCategoryThresholds(category.id, thresholds)}
+                                                />
+                                                {override && (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setCategoryThresholds(category.id, null)}
+                                                        className="text-xs font-semibold text-gray-500 hover:text-gray-700"
+                                                    >
+                                                        Use default thresholds
+                                                    </button>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
+                {/* Recurring charges */}
+                <div className={`bg-white rounded-2xl p-4 shadow-sm space-y-4 ${enabled ? '' : 'opacity-60'}`}>
+                    <ToggleRow
+                        label="Upcoming recurring charges"
+                        sub="A heads-up before a recurring expense is due"
+                        checked={preferences.recurringAlerts}
+                        onChange={(checked) => updatePreferences({ recurringAlerts: checked })}
+                        disabled={!enabled}
+                    />
+                    <div className={`flex flex-wrap gap-2 ${enabled && preferences.recurringAlerts ? '' : 'opacity-40 pointer-events-none'}`}>
+                        {LEAD_DAY_OPTIONS.map((days) => (
+                            <button
+                                key={days}
+                                type="button"
+                                onClick={() => updatePreferences({ recurringLeadDays: days })}
+                                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${preferences.recurringLeadDays === days
+                                    ? 'bg-black text-white border-black'
+                                    : 'bg-white text-gray-600 border-gray-200'
+                                    }`}
+                            >
+                                {days === 1 ? '1 day before' : `${days} days before`}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Browser notifications */}
+                <div className={`bg-white rounded-2xl p-4 shadow-sm ${enabled ? '' : 'opacity-60'}`}>
+                    <ToggleRow
+                        label="Browser notifications"
+                        sub={browserNotificationsSupported()
+                            ? 'Also show alerts as system notifications'
+                            : "Not supported in this browser"}
+                        checked={preferences.browserAlerts}
+                        onChange={(checked) => void handleBrowserAlerts(checked)}
+                        disabled={!enabled || !browserNotificationsSupported()}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,132 @@
+import { useNavigate } from 'react-router';
+import { motion, AnimatePresence } from 'motion/react';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, CalendarClock, ChevronLeft, CheckCheck, PieChart, X } from 'lucide-react';
+import { useExpense } from '../context/ExpenseContext';
+import type { AppNotification } from '../types';
+
+const KIND_STYLES: Record<AppNotification['kind'], { icon: typeof Bell; bg: string; color: string }> = {
+    budget: { icon: PieChart, bg: 'bg-amber-50', color: 'text-amber-600' },
+    recurring: { icon: CalendarClock, bg: 'bg-blue-50', color: 'text-blue-600' },
+};
+
+export function Notifications() {
+    const navigate = useNavigate();
+    const {
+        notifications,
+        unreadNotificationCount,
+        markNotificationRead,
+        markAllNotificationsRead,
+        dismissNotification,
+        clearNotifications,
+    } = useExpense();
+
+    const openNotification = (notification: AppNotification) => {
+        markNotificationRead(notification.id);
+        if (notification.link) navigate(notification.link);
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 pb-20">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+                <div className="max-w-lg mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate(-1)}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <ChevronLeft className="w-6 h-6 text-gray-600" />
+                        </button>
+                        <h1 className="text-xl font-semibold text-gray-900 flex-1">Notifications</h1>
+                        {unreadNotificationCount > 0 && (
+                            <button
+                                onClick={markAllNotificationsRead}
+                                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                                title="Mark all as read"
+                            >
+                                <CheckCheck className="w-5 h-5 text-gray-900" />
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-lg mx-auto px-4 py-6 space-y-3">
+                {notifications.length === 0 ? (
+                    <div className="text-center py-12 bg-white rounded-3xl border border-gray-100 shadow-sm">
+                        <div className="w-16 h-16 bg-gray-50 rounded-full flex items-center justify-center mx-auto mb-4">
+                            <Bell className="w-8 h-8 text-gray-300" />
+                        </div>
+                        <p className="text-gray-500 font-medium">No notifications</p>
+                        <p className="text-sm text-gray-400 mt-1 px-6">
+                            Budget thresholds and upcoming recurring charges show up here
+                        </p>
+                        <button
+                            onClick={() => navigate('/settings/notifications')}
+                            className="mt-4 text-sm font-semibold text-blue-600"
+                        >
+                            Alert settings
+                        </button>
+                    </div>
+                ) : (
+                    <>
+                        <AnimatePresence initial={false}>
+                            {notifications.map((notification) => {
+                                const style = KIND_STYLES[notification.kind];
+                                const Icon = style.icon;
+                                const isUnread = !notification.readAt;
+
+                                return (
+                                    <motion.div
+                                        key={notification.id}
+                                        layout
+                                        exit={{ opacity: 0, x: 40 }}
+                                        className={`rounded-2xl p-4 flex items-start gap-3 shadow-sm ${isUnread ? 'bg-white' : 'bg-white/60'}`}
+                                    >
+                                        <button
+                                            type="button"
+                                            onClick={() => openNotification(notification)}
+                                            className="flex-1 min-w-0 flex items-start gap-3 text-left"
+                                        >
+                                            <div className={`w-10 h-10 rounded-xl flex items-center justify-center shrink-0 ${style.bg}`}>
+                                                <Icon className={`w-5 h-5 ${style.color}`} />
+                                            </div>
+                                            <div className="min-w-0">
+                                                <div className="flex items-center gap-2">
+                                                    {isUnread && <span className="w-2 h-2 rounded-full bg-blue-600 shrink-0" />}
+                                                    <p className={`text-sm truncate ${isUnread ? 'font-semibold text-gray-900' : 'font-medium text-gray-600'}`}>
+                                                        {notification.title}
+                                                    </p>
+                                                </div>
+                                                <p className="text-xs text-gray-500 mt-0.5">{notification.body}</p>
+                                                <p className="text-[11px] text-gray-400 mt-1">
+                                                    {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+                                                </p>
+                                            </div>
+                                        </button>
+                                        <button
+                                            onClick={() => dismissNotification(notification.id)}
+                                            className="p-1.5 text-gray-300 hover:text-gray-500 transition-colors"
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </motion.div>
+                                );
+                            })}
+                        </AnimatePresence>
+
+                        <div className="pt-2 flex justify-center">
+                            <button
+                                onClick={clearNotifications}
+                                className="text-[13px] text-gray-500 hover:text-gray-700 font-medium transition-colors"
+                            >
+                                Clear all
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { ChevronLeft, Receipt as ReceiptIcon } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useExpense } from '../context/ExpenseContext';
+import { ReceiptThumbnail } from '../components/receipt/ReceiptThumbnail';
+import { ReceiptGallery, ReceiptGalleryItem } from '../components/receipt/ReceiptGallery';
+import { formatSignedAmount } from '../utils/cashFlow';
+
+interface ReceiptMonth {
+    key: string;
+    label: string;
+    items: (ReceiptGalleryItem & { amount: string; date: string })[];
+}
+
+export function Receipts() {
+    const navigate = useNavigate();
+    const { transactions, homeCurrency } = useExpense();
+    const [galleryItems, setGalleryItems] = useState<ReceiptGalleryItem[]>([]);
+    const [galleryIndex, setGalleryIndex] = useState<number | null>(null);
+
+    const months = useMemo(() => {
+        // Recurring occurrences share their rule's attachments, so each file is listed once
+        const seen = new Set<string>();
+        const byMonth = new Map<string, ReceiptMonth>();
+        const sorted = transactions
+            .filter(t => !t.isVirtual && t.attachments && t.attachments.length > 0)
+            .sort((a, b) => b.date.localeCompare(a.date));
+
+        for (const t of sorted) {
+            const key = t.date.slice(0, 7);
+            let month = byMonth.get(key);
+            if (!month) {
+                month = { key, label: format(parseISO(t.date), 'MMMM yyyy'), items: [] };
+                byMonth.set(key, month);
+            }
+            for (const attachment of t.attachments!) {
+                if (seen.has(attachment.id)) continue;
+                seen.add(attachment.id);
+                month.items.push({
+                    attachment,
+                    caption: t.vendor,
+                    transactionId: t.id,
+                    amount: formatSignedAmount(t, homeCurrency),
+                    date: t.date,
+                });
+            }
+        }
+        return Array.from(byMonth.values());
+    }, [transactions, homeCurrency]);
+
+    const totalCount = months.reduce((sum, month) => sum + month.items.length, 0);
+
+    return (
+        <div className="min-h-screen bg-gray-50 pb-20">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+                <div className="max-w-lg mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate('/settings')}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <ChevronLeft className="w-6 h-6 text-gray-600" />
+                        </button>
+                        <h1 className="text-xl font-semibold text-gray-900 flex-1">Receipts</h1>
+                        {totalCount > 0 && <span className="text-sm text-gray-400">{totalCount}</span>}
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-lg mx-auto px-4 py-6 space-y-6">
+                {months.length === 0 ? (
+                    <div className="text-center py-16">
+                        <ReceiptIcon className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                        <p className="text-gray-500 font-medium">No receipts yet</p>
+                        <p className="text-sm text-gray-400 mt-1">Photos and PDFs attached to transactions show up here.</p>
+                    </div>
+                ) : (
+                    months.map((month) => (
+                        <section key={month.key}>
+                            <h3 className="font-bold text-gray-400 text-xs uppercase tracking-widest mb-3 px-1">
+                                {month.label}
+                            </h3>
+                            <div className="grid grid-cols-3 gap-3">
+                                {month.items.map((item, index) => (
+                                    <button
+                                        key={item.attachment.id}
+                                        onClick={() => {
+                                            setGalleryItems(month.items);
+                                            setGalleryIndex(index);
+                                        }}
+                                        className="text-left"
+                                    >
+                                        <ReceiptThumbnail attachment={item.attachment} className="w-full aspect-[3/4] rounded-2xl shadow-sm" />
+                                        <p className="mt-1.5 text-xs font-semibold text-gray-900 truncate">{item.caption}</p>
+                                        <p className="text-[11px] text-gray-400 tabular-nums truncate">
+                                            {format(parseISO(item.date), 'MMM d')} · {item.amount}
+                                        </p>
+                                    </button>
+                                ))}
+                            </div>
+                        </section>
+                    ))
+                )}
+            </div>
+
+            <ReceiptGallery
+                items={galleryItems}
+                startIndex={galleryIndex}
+                onClose={() => setGalleryIndex(null)}
+                onOpenTransaction={(transactionId) => navigate(`/transaction/${transactionId}`)}
+            />
+        </div>
+    );
+}
@@ -13,6 +13,7 @@ import { CustomDateSheet } from '../components/reports/CustomDateSheet';
 import { MonthNavigator } from '../components/reports/MonthNavigator';
 import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, subMonths, isWithinInterval, parseISO, format } from 'date-fns';
 import * as Switch from '@radix-ui/react-switch';
+import { getSpendAmount, isSpendingTransaction } from '../utils/cashFlow';
 
 export function Reports() {
     const { filteredTransactions, categories, includeRecurring, setIncludeRecurring } = useExpense();
@@ -51,7 +52,7 @@ export function Reports() {
 
             if (inRange) {
                 if (!includeRecurring && t.isRecurring) {
-                    hiddenRec += t.amount;
+                    hiddenRec += getSpendAmount(t);
                     return false;
                 }
                 return true;
@@ -62,6 +63,16 @@ export function Reports() {
         return { periodTransactions: filtered, hiddenRecurringAmount: hiddenRec };
     }, [filteredTransactions, dateRange, includeRecurring]);
 
+    // Category, vendor and comparison widgets only make sense for money going out
+    const spendingTransactions = useMemo(
+        () => periodTransactions.filter(isSpendingTransaction),
+        [periodTransactions]
+    );
+    const allSpendingTransactions = useMemo(
+        () => filteredTransactions.filter(isSpendingTransaction),
+        [filteredTransactions]
+    );
+
     const handlePeriodChange = (period: TimePeriod) => {
         if (period === 'Custom') {
             setIsCustomSheetOpen(true);
@@ -147,27 +158,27 @@ export function Reports() {
 
                         <div className="xl:col-span-5">
                             <CategoryBreakdown
-                                transactions={periodTransactions}
+                                transactions={spendingTransactions}
                                 categories={categories}
                             />
                         </div>
 
                         <div className="xl:col-span-6">
                             <RecurringVsVariable
-                                transactions={periodTransactions}
+                                transactions={spendingTransactions}
                             />
                         </div>
 
                         <div className="xl:col-span-6">
                             <TopVendors
-                                transactions={periodTransactions}
+                                transactions={spendingTransactions}
                                 categories={categories}
                             />
                         </div>
 
                         <div className="xl:col-span-12">
                             <ComparisonChart
-                                transactions={filteredTransactions} // Pass ALL active transactions so it can compute 'previous' period
+                                transactions={allSpendingTransactions} // Pass ALL active transactions so it can compute 'previous' period
                                 categories={categories}
                                 dateRange={dateRange}
                                 timePeriod={timePeriod}
@@ -1,7 +1,7 @@
 import { useNavigate } from 'react-router';
 import { ChevronRight, RefreshCw, Unplug, AlertCircle } from 'lucide-react';
 import { useExpense } from '../context/ExpenseContext';
-import { format } from 'date-fns';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
 import { Switch } from '../components/ui/switch';
 import {
   AlertDialog,
@@ -20,10 +20,42 @@ import { useAuth } from '../context/AuthContext';
 import { AuthModal } from '../components/AuthModal';
 import { useState, useMemo, useRef } from 'react';
 import { CurrencySheet, CURRENCIES } from '../components/settings/CurrencySheet';
+import { DEFAULT_CURRENCY } from '../utils/currency';
 import { ExportSheet } from '../components/settings/ExportSheet';
 import { AccountSheet } from '../components/settings/AccountSheet';
 import { SpreadsheetImportSheet } from '../components/settings/SpreadsheetImportSheet';
-import { downloadSpreadsheetTemplate, parseSpreadsheetFile, SpreadsheetImportSummary, SpreadsheetImportValidationError } from '../utils/spreadsheetImport';
+import { StatementImportSheet } from '../components/settings/StatementImportSheet';
+import { getTransactionDirection } from '../utils/cashFlow';
+import {
+  downloadSpreadsheetExport,
+  downloadSpreadsheetTemplate,
+  hasTemplateHeaders,
+  ParsedSpreadsheetImport,
+  parseSpreadsheetFile,
+  readCsvTable,
+  SpreadsheetImportSummary,
+  SpreadsheetImportValidationError,
+} from '../utils/spreadsheetImport';
+import { CsvTable } from '../utils/csvMapping';
+import { CsvMappingSheet } from '../components/settings/CsvMappingSheet';
+import { SpreadsheetImportReviewSheet } from '../components/settings/SpreadsheetImportReviewSheet';
+import { CsvImportProfile } from '../types';
+import { ParsedStatementImport, parseStatementFile, StatementImportOptions } from '../utils/statementImport';
+import {
+  describeExportScope,
+  downloadBlob,
+  ExportScope,
+  getExportFileSuffix,
+  getTransactionsInPeriod,
+  selectExportTransactions,
+} from '../utils/dataExport';
+import { buildMonthlyStatementPdf } from '../utils/monthlyStatementPdf';
+import { BackupRestoreMode, BackupValidationError, ParsedBackup, parseBackup } from '../utils/backup';
+import { BackupRestoreSheet } from '../components/settings/BackupRestoreSheet';
+import { decryptBackup, isEncryptedBackup } from '../utils/backupCrypto';
+import { getTransactionCategoryIds } from '../utils/splits';
+import { CustomDateSheet } from '../components/reports/CustomDateSheet';
+import { countSyncProblems } from '../../lib/syncReport';
 
 // ─── Reusable Row Component ───────────────────────────────────────────────────
 interface SettingsRowProps {
@@ -115,23 +147,46 @@ export function Settings() {
   const [calendarExpanded, setCalendarExpanded] = useState(false);
   const [currencySheetOpen, setCurrencySheetOpen] = useState(false);
   const [exportSheetOpen, setExportSheetOpen] = useState(false);
+  const [exportScope, setExportScope] = useState<ExportScope>({ kind: 'all' });
+  const [exportRangeOpen, setExportRangeOpen] = useState(false);
   const [accountSheetOpen, setAccountSheetOpen] = useState(false);
   const [spreadsheetImportOpen, setSpreadsheetImportOpen] = useState(false);
   const [isImportingSpreadsheet, setIsImportingSpreadsheet] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
   const [importStatusText, setImportStatusText] = useState('Preparing import');
   const [importSummary, setImportSummary] = useState<SpreadsheetImportSummary | null>(null);
+  const [csvMapping, setCsvMapping] = useState<{ fileName: string; table: CsvTable } | null>(null);
+  const [csvMappingOpen, setCsvMappingOpen] = useState(false);
+  const [importReviewData, setImportReviewData] = useState<ParsedSpreadsheetImport | null>(null);
+  const [importReviewOpen, setImportReviewOpen] = useState(false);
+  const [statementImportOpen, setStatementImportOpen] = useState(false);
+  const [statementPreview, setStatementPreview] = useState<ParsedStatementImport | null>(null);
+  const [isImportingStatement, setIsImportingStatement] = useState(false);
+  const [backupRestore, setBackupRestore] = useState<{ fileName: string; backup: ParsedBackup | null; encryptedJson?: string } | null>(null);
+  const [backupRestoreOpen, setBackupRestoreOpen] = useState(false);
   const jsonInputRef = useRef<HTMLInputElement>(null);
   const {
     settings,
     updateSettings,
     transactions,
     categories,
+    accounts,
+    budgets,
+    filteredTransactions,
+    selectedCategoryIds,
+    selectedAccountIds,
+    includeRecurring,
+    exchangeRates,
+    missingRateCurrencies,
     exportBackup,
-    importBackup,
+    restoreBackup,
+    reviewSpreadsheetImport,
     importSpreadsheet,
+    importStatement,
     clearAllData,
     buildCalendarPayload,
+    unreadNotificationCount,
+    syncConflicts,
   } = useExpense();
 
   // Count active recurring expenses
@@ -140,14 +195,19 @@ export function Settings() {
   }, [transactions]);
 
   // Currency display
-  const selectedCurrency = settings.currency || 'CAD';
+  const selectedCurrency = settings.currency || DEFAULT_CURRENCY;
   const currencyInfo = CURRENCIES.find(c => c.code === selectedCurrency);
   const currencyDisplay = currencyInfo ? `${currencyInfo.code} · ${currencyInfo.name}` : selectedCurrency;
 
   // Notifications display
-  const notifStatus = settings.notifications ? 'Daily reminders · On' : 'All notifications off';
+  const notifStatus = !settings.notifications
+    ? 'All notifications off'
+    : unreadNotificationCount > 0
+      ? `${unreadNotificationCount} unread · Budget & bill alerts on`
+      : 'Budget & bill alerts on';
 
   // Sync status display
+  const syncProblemCount = countSyncProblems(settings);
   const lastSyncDisplay = settings.lastPullAt
     ? format(new Date(settings.lastPullAt), 'MMM d, h:mm a')
     : 'Never';
@@ -157,38 +217,50 @@ export function Settings() {
   const userName = user?.user_metadata?.full_name || userEmail.split('@')[0] || '';
   const userInitial = (userName[0] || '?').toUpperCase();
 
+  // Summary of the Home filter, offered as an export scope while one is active
+  const exportFilterLabel = useMemo(() => {
+    if (selectedCategoryIds.length === 0 && selectedAccountIds.length === 0) return undefined;
+    const names = [
+      ...categories.filter(c => selectedCategoryIds.includes(c.id)).map(c => c.name),
+      ...accounts.filter(a => selectedAccountIds.includes(a.id)).map(a => a.name),
+    ];
+    return `${names.join(', ')}${includeRecurring ? '' : ' · Recurring hidden'}`;
+  }, [categories, accounts, selectedCategoryIds, selectedAccountIds, includeRecurring]);
+
+  // An export scoped to a filter that has since been cleared falls back to everything
+  const activeExportScope: ExportScope = exportScope.kind === 'filter' && !exportFilterLabel ? { kind: 'all' } : exportScope;
+
   // CSV export
   const exportCSV = () => {
     try {
-      const activeTransactions = transactions.filter(t => !t.deletedAt && !t.isVirtual);
+      const activeTransactions = selectExportTransactions(activeExportScope, transactions, filteredTransactions);
       if (activeTransactions.length === 0) {
         toast.error('No expenses to export');
         return;
       }
 
-      const headers = ['Date', 'Vendor', 'Amount', 'Category', 'Note', 'Recurring'];
+      const headers = ['Date', 'Vendor', 'Amount', 'Currency', 'Type', 'Category', 'Account', 'Note', 'Recurring'];
       const rows = activeTransactions.map(t => {
         const cat = categories.find(c => c.id === t.category);
+        const account = accounts.find(a => a.id === t.accountId);
         return [
           t.date,
           `"${t.vendor.replace(/"/g, '""')}"`,
           t.amount.toFixed(2),
+          t.currency || selectedCurrency,
+          getTransactionDirection(t),
           `"${(cat?.name || t.category).replace(/"/g, '""')}"`,
+          `"${(account?.name || '').replace(/"/g, '""')}"`,
           `"${(t.note || '').replace(/"/g, '""')}"`,
           t.isRecurring ? 'Yes' : 'No',
         ].join(',');
       });
 
       const csv = [headers.join(','), ...rows].join('\n');
-      const blob = new Blob([csv], { type: 'text/csv' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `calendarspent-${format(new Date(), 'yyyy-MM-dd')}.csv`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadBlob(
+        new Blob([csv], { type: 'text/csv' }),
+        `calendarspent-${format(new Date(), 'yyyy-MM-dd')}${getExportFileSuffix(activeExportScope)}.csv`,
+      );
       toast.success('CSV exported successfully');
     } catch (error) {
       console.error('CSV export failed:', error);
@@ -196,10 +268,81 @@ export function Settings() {
     }
   };
 
+  const exportXLSX = async () => {
+    try {
+      const exported = selectExportTransactions(activeExportScope, transactions, filteredTransactions);
+      if (exported.length === 0) {
+        toast.error('No expenses to export');
+        return;
+      }
+
+      // A full export carries every category; a scoped one only those its rows use
+      const usedCategoryIds = new Set(exported.flatMap(t => getTransactionCategoryIds(t)));
+      const activeCategories = categories.filter(c => !c.deletedAt);
+      await downloadSpreadsheetExport(
+        {
+          transactions: exported,
+          categories: activeExportScope.kind === 'all'
+            ? activeCategories
+            : activeCategories.filter(c => usedCategoryIds.has(c.id)),
+          homeCurrency: selectedCurrency,
+        },
+        `calendarspent-${format(new Date(), 'yyyy-MM-dd')}${getExportFileSuffix(activeExportScope)}.xlsx`,
+      );
+      toast.success('Excel workbook exported');
+    } catch (error) {
+      console.error('Excel export failed:', error);
+      toast.error('Failed to export Excel workbook');
+    }
+  };
+
+  const exportStatementPDF = (month: Date) => {
+    try {
+      const period = activeExportScope.kind === 'range'
+        ? { start: activeExportScope.start, end: activeExportScope.end }
+        : { start: startOfMonth(month), end: endOfMonth(month) };
+      const source = activeExportScope.kind === 'filter' ? filteredTransactions : transactions;
+      const blob = buildMonthlyStatementPdf({
+        period,
+        title: activeExportScope.kind === 'range' ? describeExportScope(activeExportScope) : format(month, 'MMMM yyyy'),
+        scopeLabel: activeExportScope.kind === 'filter' ? exportFilterLabel : undefined,
+        transactions: getTransactionsInPeriod(source, period.start, period.end),
+        budgetTransactions: transactions.filter(t => !t.isSkipped),
+        categories,
+        budgets,
+        homeCurrency: selectedCurrency,
+      });
+      const fileSuffix = activeExportScope.kind === 'range'
+        ? getExportFileSuffix(activeExportScope)
+        : `-${format(month, 'yyyy-MM')}${getExportFileSuffix(activeExportScope)}`;
+      downloadBlob(blob, `calendarspent-statement${fileSuffix}.pdf`);
+      toast.success('Statement exported');
+    } catch (error) {
+      console.error('Statement export failed:', error);
+      toast.error('Failed to export statement');
+    }
+  };
+
   const handleJSONImport = async (file: File) => {
     try {
       const content = await file.text();
-      await importBackup(content);
+      // Encrypted files are validated once the passphrase prompt decrypts them
+      if (isEncryptedBackup(content)) {
+        setBackupRestore({ fileName: file.name, backup: null, encryptedJson: content });
+        setBackupRestoreOpen(true);
+        return;
+      }
+
+      const backup = await parseBackup(content);
+      setBackupRestore({ fileName: file.name, backup });
+      setBackupRestoreOpen(true);
+    } catch (error) {
+      console.error('Backup import failed:', error);
+      if (error instanceof BackupValidationError) {
+        toast.error(error.message, { duration: 6000 });
+      } else {
+        toast.error('Failed to read backup file.');
+      }
     } finally {
       if (jsonInputRef.current) {
         jsonInputRef.current.value = '';
@@ -207,6 +350,20 @@ export function Settings() {
     }
   };
 
+  // Errors are shown under the passphrase field, so they're rethrown rather than toasted
+  const handleUnlockBackup = async (passphrase: string) => {
+    if (!backupRestore?.encryptedJson) return;
+    const backup = await parseBackup(await decryptBackup(backupRestore.encryptedJson, passphrase));
+    setBackupRestore({ fileName: backupRestore.fileName, backup });
+  };
+
+  const handleRestoreBackup = async (mode: BackupRestoreMode) => {
+    if (!backupRestore?.backup) return;
+    await restoreBackup(backupRestore.backup.data, mode);
+    setBackupRestoreOpen(false);
+    setBackupRestore(null);
+  };
+
   const handleDownloadTemplate = async () => {
     try {
       await downloadSpreadsheetTemplate();
@@ -219,22 +376,26 @@ export function Settings() {
 
   const handleSpreadsheetImport = async (file: File) => {
     setImportSummary(null);
-    setIsImportingSpreadsheet(true);
-    setImportProgress(10);
-    setImportStatusText('Validating spreadsheet');
-
-    try {
-      const parsed = await parseSpreadsheetFile(file);
-      setImportProgress(25);
-      setImportStatusText('Preparing records');
 
-      const summary = await importSpreadsheet(parsed, (message, percent) => {
-        setImportStatusText(message);
-        setImportProgress(percent);
-      });
+    // Bank exports that don't follow the template go through column mapping instead
+    if (file.name.toLowerCase().endsWith('.csv')) {
+      try {
+        const table = await readCsvTable(file);
+        if (!hasTemplateHeaders(table.headers)) {
+          setCsvMapping({ fileName: file.name, table });
+          setSpreadsheetImportOpen(false);
+          setCsvMappingOpen(true);
+          return;
+        }
+      } catch (error) {
+        console.error('CSV read failed:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to read CSV');
+        return;
+      }
+    }
 
-      setImportSummary(summary);
-      toast.success(`Imported ${summary.expenses} expenses, ${summary.categories} categories, ${summary.recurring} recurring items`);
+    try {
+      openImportReview(await parseSpreadsheetFile(file));
     } catch (error) {
       console.error('Spreadsheet import failed:', error);
       if (error instanceof SpreadsheetImportValidationError) {
@@ -244,12 +405,82 @@ export function Settings() {
       } else {
         toast.error('Failed to import spreadsheet');
       }
+    }
+  };
+
+  const openImportReview = (parsed: ParsedSpreadsheetImport) => {
+    setImportReviewData(parsed);
+    setSpreadsheetImportOpen(false);
+    setCsvMappingOpen(false);
+    setImportReviewOpen(true);
+  };
+
+  const handleConfirmImport = async (parsed: ParsedSpreadsheetImport, forceImportRows: number[]) => {
+    setImportReviewOpen(false);
+    setSpreadsheetImportOpen(true);
+    setIsImportingSpreadsheet(true);
+    setImportProgress(25);
+    setImportStatusText('Preparing records');
+
+    try {
+      const summary = await importSpreadsheet(parsed, (message, percent) => {
+        setImportStatusText(message);
+        setImportProgress(percent);
+      }, forceImportRows);
+
+      setImportSummary(summary);
+      setImportReviewData(null);
+      toast.success(`Imported ${summary.expenses} expenses, ${summary.categories} categories, ${summary.recurring} recurring items`);
+    } catch (error) {
+      console.error('Spreadsheet import failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import spreadsheet');
     } finally {
       setIsImportingSpreadsheet(false);
       setImportProgress(0);
     }
   };
 
+  const csvImportProfiles = settings.csvImportProfiles ?? [];
+  const saveCsvImportProfile = (profile: CsvImportProfile) => {
+    updateSettings({
+      csvImportProfiles: [...csvImportProfiles.filter((existing) => existing.id !== profile.id), profile],
+    });
+  };
+
+  const handleStatementFile = async (file: File) => {
+    setImportSummary(null);
+    try {
+      setStatementPreview(await parseStatementFile(file));
+    } catch (error) {
+      console.error('Statement parse failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read statement');
+    }
+  };
+
+  const handleStatementImport = async (options: StatementImportOptions) => {
+    if (!statementPreview) return;
+    setIsImportingStatement(true);
+    setImportProgress(10);
+    setImportStatusText('Preparing records');
+
+    try {
+      const summary = await importStatement(statementPreview, options, (message, percent) => {
+        setImportStatusText(message);
+        setImportProgress(percent);
+      });
+
+      setImportSummary(summary);
+      setStatementPreview(null);
+      toast.success(`Imported ${summary.expenses} transaction${summary.expenses === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Statement import failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import statement');
+    } finally {
+      setIsImportingStatement(false);
+      setImportProgress(0);
+    }
+  };
+
   return (
     <div className="app-screen-with-nav h-[100dvh] flex flex-col bg-gray-50 overflow-hidden">
       {/* Header */}
@@ -325,6 +556,14 @@ export function Settings() {
                 sub="Manage and auto-assign categories"
                 onClick={() => navigate('/categories')}
               />
+              <SettingsRow
+                icon="🏦"
+                iconBg="#DBEAFE"
+                label="Accounts"
+                sub="Cash, bank & card balances"
+                badge={accounts.length > 0 ? accounts.length : undefined}
+                onClick={() => navigate('/settings/accounts')}
+              />
               <SettingsRow
                 icon="🔁"
                 iconBg="#FEF3C7"
@@ -337,7 +576,7 @@ export function Settings() {
                 icon="🎯"
                 iconBg="#D1FAE5"
                 label="Budget Settings"
-                sub="Set monthly limits per category"
+                sub="Set limits per category, group or on all spending"
                 onClick={() => navigate('/settings/budgets')}
               />
               <SettingsRow
@@ -346,6 +585,23 @@ export function Settings() {
                 label="Currency"
                 sub={currencyDisplay}
                 onClick={() => setCurrencySheetOpen(true)}
+              />
+              <SettingsRow
+                icon="🔄"
+                iconBg="#E0F2FE"
+                label="Exchange Rates"
+                sub={missingRateCurrencies.length > 0
+                  ? `Missing rates for ${missingRateCurrencies.join(', ')}`
+                  : exchangeRates.length > 0 ? `${exchangeRates.length} rate${exchangeRates.length === 1 ? '' : 's'} on file` : 'Convert foreign purchases'}
+                subClassName={missingRateCurrencies.length > 0 ? '!text-amber-600' : undefined}
+                onClick={() => navigate('/settings/exchange-rates')}
+              />
+              <SettingsRow
+                icon="🧾"
+                iconBg="#FEF9C3"
+                label="Receipts"
+                sub="All attachments by month"
+                onClick={() => navigate('/settings/receipts')}
                 isLast
               />
             </SectionCard>
@@ -559,7 +815,7 @@ export function Settings() {
                   <>
                     Use this option to restore a backup exported from CalendarSpent.
                     <br />
-                    This file must match the app&apos;s internal backup structure.
+                    The file is checked first; then merge it or replace your data.
                   </>
                 }
                 subClassName="mt-1 leading-5 pr-4"
@@ -582,6 +838,51 @@ export function Settings() {
                   setImportSummary(null);
                   setSpreadsheetImportOpen(true);
                 }}
+              />
+              <SettingsRow
+                icon="🏦"
+                iconBg="#E0F2FE"
+                label="Import Bank Statement"
+                sub="OFX, QFX, CAMT.053 or MT940 from your bank"
+                onClick={() => {
+                  setImportSummary(null);
+                  setStatementPreview(null);
+                  setStatementImportOpen(true);
+                }}
+              />
+              {supabaseConfigured && user && (
+                <SettingsRow
+                  icon="🔀"
+                  iconBg="#FEF3C7"
+                  label="Sync Conflicts"
+                  sub="Choose between edits made on two devices"
+                  badge={syncConflicts.length > 0 ? syncConflicts.length : undefined}
+                  onClick={() => navigate('/settings/conflicts')}
+                />
+              )}
+              {supabaseConfigured && user && (
+                <SettingsRow
+                  icon="📡"
+                  iconBg="#E0F2FE"
+                  label="Sync Status"
+                  sub="Per-collection sync state, recent runs and retries"
+                  badge={syncProblemCount > 0 ? syncProblemCount : undefined}
+                  onClick={() => navigate('/settings/sync')}
+                />
+              )}
+              <SettingsRow
+                icon="🕘"
+                iconBg="#F3F4F6"
+                label="Import History"
+                sub="Undo imports and bulk deletes"
+                onClick={() => navigate('/settings/history')}
+              />
+              <SettingsRow
+                icon="🛟"
+                iconBg="#E0F2FE"
+                label="Snapshots"
+                sub="Restore or compare earlier copies of your data"
+                onClick={() => navigate('/settings/snapshots')}
                 isLast
               />
             </SectionCard>
@@ -664,8 +965,36 @@ export function Settings() {
       <ExportSheet
         open={exportSheetOpen}
         onOpenChange={setExportSheetOpen}
+        scope={activeExportScope}
+        onScopeChange={setExportScope}
+        onPickRange={() => {
+          // The date sheet can't be used while the export drawer holds focus
+          setExportSheetOpen(false);
+          setExportRangeOpen(true);
+        }}
+        filterLabel={exportFilterLabel}
         onExportJSON={exportBackup}
         onExportCSV={exportCSV}
+        onExportXLSX={exportXLSX}
+        onExportPDF={exportStatementPDF}
+      />
+      <BackupRestoreSheet
+        open={backupRestoreOpen}
+        onOpenChange={setBackupRestoreOpen}
+        fileName={backupRestore?.fileName ?? ''}
+        backup={backupRestore?.backup ?? null}
+        onUnlock={handleUnlockBackup}
+        onRestore={handleRestoreBackup}
+      />
+      <CustomDateSheet
+        isOpen={exportRangeOpen}
+        onClose={() => {
+          setExportRangeOpen(false);
+          setExportSheetOpen(true);
+        }}
+        onApply={(start, end) => setExportScope({ kind: 'range', start, end })}
+        initialStart={activeExportScope.kind === 'range' ? activeExportScope.start : undefined}
+        initialEnd={activeExportScope.kind === 'range' ? activeExportScope.end : undefined}
       />
       <SpreadsheetImportSheet
         open={spreadsheetImportOpen}
@@ -677,6 +1006,41 @@ export function Settings() {
         statusText={importStatusText}
         summary={importSummary}
       />
+      <CsvMappingSheet
+        open={csvMappingOpen}
+        onOpenChange={setCsvMappingOpen}
+        fileName={csvMapping?.fileName ?? ''}
+        table={csvMapping?.table ?? null}
+        profiles={csvImportProfiles}
+        onSaveProfile={saveCsvImportProfile}
+        onDeleteProfile={(id) => updateSettings({
+          csvImportProfiles: csvImportProfiles.filter((profile) => profile.id !== id),
+        })}
+        onContinue={openImportReview}
+      />
+      <SpreadsheetImportReviewSheet
+        open={importReviewOpen}
+        onOpenChange={setImportReviewOpen}
+        data={importReviewData}
+        categories={categories}
+        homeCurrency={selectedCurrency}
+        review={reviewSpreadsheetImport}
+        onConfirm={handleConfirmImport}
+      />
+      <StatementImportSheet
+        open={statementImportOpen}
+        onOpenChange={setStatementImportOpen}
+        onSelectFile={handleStatementFile}
+        onImport={handleStatementImport}
+        onClearPreview={() => setStatementPreview(null)}
+        preview={statementPreview}
+        accounts={accounts.filter((account) => !account.deletedAt)}
+        homeCurrency={selectedCurrency}
+        isImporting={isImportingStatement}
+        progress={importProgress}
+        statusText={importStatusText}
+        summary={importSummary}
+      />
     </div>
   );
 }
@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { Drawer } from 'vaul';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { CalendarClock, ChevronLeft, Download, Eraser, GitCompare, History, Plus, RefreshCw, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { useExpense } from '../context/ExpenseContext';
+import { SNAPSHOT_STORE_LABELS, SnapshotReason, SnapshotStoreDiff, SnapshotSummary } from '../utils/snapshots';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '../components/ui/alert-dialog';
+
+const REASON_STYLES: Record<SnapshotReason, { icon: typeof Save; label: string; color: string; bg: string }> = {
+    daily: { icon: CalendarClock, label: 'Daily', color: '#4B5563', bg: '#F3F4F6' },
+    import: { icon: Download, label: 'Before import', color: '#16A34A', bg: '#F0FDF4' },
+    sync: { icon: RefreshCw, label: 'Before sync', color: '#0284C7', bg: '#E0F2FE' },
+    clear: { icon: Eraser, label: 'Before clearing data', color: '#DC2626', bg: '#FEE2E2' },
+    restore: { icon: RotateCcw, label: 'Before restore', color: '#7C3AED', bg: '#F3E8FF' },
+    manual: { icon: Save, label: 'Saved by you', color: '#D97706', bg: '#FEF3C7' },
+};
+
+const MAX_DIFF_ITEMS = 5; // Per list in the compare sheet; the rest are summed up
+
+function describeCounts(snapshot: SnapshotSummary) {
+    const { transactions, categories, accounts, budgets } = snapshot.counts;
+    return [
+        `${transactions} transaction${transactions === 1 ? '' : 's'}`,
+        `${categories} categor${categories === 1 ? 'y' : 'ies'}`,
+        `${accounts} account${accounts === 1 ? '' : 's'}`,
+        `${budgets} budget${budgets === 1 ? '' : 's'}`,
+    ].join(' · ');
+}
+
+function DiffList({ title, items, className }: { title: string; items: string[]; className: string }) {
+    if (items.length === 0) return null;
+    return (
+        <div>
+            <p className={`text-xs font-medium ${className}`}>{title} ({items.length})</p>
+            <ul className="mt-1 space-y-0.5">
+                {items.slice(0, MAX_DIFF_ITEMS).map((item, index) => (
+                    <li key={`${item}-${index}`} className="text-xs text-gray-600 truncate">{item}</li>
+                ))}
+                {items.length > MAX_DIFF_ITEMS && (
+                    <li className="text-xs text-gray-400">and {items.length - MAX_DIFF_ITEMS} more</li>
+                )}
+            </ul>
+        </div>
+    );
+}
+
+export function Snapshots() {
+    const navigate = useNavigate();
+    const { getSnapshots, createSnapshot, restoreFromSnapshot, compareSnapshot, removeSnapshot, isHydrated } = useExpense();
+    const [snapshots, setSnapshots] = useState<SnapshotSummary[] | null>(null);
+    const [pendingRestore, setPendingRestore] = useState<SnapshotSummary | null>(null);
+    const [comparing, setComparing] = useState<SnapshotSummary | null>(null);
+    const [diff, setDiff] = useState<SnapshotStoreDiff[] | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const refresh = async () => {
+        setSnapshots(await getSnapshots());
+    };
+
+    // Storage is re-read after a restore, so list again once it has loaded
+    useEffect(() => {
+        if (isHydrated) void refresh();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isHydrated]);
+
+    const handleCreate = async () => {
+        setIsWorking(true);
+        try {
+            const snapshot = await createSnapshot();
+            if (snapshot) {
+                toast.success('Snapshot saved');
+            } else {
+                toast.info('There is nothing to snapshot yet');
+            }
+            await refresh();
+        } catch (error) {
+            console.error('Snapshot failed:', error);
+            toast.error('Could not save a snapshot');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleRestore = async (snapshot: SnapshotSummary) => {
+        setIsWorking(true);
+        try {
+            await restoreFromSnapshot(snapshot.id);
+            toast.success(`Restored data from ${format(snapshot.createdAt, 'MMM d, h:mm a')}`);
+            await refresh();
+        } catch (error) {
+            console.error('Snapshot restore failed:', error);
+            toast.error(error instanceof Error ? error.message : 'Could not restore this snapshot');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleCompare = async (snapshot: SnapshotSummary) => {
+        setComparing(snapshot);
+        setDiff(null);
+        try {
+            setDiff(await compareSnapshot(snapshot.id));
+        } catch (error) {
+            console.error('Snapshot compare failed:', error);
+            toast.error(error instanceof Error ? error.message : 'Could not compare this snapshot');
+            setComparing(null);
+        }
+    };
+
+    const handleDelete = async (snapshot: SnapshotSummary) => {
+        await removeSnapshot(snapshot.id);
+        await refresh();
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 pb-20">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+                <div className="max-w-lg mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate('/settings')}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <ChevronLeft className="w-6 h-6 text-gray-600" />
+                        </button>
+                        <h1 className="text-xl font-semibold text-gray-900 flex-1">Snapshots</h1>
+                        <button
+                            onClick={handleCreate}
+                            disabled={isWorking}
+                            aria-label="Take a snapshot now"
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-40"
+                        >
+                            <Plus className="w-6 h-6 text-gray-600" />
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-lg mx-auto px-4 py-6 space-y-3">
+                <p className="text-sm text-gray-500 px-1">
+                    Copies of your data on this device, taken every day and before imports, syncs and clearing data.
+                    Receipt files aren't included.
+                </p>
+
+                {snapshots && snapshots.length === 0 && (
+                    <div className="text-center py-16">
+                        <History className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                        <p className="text-gray-500 font-medium">No snapshots yet</p>
+                        <p className="text-sm text-gray-400 mt-1">The first one is taken once you have some data.</p>
+                    </div>
+                )}
+
+                {snapshots?.map((snapshot) => {
+                    const style = REASON_STYLES[snapshot.reason];
+                    const Icon = style.icon;
+                    return (
+                        <div key={snapshot.id} className="bg-white rounded-2xl border border-gray-100 px-4 py-3 space-y-3">
+                            <div className="flex items-center gap-3">
+                                <div
+                                    className="w-10 h-10 rounded-xl flex items-center justify-center shrink-0"
+                                    style={{ backgroundColor: style.bg }}
+                                >
+                                    <Icon className="w-5 h-5" style={{ color: style.color }} />
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 truncate">
+                                        {format(snapshot.createdAt, 'EEE, MMM d · h:mm a')}
+                                    </p>
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {style.label}{snapshot.label ? ` · ${snapshot.label}` : ''}
+                                    </p>
+                                    <p className="text-xs text-gray-400 truncate">{describeCounts(snapshot)}</p>
+                                </div>
+                                <button
+                                    onClick={() => handleDelete(snapshot)}
+                                    aria-label="Delete snapshot"
+                                    className="shrink-0 p-2 rounded-full hover:bg-gray-100"
+                                >
+                                    <Trash2 className="w-4 h-4 text-gray-400" />
+                                </button>
+                            </div>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => handleCompare(snapshot)}
+                                    className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-full border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                                >
+                                    <GitCompare className="w-4 h-4" />
+                                    Compare
+                                </button>
+                                <button
+                                    onClick={() => setPendingRestore(snapshot)}
+                                    disabled={isWorking}
+                                    className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-full border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                                >
+                                    <RotateCcw className="w-4 h-4" />
+                                    Restore
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <Drawer.Root open={!!comparing} onOpenChange={(open) => !open && setComparing(null)}>
+                <Drawer.Portal>
+                    <Drawer.Overlay className="fixed inset-0 bg-black/40 z-50" />
+                    <Drawer.Content className="app-drawer-frame">
+                        <div className="app-drawer-panel">
+                            {/* Handle */}
+                            <div className="flex justify-center pt-3 pb-2">
+                                <div className="w-10 h-1 rounded-full bg-gray-300" />
+                            </div>
+
+                            <div className="px-5 pb-2">
+                                <Drawer.Title className="text-lg font-semibold text-gray-900">Compare with current data</Drawer.Title>
+                                <p className="text-sm text-gray-500 mt-1">
+                                    {comparing && `What changed since ${format(comparing.createdAt, 'MMM d, h:mm a')}`}
+                                </p>
+                            </div>
+
+                            <div className="px-4 pb-8 space-y-3 overflow-y-auto">
+                                {!diff && <p className="text-sm text-gray-500 px-1">Comparing…</p>}
+                                {diff && diff.length === 0 && (
+                                    <p className="text-sm text-gray-500 px-1">Nothing has changed since this snapshot.</p>
+                                )}
+                                {diff?.map((storeDiff) => (
+                                    <div key={storeDiff.store} className="rounded-xl border border-gray-100 px-4 py-3 space-y-2">
+                                        <p className="text-sm font-medium text-gray-900">{SNAPSHOT_STORE_LABELS[storeDiff.store]}</p>
+                                        <DiffList title="Added since" items={storeDiff.added} className="text-green-700" />
+                                        <DiffList title="Removed since" items={storeDiff.removed} className="text-red-600" />
+                                        <DiffList title="Edited since" items={storeDiff.changed} className="text-amber-700" />
+                                    </div>
+                                ))}
+                                {diff && diff.length > 0 && (
+                                    <p className="text-xs text-gray-500 px-1">
+                                        Restoring removes what was added, brings back what was removed and undoes the edits.
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                    </Drawer.Content>
+                </Drawer.Portal>
+            </Drawer.Root>
+
+            <AlertDialog open={!!pendingRestore} onOpenChange={(open) => !open && setPendingRestore(null)}>
+                <AlertDialogContent className="w-[calc(100%-2rem)] max-w-sm rounded-2xl p-6">
+                    <AlertDialogHeader className="text-left space-y-3">
+                        <AlertDialogTitle className="text-xl text-center">Restore this snapshot?</AlertDialogTitle>
+                        <AlertDialogDescription className="text-base text-center">
+                            Your data goes back to how it was on {pendingRestore && format(pendingRestore.createdAt, 'MMM d, h:mm a')}, on every
+                            synced device. A snapshot of the current data is saved first, so this can be undone.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="flex gap-3 mt-8">
+                        <AlertDialogCancel className="w-1/2 flex-1 rounded-xl h-12 m-0 bg-gray-100 hover:bg-gray-200 border-0 font-medium text-gray-900">
+                            Cancel
+                        </AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={() => pendingRestore && handleRestore(pendingRestore)}
+                            className="w-1/2 flex-1 rounded-xl h-12 m-0 bg-black hover:bg-gray-800 font-medium text-white shadow-none"
+                        >
+                            Restore
+                        </AlertDialogAction>
+                    </div>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
@@ -0,0 +1,194 @@
+import { useNavigate } from 'react-router';
+import { ChevronLeft, CloudCog, Smartphone } from 'lucide-react';
+import { format } from 'date-fns';
+import { useExpense } from '../context/ExpenseContext';
+import { SyncCollection, SyncConflict } from '../types';
+import { formatCurrencyAmount } from '../utils/currency';
+
+const COLLECTION_LABELS: Record<SyncCollection, string> = {
+    transactions: 'Transaction',
+    categories: 'Category',
+    vendorRules: 'Vendor rule',
+    recurringExceptions: 'Skipped occurrence',
+    accounts: 'Account',
+    budgets: 'Budget',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+    vendor: 'Vendor',
+    amount: 'Amount',
+    category: 'Category',
+    categoryId: 'Category',
+    splits: 'Split',
+    direction: 'Type',
+    accountId: 'Account',
+    transferAccountId: 'Transfer to',
+    date: 'Date',
+    note: 'Note',
+    currency: 'Currency',
+    exchangeRate: 'Exchange rate',
+    attachments: 'Attachments',
+    recurrenceType: 'Repeats',
+    endDate: 'End date',
+    isActive: 'Active',
+    endedAt: 'Ended',
+    deletedAt: 'Deleted',
+    name: 'Name',
+    icon: 'Icon',
+    color: 'Color',
+    group: 'Group',
+    vendorContains: 'Vendor contains',
+    skipped: 'Skipped',
+    type: 'Account type',
+    openingBalance: 'Opening balance',
+    limit: 'Limit',
+    period: 'Period',
+    periodStart: 'Period start',
+    periodEnd: 'Period end',
+    rollover: 'Rollover',
+};
+
+const AMOUNT_FIELDS = new Set(['amount', 'openingBalance', 'limit']);
+
+export function SyncConflicts() {
+    const navigate = useNavigate();
+    const {
+        syncConflicts,
+        resolveSyncConflict,
+        transactions,
+        categories,
+        vendorRules,
+        recurringExceptions,
+        accounts,
+        budgets,
+        homeCurrency,
+    } = useExpense();
+
+    const describeRecord = (conflict: SyncConflict) => {
+        const { recordId } = conflict;
+        switch (conflict.collection) {
+            case 'transactions': {
+                const transaction = transactions.find((t) => t.id === recordId);
+                return transaction && `${transaction.vendor} · ${format(new Date(`${transaction.date}T00:00:00`), 'MMM d, yyyy')}`;
+            }
+            case 'categories':
+                return categories.find((c) => c.id === recordId)?.name;
+            case 'vendorRules': {
+                const rule = vendorRules.find((r) => r.id === recordId);
+                return rule && `"${rule.vendorContains}"`;
+            }
+            case 'recurringExceptions': {
+                const exception = recurringExceptions.find((e) => e.id === recordId);
+                const rule = exception && transactions.find((t) => t.id === exception.ruleId);
+                return exception && `${rule?.vendor ?? 'Recurring payment'} · ${exception.date}`;
+            }
+            case 'accounts':
+                return accounts.find((a) => a.id === recordId)?.name;
+            case 'budgets': {
+                const budget = budgets.find((b) => b.id === recordId);
+                if (!budget) return undefined;
+                if (budget.scope === 'total') return 'Overall budget';
+                if (budget.scope === 'group') return `${budget.group} budget`;
+                return `${categories.find((c) => c.id === budget.categoryId)?.name ?? 'Category'} budget`;
+            }
+        }
+    };
+
+    const formatValue = (conflict: SyncConflict, value: unknown) => {
+        const { field } = conflict;
+        if (field === 'deletedAt') return value ? 'Deleted' : 'Kept';
+        if (value === undefined || value === null || value === '') return 'Empty';
+        if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+        if (field === 'category' || field === 'categoryId') {
+            return categories.find((c) => c.id === value)?.name ?? String(value);
+        }
+        if (field === 'accountId' || field === 'transferAccountId') {
+            return accounts.find((a) => a.id === value)?.name ?? 'Removed account';
+        }
+        if (Array.isArray(value)) {
+            if (field === 'splits') return `${value.length} categories`;
+            return `${value.length} file${value.length === 1 ? '' : 's'}`;
+        }
+        if (typeof value === 'number' && AMOUNT_FIELDS.has(field)) {
+            const transaction = conflict.collection === 'transactions' ? transactions.find((t) => t.id === conflict.recordId) : undefined;
+            return formatCurrencyAmount(value, transaction?.currency ?? homeCurrency, homeCurrency);
+        }
+        return String(value);
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 pb-20">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+                <div className="max-w-lg mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate('/settings')}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <ChevronLeft className="w-6 h-6 text-gray-600" />
+                        </button>
+                        <h1 className="text-xl font-semibold text-gray-900 flex-1">Sync Conflicts</h1>
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-lg mx-auto px-4 py-6 space-y-3">
+                {syncConflicts.length === 0 ? (
+                    <div className="text-center py-16">
+                        <CloudCog className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                        <p className="text-gray-500 font-medium">No conflicts</p>
+                        <p className="text-sm text-gray-400 mt-1">
+                            When this device and another change the same field before syncing, you choose which to keep here.
+                        </p>
+                    </div>
+                ) : (
+                    <>
+                        <p className="text-sm text-gray-500 px-1">
+                            These fields were changed on this device and on another one. This device's version is used until you choose.
+                        </p>
+                        {syncConflicts.map((conflict) => (
+                            <div key={conflict.id} className="bg-white rounded-2xl border border-gray-100 px-4 py-3 space-y-3">
+                                <div>
+                                    <p className="text-xs text-gray-500">
+                                        {COLLECTION_LABELS[conflict.collection]} · {FIELD_LABELS[conflict.field] ?? conflict.field}
+                                    </p>
+                                    <p className="text-sm font-medium text-gray-900 truncate">
+                                        {describeRecord(conflict) ?? `A deleted ${COLLECTION_LABELS[conflict.collection].toLowerCase()}`}
+                                    </p>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button
+                                        onClick={() => resolveSyncConflict(conflict.id, 'local')}
+                                        className="rounded-xl border border-gray-200 px-3 py-2 text-left hover:bg-gray-50 transition-colors"
+                                    >
+                                        <span className="flex items-center gap-1.5 text-[11px] font-medium text-gray-500">
+                                            <Smartphone className="w-3.5 h-3.5" />
+                                            This device
+                                        </span>
+                                        <span className="block text-sm font-medium text-gray-900 break-words">
+                                            {formatValue(conflict, conflict.localValue)}
+                                        </span>
+                                    </button>
+                                    <button
+                                        onClick={() => resolveSyncConflict(conflict.id, 'remote')}
+                                        className="rounded-xl border border-gray-200 px-3 py-2 text-left hover:bg-gray-50 transition-colors"
+                                    >
+                                        <span className="flex items-center gap-1.5 text-[11px] font-medium text-gray-500">
+                                            <CloudCog className="w-3.5 h-3.5" />
+                                            Other device
+                                        </span>
+                                        <span className="block text-sm font-medium text-gray-900 break-words">
+                                            {formatValue(conflict, conflict.remoteValue)}
+                                        </span>
+                                    </button>
+                                </div>
+                                <p className="text-[11px] text-gray-400">Found {format(conflict.detectedAt, 'MMM d, h:mm a')}</p>
+                            </div>
+                        ))}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle2, ChevronLeft, CloudOff, DownloadCloud, RefreshCw, UploadCloud } from 'lucide-react';
+import { useExpense } from '../context/ExpenseContext';
+import { useAuth } from '../context/AuthContext';
+import { SyncCollection, SyncCollectionStatus, SyncRun, SyncStatusCollection } from '../types';
+import { SYNC_STATUS_LABELS, countSyncProblems, formatSyncRunError } from '../../lib/syncReport';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '../components/ui/alert-dialog';
+
+const STATUS_COLLECTIONS = Object.keys(SYNC_STATUS_LABELS) as SyncStatusCollection[];
+
+function formatTime(timestamp?: number) {
+    return timestamp ? format(timestamp, 'MMM d, h:mm a') : 'Never';
+}
+
+function formatDuration(durationMs: number) {
+    return durationMs < 1000 ? `${durationMs} ms` : `${(durationMs / 1000).toFixed(1)} s`;
+}
+
+function describeRun(run: SyncRun) {
+    if (run.full) return 'Full resync';
+    return run.target === 'all' ? 'Sync' : `Retry · ${SYNC_STATUS_LABELS[run.target]}`;
+}
+
+function StepLine({ icon: Icon, label, at, error }: { icon: typeof UploadCloud; label: string; at?: number; error?: string }) {
+    return (
+        <div className="flex items-start gap-1.5 text-xs">
+            <Icon className={`w-3.5 h-3.5 mt-px shrink-0 ${error ? 'text-red-500' : 'text-gray-400'}`} />
+            <span className="text-gray-500 shrink-0">{label}</span>
+            {error ? (
+                <span className="text-red-600 break-words min-w-0">{error}</span>
+            ) : (
+                <span className="text-gray-700">{formatTime(at)}</span>
+            )}
+        </div>
+    );
+}
+
+export function SyncStatus() {
+    const navigate = useNavigate();
+    const { user, supabaseConfigured } = useAuth();
+    const { settings, syncData, isSyncing, getPendingSyncCounts, isHydrated } = useExpense();
+    const [pendingCounts, setPendingCounts] = useState<Partial<Record<SyncCollection, number>>>({});
+    const [confirmFullResync, setConfirmFullResync] = useState(false);
+
+    // The outbox empties as a sync pushes, so count again once one finishes
+    useEffect(() => {
+        if (!isHydrated || isSyncing) return;
+        getPendingSyncCounts()
+            .then(setPendingCounts)
+            .catch((error) => console.warn('Counting pending changes failed:', error));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isHydrated, isSyncing]);
+
+    const canSync = supabaseConfigured && !!user;
+    const status = settings.syncStatus ?? {};
+    const runs = settings.syncRuns ?? [];
+    const totalPending = Object.values(pendingCounts).reduce((sum, count) => sum + (count ?? 0), 0);
+    const standingErrors = countSyncProblems(settings);
+
+    const hasErrors = (entry?: SyncCollectionStatus) => !!(entry?.pullError || entry?.pushError);
+
+    return (
+        <div className="min-h-screen bg-gray-50 pb-20">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+                <div className="max-w-lg mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate('/settings')}
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                        >
+                            <ChevronLeft className="w-6 h-6 text-gray-600" />
+                        </button>
+                        <h1 className="text-xl font-semibold text-gray-900 flex-1">Sync Status</h1>
+                        <button
+                            onClick={() => syncData()}
+                            disabled={!canSync || isSyncing}
+                            aria-label="Sync now"
+                            className="p-2 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-40"
+                        >
+                            <RefreshCw className={`w-5 h-5 text-gray-600 ${isSyncing ? 'animate-spin' : ''}`} />
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-lg mx-auto px-4 py-6 space-y-6">
+                {!canSync && (
+                    <div className="text-center py-10">
+                        <CloudOff className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                        <p className="text-gray-500 font-medium">Sync is off</p>
+                        <p className="text-sm text-gray-400 mt-1">Sign in to back up and sync your data across devices.</p>
+                    </div>
+                )}
+
+                {/* Summary */}
+                <div className="bg-white rounded-2xl border border-gray-100 px-4 py-3 space-y-3">
+                    <div className="flex items-center gap-3">
+                        {standingErrors > 0 ? (
+                            <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
+                        ) : (
+                            <CheckCircle2 className="w-5 h-5 text-green-500 shrink-0" />
+                        )}
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-gray-900">
+                                {isSyncing
+                                    ? 'Syncing…'
+                                    : standingErrors > 0
+                                        ? `${standingErrors} sync problem${standingErrors === 1 ? '' : 's'}`
+                                        : 'Everything is in sync'}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                                Last synced {formatTime(settings.lastPullAt)} · {totalPending} change{totalPending === 1 ? '' : 's'} waiting to upload
+                            </p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => setConfirmFullResync(true)}
+                        disabled={!canSync || isSyncing}
+                        className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-full border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                    >
+                        <RefreshCw className="w-4 h-4" />
+                        Force full resync
+                    </button>
+                </div>
+
+                {/* Built-in categories */}
+                {settings.systemCategoriesError && (
+                    <div className="bg-amber-50 rounded-2xl border border-amber-200 px-4 py-3 space-y-2">
+                        <p className="text-sm font-medium text-amber-900">Built-in categories couldn't be set up in the cloud</p>
+                        <p className="text-xs text-amber-800 break-words">{settings.systemCategoriesError}</p>
+                        <p className="text-xs text-amber-700">
+                            Transactions in those categories may not upload until this works.
+                        </p>
+                        <button
+                            onClick={() => syncData({ only: 'categories' })}
+                            disabled={!canSync || isSyncing}
+                            className="text-sm font-medium text-amber-900 underline disabled:opacity-40"
+                        >
+                            Try again
+                        </button>
+                    </div>
+                )}
+
+                {/* Per-collection state */}
+                <div>
+                    <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide px-1 mb-2">Collections</p>
+                    <div className="space-y-2">
+                        {STATUS_COLLECTIONS.map((collection) => {
+                            const entry = status[collection];
+                            const pending = collection === 'receipts' ? 0 : pendingCounts[collection] ?? 0;
+                            return (
+                                <div key={collection} className="bg-white rounded-2xl border border-gray-100 px-4 py-3">
+                                    <div className="flex items-center gap-2">
+                                        <p className="text-sm font-medium text-gray-900 flex-1">{SYNC_STATUS_LABELS[collection]}</p>
+                                        {pending > 0 && (
+                                            <span className="text-[11px] font-medium text-blue-700 bg-blue-50 rounded-full px-2 py-0.5">
+                                                {pending} pending
+                                            </span>
+                                        )}
+                                        {hasErrors(entry) && (
+                                            <button
+                                                onClick={() => syncData({ only: collection })}
+                                                disabled={!canSync || isSyncing}
+                                                className="text-xs font-medium text-gray-700 px-2.5 py-1 rounded-full border border-gray-200 hover:bg-gray-50 disabled:opacity-40"
+                                            >
+                                                Retry
+                                            </button>
+                                        )}
+                                    </div>
+                                    <div className="mt-2 space-y-1">
+                                        {collection !== 'receipts' && (
+                                            <StepLine icon={DownloadCloud} label="Pulled" at={entry?.lastPullAt} error={entry?.pullError} />
+                                        )}
+                                        <StepLine icon={UploadCloud} label="Pushed" at={entry?.lastPushAt} error={entry?.pushError} />
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {/* Run log */}
+                <div>
+                    <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide px-1 mb-2">Recent syncs</p>
+                    {runs.length === 0 ? (
+                        <p className="text-sm text-gray-400 px-1">No syncs on this device yet.</p>
+                    ) : (
+                        <div className="bg-white rounded-2xl border border-gray-100 divide-y divide-gray-100">
+                            {runs.map((run) => {
+                                const failed = !!run.fatalError || run.errors.length > 0 || !!run.systemCategoriesError;
+                                return (
+                                    <div key={run.id} className="px-4 py-3">
+                                        <div className="flex items-center gap-2">
+                                            {failed ? (
+                                                <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" />
+                                            ) : (
+                                                <CheckCircle2 className="w-4 h-4 text-green-500 shrink-0" />
+                                            )}
+                                            <p className="text-sm text-gray-900 flex-1 truncate">{describeRun(run)}</p>
+                                            <p className="text-xs text-gray-400 shrink-0">
+                                                {format(run.startedAt, 'MMM d, h:mm a')} · {formatDuration(run.durationMs)}
+                                            </p>
+                                        </div>
+                                        {failed && (
+                                            <ul className="mt-1.5 ml-6 space-y-0.5">
+                                                {run.fatalError && <li className="text-xs text-red-600 break-words">Stopped: {run.fatalError}</li>}
+                                                {run.systemCategoriesError && (
+                                                    <li className="text-xs text-amber-700 break-words">Built-in categories: {run.systemCategoriesError}</li>
+                                                )}
+                                                {run.errors.map((error, index) => (
+                                                    <li key={index} className="text-xs text-red-600 break-words">{formatSyncRunError(error)}</li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <AlertDialog open={confirmFullResync} onOpenChange={setConfirmFullResync}>
+                <AlertDialogContent className="w-[calc(100%-2rem)] max-w-sm rounded-2xl p-6">
+                    <AlertDialogHeader className="text-left space-y-3">
+                        <AlertDialogTitle className="text-xl text-center">Resync everything?</AlertDialogTitle>
+                        <AlertDialogDescription className="text-base text-center">
+                            Every record is downloaded again and merged with this device's copy, and waiting changes upload right away.
+                            Nothing is deleted, but it can take a while on a large history.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="flex gap-3 mt-8">
+                        <AlertDialogCancel className="w-1/2 flex-1 rounded-xl h-12 m-0 bg-gray-100 hover:bg-gray-200 border-0 font-medium text-gray-900">
+                            Cancel
+                        </AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={() => syncData({ full: true })}
+                            className="w-1/2 flex-1 rounded-xl h-12 m-0 bg-black hover:bg-gray-800 font-medium text-white shadow-none"
+                        >
+                            Resync
+                        </AlertDialogAction>
+                    </div>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
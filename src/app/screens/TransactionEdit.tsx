@@ -6,10 +6,18 @@ import { CategoryPicker } from '../components/category/CategoryPicker';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Textarea } from '../components/ui/textarea';
-import { ReceiptAttachmentField } from '../components/receipt/ReceiptAttachmentField';
+import { ReceiptAttachmentsField } from '../components/receipt/ReceiptAttachmentsField';
+import { TransactionDirectionPicker } from '../components/TransactionDirectionPicker';
+import { AccountPicker } from '../components/accounts/AccountPicker';
+import { ForeignCurrencyFields } from '../components/currency/ForeignCurrencyFields';
+import { getCurrencySymbol } from '../utils/currency';
+import { SplitEditor, SplitLine, createSplitLine, toSplitLines, toTransactionSplits } from '../components/splits/SplitEditor';
+import { getPrimarySplitCategory, hasSplits, validateSplits } from '../utils/splits';
+import { TransactionAttachment, TransactionDirection } from '../types';
+import { getTransactionDirection } from '../utils/cashFlow';
 import { motion } from 'motion/react';
 import { toast } from 'sonner';
-import { readReceiptFileAsDataUrl, ReceiptFileValidationError, validateReceiptFile } from '../utils/receiptExtractionService';
+import { useAttachmentUpload } from '../hooks/useReceiptImage';
 
 const RECURRENCE_OPTIONS = ['daily', 'weekly', 'monthly', 'yearly'] as const;
 
@@ -22,6 +30,8 @@ export function TransactionEdit() {
     updateRecurringRule,
     deleteTransaction,
     addVendorRule,
+    accounts,
+    homeCurrency,
     isHydrated
   } = useExpense();
 
@@ -38,24 +48,39 @@ export function TransactionEdit() {
 
   const [vendor, setVendor] = useState(transaction?.vendor || '');
   const [amount, setAmount] = useState(transaction?.amount.toString() || '');
+  const [direction, setDirection] = useState<TransactionDirection>(transaction ? getTransactionDirection(transaction) : 'expense');
   const [categoryId, setCategoryId] = useState(transaction?.category || '');
   const [date, setDate] = useState(transaction?.date || '');
+  const [accountId, setAccountId] = useState<string | undefined>(transaction?.accountId);
+  const [transferAccountId, setTransferAccountId] = useState<string | undefined>(transaction?.transferAccountId);
+  const [currency, setCurrency] = useState(transaction?.currency || homeCurrency);
+  const [exchangeRate, setExchangeRate] = useState(transaction?.exchangeRate?.toString() || '');
   const [note, setNote] = useState(transaction?.note || '');
-  const [photoUrl, setPhotoUrl] = useState(transaction?.photoUrl || '');
+  const [attachments, setAttachments] = useState<TransactionAttachment[]>(transaction?.attachments ?? []);
+  const { addFiles, isAdding: isAddingAttachments } = useAttachmentUpload();
   const [isRecurring, setIsRecurring] = useState(transaction?.isRecurring || false);
   const [recurrenceType, setRecurrenceType] = useState<typeof RECURRENCE_OPTIONS[number]>(transaction?.recurrenceType || 'monthly');
   const [endDate, setEndDate] = useState(transaction?.endDate || '');
   const [categorySource, setCategorySource] = useState<'manual' | 'suggestion'>('manual');
+  const [isSplit, setIsSplit] = useState(transaction ? hasSplits(transaction) : false);
+  const [splitLines, setSplitLines] = useState<SplitLine[]>(transaction?.splits ? toSplitLines(transaction.splits) : []);
 
   // 3. Keep local state in sync if transaction changes (important for async hydration/updates)
   useEffect(() => {
     if (transaction) {
       setVendor(transaction.vendor);
       setAmount(transaction.amount.toString());
+      setDirection(getTransactionDirection(transaction));
       setCategoryId(transaction.category);
       setDate(transaction.date);
+      setAccountId(transaction.accountId);
+      setTransferAccountId(transaction.transferAccountId);
+      setCurrency(transaction.currency || homeCurrency);
+      setExchangeRate(transaction.exchangeRate?.toString() || '');
+      setIsSplit(hasSplits(transaction));
+      setSplitLines(transaction.splits ? toSplitLines(transaction.splits) : []);
       setNote(transaction.note || '');
-      setPhotoUrl(transaction.photoUrl || '');
+      setAttachments(transaction.attachments ?? []);
       setIsRecurring(transaction.isRecurring || false);
       setRecurrenceType(transaction.recurrenceType || 'monthly');
       setEndDate(transaction.endDate || '');
@@ -109,19 +134,20 @@ export function TransactionEdit() {
     }
   };
 
-  const handleReceiptSelected = async (file: File) => {
-    try {
-      validateReceiptFile(file);
-    } catch (error) {
-      if (error instanceof ReceiptFileValidationError) {
-        toast.error(error.message);
-      }
+  const handleToggleSplit = () => {
+    if (isSplit) {
+      setIsSplit(false);
       return;
     }
 
-    const nextPhotoUrl = await readReceiptFileAsDataUrl(file);
-    setPhotoUrl(nextPhotoUrl);
-    toast.success('Receipt attached');
+    // Start from the current category holding the full amount, plus an empty line to split into
+    setSplitLines(splitLines.length >= 2 ? splitLines : [createSplitLine(categoryId, amount), createSplitLine()]);
+    setIsSplit(true);
+  };
+
+  const handleReceiptsSelected = async (files: File[]) => {
+    const added = await addFiles(files);
+    setAttachments(prev => [...prev, ...added.map(a => a.attachment)]);
   };
 
   const handleSave = () => {
@@ -129,21 +155,48 @@ export function TransactionEdit() {
       return;
     }
 
+    if (direction === 'transfer' && accountId && accountId === transferAccountId) {
+      toast.error('Choose two different accounts for a transfer');
+      return;
+    }
+
+    const splits = isSplit && direction !== 'transfer' ? toTransactionSplits(splitLines) : undefined;
+    if (splits) {
+      const splitError = validateSplits(parseFloat(amount), splits);
+      if (splitError) {
+        toast.error(splitError);
+        return;
+      }
+    }
+
+    const isForeign = currency !== homeCurrency;
+    const parsedRate = parseFloat(exchangeRate);
+    const currencyFields = {
+      currency: isForeign ? currency : undefined,
+      exchangeRate: isForeign && parsedRate > 0 ? parsedRate : undefined,
+      exchangeRateCurrency: isForeign && parsedRate > 0 ? homeCurrency : undefined,
+    };
+
     const updateFn = isRecurring ? updateRecurringRule : updateTransaction;
 
     updateFn(id, {
       vendor,
       amount: parseFloat(amount),
-      category: categoryId,
+      category: splits ? getPrimarySplitCategory(splits) ?? categoryId : categoryId,
+      splits,
+      direction,
+      accountId,
+      transferAccountId: direction === 'transfer' ? transferAccountId : undefined,
+      ...currencyFields,
       date,
       note: note || undefined,
-      photoUrl: photoUrl || undefined,
+      attachments,
       isRecurring,
       recurrenceType: isRecurring ? recurrenceType : undefined,
       endDate: isRecurring && endDate ? endDate : undefined,
     });
 
-    if (categorySource === 'suggestion') {
+    if (categorySource === 'suggestion' && direction === 'expense' && !splits) {
       // Auto-create rule if suggested category was applied
       addVendorRule({
         vendorContains: vendor.trim(),
@@ -174,7 +227,9 @@ export function TransactionEdit() {
               <ChevronLeft className="w-6 h-6 text-gray-600" />
             </button>
 
-            <h1 className="text-xl font-semibold text-gray-900">Edit Expense</h1>
+            <h1 className="text-xl font-semibold text-gray-900">
+              {direction === 'expense' ? 'Edit Expense' : 'Edit Transaction'}
+            </h1>
 
             <button
               type="button"
@@ -201,28 +256,31 @@ export function TransactionEdit() {
           capture="environment"
           className="hidden"
           onChange={(event) => {
-            const file = event.target.files?.[0];
-            if (!file) return;
-            void handleReceiptSelected(file);
+            const files = Array.from(event.target.files ?? []);
+            if (files.length === 0) return;
+            void handleReceiptsSelected(files);
             event.target.value = '';
           }}
         />
         <input
           ref={galleryInputRef}
           type="file"
-          accept="image/*"
+          accept="image/*,application/pdf"
+          multiple
           className="hidden"
           onChange={(event) => {
-            const file = event.target.files?.[0];
-            if (!file) return;
-            void handleReceiptSelected(file);
+            const files = Array.from(event.target.files ?? []);
+            if (files.length === 0) return;
+            void handleReceiptsSelected(files);
             event.target.value = '';
           }}
         />
 
+        <TransactionDirectionPicker value={direction} onChange={setDirection} />
+
         {/* Vendor */}
         <div className="space-y-2">
-          <Label htmlFor="vendor">Vendor</Label>
+          <Label htmlFor="vendor">{direction === 'income' ? 'Source' : 'Vendor'}</Label>
           <Input
             id="vendor"
             type="text"
@@ -239,7 +297,7 @@ export function TransactionEdit() {
             <Label htmlFor="amount">Amount</Label>
             <div className="relative">
               <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 text-lg">
-                $
+                {getCurrencySymbol(currency)}
               </span>
               <Input
                 id="amount"
@@ -266,14 +324,59 @@ export function TransactionEdit() {
           </div>
         </div>
 
+        <ForeignCurrencyFields
+          currency={currency}
+          onCurrencyChange={setCurrency}
+          rate={exchangeRate}
+          onRateChange={setExchangeRate}
+          amount={amount}
+          date={date}
+        />
+
+        {/* Account */}
+        {accounts.length > 0 && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label>{direction === 'transfer' ? 'From Account' : 'Account'}</Label>
+              <AccountPicker accounts={accounts} value={accountId} onChange={setAccountId} />
+            </div>
+            {direction === 'transfer' && (
+              <div className="space-y-2">
+                <Label>To Account</Label>
+                <AccountPicker
+                  accounts={accounts}
+                  value={transferAccountId}
+                  onChange={setTransferAccountId}
+                  excludeId={accountId}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Category Tiered Selection */}
         <div className="space-y-3">
-          <Label className="text-gray-900 font-bold ml-1">Category</Label>
-          <CategoryPicker
-            selectedCategoryId={categoryId}
-            onSelect={handleCategorySelect}
-            vendor={vendor}
-          />
+          <div className="flex items-center justify-between">
+            <Label className="text-gray-900 font-bold ml-1">Category</Label>
+            {direction !== 'transfer' && (
+              <button
+                type="button"
+                onClick={handleToggleSplit}
+                className="text-sm font-semibold text-blue-600"
+              >
+                {isSplit ? 'Use one category' : 'Split'}
+              </button>
+            )}
+          </div>
+          {isSplit ? (
+            <SplitEditor total={parseFloat(amount) || 0} lines={splitLines} onChange={setSplitLines} />
+          ) : (
+            <CategoryPicker
+              selectedCategoryId={categoryId}
+              onSelect={handleCategorySelect}
+              vendor={vendor}
+            />
+          )}
         </div>
 
         {/* Recurring Expense Integration */}
@@ -339,8 +442,10 @@ export function TransactionEdit() {
           )}
         </div>
 
-        <ReceiptAttachmentField
-          photoUrl={photoUrl}
+        <ReceiptAttachmentsField
+          attachments={attachments}
+          onChange={setAttachments}
+          isAdding={isAddingAttachments}
           onTakePhoto={() => cameraInputRef.current?.click()}
           onUpload={() => galleryInputRef.current?.click()}
         />
@@ -4,6 +4,8 @@ import { ChevronLeft } from 'lucide-react';
 import { useExpense } from '../context/ExpenseContext';
 import { motion } from 'motion/react';
 import * as LucideIcons from 'lucide-react';
+import { getSpendAmount } from '../utils/cashFlow';
+import { getCategoryAllocations } from '../utils/splits';
 
 export function WeeklyView() {
   const { date } = useParams<{ date: string }>();
@@ -25,22 +27,24 @@ export function WeeklyView() {
     const tDate = new Date(t.date + 'T00:00:00');
     return tDate >= weekStart && tDate <= weekEnd;
   });
-  const weekTotal = weekTransactions.reduce((sum, t) => sum + t.amount, 0);
+  const weekTotal = weekTransactions.reduce((sum, t) => sum + getSpendAmount(t), 0);
 
   // Get data for each day
   const getDayData = (day: Date) => {
     const dateStr = format(day, 'yyyy-MM-dd');
     const dayTransactions = transactions.filter(t => t.date === dateStr);
-    const dayTotal = dayTransactions.reduce((sum, t) => sum + t.amount, 0);
+    const dayTotal = dayTransactions.reduce((sum, t) => sum + getSpendAmount(t), 0);
 
     // Group by category
     const categoriesMap: Record<string, { amount: number; count: number }> = {};
     dayTransactions.forEach(t => {
-      if (!categoriesMap[t.category]) {
-        categoriesMap[t.category] = { amount: 0, count: 0 };
-      }
-      categoriesMap[t.category].amount += t.amount;
-      categoriesMap[t.category].count += 1;
+      getCategoryAllocations(t).forEach(({ categoryId, amount }) => {
+        if (!categoriesMap[categoryId]) {
+          categoriesMap[categoryId] = { amount: 0, count: 0 };
+        }
+        categoriesMap[categoryId].amount += amount;
+        categoriesMap[categoryId].count += 1;
+      });
     });
 
     // Sort categories by amount
@@ -1,12 +1,30 @@
+export type TransactionDirection = 'expense' | 'income' | 'refund' | 'transfer';
+
+export interface TransactionSplit {
+  id: string;
+  category: string;
+  amount: number; // Portion of the parent amount, in the parent's currency
+  note?: string;
+}
+
 export interface Transaction {
   id: string;
   vendor: string;
-  amount: number;
-  category: string;
+  amount: number; // Always positive; direction decides whether money went out or came in
+  category: string; // For split transactions, the category of the largest split
+  splits?: TransactionSplit[]; // Category allocations that sum to amount; absent for single-category transactions
+  direction?: TransactionDirection; // Missing means 'expense' (records created before income support)
+  accountId?: string; // Account the money moved through; unassigned when missing
+  transferAccountId?: string; // Destination account when direction is 'transfer'
   date: string; // ISO date string
   note?: string;
-  currency?: string;
-  photoUrl?: string;
+  currency?: string; // ISO code the amount was entered in; missing means Settings.currency
+  exchangeRate?: number; // Units of exchangeRateCurrency per 1 unit of currency, captured when saved
+  exchangeRateCurrency?: string; // Home currency the stored rate converts into
+  homeAmount?: number; // Computed: amount converted into Settings.currency (not persisted)
+  photoUrl?: string; // Legacy inline data URL; moved into attachments on load
+  receiptId?: string; // Legacy single receipt; moved into attachments on load
+  attachments?: TransactionAttachment[]; // Receipts, invoices and warranties, in display order
   isRecurring?: boolean;
   recurrenceType?: 'daily' | 'weekly' | 'monthly' | 'yearly';
   recurringKey?: string;
@@ -16,10 +34,45 @@ export interface Transaction {
   endedAt?: string; // When a rule was "deleted" (cutoff)
   isSkipped?: boolean; // For expanded virtual occurrences
   skipNote?: string;
+  batchId?: string; // Last import or bulk action that created or changed this record
+  bankReference?: string; // Bank's id for an imported statement line (OFX FITID, CAMT AcctSvcrRef, MT940 reference)
   updatedAt?: number; // Added for Supabase Sync resolution
   deletedAt?: number; // Used as tombstone marker for generic sync logic
 }
 
+export type ImportBatchKind = 'spreadsheet-import' | 'statement-import' | 'bulk-delete';
+
+/** An import or bulk action, kept so it can be rolled back from the history screen. */
+export interface ImportBatch {
+  id: string;
+  kind: ImportBatchKind;
+  label: string; // File name or a short description of the action
+  createdAt: number;
+  transactionIds: string[]; // Created by an import, or tombstoned by a bulk delete
+  categoryIds: string[]; // Created by an import
+  exceptionIds: string[]; // Recurring occurrences skipped by a bulk delete
+  endedRules: Array<{ id: string; endedAt?: string; isActive?: boolean }>; // Rules a bulk delete ended, with their previous values
+  rolledBackAt?: number;
+}
+
+export interface TransactionAttachment {
+  id: string; // Receipt record in the receipts store and the storage bucket
+  name: string; // Original file name
+  mimeType: string; // 'image/jpeg' or 'application/pdf'
+}
+
+export interface Receipt {
+  id: string;
+  image: Blob; // Images resized and re-encoded as JPEG on the device; PDFs as uploaded
+  mimeType?: string; // Missing means image/jpeg
+  thumbnail?: Blob; // Small preview for transaction lists (images only)
+  width?: number;
+  height?: number;
+  createdAt: number;
+  uploadedAt?: number; // Set once the image is in Supabase Storage
+  deletedAt?: number; // Replaced; the stored object is removed on the next sync
+}
+
 export interface RecurringException {
   id: string; // ruleId-date
   ruleId: string;
@@ -36,6 +89,51 @@ export interface Category {
   icon: string;
   color: string;
   group: string;
+  batchId?: string; // Import that created this category
+  updatedAt?: number;
+  deletedAt?: number;
+}
+
+export interface ExchangeRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number; // Units of toCurrency per 1 unit of fromCurrency
+  date: string; // ISO date the rate applies from
+  source: 'manual' | 'import';
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number;
+}
+
+export type BudgetPeriod = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
+
+export type BudgetScope = 'category' | 'group' | 'total';
+
+export interface Budget {
+  id: string;
+  scope: BudgetScope;
+  categoryId?: string; // Category budgets only
+  group?: string; // Canonical group name, for group budgets
+  limit: number; // Amount allowed per period
+  period: BudgetPeriod;
+  periodStart?: string; // ISO date: bi-weekly anchor, or first day of a custom period
+  periodEnd?: string; // ISO date: last day of a custom period
+  rollover?: boolean; // Carry unspent money (or overspend) into the next period
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number;
+}
+
+export type AccountType = 'cash' | 'chequing' | 'savings' | 'credit_card' | 'other';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number; // Balance before the first tracked transaction (negative for money owed)
+  color: string;
+  createdAt: number;
   updatedAt?: number;
   deletedAt?: number;
 }
@@ -52,17 +150,115 @@ export interface VendorRule {
 
 export type ViewMode = 'daily' | 'weekly' | 'monthly';
 
+export type NotificationKind = 'budget' | 'recurring';
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  key: string; // Identifies the event (e.g. a budget crossing 80% this period) so it is raised once
+  title: string;
+  body: string;
+  link?: string; // Route opened when the notification is tapped
+  createdAt: number;
+  readAt?: number;
+  deletedAt?: number; // Dismissed; kept so the same event isn't raised again
+}
+
+export interface NotificationPreferences {
+  budgetAlerts: boolean;
+  budgetThresholds: number[]; // Percent of the limit, e.g. [50, 80, 100]
+  categoryThresholds: Record<string, number[]>; // Per-category overrides, keyed by category id
+  recurringAlerts: boolean;
+  recurringLeadDays: number; // How far ahead to warn about recurring charges
+  browserAlerts: boolean; // Also show system notifications when the browser allows it
+}
+
+export type CsvAmountConvention = 'negative-is-expense' | 'positive-is-expense' | 'debit-credit-columns';
+
+/** Which CSV column feeds each transaction field; values are header names as they appear in the file. */
+export interface CsvColumnMapping {
+  date: string;
+  amount?: string; // Single signed column
+  debit?: string; // Money out, when the bank splits amounts into two columns
+  credit?: string; // Money in
+  vendor: string;
+  category?: string;
+  notes?: string;
+}
+
+export interface CsvImportProfile {
+  id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+  dateFormat: string; // date-fns pattern, e.g. 'M/d/yyyy'
+  amountConvention: CsvAmountConvention;
+  headerSignature: string; // Normalized header row, used to pick the profile for a matching file
+  createdAt: number;
+  updatedAt?: number;
+}
+
 export interface Settings {
-  notifications: boolean;
+  notifications: boolean; // Master switch for in-app and browser alerts
+  notificationPreferences?: NotificationPreferences;
   googleCalendarSync: boolean;
   googleCalendarAutoSync: boolean; // Future-ready: auto-sync toggle when connected
   defaultCategoryFilter?: string[]; // Array of category IDs to filter by default
+  defaultAccountFilter?: string[]; // Array of account IDs to filter by default
+  defaultAccountId?: string; // Pre-selected account when adding a transaction
   lastPullAt?: number; // UTC timestamp of last successful Supabase Pull
   lastPushAt?: number; // UTC timestamp of last successful Supabase Push
   lastSyncError?: string; // Message documenting why sync failed
+  syncRevisions?: Record<string, number>; // Highest server revision pulled so far, per remote table
+  syncStatus?: Partial<Record<SyncStatusCollection, SyncCollectionStatus>>; // Outcome of the latest pull and push, per collection
+  syncRuns?: SyncRun[]; // Most recent first
+  systemCategoriesError?: string; // Why the last sync couldn't make sure the built-in categories exist remotely
   includeRecurringInReports?: boolean; // Persisted toggle state for Reports screen
   currency?: string; // Selected currency code (CAD, USD, EUR, GBP, AUD)
   disableDemoData?: boolean; // Prevent demo data from being re-seeded after a reset
+  csvImportProfiles?: CsvImportProfile[]; // Saved column mappings for bank CSV exports
+}
+
+export type SyncCollection = 'transactions' | 'categories' | 'vendorRules' | 'recurringExceptions' | 'accounts' | 'budgets';
+
+/** What a sync reports on separately: the synced collections plus receipt files, which are only pushed. */
+export type SyncStatusCollection = SyncCollection | 'receipts';
+
+export type SyncStep = 'pull' | 'push';
+
+export interface SyncCollectionStatus {
+  lastPullAt?: number; // Last successful pull
+  lastPushAt?: number; // Last successful push
+  pullError?: string; // From the latest pull; cleared once one succeeds
+  pushError?: string;
+}
+
+export interface SyncRunError {
+  collection: SyncStatusCollection;
+  step: SyncStep;
+  message: string;
+}
+
+/** One run of SyncService.sync, kept for the sync status screen. */
+export interface SyncRun {
+  id: string;
+  startedAt: number;
+  durationMs: number;
+  target: SyncStatusCollection | 'all'; // A single collection when it was retried on its own
+  full: boolean; // Pulled everything again instead of only what changed
+  errors: SyncRunError[];
+  systemCategoriesError?: string;
+  fatalError?: string; // The run stopped before it could save anything
+}
+
+/** A field this device and another both changed since they last synced, waiting for the user to pick a value. */
+export interface SyncConflict {
+  id: string; // collection:recordId:field, so a newer clash on the same field replaces the old one
+  collection: SyncCollection;
+  recordId: string;
+  field: string; // Property of the local record type, e.g. 'amount' or 'note'
+  localValue: unknown; // Kept (and pushed) until the conflict is resolved
+  remoteValue: unknown;
+  detectedAt: number;
 }
 
 export interface GoogleCalendarStatus {
@@ -0,0 +1,92 @@
+import { format } from 'date-fns';
+import { Account, AccountType, Transaction } from '../types';
+import { getHomeAmount, getTransactionDirection } from './cashFlow';
+import { formatCurrencyAmount } from './currency';
+
+export const ACCOUNT_TYPES: AccountType[] = ['chequing', 'savings', 'credit_card', 'cash', 'other'];
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  cash: 'Cash',
+  chequing: 'Chequing',
+  savings: 'Savings',
+  credit_card: 'Credit Card',
+  other: 'Other',
+};
+
+export const ACCOUNT_TYPE_ICONS: Record<AccountType, string> = {
+  cash: 'Banknote',
+  chequing: 'Landmark',
+  savings: 'PiggyBank',
+  credit_card: 'CreditCard',
+  other: 'Wallet',
+};
+
+export const ACCOUNT_COLORS = ['#2563EB', '#16A34A', '#F59E0B', '#DC2626', '#7C3AED', '#0F172A'];
+
+export interface AccountLedgerEntry {
+  transaction: Transaction;
+  change: number;
+  balance: number;
+}
+
+/**
+ * Signed effect of a transaction on one account's balance. Transfers move
+ * money out of `accountId` and into `transferAccountId`.
+ */
+export function getAccountBalanceChange(transaction: Transaction, accountId: string): number {
+  const direction = getTransactionDirection(transaction);
+
+  if (direction === 'transfer') {
+    if (transaction.accountId === accountId) return -getHomeAmount(transaction);
+    if (transaction.transferAccountId === accountId) return getHomeAmount(transaction);
+    return 0;
+  }
+
+  if (transaction.accountId !== accountId) return 0;
+  const amount = getHomeAmount(transaction);
+  return direction === 'income' || direction === 'refund' ? amount : -amount;
+}
+
+const isSettledTransaction = (transaction: Transaction, today: string) =>
+  !transaction.deletedAt && !transaction.isSkipped && transaction.date <= today;
+
+/**
+ * Running ledger for an account, oldest first. Future recurring occurrences
+ * are left out so the balance reflects what has actually cleared.
+ */
+export function buildAccountLedger(account: Account, transactions: Transaction[], today = format(new Date(), 'yyyy-MM-dd')): AccountLedgerEntry[] {
+  const relevant = transactions
+    .filter((t) => isSettledTransaction(t, today))
+    .filter((t) => t.accountId === account.id || t.transferAccountId === account.id)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = account.openingBalance;
+  return relevant.map((transaction) => {
+    const change = getAccountBalanceChange(transaction, account.id);
+    balance += change;
+    return { transaction, change, balance };
+  });
+}
+
+export function calculateAccountBalances(accounts: Account[], transactions: Transaction[], today = format(new Date(), 'yyyy-MM-dd')): Record<string, number> {
+  const balances: Record<string, number> = {};
+  accounts.forEach((account) => {
+    balances[account.id] = account.openingBalance;
+  });
+
+  transactions
+    .filter((t) => isSettledTransaction(t, today))
+    .forEach((transaction) => {
+      [transaction.accountId, transaction.transferAccountId].forEach((accountId) => {
+        if (accountId && balances[accountId] !== undefined) {
+          balances[accountId] += getAccountBalanceChange(transaction, accountId);
+        }
+      });
+    });
+
+  return balances;
+}
+
+export function formatBalance(balance: number, homeCurrency: string): string {
+  return formatCurrencyAmount(balance, homeCurrency);
+}
@@ -0,0 +1,394 @@
+import {
+  Account,
+  Budget,
+  Category,
+  ExchangeRate,
+  RecurringException,
+  Settings,
+  Transaction,
+  VendorRule,
+} from '../types';
+import { BUDGET_PERIODS, normalizeBudget } from './budgetPeriods';
+import { TRANSACTION_DIRECTIONS } from './cashFlow';
+
+/*
+ * Backup file format (version 2)
+ *
+ * {
+ *   "format": "calendarspent-backup",
+ *   "version": 2,
+ *   "exportedAt": "2026-05-24T18:30:00.000Z",
+ *   "checksum": "<SHA-256 hex of JSON.stringify(data)>",
+ *   "data": {
+ *     "transactions": Transaction[],        // Saved records and tombstones; no generated occurrences
+ *     "categories": Category[],
+ *     "vendorRules": VendorRule[],
+ *     "recurringExceptions": RecurringException[],
+ *     "accounts": Account[],
+ *     "exchangeRates": ExchangeRate[],
+ *     "budgets": Budget[],
+ *     "settings": Settings
+ *   }
+ * }
+ *
+ * Receipt images stay on the device and in cloud storage; transactions only
+ * carry their attachment ids. Fields not listed in the schemas below are kept
+ * as they are, so a newer app can add optional fields without a new version.
+ *
+ * Version 1 was the unversioned dump: the same collections at the top level,
+ * transactions under "expenses", a "version": "1" string and no checksum.
+ */
+
+export const BACKUP_FORMAT = 'calendarspent-backup';
+export const BACKUP_VERSION = 2;
+
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export interface BackupData {
+  transactions: Transaction[];
+  categories: Category[];
+  vendorRules: VendorRule[];
+  recurringExceptions: RecurringException[];
+  accounts: Account[];
+  exchangeRates: ExchangeRate[];
+  budgets: Budget[];
+  settings: Settings;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  checksum: string;
+  data: BackupData;
+}
+
+export interface ParsedBackup {
+  data: BackupData;
+  exportedAt?: string;
+  sourceVersion: number; // Version the file was written in, before migrations ran
+}
+
+export interface BackupIssue {
+  path: string; // e.g. "transactions[12].amount"
+  message: string;
+}
+
+export class BackupValidationError extends Error {
+  issues: BackupIssue[];
+
+  constructor(issues: BackupIssue[]) {
+    super(formatBackupIssues(issues));
+    this.name = 'BackupValidationError';
+    this.issues = issues;
+  }
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
+
+interface FieldSpec {
+  type: FieldType;
+  optional?: boolean;
+  values?: readonly string[];
+}
+
+type RecordSchema = Record<string, FieldSpec>;
+
+// Legacy records are upgraded by migrateData and normalizeBudget after restore, so only what those rely on is checked
+const TRANSACTION_SCHEMA: RecordSchema = {
+  id: { type: 'string' },
+  vendor: { type: 'string' },
+  amount: { type: 'number' },
+  category: { type: 'string' },
+  date: { type: 'date' },
+  direction: { type: 'string', optional: true, values: TRANSACTION_DIRECTIONS },
+  splits: { type: 'array', optional: true },
+  accountId: { type: 'string', optional: true },
+  currency: { type: 'string', optional: true },
+  exchangeRate: { type: 'number', optional: true },
+  note: { type: 'string', optional: true },
+  attachments: { type: 'array', optional: true },
+  isRecurring: { type: 'boolean', optional: true },
+  recurrenceType: { type: 'string', optional: true, values: ['daily', 'weekly', 'monthly', 'yearly'] },
+  endDate: { type: 'date', optional: true },
+  endedAt: { type: 'date', optional: true },
+  isActive: { type: 'boolean', optional: true },
+  bankReference: { type: 'string', optional: true },
+  updatedAt: { type: 'number', optional: true },
+  deletedAt: { type: 'number', optional: true },
+};
+
+const CATEGORY_SCHEMA: RecordSchema = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  icon: { type: 'string' },
+  color: { type: 'string' },
+  group: { type: 'string', optional: true },
+  updatedAt: { type: 'number', optional: true },
+  deletedAt: { type: 'number', optional: true },
+};
+
+const VENDOR_RULE_SCHEMA: RecordSchema = {
+  id: { type: 'string' },
+  vendorContains: { type: 'string' },
+  categoryId: { type: 'string' },
+  source: { type: 'string', values: ['default', 'user'] },
+  createdAt: { type: 'number' },
+  updatedAt: { type: 'number', optional: true },
+  deletedAt: { type: 'number', optional: true },
+};
+
+const RECURRING_EXCEPTION_SCHEMA: RecordSchema = {
+  id: { type: 'string' },
+  ruleId: { type: 'string' },
+  date: { type: 'date' },
+  skipped: { type: 'boolean' },
+  note: { type: 'string', optional: true },
+  updatedAt: { type: 'number', optional: true },
+  deletedAt: { type: 'number', optional: true },
+};
+
+const ACCOUNT_SCHEMA: RecordSchema = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  type: { type: 'string', values: ['cash', 'chequing', 'savings', 'credit_card', 'other'] },
+  openingBalance: { type: 'number' },
+  color: { type: 'string' },
+  createdAt: { type: 'number' },
+  updatedAt: { type: 'number', optional: true },
+  deletedAt: { type: 'number', optional: true },
+};
+
+const EXCHANGE_RATE_SCHEMA: RecordSchema = {
+  id: { type: 'string' },
+  fromCurrency: { type: 'string' },
+  toCurrency: { type: 'string' },
+  rate: { type: 'number' },
+  date: { type: 'date' },
+  source: { type: 'string', values: ['manual', 'import'] },
+  createdAt: { type: 'number' },
+  updatedAt: { type: 'number', optional: true },
+  deletedAt: { type: 'number', optional: true },
+};
+
+const BUDGET_SCHEMA: RecordSchema = {
+  id: { type: 'string' },
+  scope: { type: 'string', values: ['category', 'group', 'total'] },
+  categoryId: { type: 'string', optional: true },
+  group: { type: 'string', optional: true },
+  limit: { type: 'number' },
+  period: { type: 'string', values: BUDGET_PERIODS.map((period) => period.value) },
+  periodStart: { type: 'date', optional: true },
+  periodEnd: { type: 'date', optional: true },
+  rollover: { type: 'boolean', optional: true },
+  createdAt: { type: 'number' },
+  updatedAt: { type: 'number', optional: true },
+  deletedAt: { type: 'number', optional: true },
+};
+
+const SETTINGS_SCHEMA: RecordSchema = {
+  notifications: { type: 'boolean', optional: true },
+  googleCalendarSync: { type: 'boolean', optional: true },
+  googleCalendarAutoSync: { type: 'boolean', optional: true },
+  defaultCategoryFilter: { type: 'array', optional: true },
+  defaultAccountFilter: { type: 'array', optional: true },
+  currency: { type: 'string', optional: true },
+  csvImportProfiles: { type: 'array', optional: true },
+};
+
+const COLLECTION_SCHEMAS: Array<[Exclude<keyof BackupData, 'settings'>, RecordSchema]> = [
+  ['transactions', TRANSACTION_SCHEMA],
+  ['categories', CATEGORY_SCHEMA],
+  ['vendorRules', VENDOR_RULE_SCHEMA],
+  ['recurringExceptions', RECURRING_EXCEPTION_SCHEMA],
+  ['accounts', ACCOUNT_SCHEMA],
+  ['exchangeRates', EXCHANGE_RATE_SCHEMA],
+  ['budgets', BUDGET_SCHEMA],
+];
+
+// Each step upgrades a backup from version N to N + 1. Add one whenever BackupData changes shape.
+const BACKUP_MIGRATIONS: Record<number, (backup: any) => any> = {
+  1: (legacy) => ({
+    format: BACKUP_FORMAT,
+    version: 2,
+    exportedAt: legacy.exportedAt,
+    data: {
+      transactions: legacy.expenses ?? [],
+      categories: legacy.categories ?? [],
+      vendorRules: (legacy.vendorRules ?? []).map((rule: any) => ({
+        ...rule,
+        vendorContains: rule?.vendorContains ?? rule?.vendor,
+        source: rule?.source ?? 'user',
+        createdAt: rule?.createdAt ?? Date.now(),
+      })),
+      recurringExceptions: (legacy.recurringExceptions ?? []).map((exception: any) => ({
+        ...exception,
+        id: exception?.id ?? `${exception?.ruleId}-${exception?.date}`,
+      })),
+      accounts: legacy.accounts ?? [],
+      exchangeRates: legacy.exchangeRates ?? [],
+      budgets: (legacy.budgets ?? []).map((budget: any) => (budget && typeof budget === 'object' ? normalizeBudget(budget) : budget)),
+      settings: legacy.settings ?? {},
+    },
+  }),
+};
+
+export function formatBackupIssues(issues: BackupIssue[]): string {
+  const preview = issues.slice(0, 10).map((issue) => `${issue.path}: ${issue.message}`);
+  const suffix = issues.length > 10 ? `\n...and ${issues.length - 10} more issue${issues.length - 10 === 1 ? '' : 's'}.` : '';
+  return `This backup can't be restored:\n${preview.join('\n')}${suffix}`;
+}
+
+export async function serializeBackup(data: BackupData): Promise<string> {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: await computeChecksum(data),
+    data,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse a backup file, check it wasn't altered, upgrade it to the current
+ * version and validate every record. Throws BackupValidationError with the
+ * offending field paths when the file can't be restored.
+ */
+export async function parseBackup(json: string): Promise<ParsedBackup> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new BackupValidationError([{ path: 'file', message: 'Not valid JSON.' }]);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new BackupValidationError([{ path: 'file', message: 'Not a CalendarSpent backup.' }]);
+  }
+
+  const sourceVersion = getBackupVersion(parsed);
+  if (sourceVersion === null) {
+    throw new BackupValidationError([{ path: 'file', message: 'Not a CalendarSpent backup. Use a file from Export Data > Export as JSON.' }]);
+  }
+  if (sourceVersion > BACKUP_VERSION) {
+    throw new BackupValidationError([{ path: 'version', message: `Made by a newer version of CalendarSpent (backup version ${sourceVersion}). Update the app to restore it.` }]);
+  }
+
+  // The checksum covers the data as written, so it's checked before any migration touches it
+  if (sourceVersion >= 2) {
+    if (!parsed.data || typeof parsed.data !== 'object') {
+      throw new BackupValidationError([{ path: 'data', message: 'Missing.' }]);
+    }
+    if (typeof parsed.checksum !== 'string') {
+      throw new BackupValidationError([{ path: 'checksum', message: 'Missing.' }]);
+    }
+    if (parsed.checksum !== await computeChecksum(parsed.data)) {
+      throw new BackupValidationError([{ path: 'checksum', message: 'Does not match the contents. The file was edited or is incomplete.' }]);
+    }
+  }
+
+  let backup = parsed;
+  for (let version = sourceVersion; version < BACKUP_VERSION; version++) {
+    backup = BACKUP_MIGRATIONS[version](backup);
+  }
+
+  const issues = validateBackupData(backup.data);
+  if (issues.length > 0) {
+    throw new BackupValidationError(issues);
+  }
+
+  return {
+    data: backup.data as BackupData,
+    exportedAt: typeof backup.exportedAt === 'string' ? backup.exportedAt : undefined,
+    sourceVersion,
+  };
+}
+
+function getBackupVersion(parsed: any): number | null {
+  if (parsed.format === BACKUP_FORMAT && Number.isInteger(parsed.version) && parsed.version >= 1) {
+    return parsed.version;
+  }
+  // Unversioned dumps wrote version "1" as a string, or nothing at all
+  if (!parsed.format && Array.isArray(parsed.expenses)) {
+    return 1;
+  }
+  return null;
+}
+
+function validateBackupData(data: any): BackupIssue[] {
+  const issues: BackupIssue[] = [];
+  if (!data || typeof data !== 'object') {
+    return [{ path: 'data', message: 'Missing.' }];
+  }
+
+  COLLECTION_SCHEMAS.forEach(([name, schema]) => {
+    const records = data[name];
+    if (!Array.isArray(records)) {
+      issues.push({ path: name, message: 'Expected a list.' });
+      return;
+    }
+
+    const seenIds = new Set<string>();
+    records.forEach((record, index) => {
+      const path = `${name}[${index}]`;
+      if (!record || typeof record !== 'object' || Array.isArray(record)) {
+        issues.push({ path, message: 'Expected an object.' });
+        return;
+      }
+      validateRecord(record, schema, path, issues);
+      if (typeof record.id === 'string') {
+        if (seenIds.has(record.id)) {
+          issues.push({ path: `${path}.id`, message: `Duplicate id "${record.id}".` });
+        }
+        seenIds.add(record.id);
+      }
+    });
+  });
+
+  if (!data.settings || typeof data.settings !== 'object' || Array.isArray(data.settings)) {
+    issues.push({ path: 'settings', message: 'Expected an object.' });
+  } else {
+    validateRecord(data.settings, SETTINGS_SCHEMA, 'settings', issues);
+  }
+
+  return issues;
+}
+
+function validateRecord(record: Record<string, unknown>, schema: RecordSchema, path: string, issues: BackupIssue[]) {
+  Object.entries(schema).forEach(([field, spec]) => {
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (!spec.optional) issues.push({ path: `${path}.${field}`, message: 'Required.' });
+      return;
+    }
+
+    const problem = checkField(value, spec);
+    if (problem) issues.push({ path: `${path}.${field}`, message: problem });
+  });
+}
+
+function checkField(value: unknown, spec: FieldSpec): string | null {
+  switch (spec.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'Expected a number.';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Expected true or false.';
+    case 'array':
+      return Array.isArray(value) ? null : 'Expected a list.';
+    case 'object':
+      return value && typeof value === 'object' && !Array.isArray(value) ? null : 'Expected an object.';
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) ? null : 'Expected a YYYY-MM-DD date.';
+    default:
+      if (typeof value !== 'string') return 'Expected text.';
+      if (spec.values && !spec.values.includes(value)) return `Expected one of: ${spec.values.join(', ')}.`;
+      return null;
+  }
+}
+
+async function computeChecksum(data: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
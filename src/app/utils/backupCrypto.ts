@@ -0,0 +1,166 @@
+/*
+ * Encrypted backup envelope. The plaintext is a regular backup file (see
+ * backup.ts), so decrypting gives something parseBackup already understands.
+ *
+ * {
+ *   "format": "calendarspent-backup-encrypted",
+ *   "version": 1,
+ *   "kdf": { "name": "PBKDF2", "hash": "SHA-256", "iterations": 600000, "salt": "<base64>" },
+ *   "cipher": { "name": "AES-GCM", "iv": "<base64>" },
+ *   "passphraseCheck": "<base64 SHA-256 of the second half of the derived bits>",
+ *   "ciphertext": "<base64>"
+ * }
+ *
+ * PBKDF2 derives 512 bits: the first half is the AES-256 key, the second half
+ * only feeds passphraseCheck. That tells a wrong passphrase apart from a file
+ * that was altered, which AES-GCM alone reports the same way. The kdf and
+ * cipher headers are bound to the ciphertext as additional data.
+ */
+
+export const ENCRYPTED_BACKUP_FORMAT = 'calendarspent-backup-encrypted';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+const MAX_PBKDF2_ITERATIONS = 10000000; // Refuse edited headers that would hang the device
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+interface EncryptedBackupFile {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  passphraseCheck: string;
+  ciphertext: string;
+}
+
+export type BackupDecryptionFailure = 'wrong-passphrase' | 'tampered' | 'unsupported';
+
+export class BackupDecryptionError extends Error {
+  reason: BackupDecryptionFailure;
+
+  constructor(reason: BackupDecryptionFailure) {
+    super(DECRYPTION_MESSAGES[reason]);
+    this.name = 'BackupDecryptionError';
+    this.reason = reason;
+  }
+}
+
+const DECRYPTION_MESSAGES: Record<BackupDecryptionFailure, string> = {
+  'wrong-passphrase': 'Wrong passphrase. Check it and try again.',
+  tampered: 'This backup was changed or damaged after it was encrypted, so it can\'t be restored.',
+  unsupported: 'This encrypted backup was made by a newer version of CalendarSpent. Update the app to restore it.',
+};
+
+export function isEncryptedBackup(json: string): boolean {
+  try {
+    return JSON.parse(json)?.format === ENCRYPTED_BACKUP_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+export async function encryptBackup(json: string, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const kdf = { name: 'PBKDF2' as const, hash: 'SHA-256' as const, iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) };
+  const cipher = { name: 'AES-GCM' as const, iv: toBase64(iv) };
+  const { key, passphraseCheck } = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encodeHeader(kdf, cipher) },
+    key,
+    new TextEncoder().encode(json),
+  );
+
+  const file: EncryptedBackupFile = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENVELOPE_VERSION,
+    kdf,
+    cipher,
+    passphraseCheck,
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Returns the backup JSON inside an encrypted file, or throws BackupDecryptionError. */
+export async function decryptBackup(json: string, passphrase: string): Promise<string> {
+  const file = JSON.parse(json) as EncryptedBackupFile;
+  if (file.version > ENVELOPE_VERSION) {
+    throw new BackupDecryptionError('unsupported');
+  }
+  if (
+    file.kdf?.name !== 'PBKDF2' ||
+    file.cipher?.name !== 'AES-GCM' ||
+    !Number.isInteger(file.kdf.iterations) ||
+    file.kdf.iterations < 1 ||
+    file.kdf.iterations > MAX_PBKDF2_ITERATIONS ||
+    !file.ciphertext ||
+    !file.passphraseCheck
+  ) {
+    throw new BackupDecryptionError('tampered');
+  }
+
+  let salt: Uint8Array<ArrayBuffer>;
+  let iv: Uint8Array<ArrayBuffer>;
+  let ciphertext: Uint8Array<ArrayBuffer>;
+  try {
+    salt = fromBase64(file.kdf.salt);
+    iv = fromBase64(file.cipher.iv);
+    ciphertext = fromBase64(file.ciphertext);
+  } catch {
+    throw new BackupDecryptionError('tampered');
+  }
+
+  const { key, passphraseCheck } = await deriveKeys(passphrase, salt, file.kdf.iterations);
+  if (passphraseCheck !== file.passphraseCheck) {
+    throw new BackupDecryptionError('wrong-passphrase');
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: encodeHeader(file.kdf, file.cipher) },
+      key,
+      ciphertext,
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new BackupDecryptionError('tampered');
+  }
+}
+
+async function deriveKeys(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 512));
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  const check = await crypto.subtle.digest('SHA-256', bits.slice(32));
+  return { key, passphraseCheck: toBase64(new Uint8Array(check)) };
+}
+
+// WebCrypto takes ArrayBuffer-backed views only, so results are copied into a fresh ArrayBuffer
+function encodeHeader(kdf: EncryptedBackupFile['kdf'], cipher: EncryptedBackupFile['cipher']): Uint8Array<ArrayBuffer> {
+  const encoded = new TextEncoder().encode(JSON.stringify([kdf.name, kdf.hash, kdf.iterations, kdf.salt, cipher.name, cipher.iv]));
+  const bytes = new Uint8Array(new ArrayBuffer(encoded.length));
+  bytes.set(encoded);
+  return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  // Chunked so large backups don't overflow the argument limit of fromCharCode
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
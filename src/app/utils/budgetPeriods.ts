@@ -0,0 +1,349 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  isAfter,
+  isBefore,
+  isSameMonth,
+  isSameYear,
+  isWithinInterval,
+  max,
+  min,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+} from 'date-fns';
+import { Budget, BudgetPeriod, Category, Transaction } from '../types';
+import { getTransactionCategoryIds } from './splits';
+import { formatCurrencyAmount, roundToCents } from './currency';
+import { getBudgetCategoryMatcher, getBudgetParentGroup, getMatchedSpendAmount } from './budgetTargets';
+
+const AVERAGE_MONTH_DAYS = 365.25 / 12;
+
+export interface BudgetWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface BudgetProgress {
+  budget: Budget;
+  window: BudgetWindow;
+  spent: number;
+  carryIn: number; // Rolled over from earlier periods; negative when overspent
+}
+
+export interface BudgetLedgerEntry {
+  window: BudgetWindow;
+  limit: number;
+  carryIn: number;
+  spent: number;
+  carryOut: number;
+}
+
+export const BUDGET_PERIODS: { value: BudgetPeriod; label: string; unit: string }[] = [
+  { value: 'weekly', label: 'Weekly', unit: 'wk' },
+  { value: 'biweekly', label: 'Bi-weekly', unit: '2 wks' },
+  { value: 'monthly', label: 'Monthly', unit: 'mo' },
+  { value: 'quarterly', label: 'Quarterly', unit: 'qtr' },
+  { value: 'yearly', label: 'Yearly', unit: 'yr' },
+  { value: 'custom', label: 'Custom', unit: 'period' },
+];
+
+export function getBudgetPeriodMeta(period: BudgetPeriod) {
+  return BUDGET_PERIODS.find((p) => p.value === period) ?? BUDGET_PERIODS[2];
+}
+
+type StoredBudget = Omit<Budget, 'limit' | 'period' | 'scope'> &
+  Partial<Pick<Budget, 'limit' | 'period' | 'scope'>> & { monthlyLimit?: number };
+
+/**
+ * Budgets saved before periods existed carry `monthlyLimit` and no period;
+ * ones saved before group budgets have no scope and are per category.
+ */
+export function normalizeBudget(budget: StoredBudget): Budget {
+  const { monthlyLimit, ...rest } = budget;
+  return {
+    ...rest,
+    scope: rest.scope ?? 'category',
+    limit: rest.limit ?? monthlyLimit ?? 0,
+    period: rest.period ?? 'monthly',
+  };
+}
+
+/** A custom budget with both dates covers one fixed range instead of repeating. */
+export function isFixedBudgetWindow(budget: Budget): boolean {
+  return budget.period === 'custom' && !!budget.periodStart && !!budget.periodEnd;
+}
+
+/** The period of `budget` that contains `date`. */
+export function getBudgetWindow(budget: Budget, date: Date): BudgetWindow {
+  switch (budget.period) {
+    case 'weekly':
+      return { start: startOfWeek(date), end: endOfWeek(date) };
+    case 'biweekly': {
+      // Fortnights count from the week the budget was anchored to
+      const anchor = startOfWeek(budget.periodStart ? parseISO(budget.periodStart) : new Date(budget.createdAt));
+      const offset = Math.floor(differenceInCalendarDays(date, anchor) / 14) * 14;
+      const start = addDays(anchor, offset);
+      return { start, end: endOfDay(addDays(start, 13)) };
+    }
+    case 'quarterly':
+      return { start: startOfQuarter(date), end: endOfQuarter(date) };
+    case 'yearly':
+      return { start: startOfYear(date), end: endOfYear(date) };
+    case 'custom':
+      if (isFixedBudgetWindow(budget)) {
+        return { start: startOfDay(parseISO(budget.periodStart!)), end: endOfDay(parseISO(budget.periodEnd!)) };
+      }
+      return { start: startOfMonth(date), end: endOfMonth(date) };
+    default:
+      return { start: startOfMonth(date), end: endOfMonth(date) };
+  }
+}
+
+export function getPreviousBudgetWindow(budget: Budget, window: BudgetWindow): BudgetWindow | null {
+  if (isFixedBudgetWindow(budget)) return null;
+  return getBudgetWindow(budget, addDays(window.start, -1));
+}
+
+export function getBudgetWindowDays(window: BudgetWindow): number {
+  return differenceInCalendarDays(window.end, window.start) + 1;
+}
+
+/**
+ * The date budgets are evaluated at while browsing by month: today for the
+ * current month, otherwise the last day of a past month (or the first day of a
+ * future one) so each budget shows the period the month ended in.
+ */
+export function getBudgetReferenceDate(monthStart: Date, today = new Date()): Date {
+  if (isSameMonth(monthStart, today)) return today;
+  return isAfter(monthStart, today) ? monthStart : endOfMonth(monthStart);
+}
+
+export function getBudgetSpent(
+  budget: Budget,
+  transactions: Transaction[],
+  categories: Category[],
+  range: BudgetWindow
+): number {
+  const matches = getBudgetCategoryMatcher(budget, categories);
+  return transactions.reduce((sum, t) => {
+    // Recurring expenses are tracked separately from budgets
+    if (t.isRecurring) return sum;
+    if (!isWithinInterval(parseISO(t.date), range)) return sum;
+    return sum + getMatchedSpendAmount(t, matches);
+  }, 0);
+}
+
+/**
+ * Period-by-period carry for a budget, from the period it was created in
+ * through the one containing `date`. Limit changes aren't versioned, so past
+ * periods use the current limit.
+ */
+export function getBudgetLedger(
+  budget: Budget,
+  transactions: Transaction[],
+  categories: Category[],
+  date: Date
+): BudgetLedgerEntry[] {
+  const matches = getBudgetCategoryMatcher(budget, categories);
+  const relevant = transactions.filter((t) => getTransactionCategoryIds(t).some(matches));
+  const last = getBudgetWindow(budget, date);
+  let window = getBudgetWindow(budget, new Date(budget.createdAt));
+  if (isAfter(window.start, last.start)) return [];
+
+  const entries: BudgetLedgerEntry[] = [];
+  let carryIn = 0;
+  for (;;) {
+    const spent = getBudgetSpent(budget, relevant, categories, window);
+    const carryOut = roundToCents(carryIn + budget.limit - spent);
+    entries.push({ window, limit: budget.limit, carryIn, spent, carryOut });
+    // A fixed custom window has nothing after it
+    if (!isBefore(window.start, last.start) || isFixedBudgetWindow(budget)) break;
+    carryIn = carryOut;
+    window = getBudgetWindow(budget, addDays(window.end, 1));
+  }
+  return entries;
+}
+
+export function getBudgetProgress(
+  budget: Budget,
+  transactions: Transaction[],
+  categories: Category[],
+  date: Date
+): BudgetProgress {
+  const window = getBudgetWindow(budget, date);
+  const spent = getBudgetSpent(budget, transactions, categories, window);
+  if (!budget.rollover) return { budget, window, spent, carryIn: 0 };
+
+  const ledger = getBudgetLedger(budget, transactions, categories, date);
+  const current = ledger[ledger.length - 1];
+  const carryIn = current && current.window.start.getTime() === window.start.getTime() ? current.carryIn : 0;
+  return { budget, window, spent, carryIn };
+}
+
+/** What can be spent this period: the limit plus anything rolled over. */
+export function getBudgetAvailable(progress: BudgetProgress): number {
+  return progress.budget.limit + progress.carryIn;
+}
+
+/**
+ * A budget's slice of an arbitrary range (e.g. a calendar month): the limit is
+ * prorated by how many days of each period fall inside it, and spending only
+ * counts where the budget applies.
+ */
+export function getBudgetShareForRange(
+  budget: Budget,
+  transactions: Transaction[],
+  categories: Category[],
+  range: BudgetWindow
+): { limit: number; spent: number } {
+  if (isFixedBudgetWindow(budget)) {
+    const window = getBudgetWindow(budget, range.start);
+    const start = max([window.start, range.start]);
+    const end = min([window.end, range.end]);
+    if (isAfter(start, end)) return { limit: 0, spent: 0 };
+    const overlap = { start, end };
+    return {
+      limit: budget.limit * (getBudgetWindowDays(overlap) / getBudgetWindowDays(window)),
+      spent: getBudgetSpent(budget, transactions, categories, overlap),
+    };
+  }
+
+  let limit = 0;
+  let cursor = startOfDay(range.start);
+  while (!isAfter(cursor, range.end)) {
+    const window = getBudgetWindow(budget, cursor);
+    const overlapEnd = min([window.end, range.end]);
+    limit += budget.limit * (getBudgetWindowDays({ start: cursor, end: overlapEnd }) / getBudgetWindowDays(window));
+    cursor = addDays(startOfDay(window.end), 1);
+  }
+  return { limit, spent: getBudgetSpent(budget, transactions, categories, range) };
+}
+
+export interface BudgetPace {
+  totalDays: number;
+  elapsedDays: number;
+  daysLeft: number;
+  projected: number;
+  isActive: boolean;
+  isFinished: boolean;
+}
+
+/** Where spending in `window` is heading, extrapolated from the days elapsed so far. */
+export function getBudgetPace(window: BudgetWindow, spent: number, today = new Date()): BudgetPace {
+  const totalDays = getBudgetWindowDays(window);
+  if (isBefore(today, window.start)) {
+    return { totalDays, elapsedDays: 0, daysLeft: totalDays, projected: 0, isActive: false, isFinished: false };
+  }
+  if (isAfter(today, window.end)) {
+    return { totalDays, elapsedDays: totalDays, daysLeft: 0, projected: spent, isActive: false, isFinished: true };
+  }
+
+  const elapsedDays = Math.max(1, differenceInCalendarDays(today, window.start) + 1);
+  return {
+    totalDays,
+    elapsedDays,
+    daysLeft: totalDays - elapsedDays,
+    projected: (spent / elapsedDays) * totalDays,
+    isActive: true,
+    isFinished: false,
+  };
+}
+
+/** How many months one period of the budget spans, used to scale monthly history. */
+export function getBudgetMonthFactor(budget: Pick<Budget, 'period' | 'periodStart' | 'periodEnd'>): number {
+  switch (budget.period) {
+    case 'weekly':
+      return 12 / 52;
+    case 'biweekly':
+      return 12 / 26;
+    case 'quarterly':
+      return 3;
+    case 'yearly':
+      return 12;
+    case 'custom':
+      if (budget.periodStart && budget.periodEnd) {
+        const days = differenceInCalendarDays(parseISO(budget.periodEnd), parseISO(budget.periodStart)) + 1;
+        return Math.max(1, days) / AVERAGE_MONTH_DAYS;
+      }
+      return 1;
+    default:
+      return 1;
+  }
+}
+
+export interface BudgetAllocationIssue {
+  budget: Budget; // The group or overall budget that is over-allocated
+  allocated: number; // Monthly equivalent of the budgets nested inside it
+  limit: number; // Monthly equivalent of its own limit
+}
+
+// Monthly equivalents are approximate, so ignore differences under a dollar
+const ALLOCATION_TOLERANCE = 1;
+
+const toMonthly = (budget: Budget) => budget.limit / getBudgetMonthFactor(budget);
+
+/**
+ * Group and overall budgets whose nested budgets promise more than they allow.
+ * Category budgets nest in their group's budget; the overall budget holds every
+ * group budget plus category budgets whose group has none. Periods differ, so
+ * everything is compared per month.
+ */
+export function getBudgetAllocationIssues(budgets: Budget[], categories: Category[]): BudgetAllocationIssue[] {
+  const groupBudgets = budgets.filter((b) => b.scope === 'group');
+  const budgetedGroups = new Set(groupBudgets.map((b) => b.group));
+  const categoryBudgets = budgets.filter((b) => b.scope === 'category');
+  const issues: BudgetAllocationIssue[] = [];
+
+  for (const groupBudget of groupBudgets) {
+    const allocated = categoryBudgets
+      .filter((b) => getBudgetParentGroup(b, categories) === groupBudget.group)
+      .reduce((sum, b) => sum + toMonthly(b), 0);
+    const limit = toMonthly(groupBudget);
+    if (allocated > limit + ALLOCATION_TOLERANCE) issues.push({ budget: groupBudget, allocated, limit });
+  }
+
+  const totalBudget = budgets.find((b) => b.scope === 'total');
+  if (totalBudget) {
+    const allocated =
+      groupBudgets.reduce((sum, b) => sum + toMonthly(b), 0) +
+      categoryBudgets
+        .filter((b) => !budgetedGroups.has(getBudgetParentGroup(b, categories)))
+        .reduce((sum, b) => sum + toMonthly(b), 0);
+    const limit = toMonthly(totalBudget);
+    if (allocated > limit + ALLOCATION_TOLERANCE) issues.push({ budget: totalBudget, allocated, limit });
+  }
+  return issues;
+}
+
+export function describeBudgetAllocationIssue(issue: BudgetAllocationIssue, homeCurrency: string): string {
+  const allocated = `${formatCurrencyAmount(issue.allocated, homeCurrency, homeCurrency, 0)}/mo`;
+  const limit = `${formatCurrencyAmount(issue.limit, homeCurrency, homeCurrency, 0)}/mo`;
+  return issue.budget.scope === 'group'
+    ? `${issue.budget.group} category budgets add up to ${allocated}, more than its ${limit} group budget`
+    : `Budgets add up to ${allocated}, more than the ${limit} overall budget`;
+}
+
+export function formatBudgetWindow(budget: Budget, window: BudgetWindow): string {
+  switch (budget.period) {
+    case 'monthly':
+      return format(window.start, 'MMMM yyyy');
+    case 'quarterly':
+      return format(window.start, 'QQQ yyyy');
+    case 'yearly':
+      return format(window.start, 'yyyy');
+    default:
+      return isSameYear(window.start, window.end)
+        ? `${format(window.start, 'MMM d')} – ${format(window.end, 'MMM d')}`
+        : `${format(window.start, 'MMM d, yyyy')} – ${format(window.end, 'MMM d, yyyy')}`;
+  }
+}
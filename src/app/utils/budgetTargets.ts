@@ -0,0 +1,58 @@
+import { Budget, Category, Transaction } from '../types';
+import { getCategoryAllocations } from './splits';
+
+export type BudgetTarget = Pick<Budget, 'scope' | 'categoryId' | 'group'>;
+
+export interface BudgetDisplay {
+  name: string;
+  icon: string;
+  color: string;
+}
+
+const GROUP_BUDGET_DISPLAY = { icon: 'Layers', color: '#6366F1' };
+const TOTAL_BUDGET_DISPLAY = { name: 'All spending', icon: 'Wallet', color: '#2563EB' };
+
+/** One budget per target: a category, a canonical group, or the overall cap. */
+export function getBudgetTargetKey(target: BudgetTarget): string {
+  switch (target.scope) {
+    case 'group':
+      return `group:${target.group}`;
+    case 'total':
+      return 'total';
+    default:
+      return `category:${target.categoryId}`;
+  }
+}
+
+/** Which categories' spending counts toward a budget. */
+export function getBudgetCategoryMatcher(target: BudgetTarget, categories: Category[]): (categoryId: string) => boolean {
+  if (target.scope === 'total') return () => true;
+  if (target.scope === 'group') {
+    const members = new Set(categories.filter((c) => c.group === target.group).map((c) => c.id));
+    return (categoryId) => members.has(categoryId);
+  }
+  return (categoryId) => categoryId === target.categoryId;
+}
+
+/** The part of a transaction's spend that lands in categories the matcher accepts. */
+export function getMatchedSpendAmount(transaction: Transaction, matches: (categoryId: string) => boolean): number {
+  return getCategoryAllocations(transaction)
+    .filter((allocation) => matches(allocation.categoryId))
+    .reduce((sum, allocation) => sum + allocation.amount, 0);
+}
+
+export function getBudgetDisplay(target: BudgetTarget, categories: Category[]): BudgetDisplay {
+  if (target.scope === 'total') return TOTAL_BUDGET_DISPLAY;
+  if (target.scope === 'group') return { name: target.group || 'Group', ...GROUP_BUDGET_DISPLAY };
+
+  const category = categories.find((c) => c.id === target.categoryId);
+  return category
+    ? { name: category.name, icon: category.icon, color: category.color }
+    : { name: 'Deleted category', icon: 'Box', color: '#94A3B8' };
+}
+
+/** Category budgets count toward the group budget of the group their category belongs to. */
+export function getBudgetParentGroup(budget: Budget, categories: Category[]): string | undefined {
+  if (budget.scope !== 'category') return undefined;
+  return categories.find((c) => c.id === budget.categoryId)?.group;
+}
@@ -0,0 +1,102 @@
+import { Transaction, TransactionDirection } from '../types';
+import { formatCurrencyAmount } from './currency';
+
+export const TRANSACTION_DIRECTIONS: TransactionDirection[] = ['expense', 'income', 'refund', 'transfer'];
+
+export const TRANSACTION_DIRECTION_LABELS: Record<TransactionDirection, string> = {
+  expense: 'Expense',
+  income: 'Income',
+  refund: 'Refund',
+  transfer: 'Transfer',
+};
+
+export interface CashFlowSummary {
+  spent: number; // Gross expenses
+  refunds: number;
+  income: number;
+  netSpend: number; // Expenses minus refunds
+  net: number; // Money in minus money out; transfers are ignored
+}
+
+/**
+ * Amount in the home currency. Falls back to the raw amount for transactions
+ * that were entered in the home currency (or never went through conversion).
+ */
+export function getHomeAmount(transaction: Pick<Transaction, 'amount' | 'homeAmount'>): number {
+  return transaction.homeAmount ?? transaction.amount;
+}
+
+export function getTransactionDirection(transaction: Pick<Transaction, 'direction'>): TransactionDirection {
+  return transaction.direction ?? 'expense';
+}
+
+export function isTransactionDirection(value: string): value is TransactionDirection {
+  return (TRANSACTION_DIRECTIONS as string[]).includes(value);
+}
+
+/**
+ * Amount a transaction contributes to spending totals. Refunds reduce spend,
+ * while income and transfers between own accounts don't count as spending.
+ */
+export function getSpendAmount(transaction: Pick<Transaction, 'amount' | 'homeAmount' | 'direction'>): number {
+  switch (getTransactionDirection(transaction)) {
+    case 'expense':
+      return getHomeAmount(transaction);
+    case 'refund':
+      return -getHomeAmount(transaction);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Signed amount for net cash flow: positive when money came in, negative when it went out.
+ */
+export function getCashFlowAmount(transaction: Pick<Transaction, 'amount' | 'homeAmount' | 'direction'>): number {
+  switch (getTransactionDirection(transaction)) {
+    case 'income':
+    case 'refund':
+      return getHomeAmount(transaction);
+    case 'expense':
+      return -getHomeAmount(transaction);
+    default:
+      return 0;
+  }
+}
+
+export function isSpendingTransaction(transaction: Pick<Transaction, 'direction'>): boolean {
+  const direction = getTransactionDirection(transaction);
+  return direction === 'expense' || direction === 'refund';
+}
+
+export function summarizeCashFlow(transactions: Pick<Transaction, 'amount' | 'homeAmount' | 'direction'>[]): CashFlowSummary {
+  const summary: CashFlowSummary = { spent: 0, refunds: 0, income: 0, netSpend: 0, net: 0 };
+
+  transactions.forEach((transaction) => {
+    switch (getTransactionDirection(transaction)) {
+      case 'expense':
+        summary.spent += getHomeAmount(transaction);
+        break;
+      case 'refund':
+        summary.refunds += getHomeAmount(transaction);
+        break;
+      case 'income':
+        summary.income += getHomeAmount(transaction);
+        break;
+    }
+  });
+
+  summary.netSpend = summary.spent - summary.refunds;
+  summary.net = summary.income + summary.refunds - summary.spent;
+  return summary;
+}
+
+/**
+ * Signed amount in the currency it was entered in. Passing the home currency
+ * tags foreign amounts with their code.
+ */
+export function formatSignedAmount(transaction: Pick<Transaction, 'amount' | 'currency' | 'direction'>, homeCurrency?: string, fractionDigits = 2): string {
+  const direction = getTransactionDirection(transaction);
+  const prefix = direction === 'income' || direction === 'refund' ? '+' : '';
+  return `${prefix}${formatCurrencyAmount(transaction.amount, transaction.currency, homeCurrency, fractionDigits)}`;
+}
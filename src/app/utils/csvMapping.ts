@@ -0,0 +1,206 @@
+import { isValid, parse } from 'date-fns';
+import { CsvAmountConvention, CsvColumnMapping, CsvImportProfile } from '../types';
+import { SpreadsheetExpenseRow, SpreadsheetImportIssue } from './spreadsheetImport';
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CsvDateFormatOption {
+  pattern: string;
+  label: string;
+}
+
+export interface CsvMappingResult {
+  expenses: SpreadsheetExpenseRow[];
+  issues: SpreadsheetImportIssue[];
+}
+
+export const CSV_MAPPING_SHEET = 'CSV';
+
+// Single-letter day/month tokens accept both "5" and "05"
+export const CSV_DATE_FORMATS: CsvDateFormatOption[] = [
+  { pattern: 'yyyy-M-d', label: 'YYYY-MM-DD' },
+  { pattern: 'M/d/yyyy', label: 'MM/DD/YYYY' },
+  { pattern: 'd/M/yyyy', label: 'DD/MM/YYYY' },
+  { pattern: 'd.M.yyyy', label: 'DD.MM.YYYY' },
+  { pattern: 'yyyy/M/d', label: 'YYYY/MM/DD' },
+  { pattern: 'M/d/yy', label: 'MM/DD/YY' },
+  { pattern: 'd/M/yy', label: 'DD/MM/YY' },
+  { pattern: 'MMM d, yyyy', label: 'Jan 5, 2026' },
+  { pattern: 'd MMM yyyy', label: '5 Jan 2026' },
+];
+
+export const CSV_AMOUNT_CONVENTIONS: Array<{ value: CsvAmountConvention; label: string }> = [
+  { value: 'negative-is-expense', label: 'Negative amounts are spending' },
+  { value: 'positive-is-expense', label: 'Positive amounts are spending' },
+  { value: 'debit-credit-columns', label: 'Separate debit and credit columns' },
+];
+
+const HEADER_HINTS: Record<keyof CsvColumnMapping, RegExp> = {
+  date: /^(transaction\s*)?date$|posted|posting|booking|value\s*date|trans.*date|^date/i,
+  amount: /^amount|amount$|^value$|^sum$|betrag|montant/i,
+  debit: /debit|withdrawal|money\s*out|paid\s*out|outflow|spent/i,
+  credit: /credit|deposit|money\s*in|paid\s*in|inflow|received/i,
+  vendor: /description|payee|merchant|vendor|name|details|narrative|counterparty|memo/i,
+  category: /category/i,
+  notes: /notes?$|memo|reference|comment/i,
+};
+
+export function getHeaderSignature(headers: string[]): string {
+  return headers.map((header) => header.trim().toLowerCase()).join('|');
+}
+
+export function findProfileForHeaders(profiles: CsvImportProfile[], headers: string[]): CsvImportProfile | undefined {
+  const signature = getHeaderSignature(headers);
+  return profiles.find((profile) => profile.headerSignature === signature)
+    ?? profiles.find((profile) => isMappingUsable(profile.mapping, profile.amountConvention, headers));
+}
+
+/** Guess a mapping from header names; every field is left for the user to confirm. */
+export function suggestCsvMapping(headers: string[]): { mapping: CsvColumnMapping; amountConvention: CsvAmountConvention } {
+  const used = new Set<string>();
+  const pick = (field: keyof CsvColumnMapping) => {
+    const match = headers.find((header) => header && !used.has(header) && HEADER_HINTS[field].test(header));
+    if (match) used.add(match);
+    return match;
+  };
+
+  // Order matters: split debit/credit columns are claimed before a generic "amount" hint
+  const date = pick('date');
+  const debit = pick('debit');
+  const credit = debit ? pick('credit') : undefined;
+  const amount = debit && credit ? undefined : pick('amount');
+  const category = pick('category');
+  const vendor = pick('vendor');
+  const notes = pick('notes');
+
+  return {
+    mapping: {
+      date: date ?? '',
+      amount,
+      debit: amount ? undefined : debit,
+      credit: amount ? undefined : credit,
+      vendor: vendor ?? '',
+      category,
+      notes,
+    },
+    amountConvention: debit && credit && !amount ? 'debit-credit-columns' : 'negative-is-expense',
+  };
+}
+
+/** The first date format that reads every sampled value, or the first one that reads any. */
+export function detectDateFormat(values: string[]): string {
+  const sample = values.map(stripTime).filter(Boolean).slice(0, 50);
+  const full = CSV_DATE_FORMATS.find((option) => sample.every((value) => parseDateValue(value, option.pattern)));
+  if (full) return full.pattern;
+  const partial = CSV_DATE_FORMATS.find((option) => sample.some((value) => parseDateValue(value, option.pattern)));
+  return partial?.pattern ?? CSV_DATE_FORMATS[0].pattern;
+}
+
+export function isMappingUsable(mapping: CsvColumnMapping, convention: CsvAmountConvention, headers: string[]): boolean {
+  const has = (column?: string) => !!column && headers.includes(column);
+  const hasAmount = convention === 'debit-credit-columns'
+    ? has(mapping.debit) || has(mapping.credit)
+    : has(mapping.amount);
+  return has(mapping.date) && has(mapping.vendor) && hasAmount;
+}
+
+export function applyCsvMapping(
+  table: CsvTable,
+  mapping: CsvColumnMapping,
+  dateFormat: string,
+  convention: CsvAmountConvention,
+): CsvMappingResult {
+  const column = (name?: string) => (name ? table.headers.indexOf(name) : -1);
+  const dateIndex = column(mapping.date);
+  const vendorIndex = column(mapping.vendor);
+  const amountIndex = column(mapping.amount);
+  const debitIndex = column(mapping.debit);
+  const creditIndex = column(mapping.credit);
+  const categoryIndex = column(mapping.category);
+  const notesIndex = column(mapping.notes);
+  const read = (row: string[], index: number) => (index >= 0 ? row[index]?.trim() ?? '' : '');
+
+  const expenses: SpreadsheetExpenseRow[] = [];
+  const issues: SpreadsheetImportIssue[] = [];
+
+  table.rows.forEach((row, index) => {
+    // Header is row 1 in the file
+    const rowNumber = index + 2;
+    const rawDate = read(row, dateIndex);
+    const date = parseDateValue(stripTime(rawDate), dateFormat);
+    if (!date) {
+      issues.push({ sheet: CSV_MAPPING_SHEET, row: rowNumber, message: `Couldn't read the date "${rawDate}".` });
+      return;
+    }
+
+    let signed: number | null;
+    if (convention === 'debit-credit-columns') {
+      const debit = parseAmountValue(read(row, debitIndex));
+      const credit = parseAmountValue(read(row, creditIndex));
+      signed = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+    } else {
+      const amount = parseAmountValue(read(row, amountIndex));
+      signed = amount === null ? null : convention === 'negative-is-expense' ? amount : -amount;
+    }
+    if (!signed) {
+      issues.push({ sheet: CSV_MAPPING_SHEET, row: rowNumber, message: 'No amount on this row.' });
+      return;
+    }
+
+    const vendor = read(row, vendorIndex).replace(/\s+/g, ' ');
+    if (!vendor) {
+      issues.push({ sheet: CSV_MAPPING_SHEET, row: rowNumber, message: 'Vendor is empty.' });
+      return;
+    }
+
+    expenses.push({
+      rowNumber,
+      date,
+      amount: Math.abs(signed),
+      direction: signed < 0 ? 'expense' : 'income',
+      vendor,
+      category: read(row, categoryIndex),
+      notes: read(row, notesIndex) || undefined,
+      isRecurring: false,
+    });
+  });
+
+  return { expenses, issues };
+}
+
+function stripTime(value: string): string {
+  return value.trim().replace(/[ T]\d{1,2}:\d{2}(:\d{2})?(\.\d+)?\s*([ap]m|Z|[+-]\d{2}:?\d{2})?$/i, '');
+}
+
+function parseDateValue(value: string, pattern: string): string | null {
+  if (!value) return null;
+  const parsed = parse(value, pattern, new Date());
+  if (!isValid(parsed) || parsed.getFullYear() < 1900) return null;
+  const month = `${parsed.getMonth() + 1}`.padStart(2, '0');
+  const day = `${parsed.getDate()}`.padStart(2, '0');
+  return `${parsed.getFullYear()}-${month}-${day}`;
+}
+
+/** Reads "1,234.56", "1.234,56", "$-12.50", "(12.50)" and "12.50 CR" style amounts. */
+function parseAmountValue(value: string): number | null {
+  let text = value.replace(/[^\d.,()\-+A-Za-z]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  const negative = /^\(.*\)$/.test(text) || text.includes('-') || /DR$/i.test(text);
+  text = text.replace(/[^\d.,]/g, '');
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot && text.length - lastComma - 1 <= 2) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = Number(text);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
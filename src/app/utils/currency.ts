@@ -0,0 +1,189 @@
+import { ExchangeRate, Transaction } from '../types';
+
+export const DEFAULT_CURRENCY = 'CAD';
+
+export const CURRENCIES = [
+  { code: 'CAD', name: 'Canadian Dollar', symbol: '$' },
+  { code: 'USD', name: 'US Dollar', symbol: '$' },
+  { code: 'EUR', name: 'Euro', symbol: '€' },
+  { code: 'GBP', name: 'British Pound', symbol: '£' },
+  { code: 'AUD', name: 'Australian Dollar', symbol: '$' },
+  { code: 'ILS', name: 'Israeli New Shekel', symbol: '₪' },
+];
+
+export interface ExchangeRateImportIssue {
+  row: number;
+  message: string;
+}
+
+export class ExchangeRateImportError extends Error {
+  issues: ExchangeRateImportIssue[];
+
+  constructor(issues: ExchangeRateImportIssue[]) {
+    const preview = issues.slice(0, 5).map((issue) => `Row ${issue.row}: ${issue.message}`);
+    const suffix = issues.length > 5 ? `\n...and ${issues.length - 5} more.` : '';
+    super(`Rate import failed:\n${preview.join('\n')}${suffix}`);
+    this.name = 'ExchangeRateImportError';
+    this.issues = issues;
+  }
+}
+
+export function normalizeCurrencyCode(code: string | undefined | null): string | undefined {
+  const trimmed = code?.trim().toUpperCase();
+  return trimmed && /^[A-Z]{3}$/.test(trimmed) ? trimmed : undefined;
+}
+
+export function getCurrencySymbol(code: string | undefined): string {
+  return CURRENCIES.find((c) => c.code === code)?.symbol ?? '$';
+}
+
+/**
+ * Formats an amount in a given currency. Currencies that share the `$` symbol
+ * with the home currency get their code appended so they can't be confused.
+ */
+export function formatCurrencyAmount(amount: number, currency: string | undefined, homeCurrency?: string, fractionDigits = 2): string {
+  const symbol = getCurrencySymbol(currency);
+  const base = `${amount < 0 ? '-' : ''}${symbol}${Math.abs(amount).toFixed(fractionDigits)}`;
+  if (!currency || !homeCurrency || currency === homeCurrency) return base;
+  return `${base} ${currency}`;
+}
+
+const activeRates = (rates: ExchangeRate[]) => rates.filter((r) => !r.deletedAt && r.rate > 0);
+
+/**
+ * Latest rate on or before `date`, falling back to the earliest later rate so a
+ * transaction entered before the first recorded rate still converts.
+ */
+function pickRateForDate(candidates: { rate: number; date: string }[], date: string): number | null {
+  if (candidates.length === 0) return null;
+
+  const sorted = [...candidates].sort((a, b) => a.date.localeCompare(b.date));
+  let picked = sorted[0];
+  for (const candidate of sorted) {
+    if (candidate.date > date) break;
+    picked = candidate;
+  }
+  return picked.rate;
+}
+
+/**
+ * Looks up the rate converting `from` into `to` on a date. Stored pairs are used
+ * in either direction; `null` means the table has no way to convert.
+ */
+export function findExchangeRate(rates: ExchangeRate[], from: string, to: string, date: string): number | null {
+  if (from === to) return 1;
+
+  const candidates = activeRates(rates).flatMap((r) => {
+    if (r.fromCurrency === from && r.toCurrency === to) return [{ rate: r.rate, date: r.date }];
+    if (r.fromCurrency === to && r.toCurrency === from) return [{ rate: 1 / r.rate, date: r.date }];
+    return [];
+  });
+
+  return pickRateForDate(candidates, date);
+}
+
+/**
+ * Rate for converting a transaction into the home currency. The rate captured on
+ * the transaction wins; the table is only consulted when it is missing or was
+ * captured against a different home currency.
+ */
+export function getTransactionRate(
+  transaction: Pick<Transaction, 'currency' | 'exchangeRate' | 'exchangeRateCurrency' | 'date'>,
+  homeCurrency: string,
+  rates: ExchangeRate[]
+): number | null {
+  const currency = transaction.currency || homeCurrency;
+  if (currency === homeCurrency) return 1;
+
+  if (transaction.exchangeRate && transaction.exchangeRateCurrency === homeCurrency) {
+    return transaction.exchangeRate;
+  }
+
+  return findExchangeRate(rates, currency, homeCurrency, transaction.date);
+}
+
+/**
+ * Attaches `homeAmount` to every transaction. Transactions without a usable rate
+ * keep their raw amount so totals degrade gracefully instead of dropping them.
+ */
+export function applyHomeCurrency(transactions: Transaction[], homeCurrency: string, rates: ExchangeRate[]): Transaction[] {
+  return transactions.map((t) => {
+    if (!t.currency || t.currency === homeCurrency) return t;
+    const rate = getTransactionRate(t, homeCurrency, rates);
+    return { ...t, homeAmount: rate === null ? t.amount : roundToCents(t.amount * rate) };
+  });
+}
+
+export function getMissingRateCurrencies(transactions: Transaction[], homeCurrency: string, rates: ExchangeRate[]): string[] {
+  const missing = new Set<string>();
+  transactions.forEach((t) => {
+    if (t.deletedAt || !t.currency || t.currency === homeCurrency) return;
+    if (getTransactionRate(t, homeCurrency, rates) === null) missing.add(t.currency);
+  });
+  return Array.from(missing).sort();
+}
+
+export function roundToCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+const splitCsvLine = (line: string) =>
+  line.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+
+/**
+ * Parses a CSV of rates with a header row of `date,currency,rate` (or
+ * `date,from,to,rate`). Rows without a `to` column convert into `homeCurrency`.
+ */
+export function parseExchangeRateCsv(text: string, homeCurrency: string): Omit<ExchangeRate, 'id' | 'createdAt'>[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) {
+    throw new ExchangeRateImportError([{ row: 1, message: 'The file is empty.' }]);
+  }
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const dateIndex = header.indexOf('date');
+  const fromIndex = header.indexOf('from') >= 0 ? header.indexOf('from') : header.indexOf('currency');
+  const toIndex = header.indexOf('to');
+  const rateIndex = header.indexOf('rate');
+
+  if (dateIndex < 0 || fromIndex < 0 || rateIndex < 0) {
+    throw new ExchangeRateImportError([{ row: 1, message: 'Header must include date, currency (or from), and rate columns.' }]);
+  }
+
+  const issues: ExchangeRateImportIssue[] = [];
+  const parsed: Omit<ExchangeRate, 'id' | 'createdAt'>[] = [];
+
+  lines.slice(1).forEach((line, index) => {
+    const row = index + 2;
+    const cells = splitCsvLine(line);
+    const date = cells[dateIndex];
+    const fromCurrency = normalizeCurrencyCode(cells[fromIndex]);
+    const toCurrency = toIndex >= 0 ? normalizeCurrencyCode(cells[toIndex]) : homeCurrency;
+    const rate = Number(cells[rateIndex]);
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      issues.push({ row, message: 'date must be in YYYY-MM-DD format.' });
+      return;
+    }
+    if (!fromCurrency || !toCurrency) {
+      issues.push({ row, message: 'currency codes must be 3 letters.' });
+      return;
+    }
+    if (fromCurrency === toCurrency) {
+      issues.push({ row, message: 'from and to currencies must differ.' });
+      return;
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      issues.push({ row, message: 'rate must be a positive number.' });
+      return;
+    }
+
+    parsed.push({ fromCurrency, toCurrency, rate, date, source: 'import' });
+  });
+
+  if (issues.length > 0) {
+    throw new ExchangeRateImportError(issues);
+  }
+
+  return parsed;
+}
@@ -0,0 +1,82 @@
+import { format, parseISO } from 'date-fns';
+import { Transaction } from '../types';
+
+/** Which records an export covers: everything, the Home filter as it stands, or a date range. */
+export type ExportScope =
+  | { kind: 'all' }
+  | { kind: 'filter' }
+  | { kind: 'range'; start: Date; end: Date };
+
+export function describeExportScope(scope: ExportScope): string {
+  switch (scope.kind) {
+    case 'filter':
+      return 'Current filter';
+    case 'range':
+      return `${format(scope.start, 'MMM d, yyyy')} – ${format(scope.end, 'MMM d, yyyy')}`;
+    default:
+      return 'All data';
+  }
+}
+
+/** Suffix that keeps scoped exports from overwriting a full one in the downloads folder. */
+export function getExportFileSuffix(scope: ExportScope): string {
+  switch (scope.kind) {
+    case 'filter':
+      return '-filtered';
+    case 'range':
+      return `-${format(scope.start, 'yyyy-MM-dd')}-to-${format(scope.end, 'yyyy-MM-dd')}`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Saved records an export should contain. `filtered` is the expanded list the
+ * Home filter produces; it is only used to learn which rules and rows it keeps.
+ * Recurring rules are kept when any part of their schedule overlaps the range.
+ */
+export function selectExportTransactions(
+  scope: ExportScope,
+  transactions: Transaction[],
+  filtered: Transaction[],
+): Transaction[] {
+  let selected = transactions.filter((t) => !t.deletedAt && !t.isVirtual);
+
+  if (scope.kind === 'filter') {
+    // Occurrences carry their rule's id as a prefix, so match rules through them too
+    const kept = new Set(filtered.map((t) => (t.isVirtual ? t.id.slice(0, -11) : t.id)));
+    selected = selected.filter((t) => kept.has(t.id));
+  }
+
+  if (scope.kind === 'range') {
+    const start = format(scope.start, 'yyyy-MM-dd');
+    const end = format(scope.end, 'yyyy-MM-dd');
+    selected = selected.filter((t) => {
+      if (!t.isRecurring) return t.date >= start && t.date <= end;
+      const ruleEnd = [t.endDate, t.endedAt].filter(Boolean).sort()[0];
+      return t.date <= end && (!ruleEnd || ruleEnd >= start);
+    });
+  }
+
+  return selected;
+}
+
+/** Expanded transactions (occurrences included) that fall inside a period. */
+export function getTransactionsInPeriod(transactions: Transaction[], start: Date, end: Date): Transaction[] {
+  return transactions.filter((t) => {
+    if (t.deletedAt || t.isSkipped) return false;
+    const date = parseISO(t.date);
+    return date >= start && date <= end;
+  });
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -1,6 +1,8 @@
 import { Transaction, Category } from '../types';
 import { format, parseISO, addDays } from 'date-fns';
 import { toast } from 'sonner';
+import { getSpendAmount } from './cashFlow';
+import { getCategoryAllocations } from './splits';
 
 export function downloadICS(
     transactions: Transaction[],
@@ -98,16 +100,15 @@ export function downloadICS(
 
     // Generate an event for each day
     sortedDays.forEach(([dateStr, dayTransactions]) => {
-        const totalSpent = dayTransactions.reduce((sum, t) => sum + t.amount, 0);
+        const totalSpent = dayTransactions.reduce((sum, t) => sum + getSpendAmount(t), 0);
 
         // Group day's transactions by category for perfectly exact breakdowns
         const categoryTotals: Record<string, number> = {};
 
         dayTransactions.forEach(t => {
-            if (!categoryTotals[t.category]) {
-                categoryTotals[t.category] = 0;
-            }
-            categoryTotals[t.category] += t.amount;
+            getCategoryAllocations(t).forEach(({ categoryId, amount }) => {
+                categoryTotals[categoryId] = (categoryTotals[categoryId] || 0) + amount;
+            });
         });
 
         // Find dominant category ID to select the representative emoji
@@ -0,0 +1,371 @@
+import { format, parseISO } from 'date-fns';
+import { Budget, Category, Transaction } from '../types';
+import { getBudgetShareForRange } from './budgetPeriods';
+import { getBudgetDisplay } from './budgetTargets';
+import { getCashFlowAmount, getSpendAmount, getTransactionDirection, isSpendingTransaction, summarizeCashFlow } from './cashFlow';
+import { formatCurrencyAmount, getCurrencySymbol } from './currency';
+import { getCategoryAllocations } from './splits';
+
+export interface MonthlyStatementInput {
+  period: { start: Date; end: Date };
+  title: string; // Month name, or the date range for custom periods
+  scopeLabel?: string; // Shown under the title when the statement is filtered
+  transactions: Transaction[]; // Expanded and converted into the home currency, limited to the period
+  budgetTransactions: Transaction[]; // Unfiltered, so budgets compare against all spending
+  categories: Category[];
+  budgets: Budget[];
+  homeCurrency: string;
+}
+
+type Rgb = [number, number, number];
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TOP_VENDORS = 10;
+
+const BLACK: Rgb = [0.07, 0.07, 0.09];
+const GRAY: Rgb = [0.42, 0.45, 0.5];
+const LIGHT_GRAY: Rgb = [0.95, 0.96, 0.97];
+const RULE_GRAY: Rgb = [0.9, 0.91, 0.92];
+const GREEN: Rgb = [0.09, 0.64, 0.29];
+const RED: Rgb = [0.86, 0.15, 0.15];
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126, used to right-align and truncate text
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Characters outside Latin-1 that the WinAnsi encoding still has a slot for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '•': 0x95, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+  align?: 'left' | 'right';
+}
+
+/** Just enough of a PDF writer for text and filled boxes in the standard Helvetica fonts. */
+class PdfDocument {
+  private pages: string[][] = [];
+  private ops: string[] = [];
+  y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** Start a new page when the next block wouldn't fit above the bottom margin. */
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + 16) this.addPage();
+  }
+
+  text(x: number, y: number, value: string, options: TextOptions = {}) {
+    const { size = 10, bold = false, color = BLACK, align = 'left' } = options;
+    const left = align === 'right' ? x - measureText(value, size, bold) : x;
+    this.ops.push(
+      `${formatColor(color)} rg BT /${bold ? 'F2' : 'F1'} ${size} Tf 1 0 0 1 ${round(left)} ${round(y)} Tm (${encodeText(value)}) Tj ET`,
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: Rgb) {
+    this.ops.push(`${formatColor(color)} rg ${round(x)} ${round(y)} ${round(width)} ${round(height)} re f`);
+  }
+
+  onEachPage(draw: (pageIndex: number) => void) {
+    const current = this.ops;
+    this.pages.forEach((ops, index) => {
+      this.ops = ops;
+      draw(index);
+    });
+    this.ops = current;
+  }
+
+  toBlob(): Blob {
+    const objects: string[] = [];
+    const fontObject = (name: string) => `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`;
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    objects.push(fontObject('Helvetica'));
+    objects.push(fontObject('Helvetica-Bold'));
+    this.pages.forEach((ops, index) => {
+      const stream = ops.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      );
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    });
+
+    // Text is escaped to ASCII, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    return new Blob([output], { type: 'application/pdf' });
+  }
+}
+
+/**
+ * A printable statement for one month (or a custom range): totals, spending by
+ * category, budgets against actual spending, top vendors and every transaction.
+ */
+export function buildMonthlyStatementPdf(input: MonthlyStatementInput): Blob {
+  const { period, transactions, categories, homeCurrency } = input;
+  const doc = new PdfDocument();
+  const money = (amount: number) => formatStatementAmount(amount, homeCurrency);
+  const categoryById = new Map(categories.map((category) => [category.id, category]));
+
+  // Header
+  doc.text(MARGIN, doc.y, 'CalendarSpent', { size: 9, color: GRAY });
+  doc.text(PAGE_WIDTH - MARGIN, doc.y, `Generated ${format(new Date(), 'MMM d, yyyy')}`, { size: 9, color: GRAY, align: 'right' });
+  doc.y -= 26;
+  doc.text(MARGIN, doc.y, 'Monthly Statement', { size: 20, bold: true });
+  doc.y -= 18;
+  doc.text(MARGIN, doc.y, input.title, { size: 12, color: GRAY });
+  if (input.scopeLabel) {
+    doc.text(PAGE_WIDTH - MARGIN, doc.y, input.scopeLabel, { size: 9, color: GRAY, align: 'right' });
+  }
+  doc.y -= 28;
+
+  // Totals
+  const summary = summarizeCashFlow(transactions);
+  const boxWidth = (CONTENT_WIDTH - 16) / 3;
+  [
+    { label: 'Spent', value: money(summary.netSpend), color: BLACK },
+    { label: 'Income', value: money(summary.income), color: GREEN },
+    { label: 'Net', value: money(summary.net), color: summary.net < 0 ? RED : GREEN },
+  ].forEach((box, index) => {
+    const x = MARGIN + index * (boxWidth + 8);
+    doc.rect(x, doc.y - 44, boxWidth, 52, LIGHT_GRAY);
+    doc.text(x + 12, doc.y - 10, box.label, { size: 9, color: GRAY });
+    doc.text(x + 12, doc.y - 32, box.value, { size: 15, bold: true, color: box.color });
+  });
+  doc.y -= 76;
+
+  // Spending by category
+  const byCategory = new Map<string, number>();
+  transactions.filter(isSpendingTransaction).forEach((transaction) => {
+    getCategoryAllocations(transaction).forEach((allocation) => {
+      byCategory.set(allocation.categoryId, (byCategory.get(allocation.categoryId) ?? 0) + allocation.amount);
+    });
+  });
+  const categoryRows = Array.from(byCategory.entries())
+    .filter(([, amount]) => amount > 0.005)
+    .sort((a, b) => b[1] - a[1]);
+  const categoryTotal = categoryRows.reduce((sum, [, amount]) => sum + amount, 0);
+
+  drawSectionTitle(doc, 'Spending by category');
+  if (categoryRows.length === 0) {
+    drawEmptyLine(doc, 'No spending in this period.');
+  }
+  categoryRows.forEach(([categoryId, amount]) => {
+    doc.ensureSpace(20);
+    const category = categoryById.get(categoryId);
+    const share = categoryTotal > 0 ? amount / categoryTotal : 0;
+    doc.rect(MARGIN, doc.y - 1, 8, 8, parseHexColor(category?.color));
+    doc.text(MARGIN + 16, doc.y, fitText(category?.name ?? 'Uncategorized', 170, 10), { size: 10 });
+    doc.rect(MARGIN + 196, doc.y, 170, 6, LIGHT_GRAY);
+    doc.rect(MARGIN + 196, doc.y, Math.max(1, 170 * share), 6, parseHexColor(category?.color));
+    doc.text(PAGE_WIDTH - MARGIN - 50, doc.y, money(amount), { size: 10, align: 'right' });
+    doc.text(PAGE_WIDTH - MARGIN, doc.y, `${Math.round(share * 100)}%`, { size: 10, color: GRAY, align: 'right' });
+    doc.y -= 18;
+  });
+  doc.y -= 16;
+
+  // Budgets vs. actual
+  drawSectionTitle(doc, 'Budgets vs. actual');
+  const budgetRows = input.budgets
+    .filter((budget) => !budget.deletedAt)
+    .map((budget) => ({
+      name: getBudgetDisplay(budget, categories).name,
+      ...getBudgetShareForRange(budget, input.budgetTransactions, categories, period),
+    }))
+    .filter((row) => row.limit > 0 || row.spent > 0);
+  if (budgetRows.length === 0) {
+    drawEmptyLine(doc, 'No budgets cover this period.');
+  } else {
+    drawColumnHeaders(doc, [['Budget', MARGIN, 'left'], ['Budgeted', MARGIN + 330, 'right'], ['Spent', MARGIN + 420, 'right'], ['Left', PAGE_WIDTH - MARGIN, 'right']]);
+    budgetRows.forEach((row) => {
+      doc.ensureSpace(18);
+      const left = row.limit - row.spent;
+      doc.text(MARGIN, doc.y, fitText(row.name, 250, 10), { size: 10 });
+      doc.text(MARGIN + 330, doc.y, money(row.limit), { size: 10, align: 'right' });
+      doc.text(MARGIN + 420, doc.y, money(row.spent), { size: 10, align: 'right' });
+      doc.text(PAGE_WIDTH - MARGIN, doc.y, money(left), { size: 10, bold: left < 0, color: left < 0 ? RED : BLACK, align: 'right' });
+      doc.y -= 18;
+    });
+  }
+  doc.y -= 16;
+
+  // Top vendors
+  drawSectionTitle(doc, 'Top vendors');
+  const vendors = new Map<string, { name: string; count: number; amount: number }>();
+  transactions.filter(isSpendingTransaction).forEach((transaction) => {
+    const key = transaction.vendor.trim().toLowerCase();
+    const entry = vendors.get(key) ?? { name: transaction.vendor.trim(), count: 0, amount: 0 };
+    entry.count += 1;
+    entry.amount += getSpendAmount(transaction);
+    vendors.set(key, entry);
+  });
+  const topVendors = Array.from(vendors.values())
+    .filter((vendor) => vendor.amount > 0.005)
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, TOP_VENDORS);
+  if (topVendors.length === 0) {
+    drawEmptyLine(doc, 'No spending in this period.');
+  } else {
+    drawColumnHeaders(doc, [['Vendor', MARGIN, 'left'], ['Transactions', MARGIN + 420, 'right'], ['Spent', PAGE_WIDTH - MARGIN, 'right']]);
+    topVendors.forEach((vendor, index) => {
+      doc.ensureSpace(18);
+      doc.text(MARGIN, doc.y, `${index + 1}.`, { size: 10, color: GRAY });
+      doc.text(MARGIN + 20, doc.y, fitText(vendor.name, 300, 10), { size: 10 });
+      doc.text(MARGIN + 420, doc.y, String(vendor.count), { size: 10, color: GRAY, align: 'right' });
+      doc.text(PAGE_WIDTH - MARGIN, doc.y, money(vendor.amount), { size: 10, align: 'right' });
+      doc.y -= 18;
+    });
+  }
+  doc.y -= 16;
+
+  // Every transaction, oldest first
+  drawSectionTitle(doc, 'Transactions');
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) {
+    drawEmptyLine(doc, 'No transactions in this period.');
+  } else {
+    drawColumnHeaders(doc, [['Date', MARGIN, 'left'], ['Vendor', MARGIN + 56, 'left'], ['Category', MARGIN + 290, 'left'], ['Amount', PAGE_WIDTH - MARGIN, 'right']]);
+  }
+  sorted.forEach((transaction) => {
+    doc.ensureSpace(16);
+    const amount = getCashFlowAmount(transaction);
+    const direction = getTransactionDirection(transaction);
+    const category = categoryById.get(transaction.category);
+    doc.text(MARGIN, doc.y, format(parseISO(transaction.date), 'MMM d'), { size: 9, color: GRAY });
+    doc.text(MARGIN + 56, doc.y, fitText(transaction.vendor, 224, 9), { size: 9 });
+    doc.text(MARGIN + 290, doc.y, fitText(direction === 'transfer' ? 'Transfer' : category?.name ?? 'Uncategorized', 130, 9), { size: 9, color: GRAY });
+    doc.text(PAGE_WIDTH - MARGIN, doc.y, direction === 'transfer' ? money(transaction.homeAmount ?? transaction.amount) : `${amount > 0 ? '+' : ''}${money(amount)}`, {
+      size: 9,
+      color: amount > 0 ? GREEN : BLACK,
+      align: 'right',
+    });
+    doc.y -= 15;
+  });
+
+  const pageCount = doc.pageCount;
+  doc.onEachPage((index) => {
+    doc.text(MARGIN, MARGIN - 20, input.title, { size: 8, color: GRAY });
+    doc.text(PAGE_WIDTH - MARGIN, MARGIN - 20, `Page ${index + 1} of ${pageCount}`, { size: 8, color: GRAY, align: 'right' });
+  });
+
+  return doc.toBlob();
+}
+
+function drawSectionTitle(doc: PdfDocument, title: string) {
+  doc.ensureSpace(48);
+  doc.text(MARGIN, doc.y, title, { size: 12, bold: true });
+  doc.y -= 8;
+  doc.rect(MARGIN, doc.y, CONTENT_WIDTH, 0.75, RULE_GRAY);
+  doc.y -= 16;
+}
+
+function drawColumnHeaders(doc: PdfDocument, columns: Array<[string, number, 'left' | 'right']>) {
+  columns.forEach(([label, x, align]) => doc.text(x, doc.y, label, { size: 8, bold: true, color: GRAY, align }));
+  doc.y -= 16;
+}
+
+function drawEmptyLine(doc: PdfDocument, message: string) {
+  doc.text(MARGIN, doc.y, message, { size: 10, color: GRAY });
+  doc.y -= 18;
+}
+
+/** Home-currency amount, spelling out the code when its symbol isn't in the PDF font (e.g. ₪). */
+function formatStatementAmount(amount: number, currency: string): string {
+  const formatted = formatCurrencyAmount(Math.abs(amount) < 0.005 ? 0 : amount, currency);
+  const symbol = getCurrencySymbol(currency);
+  return isEncodable(symbol) ? formatted : formatted.replace(symbol, `${currency} `);
+}
+
+function measureText(value: string, size: number, bold: boolean): number {
+  let width = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  // Helvetica-Bold runs about 5% wider
+  return (width * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+function fitText(value: string, maxWidth: number, size: number): string {
+  if (measureText(value, size, false) <= maxWidth) return value;
+  let text = value;
+  while (text.length > 1 && measureText(`${text}…`, size, false) > maxWidth) {
+    text = text.slice(0, -1);
+  }
+  return `${text.trimEnd()}…`;
+}
+
+function isEncodable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return (code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff) || char in WIN_ANSI_EXTRAS;
+}
+
+/** Escape a string for a PDF literal, writing anything past ASCII as a WinAnsi octal code. */
+function encodeText(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') {
+      encoded += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      encoded += char;
+    } else if ((code >= 0xa0 && code <= 0xff) || char in WIN_ANSI_EXTRAS) {
+      encoded += `\\${(WIN_ANSI_EXTRAS[char] ?? code).toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += '?';
+    }
+  }
+  return encoded;
+}
+
+function parseHexColor(color: string | undefined): Rgb {
+  const match = color?.match(/^#([0-9a-f]{6})$/i);
+  if (!match) return [0.58, 0.64, 0.72];
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+}
+
+function formatColor([r, g, b]: Rgb): string {
+  return `${round(r)} ${round(g)} ${round(b)}`;
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
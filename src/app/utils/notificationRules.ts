@@ -0,0 +1,111 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { AppNotification, Budget, Category, NotificationPreferences, Settings, Transaction } from '../types';
+import { BudgetProgress, formatBudgetWindow, getBudgetAvailable, getBudgetPace } from './budgetPeriods';
+import { getBudgetDisplay } from './budgetTargets';
+import { getTransactionDirection } from './cashFlow';
+import { formatCurrencyAmount } from './currency';
+
+export const THRESHOLD_OPTIONS = [50, 75, 80, 90, 100];
+export const LEAD_DAY_OPTIONS = [1, 3, 7];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  budgetAlerts: true,
+  budgetThresholds: [50, 80, 100],
+  categoryThresholds: {},
+  recurringAlerts: true,
+  recurringLeadDays: 3,
+  browserAlerts: false,
+};
+
+/** A notification the rules want raised; the inbox skips keys it has already seen. */
+export type NotificationCandidate = Pick<AppNotification, 'kind' | 'key' | 'title' | 'body' | 'link'>;
+
+export function getNotificationPreferences(settings: Pick<Settings, 'notificationPreferences'>): NotificationPreferences {
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...settings.notificationPreferences };
+}
+
+/** Category budgets can override the default thresholds; group and overall budgets use the defaults. */
+export function getBudgetThresholds(budget: Budget, preferences: NotificationPreferences): number[] {
+  const override = budget.scope === 'category' && budget.categoryId
+    ? preferences.categoryThresholds[budget.categoryId]
+    : undefined;
+  return [...(override ?? preferences.budgetThresholds)].sort((a, b) => a - b);
+}
+
+/**
+ * One alert per budget period for the highest threshold crossed so far.
+ * Crossing several at once (e.g. a large purchase) only raises the top one.
+ */
+export function evaluateBudgetRules(
+  progress: BudgetProgress[],
+  categories: Category[],
+  preferences: NotificationPreferences,
+  homeCurrency: string,
+  today = new Date()
+): NotificationCandidate[] {
+  if (!preferences.budgetAlerts) return [];
+
+  const candidates: NotificationCandidate[] = [];
+  for (const item of progress) {
+    const { budget, window, spent } = item;
+    if (!getBudgetPace(window, spent, today).isActive) continue;
+
+    const limit = getBudgetAvailable(item);
+    if (limit <= 0) continue;
+    const percent = (spent / limit) * 100;
+    const crossed = getBudgetThresholds(budget, preferences).filter((t) => percent >= t);
+    if (crossed.length === 0) continue;
+
+    const threshold = crossed[crossed.length - 1];
+    const { name } = getBudgetDisplay(budget, categories);
+    candidates.push({
+      kind: 'budget',
+      key: `budget:${budget.id}:${format(window.start, 'yyyy-MM-dd')}:${threshold}`,
+      title: threshold >= 100 ? `${name} is over budget` : `${name} reached ${threshold}% of its budget`,
+      body: `${formatCurrencyAmount(spent, homeCurrency, homeCurrency, 0)} of ${formatCurrencyAmount(limit, homeCurrency, homeCurrency, 0)} spent · ${formatBudgetWindow(budget, window)}`,
+      link: '/budgets',
+    });
+  }
+  return candidates;
+}
+
+/** Upcoming occurrences of recurring expenses within the lead time, including today's. */
+export function evaluateRecurringRules(
+  transactions: Transaction[],
+  categories: Category[],
+  preferences: NotificationPreferences,
+  homeCurrency: string,
+  today = new Date()
+): NotificationCandidate[] {
+  if (!preferences.recurringAlerts) return [];
+
+  const start = startOfDay(today);
+  const horizon = addDays(start, preferences.recurringLeadDays);
+  const candidates: NotificationCandidate[] = [];
+
+  for (const t of transactions) {
+    if (!t.isRecurring || t.isSkipped || t.deletedAt || t.isActive === false) continue;
+    if (getTransactionDirection(t) !== 'expense') continue;
+
+    const date = parseISO(t.date);
+    if (date < start || date > horizon) continue;
+
+    // Virtual occurrences are keyed `${ruleId}-${date}`
+    const occurrenceId = t.isVirtual ? t.id : `${t.id}-${t.date}`;
+    const ruleId = occurrenceId.slice(0, -(t.date.length + 1));
+    const days = differenceInCalendarDays(date, start);
+    const when = days === 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+    const category = categories.find((c) => c.id === t.category);
+
+    candidates.push({
+      kind: 'recurring',
+      key: `recurring:${occurrenceId}`,
+      title: `${t.vendor} is due ${when}`,
+      body: [formatCurrencyAmount(t.amount, t.currency, homeCurrency), category?.name, format(date, 'EEE, MMM d')]
+        .filter(Boolean)
+        .join(' · '),
+      link: `/settings/recurring/${ruleId}`,
+    });
+  }
+  return candidates;
+}
@@ -1,6 +1,14 @@
 import heic2any from 'heic2any';
+import { Receipt, TransactionAttachment } from '../types';
+import { ParsedReceipt, parseReceiptText } from './receiptParser';
 
 const MAX_RECEIPT_FILE_SIZE_BYTES = 35 * 1024 * 1024;
+// PDFs are stored as uploaded, so they get a tighter limit than photos that are recompressed
+const MAX_PDF_FILE_SIZE_BYTES = 10 * 1024 * 1024;
+const RECEIPT_MAX_EDGE = 1600;
+const RECEIPT_QUALITY = 0.8;
+const THUMBNAIL_MAX_EDGE = 240;
+const THUMBNAIL_QUALITY = 0.7;
 const SUPPORTED_RECEIPT_TYPES = new Set([
   'image/jpeg',
   'image/png',
@@ -9,21 +17,24 @@ const SUPPORTED_RECEIPT_TYPES = new Set([
   'image/heif',
 ]);
 
+export const PDF_MIME_TYPE = 'application/pdf';
+
 export class ReceiptFileValidationError extends Error {}
 
-const readBlobAsDataUrl = (blob: Blob) =>
-  new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(String(reader.result || ''));
-    reader.onerror = () => reject(reader.error || new Error('Failed to read receipt image'));
-    reader.readAsDataURL(blob);
-  });
+/** A receipt image ready to be stored, before it has an id. */
+export type PreparedReceiptImage = Pick<Receipt, 'image' | 'thumbnail' | 'width' | 'height'>;
+
+/** An image or PDF ready to be stored and attached to a transaction. */
+export type PreparedReceiptFile = PreparedReceiptImage & Pick<TransactionAttachment, 'name' | 'mimeType'>;
+
+export const isPdfAttachment = (attachment: Pick<TransactionAttachment, 'mimeType'>) =>
+  attachment.mimeType === PDF_MIME_TYPE;
 
-const isHeicLikeFile = (file: File) => file.type === 'image/heic' || file.type === 'image/heif';
+const isHeicLikeFile = (file: Blob) => file.type === 'image/heic' || file.type === 'image/heif';
 
-export const readReceiptFileAsDataUrl = async (file: File) => {
+const decodeReceiptFile = async (file: Blob) => {
   if (!isHeicLikeFile(file)) {
-    return readBlobAsDataUrl(file);
+    return file;
   }
 
   const converted = await heic2any({
@@ -32,20 +43,134 @@ export const readReceiptFileAsDataUrl = async (file: File) => {
     quality: 0.92,
   });
 
-  const normalizedBlob = Array.isArray(converted) ? converted[0] : converted;
-  return readBlobAsDataUrl(normalizedBlob as Blob);
+  return (Array.isArray(converted) ? converted[0] : converted) as Blob;
+};
+
+const renderJpeg = (bitmap: ImageBitmap, maxEdge: number, quality: number) =>
+  new Promise<{ blob: Blob; width: number; height: number }>((resolve, reject) => {
+    const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Canvas is not available to process the receipt'));
+      return;
+    }
+    // Transparent PNGs would otherwise turn black as JPEG
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(bitmap, 0, 0, width, height);
+    canvas.toBlob(
+      (blob) => (blob ? resolve({ blob, width, height }) : reject(new Error('Failed to encode receipt image'))),
+      'image/jpeg',
+      quality,
+    );
+  });
+
+/** Thumbnail and dimensions for a receipt image that was already resized, e.g. one downloaded from storage. */
+export const describeReceiptImage = async (image: Blob): Promise<PreparedReceiptImage> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const thumbnail = await renderJpeg(bitmap, THUMBNAIL_MAX_EDGE, THUMBNAIL_QUALITY);
+    return { image, thumbnail: thumbnail.blob, width: bitmap.width, height: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Decode (converting HEIC), downscale and re-encode a receipt as JPEG with a
+ * thumbnail, so phone photos of tens of megabytes are stored at a few hundred KB.
+ */
+export const prepareReceiptImage = async (file: Blob): Promise<PreparedReceiptImage> => {
+  const bitmap = await createImageBitmap(await decodeReceiptFile(file));
+  try {
+    const image = await renderJpeg(bitmap, RECEIPT_MAX_EDGE, RECEIPT_QUALITY);
+    const thumbnail = await renderJpeg(bitmap, THUMBNAIL_MAX_EDGE, THUMBNAIL_QUALITY);
+    return { image: image.blob, thumbnail: thumbnail.blob, width: image.width, height: image.height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** Images are compressed to JPEG; PDFs are kept as they are. */
+export const prepareReceiptFile = async (file: File): Promise<PreparedReceiptFile> => {
+  if (file.type === PDF_MIME_TYPE) {
+    return { image: file, name: file.name || 'Document.pdf', mimeType: PDF_MIME_TYPE };
+  }
+
+  const prepared = await prepareReceiptImage(file);
+  const baseName = file.name ? file.name.replace(/\.[^.]+$/, '') : 'Receipt';
+  return { ...prepared, name: `${baseName}.jpg`, mimeType: 'image/jpeg' };
 };
 
 export function validateReceiptFile(file: File) {
+  if (file.type === PDF_MIME_TYPE) {
+    if (file.size > MAX_PDF_FILE_SIZE_BYTES) {
+      throw new ReceiptFileValidationError('PDF attachments must be 10 MB or smaller.');
+    }
+    return;
+  }
+
   if (!file.type.startsWith('image/')) {
-    throw new ReceiptFileValidationError('Receipts must be uploaded as an image.');
+    throw new ReceiptFileValidationError('Attachments must be an image or a PDF.');
   }
 
   if (file.type && !SUPPORTED_RECEIPT_TYPES.has(file.type)) {
-    throw new ReceiptFileValidationError('Use JPG, PNG, WEBP, or HEIC receipt images.');
+    throw new ReceiptFileValidationError('Use JPG, PNG, WEBP, HEIC or PDF attachments.');
   }
 
   if (file.size > MAX_RECEIPT_FILE_SIZE_BYTES) {
     throw new ReceiptFileValidationError('Receipt images must be 35 MB or smaller.');
   }
 }
+
+type TesseractWorker = Awaited<ReturnType<typeof import('tesseract.js')['createWorker']>>;
+
+let ocrWorkerPromise: Promise<TesseractWorker> | null = null;
+let reportOcrProgress: ((progress: number) => void) | null = null;
+
+// Worker, core and language data are bundled under /tesseract/ (see vite.config.ts),
+// so recognition works offline and images never leave the device
+const getOcrWorker = () => {
+  if (!ocrWorkerPromise) {
+    const assetBase = new URL(`${import.meta.env.BASE_URL}tesseract/`, window.location.origin).href;
+    ocrWorkerPromise = import('tesseract.js')
+      .then(({ createWorker }) =>
+        createWorker('eng', 1, {
+          workerPath: `${assetBase}worker.min.js`,
+          corePath: assetBase,
+          langPath: assetBase.replace(/\/$/, ''),
+          workerBlobURL: false,
+          gzip: true,
+          logger: (message) => {
+            if (message.status === 'recognizing text') reportOcrProgress?.(message.progress);
+          },
+        }),
+      )
+      .catch((error) => {
+        ocrWorkerPromise = null;
+        throw error;
+      });
+  }
+  return ocrWorkerPromise;
+};
+
+/** Read the merchant, date, total and tax off a receipt image using on-device OCR. */
+export const extractReceiptData = async (
+  image: Blob,
+  onProgress?: (progress: number) => void,
+): Promise<ParsedReceipt> => {
+  const worker = await getOcrWorker();
+  reportOcrProgress = onProgress ?? null;
+  try {
+    const { data } = await worker.recognize(image);
+    return parseReceiptText(data.lines.map((line) => ({ text: line.text, confidence: line.confidence })));
+  } finally {
+    reportOcrProgress = null;
+  }
+};
@@ -0,0 +1,199 @@
+import { format, isValid, subYears } from 'date-fns';
+
+/** A line of recognised text; confidence is Tesseract's 0-100 score. */
+export interface OcrLine {
+  text: string;
+  confidence: number;
+}
+
+/** A value read off the receipt with a 0-1 confidence. */
+export interface ReceiptField<T> {
+  value: T;
+  confidence: number;
+}
+
+export interface ParsedReceipt {
+  vendor?: ReceiptField<string>;
+  date?: ReceiptField<string>; // ISO yyyy-MM-dd
+  total?: ReceiptField<number>;
+  tax?: ReceiptField<number>;
+}
+
+export type ReceiptConfidenceLevel = 'high' | 'medium' | 'low';
+
+export function getReceiptConfidenceLevel(confidence: number): ReceiptConfidenceLevel {
+  if (confidence >= 0.8) return 'high';
+  if (confidence >= 0.55) return 'medium';
+  return 'low';
+}
+
+// Money is only trusted with two decimals, so quantities, store numbers and percentages are ignored
+const AMOUNT_PATTERN = /(\d{1,3}(?:,\d{3})+|\d+)[.,](\d{2})(?![\d%])/g;
+
+const STRONG_TOTAL_PATTERN = /\b(grand\s*total|amount\s*due|balance\s*due|total\s*due|total\s*amount|amount\s*paid|total\s*paid)\b/i;
+const TOTAL_PATTERN = /\btotal\b/i;
+const NOT_TOTAL_PATTERN = /sub\s*-?\s*total|total\s*(tax|savings|discount|items?)|tax\s*total|items?\s*total/i;
+
+const TAX_PATTERN = /\b(tax|hst|gst|pst|qst|vat|tva)\b/i;
+const TAX_TOTAL_PATTERN = /total\s*tax|tax\s*total/i;
+const NOT_TAX_PATTERN = /before\s*tax|pre\s*-?\s*tax|excl|tax\s*exempt|\btotal\b(?!\s*tax)/i;
+
+const NOT_VENDOR_PATTERN = /\b(receipt|invoice|welcome|thank|customer|copy|store\s*#|tel|phone|fax|www|http|\.com|cashier|server|table|order|date|time)\b/i;
+const ADDRESS_PATTERN = /\d+\s+\w+.*\b(st|street|ave|avenue|rd|road|blvd|dr|drive|way|lane|ln|hwy|suite|unit)\b\.?/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+const parseAmounts = (text: string) =>
+  Array.from(text.matchAll(AMOUNT_PATTERN), (match) => parseFloat(`${match[1].replace(/,/g, '')}.${match[2]}`));
+
+const lastAmount = (text: string) => {
+  const amounts = parseAmounts(text);
+  return amounts.length > 0 ? amounts[amounts.length - 1] : null;
+};
+
+const lineConfidence = (line: OcrLine) => Math.max(0, Math.min(1, line.confidence / 100));
+
+function toTitleCase(text: string) {
+  return text.toLowerCase().replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+function findVendor(lines: OcrLine[]): ReceiptField<string> | undefined {
+  // The merchant name is almost always printed in the first few lines
+  const header = lines.slice(0, 6);
+  for (let index = 0; index < header.length; index++) {
+    const line = header[index];
+    const text = line.text.replace(/^[^A-Za-z0-9&']+|[^A-Za-z0-9&'.]+$/g, '').replace(/\s+/g, ' ').trim();
+    if (text.length < 3) continue;
+    if (NOT_VENDOR_PATTERN.test(text) || ADDRESS_PATTERN.test(text)) continue;
+
+    const letters = (text.match(/[A-Za-z]/g) || []).length;
+    if (letters / text.replace(/\s/g, '').length < 0.6) continue;
+
+    const value = text === text.toUpperCase() ? toTitleCase(text) : text;
+    return { value, confidence: lineConfidence(line) * (index === 0 ? 1 : 0.85) };
+  }
+  return undefined;
+}
+
+function buildDate(year: number, month: number, day: number) {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day);
+  if (!isValid(date) || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+function readDate(text: string): { date: Date; certainty: number } | null {
+  const iso = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (iso) {
+    const date = buildDate(+iso[1], +iso[2], +iso[3]);
+    if (date) return { date, certainty: 1 };
+  }
+
+  const dayFirstName = text.match(new RegExp(`\\b(\\d{1,2})\\s*${MONTH_NAME},?\\s*(\\d{2,4})\\b`, 'i'));
+  if (dayFirstName) {
+    const date = buildDate(+dayFirstName[3], MONTHS.indexOf(dayFirstName[2].toLowerCase()) + 1, +dayFirstName[1]);
+    if (date) return { date, certainty: 1 };
+  }
+
+  const monthFirstName = text.match(new RegExp(`\\b${MONTH_NAME}\\s*(\\d{1,2}),?\\s*(\\d{2,4})\\b`, 'i'));
+  if (monthFirstName) {
+    const date = buildDate(+monthFirstName[3], MONTHS.indexOf(monthFirstName[1].toLowerCase()) + 1, +monthFirstName[2]);
+    if (date) return { date, certainty: 1 };
+  }
+
+  const numeric = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})\b/);
+  if (numeric) {
+    const [first, second, year] = [+numeric[1], +numeric[2], +numeric[3]];
+    if (first > 12) {
+      const date = buildDate(year, second, first);
+      if (date) return { date, certainty: 0.95 };
+    } else if (second > 12) {
+      const date = buildDate(year, first, second);
+      if (date) return { date, certainty: 0.95 };
+    } else {
+      // 03/04 could be either order; assume month first but flag it
+      const date = buildDate(year, first, second);
+      if (date) return { date, certainty: 0.6 };
+    }
+  }
+
+  return null;
+}
+
+function findDate(lines: OcrLine[], today: Date): ReceiptField<string> | undefined {
+  let best: ReceiptField<string> | undefined;
+  for (const line of lines) {
+    const found = readDate(line.text);
+    if (!found) continue;
+
+    // Receipts from the future or the distant past are more likely misreads
+    const plausible = found.date <= today && found.date >= subYears(today, 2);
+    const confidence = lineConfidence(line) * found.certainty * (plausible ? 1 : 0.4);
+    if (!best || confidence > best.confidence) {
+      best = { value: format(found.date, 'yyyy-MM-dd'), confidence };
+    }
+  }
+  return best;
+}
+
+function findTotal(lines: OcrLine[]): ReceiptField<number> | undefined {
+  let best: (ReceiptField<number> & { rank: number }) | undefined;
+  for (const line of lines) {
+    if (NOT_TOTAL_PATTERN.test(line.text)) continue;
+    const rank = STRONG_TOTAL_PATTERN.test(line.text) ? 2 : TOTAL_PATTERN.test(line.text) ? 1 : 0;
+    if (rank === 0) continue;
+
+    const amount = lastAmount(line.text);
+    if (amount === null || amount <= 0) continue;
+
+    // Prefer the strongest keyword, then the largest amount (card tip lines repeat a smaller total)
+    if (!best || rank > best.rank || (rank === best.rank && amount > best.value)) {
+      best = { value: amount, confidence: lineConfidence(line) * (rank === 2 ? 1 : 0.9), rank };
+    }
+  }
+  if (best) return { value: best.value, confidence: best.confidence };
+
+  // No total line survived OCR; the largest amount on the receipt is a weak guess
+  let largest: ReceiptField<number> | undefined;
+  for (const line of lines) {
+    for (const amount of parseAmounts(line.text)) {
+      if (!largest || amount > largest.value) {
+        largest = { value: amount, confidence: lineConfidence(line) * 0.4 };
+      }
+    }
+  }
+  return largest;
+}
+
+function findTax(lines: OcrLine[], total?: number): ReceiptField<number> | undefined {
+  const taxLines = lines
+    .filter((line) => TAX_PATTERN.test(line.text))
+    .map((line) => ({ line, amount: lastAmount(line.text) }))
+    .filter((item): item is { line: OcrLine; amount: number } => item.amount !== null && item.amount > 0);
+
+  const totalLine = taxLines.find((item) => TAX_TOTAL_PATTERN.test(item.line.text));
+  const picked = totalLine ? [totalLine] : taxLines.filter((item) => !NOT_TAX_PATTERN.test(item.line.text));
+  if (picked.length === 0) return undefined;
+
+  const value = Math.round(picked.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+  if (total !== undefined && value >= total) return undefined;
+
+  const confidence = Math.min(...picked.map((item) => lineConfidence(item.line)));
+  return { value, confidence };
+}
+
+/** Pull the merchant, date, total and tax out of OCR lines from a receipt. */
+export function parseReceiptText(lines: OcrLine[], today = new Date()): ParsedReceipt {
+  const cleaned = lines
+    .map((line) => ({ ...line, text: line.text.trim() }))
+    .filter((line) => line.text.length > 0);
+
+  const total = findTotal(cleaned);
+  return {
+    vendor: findVendor(cleaned),
+    date: findDate(cleaned, today),
+    total,
+    tax: findTax(cleaned, total?.value),
+  };
+}
@@ -0,0 +1,154 @@
+import { Receipt, Transaction, TransactionAttachment } from '../types';
+import { storage } from './storage';
+import {
+  describeReceiptImage,
+  isPdfAttachment,
+  prepareReceiptImage,
+  PreparedReceiptFile,
+} from './receiptExtractionService';
+
+export type ReceiptVariant = 'image' | 'thumbnail';
+
+/** Fetches an attachment from remote storage when this device doesn't have it yet. */
+export type RemoteReceiptLoader = (attachment: TransactionAttachment) => Promise<Blob | null>;
+
+// Receipts that were attached but never saved on a transaction are dropped after a day
+const ORPHAN_RECEIPT_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Object URLs are shared between every list row showing the same receipt
+const urlCache = new Map<string, string>();
+const pendingUrls = new Map<string, Promise<string | null>>();
+
+export async function saveReceipt(prepared: PreparedReceiptFile, scope: string): Promise<TransactionAttachment> {
+  const { name, ...file } = prepared;
+  const receipt: Receipt = { ...file, id: crypto.randomUUID(), createdAt: Date.now() };
+  await storage.set('receipts', receipt.id, receipt, scope);
+  return { id: receipt.id, name, mimeType: prepared.mimeType };
+}
+
+export async function markReceiptDeleted(receiptId: string, scope: string) {
+  const receipt = await storage.get<Receipt>('receipts', receiptId, scope);
+  if (!receipt || receipt.deletedAt) return;
+  await storage.set('receipts', receiptId, { ...receipt, deletedAt: Date.now() }, scope);
+  releaseReceiptUrls(receiptId);
+}
+
+async function loadReceipt(attachment: TransactionAttachment, scope: string, loadRemote?: RemoteReceiptLoader) {
+  const local = await storage.get<Receipt>('receipts', attachment.id, scope);
+  if (local || !loadRemote) return local;
+
+  const image = await loadRemote(attachment);
+  if (!image) return null;
+
+  const described = isPdfAttachment(attachment) ? { image } : await describeReceiptImage(image);
+  const downloaded: Receipt = {
+    ...described,
+    mimeType: attachment.mimeType,
+    id: attachment.id,
+    createdAt: Date.now(),
+    uploadedAt: Date.now(),
+  };
+  await storage.set('receipts', attachment.id, downloaded, scope);
+  return downloaded;
+}
+
+/**
+ * An object URL for a stored attachment, downloading it first if only the
+ * remote copy exists. PDFs have no thumbnail, so that variant resolves to null.
+ */
+export function getReceiptUrl(
+  attachment: TransactionAttachment,
+  variant: ReceiptVariant,
+  scope: string,
+  loadRemote?: RemoteReceiptLoader,
+): Promise<string | null> {
+  if (variant === 'thumbnail' && isPdfAttachment(attachment)) return Promise.resolve(null);
+
+  const cacheKey = `${scope}:${attachment.id}:${variant}`;
+  const cached = urlCache.get(cacheKey);
+  if (cached) return Promise.resolve(cached);
+
+  let pending = pendingUrls.get(cacheKey);
+  if (!pending) {
+    pending = loadReceipt(attachment, scope, loadRemote)
+      .then((receipt) => {
+        const blob = receipt && !receipt.deletedAt ? receipt[variant] : undefined;
+        if (!blob) return null;
+        const url = URL.createObjectURL(blob);
+        urlCache.set(cacheKey, url);
+        return url;
+      })
+      .catch((error) => {
+        console.warn('Failed to load receipt', attachment.id, error);
+        return null;
+      })
+      .finally(() => pendingUrls.delete(cacheKey));
+    pendingUrls.set(cacheKey, pending);
+  }
+  return pending;
+}
+
+export function releaseReceiptUrls(receiptId?: string) {
+  for (const [key, url] of urlCache) {
+    if (receiptId && !key.includes(`:${receiptId}:`)) continue;
+    URL.revokeObjectURL(url);
+    urlCache.delete(key);
+  }
+}
+
+/**
+ * Move older receipt references into `attachments`: base64 data URLs saved
+ * inline on `photoUrl` (which were rewritten to IndexedDB and pushed in the
+ * expenses row on every sync) and the single `receiptId`.
+ */
+export async function migrateReceiptAttachments(transactions: Transaction[], scope: string) {
+  let changed = false;
+  const migrated: Transaction[] = [];
+
+  for (const t of transactions) {
+    const hasInlinePhoto = !!t.photoUrl?.startsWith('data:');
+    if (!hasInlinePhoto && !t.receiptId) {
+      migrated.push(t);
+      continue;
+    }
+    try {
+      const attachments = [...(t.attachments ?? [])];
+      if (t.receiptId && !attachments.some((a) => a.id === t.receiptId)) {
+        attachments.push({ id: t.receiptId, name: 'Receipt.jpg', mimeType: 'image/jpeg' });
+      }
+      if (hasInlinePhoto) {
+        const blob = await (await fetch(t.photoUrl!)).blob();
+        const prepared = await prepareReceiptImage(blob);
+        attachments.push(await saveReceipt({ ...prepared, name: 'Receipt.jpg', mimeType: 'image/jpeg' }, scope));
+      }
+      migrated.push({
+        ...t,
+        photoUrl: hasInlinePhoto ? undefined : t.photoUrl,
+        receiptId: undefined,
+        attachments,
+        updatedAt: Date.now(),
+      });
+      changed = true;
+    } catch (error) {
+      console.warn('Failed to migrate receipt for', t.id, error);
+      migrated.push(t);
+    }
+  }
+
+  return { transactions: migrated, changed };
+}
+
+/**
+ * Remove local receipts that never reached storage and are no longer needed:
+ * replaced ones, and ones no transaction points at (e.g. a save that failed).
+ * Uploaded receipts are left for sync, which also removes the remote copy.
+ */
+export async function pruneOrphanReceipts(transactions: Transaction[], scope: string) {
+  const referenced = new Set(transactions.flatMap((t) => (t.attachments ?? []).map((a) => a.id)));
+  const cutoff = Date.now() - ORPHAN_RECEIPT_AGE_MS;
+  for (const receipt of await storage.getAll<Receipt>('receipts', scope)) {
+    if (receipt.uploadedAt) continue;
+    const isOrphan = !referenced.has(receipt.id) && receipt.createdAt < cutoff;
+    if (receipt.deletedAt || isOrphan) await storage.remove('receipts', receipt.id, scope);
+  }
+}
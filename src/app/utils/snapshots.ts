@@ -0,0 +1,330 @@
+import { format } from 'date-fns';
+import { stableStringify } from './stableStringify';
+import { storage } from './storage';
+
+/*
+ * Local restore points. A snapshot copies every record of a storage scope into
+ * the snapshots/snapshotData stores, which clearScope leaves alone, so a bad
+ * import, sync merge or "Clear all data" can be undone on this device.
+ *
+ * Receipt files are left out: they are large blobs, and a restored transaction
+ * still points at its receipt, which stays in the receipts store (or in cloud
+ * storage) until the transaction is deleted.
+ */
+
+export const SNAPSHOT_STORES = [
+  'transactions',
+  'categories',
+  'vendorRules',
+  'settings',
+  'recurringExceptions',
+  'accounts',
+  'exchangeRates',
+  'budgets',
+  'notifications',
+  'importBatches',
+] as const;
+
+export type SnapshotStore = typeof SNAPSHOT_STORES[number];
+
+export type SnapshotReason = 'daily' | 'import' | 'sync' | 'clear' | 'restore' | 'manual';
+
+export interface SnapshotSummary {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  label?: string; // What was about to happen, e.g. the imported file name
+  counts: Record<SnapshotStore, number>; // Records that weren't deleted at the time
+}
+
+export interface SnapshotStoreDiff {
+  store: SnapshotStore;
+  added: string[]; // Created since the snapshot; a restore removes them
+  removed: string[]; // Deleted since the snapshot; a restore brings them back
+  changed: string[]; // Edited since the snapshot; a restore reverts them
+}
+
+type SnapshotEntries = Record<SnapshotStore, Array<[string, unknown]>>;
+
+interface SnapshotPayload {
+  id: string;
+  stores: SnapshotEntries;
+}
+
+type StoredRecord = Record<string, unknown> & { deletedAt?: number };
+
+// Snapshots of each kind kept per scope; the oldest is dropped when a new one is taken
+const RETENTION: Record<SnapshotReason, number> = {
+  daily: 7,
+  import: 5,
+  sync: 3,
+  clear: 3,
+  restore: 3,
+  manual: 5,
+};
+
+const SYNC_SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+
+// Records here sync by id, so a restore tombstones what it removes instead of
+// deleting it; otherwise the next pull would bring the records straight back
+const TOMBSTONED_STORES: SnapshotStore[] = [
+  'transactions',
+  'categories',
+  'vendorRules',
+  'recurringExceptions',
+  'accounts',
+  'exchangeRates',
+  'budgets',
+];
+
+// Sync bookkeeping belongs to this device, not to the data being restored
+const DEVICE_SETTINGS_KEYS = [
+  'lastPullAt',
+  'lastPushAt',
+  'lastSyncError',
+  'syncRevisions',
+  'syncStatus',
+  'syncRuns',
+  'systemCategoriesError',
+];
+
+export const SNAPSHOT_STORE_LABELS: Record<SnapshotStore, string> = {
+  transactions: 'Transactions',
+  categories: 'Categories',
+  vendorRules: 'Vendor rules',
+  settings: 'Settings',
+  recurringExceptions: 'Skipped occurrences',
+  accounts: 'Accounts',
+  exchangeRates: 'Exchange rates',
+  budgets: 'Budgets',
+  notifications: 'Notifications',
+  importBatches: 'Import history',
+};
+
+export async function listSnapshots(scope: string): Promise<SnapshotSummary[]> {
+  const snapshots = await storage.getAll<SnapshotSummary>('snapshots', scope);
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Copies the scope into a new snapshot. Returns null when there is nothing worth keeping. */
+export async function takeSnapshot(scope: string, reason: SnapshotReason, label?: string): Promise<SnapshotSummary | null> {
+  const stores = await readStores(scope);
+  const counts = countRecords(stores);
+  const hasRecords = SNAPSHOT_STORES.some((store) => store !== 'settings' && counts[store] > 0);
+  if (!hasRecords) return null;
+
+  const summary: SnapshotSummary = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    reason,
+    label,
+    counts,
+  };
+  const payload: SnapshotPayload = { id: summary.id, stores };
+
+  await storage.set('snapshotData', summary.id, payload, scope);
+  await storage.set('snapshots', summary.id, summary, scope);
+  await pruneSnapshots(scope, reason);
+  return summary;
+}
+
+/** Takes the day's snapshot unless one was already taken today. */
+export async function takeDailySnapshotIfDue(scope: string): Promise<SnapshotSummary | null> {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const snapshots = await listSnapshots(scope);
+  const hasToday = snapshots.some(
+    (snapshot) => snapshot.reason === 'daily' && format(snapshot.createdAt, 'yyyy-MM-dd') === today,
+  );
+  return hasToday ? null : takeSnapshot(scope, 'daily');
+}
+
+/** Sync runs often, so only the first sync in each hour gets a snapshot. */
+export async function takeSyncSnapshotIfDue(scope: string): Promise<SnapshotSummary | null> {
+  const snapshots = await listSnapshots(scope);
+  const lastSync = snapshots.find((snapshot) => snapshot.reason === 'sync');
+  if (lastSync && Date.now() - lastSync.createdAt < SYNC_SNAPSHOT_INTERVAL_MS) return null;
+  return takeSnapshot(scope, 'sync');
+}
+
+export async function deleteSnapshot(scope: string, id: string): Promise<void> {
+  await storage.remove('snapshots', id, scope);
+  await storage.remove('snapshotData', id, scope);
+}
+
+/**
+ * Puts the scope back the way it was when the snapshot was taken. The current
+ * data is snapshotted first, so a restore can itself be undone. Returns the
+ * ids of the records it re-stamped or tombstoned, by store.
+ */
+export async function restoreSnapshot(scope: string, id: string): Promise<Partial<Record<SnapshotStore, string[]>>> {
+  const payload = await loadPayload(scope, id);
+  await takeSnapshot(scope, 'restore');
+
+  const current = await readStores(scope);
+  const now = Date.now();
+  const restored = {} as SnapshotEntries;
+  const touched: Partial<Record<SnapshotStore, string[]>> = {};
+
+  SNAPSHOT_STORES.forEach((store) => {
+    const snapshotEntries = payload.stores[store] ?? [];
+
+    if (store === 'settings') {
+      const currentSettings = new Map(current.settings);
+      restored.settings = snapshotEntries.map(([key, value]) => {
+        const deviceValues = currentSettings.get(key) as StoredRecord | undefined;
+        if (!deviceValues) return [key, value];
+        return [key, withDeviceSettings(value as StoredRecord, deviceValues)];
+      });
+      return;
+    }
+
+    if (!TOMBSTONED_STORES.includes(store)) {
+      restored[store] = snapshotEntries;
+      return;
+    }
+
+    // Only records that differ are re-stamped, so the next sync pushes just the restore
+    const currentByKey = new Map(current[store]);
+    const snapshotKeys = new Set(snapshotEntries.map(([key]) => key));
+    const ids: string[] = [];
+    const entries: Array<[string, unknown]> = snapshotEntries.map(([key, value]) => {
+      const existing = currentByKey.get(key);
+      if (existing !== undefined && isSameRecord(existing, value)) return [key, existing];
+      ids.push(String((value as StoredRecord).id));
+      return [key, { ...(value as StoredRecord), updatedAt: now }];
+    });
+    current[store].forEach(([key, value]) => {
+      if (snapshotKeys.has(key)) return;
+      const record = value as StoredRecord;
+      if (record.deletedAt) {
+        entries.push([key, record]);
+        return;
+      }
+      ids.push(String(record.id));
+      entries.push([key, { ...record, deletedAt: now, updatedAt: now }]);
+    });
+    restored[store] = entries;
+    touched[store] = ids;
+  });
+
+  await storage.replaceEntries(restored, scope);
+  return touched;
+}
+
+/** What restoring the snapshot would change, store by store. Deleted records count as absent. */
+export async function diffSnapshot(scope: string, id: string): Promise<SnapshotStoreDiff[]> {
+  const payload = await loadPayload(scope, id);
+  const current = await readStores(scope);
+
+  return SNAPSHOT_STORES.map((store) => {
+    const before = new Map(activeEntries(store, payload.stores[store] ?? []));
+    const after = new Map(activeEntries(store, current[store]));
+    const diff: SnapshotStoreDiff = { store, added: [], removed: [], changed: [] };
+
+    after.forEach((value, key) => {
+      const previous = before.get(key);
+      if (previous === undefined) {
+        diff.added.push(describeRecord(store, key, value));
+      } else if (!isSameRecord(previous, value)) {
+        diff.changed.push(describeRecord(store, key, value));
+      }
+    });
+    before.forEach((value, key) => {
+      if (!after.has(key)) diff.removed.push(describeRecord(store, key, value));
+    });
+
+    return diff;
+  }).filter((diff) => diff.added.length + diff.removed.length + diff.changed.length > 0);
+}
+
+async function readStores(scope: string): Promise<SnapshotEntries> {
+  const stores = {} as SnapshotEntries;
+  for (const store of SNAPSHOT_STORES) {
+    stores[store] = await storage.getEntries(store, scope);
+  }
+  return stores;
+}
+
+async function loadPayload(scope: string, id: string): Promise<SnapshotPayload> {
+  const payload = await storage.get<SnapshotPayload>('snapshotData', id, scope);
+  if (!payload) {
+    throw new Error('This snapshot is no longer available.');
+  }
+  return payload;
+}
+
+async function pruneSnapshots(scope: string, reason: SnapshotReason) {
+  const sameReason = (await listSnapshots(scope)).filter((snapshot) => snapshot.reason === reason);
+  for (const snapshot of sameReason.slice(RETENTION[reason])) {
+    await deleteSnapshot(scope, snapshot.id);
+  }
+}
+
+function countRecords(stores: SnapshotEntries): Record<SnapshotStore, number> {
+  const counts = {} as Record<SnapshotStore, number>;
+  SNAPSHOT_STORES.forEach((store) => {
+    counts[store] = activeEntries(store, stores[store]).length;
+  });
+  return counts;
+}
+
+function activeEntries(store: SnapshotStore, entries: Array<[string, unknown]>): Array<[string, unknown]> {
+  if (store === 'settings') {
+    return entries.map(([key, value]) => [key, withoutDeviceSettings(value as StoredRecord)]);
+  }
+  return entries.filter(([, value]) => !(value as StoredRecord).deletedAt);
+}
+
+function withoutDeviceSettings(settings: StoredRecord): StoredRecord {
+  const copy = { ...settings };
+  DEVICE_SETTINGS_KEYS.forEach((field) => delete copy[field]);
+  return copy;
+}
+
+/** Restored settings with this device's sync bookkeeping in place of whatever they carried. */
+export function withDeviceSettings<T extends object>(restored: T, device: T): T {
+  const copy = withoutDeviceSettings(restored as StoredRecord);
+  DEVICE_SETTINGS_KEYS.forEach((field) => {
+    if (field in device) copy[field] = (device as StoredRecord)[field];
+  });
+  return copy as T;
+}
+
+// updatedAt only orders edits for sync, and a restore re-stamps it, so it doesn't count as a change
+function isSameRecord(a: unknown, b: unknown): boolean {
+  return stableStringify(withoutUpdatedAt(a)) === stableStringify(withoutUpdatedAt(b));
+}
+
+function withoutUpdatedAt(value: unknown): unknown {
+  if (!value || typeof value !== 'object') return value;
+  const copy = { ...(value as StoredRecord) };
+  delete copy.updatedAt;
+  return copy;
+}
+
+function describeRecord(store: SnapshotStore, key: string, value: unknown): string {
+  const record = value as Record<string, unknown>;
+  switch (store) {
+    case 'transactions':
+      return `${record.vendor} · ${record.date}`;
+    case 'categories':
+    case 'accounts':
+      return String(record.name);
+    case 'vendorRules':
+      return `"${record.vendorContains}"`;
+    case 'recurringExceptions':
+      return String(record.date);
+    case 'exchangeRates':
+      return `${record.fromCurrency} → ${record.toCurrency} · ${record.date}`;
+    case 'budgets':
+      return `${record.scope} budget · ${record.period}`;
+    case 'notifications':
+      return String(record.title);
+    case 'importBatches':
+      return String(record.label);
+    case 'settings':
+      return 'App settings';
+    default:
+      return key;
+  }
+}
@@ -0,0 +1,79 @@
+import { Transaction, TransactionSplit } from '../types';
+import { getSpendAmount } from './cashFlow';
+
+// Splits are entered in cents, so anything under half a cent is rounding noise
+const SPLIT_TOLERANCE = 0.005;
+
+export interface CategoryAllocation {
+  categoryId: string;
+  amount: number; // Spend amount in the home currency (negative for refunds)
+}
+
+type SplitSource = Pick<Transaction, 'amount' | 'homeAmount' | 'direction' | 'category' | 'splits'>;
+
+export function hasSplits(transaction: Pick<Transaction, 'splits'>): boolean {
+  return !!transaction.splits && transaction.splits.length > 1;
+}
+
+export function getSplitTotal(splits: TransactionSplit[]): number {
+  return splits.reduce((sum, split) => sum + (Number.isFinite(split.amount) ? split.amount : 0), 0);
+}
+
+/**
+ * Returns an error message when the splits can't be saved against `amount`, or
+ * null when they are valid.
+ */
+export function validateSplits(amount: number, splits: TransactionSplit[]): string | null {
+  if (splits.length < 2) return 'A split needs at least two lines';
+  if (splits.some(split => !split.category)) return 'Every split line needs a category';
+  if (splits.some(split => !(split.amount > 0))) return 'Every split line needs an amount above zero';
+
+  const remaining = amount - getSplitTotal(splits);
+  if (Math.abs(remaining) >= SPLIT_TOLERANCE) {
+    return remaining > 0
+      ? `$${remaining.toFixed(2)} is still unallocated`
+      : `Splits are $${Math.abs(remaining).toFixed(2)} over the total`;
+  }
+  return null;
+}
+
+/**
+ * The parent keeps a single category for views that can only show one; it is
+ * the line that received the most money.
+ */
+export function getPrimarySplitCategory(splits: TransactionSplit[]): string | undefined {
+  return [...splits].sort((a, b) => b.amount - a.amount)[0]?.category;
+}
+
+/**
+ * How a transaction's spend is attributed to categories. Unsplit transactions
+ * go entirely to their category; split lines are scaled by the parent's spend
+ * so refunds and currency conversion carry through to every line.
+ */
+export function getCategoryAllocations(transaction: SplitSource): CategoryAllocation[] {
+  const spend = getSpendAmount(transaction);
+  if (!hasSplits(transaction) || transaction.amount === 0) {
+    return [{ categoryId: transaction.category, amount: spend }];
+  }
+
+  const ratio = spend / transaction.amount;
+  return transaction.splits!.map((split) => ({
+    categoryId: split.category,
+    amount: split.amount * ratio,
+  }));
+}
+
+export function getCategorySpendAmount(transaction: SplitSource, categoryId: string): number {
+  return getCategoryAllocations(transaction)
+    .filter((allocation) => allocation.categoryId === categoryId)
+    .reduce((sum, allocation) => sum + allocation.amount, 0);
+}
+
+export function getTransactionCategoryIds(transaction: Pick<Transaction, 'category' | 'splits'>): string[] {
+  if (!hasSplits(transaction)) return [transaction.category];
+  return Array.from(new Set(transaction.splits!.map((split) => split.category)));
+}
+
+export function transactionHasCategory(transaction: Pick<Transaction, 'category' | 'splits'>, categoryId: string): boolean {
+  return getTransactionCategoryIds(transaction).includes(categoryId);
+}
@@ -1,3 +1,6 @@
+import { Category, Transaction, TransactionDirection } from '../types';
+import { getTransactionDirection, isTransactionDirection } from './cashFlow';
+
 export type SpreadsheetFileType = 'csv' | 'xlsx';
 export type SpreadsheetCadence = 'daily' | 'weekly' | 'monthly' | 'yearly';
 
@@ -12,8 +15,9 @@ export interface SpreadsheetExpenseRow {
   date: string;
   amount: number;
   currency?: string;
+  direction: TransactionDirection;
   vendor: string;
-  category: string;
+  category: string; // Category name; empty when it should be matched from the vendor
   notes?: string;
   isRecurring: boolean;
   recurringKey?: string;
@@ -32,6 +36,8 @@ export interface SpreadsheetRecurringRow {
   recurringKey: string;
   vendor: string;
   amount: number;
+  currency?: string;
+  direction: TransactionDirection;
   category: string;
   cadence: SpreadsheetCadence;
   startDate: string;
@@ -41,6 +47,7 @@ export interface SpreadsheetRecurringRow {
 
 export interface ParsedSpreadsheetImport {
   sourceType: SpreadsheetFileType;
+  sourceName?: string; // File name, shown in import history
   expenses: SpreadsheetExpenseRow[];
   categories: SpreadsheetCategoryRow[];
   recurring: SpreadsheetRecurringRow[];
@@ -56,6 +63,23 @@ export interface SpreadsheetImportSummary {
   warnings: string[];
 }
 
+export type SpreadsheetImportRowStatus = 'new' | 'duplicate' | 'new-category' | 'warning' | 'recurring-linked';
+
+/** How an expense row would be imported, worked out before anything is saved. */
+export interface SpreadsheetImportReviewRow {
+  row: SpreadsheetExpenseRow;
+  status: SpreadsheetImportRowStatus;
+  categoryId?: string; // Existing category the row resolves to; unset when one will be created
+  warnings: string[];
+}
+
+/** Records written by the Excel export. Transactions are saved records only, with no virtual occurrences. */
+export interface SpreadsheetExportData {
+  transactions: Transaction[];
+  categories: Category[]; // Listed on the Categories sheet, and used to name each row's category
+  homeCurrency: string;
+}
+
 type RawRow = Record<string, string>;
 type XlsxSheet = Record<string, unknown>;
 type XlsxModule = {
@@ -86,8 +110,11 @@ const EXPENSE_HEADERS = [
   'notes (optional)',
   'is_recurring (TRUE / FALSE)',
   'recurring_key (optional)',
+  'type (optional: expense | income | refund | transfer)',
 ];
 
+const EXPENSE_REQUIRED_HEADERS = ['date', 'amount', 'vendor', 'category', 'is_recurring'];
+
 const CATEGORY_HEADERS = [
   'name (required)',
   'group (optional, if supported)',
@@ -104,6 +131,8 @@ const RECURRING_HEADERS = [
   'start_date (YYYY-MM-DD)',
   'end_date (optional)',
   'notes (optional)',
+  'currency (optional, 3-letter code)',
+  'type (optional: expense | income | refund | transfer)',
 ];
 
 const INFO_ROWS = [
@@ -114,6 +143,7 @@ const INFO_ROWS = [
   ['You can delete example rows before importing.'],
   ['Dates must be YYYY-MM-DD.'],
   ['Amounts must be positive numbers.'],
+  ['Use the type column to mark income, refunds or transfers. Blank rows are expenses.'],
   [''],
   ['Sheets overview'],
   ['Expenses: individual expense records.'],
@@ -128,10 +158,24 @@ const INFO_ROWS = [
   ['This sheet is for instructions only and is not imported.'],
 ];
 
+const EXPORT_INFO_ROWS = [
+  ['CalendarSpent Export'],
+  [''],
+  ['This workbook uses the import template layout.'],
+  ['Import it from Settings > Import CSV / Excel to restore or move these records.'],
+  ['Rows already in the app are skipped as duplicates.'],
+  [''],
+  ['Split transactions are exported under the category that received the largest share.'],
+  ['Recurring items are listed once on the Recurring sheet; their generated occurrences are not exported.'],
+  [''],
+  ['This sheet is for instructions only and is not imported.'],
+];
+
 const EXPENSE_EXAMPLES = [
-  ['2026-01-12', 48.7, 'CAD', 'FreshMart', 'Groceries', 'Weekly grocery run', 'FALSE', ''],
-  ['2026-01-15', 18.99, 'CAD', 'CloudBox', 'Subscriptions', 'Monthly storage plan', 'TRUE', 'cloudbox-monthly'],
-  ['2026-01-31', 1425, 'CAD', 'Maple Tower', 'Rent', 'January rent payment', 'TRUE', 'maple-rent'],
+  ['2026-01-12', 48.7, 'CAD', 'FreshMart', 'Groceries', 'Weekly grocery run', 'FALSE', '', 'expense'],
+  ['2026-01-15', 18.99, 'CAD', 'CloudBox', 'Subscriptions', 'Monthly storage plan', 'TRUE', 'cloudbox-monthly', 'expense'],
+  ['2026-01-30', 3200, 'CAD', 'Acme Payroll', 'Income', 'January paycheque', 'FALSE', '', 'income'],
+  ['2026-01-31', 1425, 'CAD', 'Maple Tower', 'Rent', 'January rent payment', 'TRUE', 'maple-rent', 'expense'],
 ];
 
 const CATEGORY_EXAMPLES = [
@@ -141,8 +185,8 @@ const CATEGORY_EXAMPLES = [
 ];
 
 const RECURRING_EXAMPLES = [
-  ['maple-rent', 'Maple Tower', 1425, 'Rent', 'monthly', '2026-01-01', '', 'Primary apartment rent'],
-  ['cloudbox-monthly', 'CloudBox', 18.99, 'Subscriptions', 'monthly', '2026-01-15', '', 'Cloud storage subscription'],
+  ['maple-rent', 'Maple Tower', 1425, 'Rent', 'monthly', '2026-01-01', '', 'Primary apartment rent', 'CAD', 'expense'],
+  ['cloudbox-monthly', 'CloudBox', 18.99, 'Subscriptions', 'monthly', '2026-01-15', '', 'Cloud storage subscription', 'CAD', 'expense'],
 ];
 
 const CADENCE_VALUES = new Set<SpreadsheetCadence>(['daily', 'weekly', 'monthly', 'yearly']);
@@ -169,12 +213,74 @@ export function formatSpreadsheetIssues(issues: SpreadsheetImportIssue[]): strin
 
 export async function downloadSpreadsheetTemplate(): Promise<void> {
   const XLSX = await import('xlsx') as XlsxModule;
+  const workbook = buildWorkbook(XLSX, INFO_ROWS, EXPENSE_EXAMPLES, CATEGORY_EXAMPLES, RECURRING_EXAMPLES);
+  XLSX.writeFile(workbook, 'calendarspent-import-template.xlsx');
+}
+
+/** Write records as a workbook that `parseSpreadsheetFile` reads back. */
+export async function downloadSpreadsheetExport(data: SpreadsheetExportData, fileName: string): Promise<void> {
+  const XLSX = await import('xlsx') as XlsxModule;
+  const categoryNames = new Map(data.categories.map((category) => [category.id, category.name]));
+  const getCategoryName = (id: string) => categoryNames.get(id) ?? 'Uncategorized';
+
+  // A rule stopped before its first occurrence is only marked inactive; it has nothing left to restore
+  const rules = data.transactions.filter(
+    (transaction) => transaction.isRecurring && transaction.recurrenceType && !(transaction.isActive === false && !transaction.endedAt),
+  );
+  const usedKeys = new Set<string>();
+  const recurringRows = rules.map((rule) => {
+    // Rules created in the app have no key; derive a readable one that stays unique in this file
+    let key = rule.recurringKey || `${normalizeKey(rule.vendor).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'recurring'}-${rule.recurrenceType}`;
+    if (usedKeys.has(normalizeKey(key))) key = `${key}-${rule.id.slice(0, 8)}`;
+    usedKeys.add(normalizeKey(key));
+    return [
+      key,
+      rule.vendor,
+      rule.amount,
+      getCategoryName(rule.category),
+      rule.recurrenceType as string,
+      rule.date,
+      rule.endedAt || rule.endDate || '',
+      rule.note ?? '',
+      rule.currency || data.homeCurrency,
+      getTransactionDirection(rule),
+    ];
+  });
+
+  const expenseRows = data.transactions
+    .filter((transaction) => !transaction.isRecurring)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((transaction) => [
+      transaction.date,
+      transaction.amount,
+      transaction.currency || data.homeCurrency,
+      transaction.vendor,
+      getCategoryName(transaction.category),
+      transaction.note ?? '',
+      'FALSE',
+      '',
+      getTransactionDirection(transaction),
+    ]);
+
+  const categoryRows = data.categories.map((category) => [category.name, category.group, category.icon, category.color]);
+
+  const workbook = buildWorkbook(XLSX, EXPORT_INFO_ROWS, expenseRows, categoryRows, recurringRows);
+  XLSX.writeFile(workbook, fileName);
+}
+
+function buildWorkbook(
+  XLSX: XlsxModule,
+  infoRows: string[][],
+  expenseRows: Array<Array<string | number>>,
+  categoryRows: Array<Array<string | number>>,
+  recurringRows: Array<Array<string | number>>,
+) {
   const workbook = XLSX.utils.book_new();
 
-  const informationSheet = XLSX.utils.aoa_to_sheet(INFO_ROWS);
+  const informationSheet = XLSX.utils.aoa_to_sheet(infoRows);
   informationSheet['!cols'] = [{ wch: 48 }];
 
-  const expensesSheet = XLSX.utils.aoa_to_sheet([EXPENSE_HEADERS, ...EXPENSE_EXAMPLES]);
+  const expensesSheet = XLSX.utils.aoa_to_sheet([EXPENSE_HEADERS, ...expenseRows]);
   expensesSheet['!cols'] = [
     { wch: 16 },
     { wch: 14 },
@@ -184,9 +290,10 @@ export async function downloadSpreadsheetTemplate(): Promise<void> {
     { wch: 28 },
     { wch: 18 },
     { wch: 24 },
+    { wch: 16 },
   ];
 
-  const categoriesSheet = XLSX.utils.aoa_to_sheet([CATEGORY_HEADERS, ...CATEGORY_EXAMPLES]);
+  const categoriesSheet = XLSX.utils.aoa_to_sheet([CATEGORY_HEADERS, ...categoryRows]);
   categoriesSheet['!cols'] = [
     { wch: 22 },
     { wch: 22 },
@@ -194,7 +301,7 @@ export async function downloadSpreadsheetTemplate(): Promise<void> {
     { wch: 14 },
   ];
 
-  const recurringSheet = XLSX.utils.aoa_to_sheet([RECURRING_HEADERS, ...RECURRING_EXAMPLES]);
+  const recurringSheet = XLSX.utils.aoa_to_sheet([RECURRING_HEADERS, ...recurringRows]);
   recurringSheet['!cols'] = [
     { wch: 24 },
     { wch: 22 },
@@ -210,8 +317,7 @@ export async function downloadSpreadsheetTemplate(): Promise<void> {
   XLSX.utils.book_append_sheet(workbook, expensesSheet, EXPENSES_SHEET);
   XLSX.utils.book_append_sheet(workbook, categoriesSheet, CATEGORIES_SHEET);
   XLSX.utils.book_append_sheet(workbook, recurringSheet, RECURRING_SHEET);
-
-  XLSX.writeFile(workbook, 'calendarspent-import-template.xlsx');
+  return workbook;
 }
 
 export async function parseSpreadsheetFile(file: File): Promise<ParsedSpreadsheetImport> {
@@ -242,6 +348,7 @@ export async function parseSpreadsheetFile(file: File): Promise<ParsedSpreadshee
     warnings.push('CSV import supports Expenses only. Use the Excel template for categories and recurring items.');
     return {
       sourceType: 'csv',
+      sourceName: file.name,
       expenses,
       categories: [],
       recurring: [],
@@ -269,6 +376,7 @@ export async function parseSpreadsheetFile(file: File): Promise<ParsedSpreadshee
 
   return {
     sourceType: 'xlsx',
+    sourceName: file.name,
     expenses,
     categories,
     recurring,
@@ -276,6 +384,33 @@ export async function parseSpreadsheetFile(file: File): Promise<ParsedSpreadshee
   };
 }
 
+/**
+ * Read a CSV as plain text cells (no date or number coercion) so a column
+ * mapping can be applied to exports that don't follow the template.
+ */
+export async function readCsvTable(file: File): Promise<{ headers: string[]; rows: string[][] }> {
+  const XLSX = await import('xlsx') as XlsxModule;
+  const workbook = XLSX.read(await file.text(), { type: 'string', raw: true });
+  const firstSheetName = workbook.SheetNames[0];
+  const rows = firstSheetName ? readRows(XLSX, workbook.Sheets[firstSheetName]) : [];
+  if (rows.length === 0) {
+    throw new Error('The CSV file is empty.');
+  }
+
+  const headers = rows[0].map((cell) => `${cell ?? ''}`.trim());
+  const body = rows
+    .slice(1)
+    .map((row) => headers.map((_, index) => `${row[index] ?? ''}`.trim()))
+    .filter((row) => row.some((value) => value !== ''));
+  return { headers, rows: body };
+}
+
+/** True when a CSV header row follows the Expenses template and can skip column mapping. */
+export function hasTemplateHeaders(headers: string[]): boolean {
+  const normalized = headers.map((header) => normalizeHeader(header));
+  return EXPENSE_REQUIRED_HEADERS.every((header) => normalized.includes(header));
+}
+
 function parseExpensesSheet(
   XLSX: XlsxModule,
   sheet: XlsxSheet,
@@ -284,7 +419,7 @@ function parseExpensesSheet(
   csvMode: boolean,
 ): SpreadsheetExpenseRow[] {
   const rows = readRows(XLSX, sheet);
-  const table = mapRows(sheetName, rows, ['date', 'amount', 'vendor', 'category', 'is_recurring'], issues);
+  const table = mapRows(sheetName, rows, EXPENSE_REQUIRED_HEADERS, issues);
   const expenses: SpreadsheetExpenseRow[] = [];
 
   table.forEach(({ rowNumber, values }) => {
@@ -296,6 +431,7 @@ function parseExpensesSheet(
     const currency = normalizeOptional(values.currency);
     const notes = normalizeOptional(values.notes);
     const recurringKey = normalizeOptional(values.recurring_key);
+    const direction = normalizeOptional(values.type)?.toLowerCase() ?? 'expense';
 
     if (!date || !isIsoDate(date)) {
       issues.push({ sheet: sheetName, row: rowNumber, message: 'Date must use YYYY-MM-DD.' });
@@ -310,6 +446,10 @@ function parseExpensesSheet(
       issues.push({ sheet: sheetName, row: rowNumber, message: 'Currency must be a 3-letter code.' });
     }
 
+    if (!isTransactionDirection(direction)) {
+      issues.push({ sheet: sheetName, row: rowNumber, message: 'type must be expense, income, refund, or transfer.' });
+    }
+
     const isRecurring = parseBoolean(isRecurringRaw);
     if (isRecurring === null) {
       issues.push({ sheet: sheetName, row: rowNumber, message: 'is_recurring must be TRUE or FALSE.' });
@@ -332,6 +472,7 @@ function parseExpensesSheet(
       category &&
       isRecurring !== null &&
       (!currency || /^[A-Za-z]{3}$/.test(currency)) &&
+      isTransactionDirection(direction) &&
       (!csvMode || isRecurring === false)
     ) {
       expenses.push({
@@ -339,6 +480,7 @@ function parseExpensesSheet(
         date,
         amount,
         currency: currency?.toUpperCase(),
+        direction,
         vendor,
         category,
         notes,
@@ -407,6 +549,8 @@ function parseRecurringSheet(
     const startDate = getRequired(values, 'start_date', sheetName, rowNumber, issues);
     const endDate = normalizeOptional(values.end_date);
     const notes = normalizeOptional(values.notes);
+    const currency = normalizeOptional(values.currency);
+    const direction = normalizeOptional(values.type)?.toLowerCase() ?? 'expense';
 
     if (recurringKey) {
       const normalizedKey = normalizeKey(recurringKey);
@@ -422,6 +566,14 @@ function parseRecurringSheet(
       issues.push({ sheet: sheetName, row: rowNumber, message: 'Amount must be a number greater than 0.' });
     }
 
+    if (currency && !/^[A-Za-z]{3}$/.test(currency)) {
+      issues.push({ sheet: sheetName, row: rowNumber, message: 'Currency must be a 3-letter code.' });
+    }
+
+    if (!isTransactionDirection(direction)) {
+      issues.push({ sheet: sheetName, row: rowNumber, message: 'type must be expense, income, refund, or transfer.' });
+    }
+
     const cadence = cadenceRaw?.toLowerCase() as SpreadsheetCadence;
     if (!CADENCE_VALUES.has(cadence)) {
       issues.push({ sheet: sheetName, row: rowNumber, message: 'Cadence must be daily, weekly, monthly, or yearly.' });
@@ -448,13 +600,17 @@ function parseRecurringSheet(
       CADENCE_VALUES.has(cadence) &&
       startDate &&
       isIsoDate(startDate) &&
-      (!endDate || isIsoDate(endDate))
+      (!endDate || isIsoDate(endDate)) &&
+      (!currency || /^[A-Za-z]{3}$/.test(currency)) &&
+      isTransactionDirection(direction)
     ) {
       recurring.push({
         rowNumber,
         recurringKey,
         vendor,
         amount,
+        currency: currency?.toUpperCase(),
+        direction,
         category,
         cadence,
         startDate,
@@ -0,0 +1,377 @@
+import { TransactionDirection } from '../types';
+
+export type StatementFileType = 'ofx' | 'camt' | 'mt940';
+
+export interface StatementTransactionRow {
+  rowNumber: number;
+  date: string;
+  amount: number;
+  direction: Extract<TransactionDirection, 'expense' | 'income'>;
+  vendor: string;
+  notes?: string;
+  currency?: string;
+  bankReference?: string;
+}
+
+export interface ParsedStatementImport {
+  sourceType: StatementFileType;
+  sourceName?: string; // File name, shown in import history
+  accountLabel?: string;
+  currency?: string;
+  transactions: StatementTransactionRow[];
+  warnings: string[];
+}
+
+export interface StatementImportOptions {
+  includeCredits: boolean;
+  accountId?: string;
+}
+
+export const STATEMENT_FILE_LABELS: Record<StatementFileType, string> = {
+  ofx: 'OFX / QFX',
+  camt: 'CAMT.053',
+  mt940: 'MT940',
+};
+
+export const STATEMENT_FILE_ACCEPT = '.ofx,.qfx,.xml,.sta,.mt940,.940,.txt';
+
+export class StatementImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementImportError';
+  }
+}
+
+export async function parseStatementFile(file: File): Promise<ParsedStatementImport> {
+  const text = await file.text();
+  const sourceType = detectStatementType(file.name, text);
+  if (!sourceType) {
+    throw new StatementImportError('Unsupported file. Upload an OFX, QFX, CAMT.053 or MT940 statement.');
+  }
+
+  const parsed = sourceType === 'ofx'
+    ? parseOfx(text)
+    : sourceType === 'camt'
+      ? parseCamt(text)
+      : parseMt940(text);
+
+  if (parsed.transactions.length === 0) {
+    throw new StatementImportError(`No transactions were found in this ${STATEMENT_FILE_LABELS[sourceType]} file.`);
+  }
+  return { ...parsed, sourceName: file.name };
+}
+
+function detectStatementType(filename: string, text: string): StatementFileType | null {
+  const extension = getExtension(filename);
+  const head = text.slice(0, 2000);
+  if (extension === 'ofx' || extension === 'qfx' || /OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (/urn:iso:std:iso:20022:tech:xsd:camt\.05[234]/i.test(head) || /<BkToCstmr(Stmt|AcctRpt|DbtCdtNtfctn)>/.test(text)) return 'camt';
+  if (/^:20:/m.test(head) && /^:61:/m.test(text)) return 'mt940';
+  return null;
+}
+
+// ── OFX / QFX ──────────────────────────────────────────────────────────────
+// OFX 1.x is SGML where leaf elements have no closing tag, so values are read
+// up to the next tag instead of through an XML parser. 2.x files parse the same way.
+
+function parseOfx(text: string): ParsedStatementImport {
+  const warnings: string[] = [];
+  const currency = readOfxValue(text, 'CURDEF')?.toUpperCase();
+  const accountId = readOfxValue(text, 'ACCTID');
+  const transactions: StatementTransactionRow[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  let skipped = 0;
+
+  blocks.forEach((block, index) => {
+    const date = parseCompactDate(readOfxValue(block, 'DTPOSTED') ?? readOfxValue(block, 'DTUSER'));
+    const amount = parseDecimal(readOfxValue(block, 'TRNAMT'));
+    const name = readOfxValue(block, 'NAME') ?? readOfxValue(block, 'PAYEE');
+    const memo = readOfxValue(block, 'MEMO');
+    const vendor = cleanVendor(name || memo || readOfxValue(block, 'TRNTYPE') || '');
+
+    if (!date || amount === null || amount === 0 || !vendor) {
+      skipped += 1;
+      return;
+    }
+
+    transactions.push({
+      rowNumber: index + 1,
+      date,
+      amount: Math.abs(amount),
+      direction: amount < 0 ? 'expense' : 'income',
+      vendor,
+      notes: memo && memo !== name ? decodeEntities(memo) : undefined,
+      currency: readOfxValue(block, 'CURRENCY')?.toUpperCase() ?? currency,
+      bankReference: readOfxValue(block, 'FITID'),
+    });
+  });
+
+  if (skipped > 0) {
+    warnings.push(`Skipped ${skipped} statement line${skipped === 1 ? '' : 's'} without a date or amount.`);
+  }
+
+  return {
+    sourceType: 'ofx',
+    accountLabel: accountId ? maskAccount(accountId) : undefined,
+    currency,
+    transactions,
+    warnings,
+  };
+}
+
+function readOfxValue(text: string, tag: string): string | undefined {
+  const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? value : undefined;
+}
+
+// ── CAMT.053 / .052 / .054 (ISO 20022) ─────────────────────────────────────
+
+function parseCamt(text: string): ParsedStatementImport {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new StatementImportError('This CAMT file is not valid XML.');
+  }
+
+  const warnings: string[] = [];
+  const transactions: StatementTransactionRow[] = [];
+  const statement = findFirst(document, 'Stmt') ?? findFirst(document, 'Rpt') ?? findFirst(document, 'Ntfctn');
+  const account = statement ? findChild(statement, 'Acct') : null;
+  const iban = account ? readPath(account, ['Id', 'IBAN']) ?? readPath(account, ['Id', 'Othr', 'Id']) : undefined;
+  const currency = account ? readPath(account, ['Ccy']) : undefined;
+  let skipped = 0;
+  let pending = 0;
+
+  findAll(document, 'Ntry').forEach((entry, index) => {
+    const status = readPath(entry, ['Sts', 'Cd']) ?? readPath(entry, ['Sts']);
+    if (status && status !== 'BOOK') {
+      pending += 1;
+      return;
+    }
+
+    const amountElement = findChild(entry, 'Amt');
+    const amount = parseDecimal(amountElement?.textContent ?? undefined);
+    const isDebit = readPath(entry, ['CdtDbtInd']) === 'DBIT';
+    const date = parseIsoDateTime(readPath(entry, ['BookgDt', 'Dt']) ?? readPath(entry, ['BookgDt', 'DtTm']))
+      ?? parseIsoDateTime(readPath(entry, ['ValDt', 'Dt']) ?? readPath(entry, ['ValDt', 'DtTm']));
+
+    // The counterparty is the creditor for money going out and the debtor for money coming in
+    const details = findFirst(entry, 'TxDtls');
+    const parties = details ? findChild(details, 'RltdPties') : null;
+    const counterparty = parties
+      ? readPath(parties, isDebit ? ['Cdtr', 'Nm'] : ['Dbtr', 'Nm'])
+        ?? readPath(parties, isDebit ? ['Cdtr', 'Pty', 'Nm'] : ['Dbtr', 'Pty', 'Nm'])
+      : undefined;
+    const remittance = details ? readPath(details, ['RmtInf', 'Ustrd']) : undefined;
+    const additional = readPath(entry, ['AddtlNtryInf']);
+    const vendor = cleanVendor(counterparty || remittance || additional || '');
+
+    if (!date || amount === null || amount === 0 || !vendor) {
+      skipped += 1;
+      return;
+    }
+
+    transactions.push({
+      rowNumber: index + 1,
+      date,
+      amount: Math.abs(amount),
+      direction: isDebit ? 'expense' : 'income',
+      vendor,
+      notes: [remittance, additional].filter((value) => value && value !== counterparty).join(' · ') || undefined,
+      currency: amountElement?.getAttribute('Ccy')?.toUpperCase() ?? currency,
+      bankReference: readPath(entry, ['AcctSvcrRef']) ?? readPath(entry, ['NtryRef']),
+    });
+  });
+
+  if (pending > 0) {
+    warnings.push(`Skipped ${pending} pending entr${pending === 1 ? 'y' : 'ies'} that the bank has not booked yet.`);
+  }
+  if (skipped > 0) {
+    warnings.push(`Skipped ${skipped} entr${skipped === 1 ? 'y' : 'ies'} without a date, amount or description.`);
+  }
+
+  return {
+    sourceType: 'camt',
+    accountLabel: iban ? maskAccount(iban) : undefined,
+    currency,
+    transactions,
+    warnings,
+  };
+}
+
+function findAll(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS('*', localName));
+}
+
+function findFirst(root: Document | Element, localName: string): Element | null {
+  return root.getElementsByTagNameNS('*', localName)[0] ?? null;
+}
+
+function findChild(parent: Element, localName: string): Element | null {
+  return Array.from(parent.children).find((child) => child.localName === localName) ?? null;
+}
+
+function readPath(root: Element, path: string[]): string | undefined {
+  let current: Element | null = root;
+  for (const name of path) {
+    current = current ? findChild(current, name) : null;
+  }
+  const value = current?.textContent?.trim();
+  return value ? value : undefined;
+}
+
+// ── MT940 (SWIFT) ──────────────────────────────────────────────────────────
+
+function parseMt940(text: string): ParsedStatementImport {
+  const warnings: string[] = [];
+  const transactions: StatementTransactionRow[] = [];
+  const fields = splitMt940Fields(text);
+  const accountId = fields.find((field) => field.tag === '25')?.value;
+  const opening = fields.find((field) => field.tag === '60F' || field.tag === '60M')?.value;
+  const currency = opening?.match(/^[CD]\d{6}([A-Z]{3})/)?.[1];
+  let skipped = 0;
+
+  fields.forEach((field, index) => {
+    if (field.tag !== '61') return;
+
+    // YYMMDD[MMDD](C|D|RC|RD)[funds code]amount, e.g. 2401150115D12,50NTRFNONREF//123
+    const match = field.value.match(/^(\d{6})(\d{4})?(R?[CD])[A-Z]?(\d+,\d{0,2})N?([A-Z0-9]{3})?([^/\n]*)(?:\/\/([^\n]*))?/);
+    const next = fields[index + 1];
+    const description = next?.tag === '86' ? next.value : '';
+    const date = match ? parseCompactDate(`20${match[1]}`) : null;
+    const amount = match ? parseDecimal(match[4]) : null;
+    const vendor = cleanVendor(readMt940Counterparty(description));
+
+    if (!match || !date || amount === null || amount === 0 || !vendor) {
+      skipped += 1;
+      return;
+    }
+
+    // RD/RC are reversals, which move money the opposite way to their letter
+    const mark = match[3];
+    const isDebit = mark === 'D' || mark === 'RC';
+    const reference = (match[7] || match[6])?.trim();
+    transactions.push({
+      rowNumber: index + 1,
+      date,
+      amount,
+      direction: isDebit ? 'expense' : 'income',
+      vendor,
+      notes: readMt940Purpose(description),
+      currency,
+      bankReference: reference && reference !== 'NONREF' ? reference : undefined,
+    });
+  });
+
+  if (skipped > 0) {
+    warnings.push(`Skipped ${skipped} statement line${skipped === 1 ? '' : 's'} that could not be read.`);
+  }
+
+  return {
+    sourceType: 'mt940',
+    accountLabel: accountId ? maskAccount(accountId) : undefined,
+    currency,
+    transactions,
+    warnings,
+  };
+}
+
+function splitMt940Fields(text: string): Array<{ tag: string; value: string }> {
+  const fields: Array<{ tag: string; value: string }> = [];
+  text.replace(/\r\n?/g, '\n').split('\n').forEach((line) => {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line.trim() && !/^-\}?$/.test(line.trim())) {
+      // Continuation lines belong to the previous field
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+  return fields;
+}
+
+// Many banks structure :86: with ?NN subfields: ?20-?29 purpose, ?32-?33 counterparty name
+function readMt940Subfields(description: string) {
+  const subfields = new Map<string, string>();
+  const flat = description.replace(/\n/g, '');
+  for (const match of flat.matchAll(/\?(\d{2})([^?]*)/g)) {
+    subfields.set(match[1], `${subfields.get(match[1]) ?? ''}${match[2]}`);
+  }
+  return subfields;
+}
+
+function readMt940Counterparty(description: string): string {
+  const subfields = readMt940Subfields(description);
+  if (subfields.size > 0) {
+    const name = `${subfields.get('32') ?? ''}${subfields.get('33') ?? ''}`.trim();
+    return name || readMt940Purpose(description) || '';
+  }
+  const slashName = description.match(/\/NAME\/([^/]+)/);
+  if (slashName) return slashName[1];
+  return description.split('\n')[0];
+}
+
+function readMt940Purpose(description: string): string | undefined {
+  const subfields = readMt940Subfields(description);
+  if (subfields.size === 0) {
+    const remittance = description.replace(/\n/g, '').match(/\/REMI\/([^/]+)/);
+    return remittance ? remittance[1].trim() : undefined;
+  }
+  const purpose = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29']
+    .map((key) => subfields.get(key) ?? '')
+    .join('')
+    .trim();
+  return purpose || undefined;
+}
+
+// ── Shared helpers ─────────────────────────────────────────────────────────
+
+function parseCompactDate(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const iso = `${match[1]}-${match[2]}-${match[3]}`;
+  return isIsoDate(iso) ? iso : null;
+}
+
+function parseIsoDateTime(value: string | undefined): string | null {
+  const iso = value?.slice(0, 10);
+  return iso && isIsoDate(iso) ? iso : null;
+}
+
+function parseDecimal(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = Number(value.trim().replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function cleanVendor(value: string): string {
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim().slice(0, 80);
+  // Banks tend to send names in all caps
+  return text === text.toUpperCase()
+    ? text.toLowerCase().replace(/\b[a-z]/g, (letter) => letter.toUpperCase())
+    : text;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function maskAccount(value: string): string {
+  const compact = value.replace(/\s/g, '');
+  return compact.length > 4 ? `•••• ${compact.slice(-4)}` : compact;
+}
+
+function isIsoDate(value: string): boolean {
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+function getExtension(filename: string): string {
+  const index = filename.lastIndexOf('.');
+  return index >= 0 ? filename.slice(index + 1).toLowerCase() : '';
+}
@@ -1,6 +1,8 @@
 const DB_NAME = 'CalendarSpentDB';
-const DB_VERSION = 1;
-const STORES = ['transactions', 'categories', 'vendorRules', 'settings', 'recurringExceptions'];
+const DB_VERSION = 10;
+const STORES = ['transactions', 'categories', 'vendorRules', 'settings', 'recurringExceptions', 'accounts', 'exchangeRates', 'budgets', 'notifications', 'receipts', 'importBatches', 'syncBase', 'syncConflicts', 'syncOutbox'];
+// Kept out of STORES so clearing a scope (or everything) leaves the restore points behind
+const SNAPSHOT_STORES = ['snapshots', 'snapshotData'];
 const GUEST_SCOPE = 'guest';
 const KEY_SEPARATOR = '::';
 
@@ -16,6 +18,25 @@ function isScopedKey(key: IDBValidKey, scope: string) {
     return typeof key === 'string' && key.startsWith(`${scope}${KEY_SEPARATOR}`);
 }
 
+export interface StorageChange {
+    scope: string | null; // null: every scope
+    keys: Record<string, string[]> | 'all'; // Unscoped keys written or deleted, by store
+}
+
+const changeListeners = new Set<(change: StorageChange) => void>();
+
+/** Hears about every write this tab makes, once it has been committed. */
+export function onStorageChange(listener: (change: StorageChange) => void) {
+    changeListeners.add(listener);
+    return () => {
+        changeListeners.delete(listener);
+    };
+}
+
+function notifyChange(scope: string | null, keys: StorageChange['keys']) {
+    changeListeners.forEach((listener) => listener({ scope, keys }));
+}
+
 export const storage = {
     db: null as IDBDatabase | null,
 
@@ -27,7 +48,7 @@ export const storage = {
 
             request.onupgradeneeded = () => {
                 const db = request.result;
-                STORES.forEach((storeName) => {
+                [...STORES, ...SNAPSHOT_STORES].forEach((storeName) => {
                     if (!db.objectStoreNames.contains(storeName)) {
                         db.createObjectStore(storeName);
                     }
@@ -35,8 +56,14 @@ export const storage = {
             };
 
             request.onsuccess = () => {
-                this.db = request.result;
-                resolve(this.db);
+                const db = request.result;
+                // Another tab is upgrading the schema; let it, and reopen on the next call
+                db.onversionchange = () => {
+                    db.close();
+                    if (this.db === db) this.db = null;
+                };
+                this.db = db;
+                resolve(db);
             };
 
             request.onerror = () => reject(request.error);
@@ -55,6 +82,23 @@ export const storage = {
         });
     },
 
+    /** Several records of one store by key, in one transaction; missing ones come back as null. */
+    async getMany<T>(storeName: string, keys: string[], scope = GUEST_SCOPE): Promise<Array<[string, T | null]>> {
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(storeName, 'readonly');
+            const store = transaction.objectStore(storeName);
+            const results: Array<[string, T | null]> = [];
+            transaction.oncomplete = () => resolve(results);
+            transaction.onerror = () => reject(transaction.error);
+
+            keys.forEach((key) => {
+                const request = store.get(toScopedKey(scope, key));
+                request.onsuccess = () => results.push([key, request.result ?? null]);
+            });
+        });
+    },
+
     async set<T>(storeName: string, key: string, value: T, scope = GUEST_SCOPE): Promise<void> {
         const db = await this.init();
         return new Promise((resolve, reject) => {
@@ -62,7 +106,10 @@ export const storage = {
             const store = transaction.objectStore(storeName);
             const request = store.put(value, toScopedKey(scope, key));
 
-            request.onsuccess = () => resolve();
+            request.onsuccess = () => {
+                resolve();
+                notifyChange(scope, { [storeName]: [key] });
+            };
             request.onerror = () => reject(request.error);
         });
     },
@@ -92,6 +139,130 @@ export const storage = {
         });
     },
 
+    /** Every record in a scope with its unscoped key, for stores whose keys aren't the record id. */
+    async getEntries<T>(storeName: string, scope = GUEST_SCOPE): Promise<Array<[string, T]>> {
+        const db = await this.init();
+        const prefix = toScopedKey(scope, '');
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(storeName, 'readonly');
+            const request = transaction.objectStore(storeName).openCursor();
+            const results: Array<[string, T]> = [];
+
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) {
+                    resolve(results);
+                    return;
+                }
+
+                if (isScopedKey(cursor.key, scope)) {
+                    results.push([(cursor.key as string).slice(prefix.length), cursor.value as T]);
+                }
+
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+    },
+
+    /** Swap a scope's records in several stores for the given ones, all or nothing. */
+    async replaceEntries(entriesByStore: Record<string, Array<[string, unknown]>>, scope = GUEST_SCOPE): Promise<void> {
+        const db = await this.init();
+        const storeNames = Object.keys(entriesByStore);
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(storeNames, 'readwrite');
+            transaction.oncomplete = () => {
+                resolve();
+                notifyChange(scope, 'all');
+            };
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+
+            storeNames.forEach((storeName) => {
+                const store = transaction.objectStore(storeName);
+                const request = store.openCursor();
+
+                request.onsuccess = () => {
+                    const cursor = request.result;
+                    if (cursor) {
+                        if (isScopedKey(cursor.key, scope)) cursor.delete();
+                        cursor.continue();
+                        return;
+                    }
+
+                    entriesByStore[storeName].forEach(([key, value]) => {
+                        store.put(value, toScopedKey(scope, key));
+                    });
+                };
+            });
+        });
+    },
+
+    /** Writes records to one or more stores in a single transaction. */
+    async putEntries(entriesByStore: Record<string, Array<[string, unknown]>>, scope = GUEST_SCOPE): Promise<void> {
+        const storeNames = Object.keys(entriesByStore).filter((storeName) => entriesByStore[storeName].length > 0);
+        if (storeNames.length === 0) return;
+
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(storeNames, 'readwrite');
+            transaction.oncomplete = () => {
+                resolve();
+                notifyChange(scope, Object.fromEntries(storeNames.map((storeName) => [
+                    storeName,
+                    entriesByStore[storeName].map(([key]) => key),
+                ])));
+            };
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+
+            storeNames.forEach((storeName) => {
+                const store = transaction.objectStore(storeName);
+                entriesByStore[storeName].forEach(([key, value]) => {
+                    store.put(value, toScopedKey(scope, key));
+                });
+            });
+        });
+    },
+
+    /**
+     * Reads, changes and writes back records in one transaction, so nothing else can
+     * change them in between. Returning undefined from `update` deletes the record.
+     */
+    async updateEntries<T>(
+        storeName: string,
+        keys: string[],
+        update: (key: string, value: T | undefined) => T | undefined,
+        scope = GUEST_SCOPE,
+    ): Promise<void> {
+        if (keys.length === 0) return;
+
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(storeName, 'readwrite');
+            transaction.oncomplete = () => {
+                resolve();
+                notifyChange(scope, { [storeName]: keys });
+            };
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+
+            const store = transaction.objectStore(storeName);
+            keys.forEach((key) => {
+                const scopedKey = toScopedKey(scope, key);
+                const request = store.get(scopedKey);
+                request.onsuccess = () => {
+                    const next = update(key, request.result as T | undefined);
+                    if (next === undefined) {
+                        store.delete(scopedKey);
+                    } else {
+                        store.put(next, scopedKey);
+                    }
+                };
+            });
+        });
+    },
+
     async remove(storeName: string, key: string, scope = GUEST_SCOPE): Promise<void> {
         const db = await this.init();
         return new Promise((resolve, reject) => {
@@ -99,26 +270,31 @@ export const storage = {
             const store = transaction.objectStore(storeName);
             const request = store.delete(toScopedKey(scope, key));
 
-            request.onsuccess = () => resolve();
+            request.onsuccess = () => {
+                resolve();
+                notifyChange(scope, { [storeName]: [key] });
+            };
             request.onerror = () => reject(request.error);
         });
     },
 
-    async clearScope(scope = GUEST_SCOPE): Promise<void> {
+    async clearScope(scope = GUEST_SCOPE, keepStores: string[] = []): Promise<void> {
         const db = await this.init();
+        const stores = STORES.filter((storeName) => !keepStores.includes(storeName));
         return new Promise((resolve, reject) => {
-            const transaction = db.transaction(STORES, 'readwrite');
+            const transaction = db.transaction(stores, 'readwrite');
             let hasError = false;
-            let pendingStores = STORES.length;
+            let pendingStores = stores.length;
 
             const finishStore = () => {
                 pendingStores--;
                 if (!hasError && pendingStores === 0) {
                     resolve();
+                    notifyChange(scope, 'all');
                 }
             };
 
-            STORES.forEach((storeName) => {
+            stores.forEach((storeName) => {
                 const store = transaction.objectStore(storeName);
                 const request = store.openCursor();
 
@@ -164,6 +340,7 @@ export const storage = {
                     completed++;
                     if (!hasError && completed === STORES.length) {
                         resolve();
+                        notifyChange(null, 'all');
                     }
                 };
                 request.onerror = () => {
@@ -0,0 +1,84 @@
+import { SyncCollection } from '../types';
+import { storage } from './storage';
+
+/*
+ * Durable queue of local changes waiting to be pushed. ExpenseContext queues a
+ * record whenever it saves a local edit to it; SyncService pushes the queued
+ * records and removes their entries once the server has them. There is one
+ * entry per record, so a record edited several times between syncs is pushed
+ * once, as it is by then.
+ */
+
+export const OUTBOX_STORE = 'syncOutbox';
+
+export interface OutboxEntry {
+  collection: SyncCollection;
+  recordId: string;
+  queuedAt: number; // Last local edit; a push only clears the entry if no newer edit came in meanwhile
+  attempts: number; // Failed pushes in a row
+  retryAt?: number; // Held back until then after a failed push
+  lastError?: string;
+}
+
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+/** Key of a synced record in the outbox and the syncBase store. */
+export function getSyncRecordKey(collection: SyncCollection, id: string) {
+  return `${collection}:${id}`;
+}
+
+export function buildOutboxEntries(collection: SyncCollection, ids: string[], queuedAt = Date.now()): Array<[string, OutboxEntry]> {
+  return ids.map((recordId) => [
+    getSyncRecordKey(collection, recordId),
+    { collection, recordId, queuedAt, attempts: 0 },
+  ]);
+}
+
+export async function queueSyncChanges(scope: string, changes: Partial<Record<SyncCollection, string[]>>) {
+  const queuedAt = Date.now();
+  const entries = (Object.keys(changes) as SyncCollection[])
+    .flatMap((collection) => buildOutboxEntries(collection, changes[collection] ?? [], queuedAt));
+  await storage.putEntries({ [OUTBOX_STORE]: entries }, scope);
+}
+
+export async function readOutbox(scope: string): Promise<Map<string, OutboxEntry>> {
+  return new Map(await storage.getEntries<OutboxEntry>(OUTBOX_STORE, scope));
+}
+
+/** 30s, 1m, 2m… up to 30 minutes between attempts. */
+export function getRetryDelayMs(attempts: number) {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Records the outcome of a push. `pushed` maps keys to the queuedAt that was
+ * pushed; entries re-queued since then stay. Failed entries back off.
+ */
+export async function settleOutbox(
+  scope: string,
+  queued: Map<string, OutboxEntry>,
+  pushed: Map<string, number>,
+  failed: Map<string, string>,
+) {
+  const now = Date.now();
+  const keys = [...new Set([...pushed.keys(), ...failed.keys()])];
+  await storage.updateEntries<OutboxEntry>(OUTBOX_STORE, keys, (key, stored) => {
+    if (pushed.has(key)) {
+      return stored && stored.queuedAt !== pushed.get(key) ? stored : undefined;
+    }
+    const entry = stored ?? queued.get(key);
+    if (!entry) return undefined;
+    const attempts = entry.attempts + 1;
+    return { ...entry, attempts, retryAt: now + getRetryDelayMs(attempts), lastError: failed.get(key) };
+  }, scope);
+}
+
+/** Local changes still waiting to be pushed, per collection. */
+export async function countOutbox(scope: string): Promise<Partial<Record<SyncCollection, number>>> {
+  const counts: Partial<Record<SyncCollection, number>> = {};
+  (await readOutbox(scope)).forEach((entry) => {
+    counts[entry.collection] = (counts[entry.collection] ?? 0) + 1;
+  });
+  return counts;
+}
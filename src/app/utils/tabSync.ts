@@ -0,0 +1,78 @@
+import { onStorageChange, StorageChange } from './storage';
+
+/*
+ * Keeps tabs of the app consistent with each other. Every tab shares one
+ * IndexedDB but holds its own copy of the data in memory, so:
+ *
+ * - each committed write is announced on a BroadcastChannel, and the other
+ *   tabs re-read the records it touched
+ * - Web Locks make sure only one tab at a time syncs or loads (and migrates)
+ *   a scope, and elect one leader tab per scope to sync on its own and keep
+ *   the Realtime subscription
+ *
+ * Browsers without either API fall back to behaving like a single tab.
+ */
+
+const CHANNEL_NAME = 'calendarspent:tabs';
+const LOCK_PREFIX = 'calendarspent:';
+
+/** Announces this tab's writes to other tabs and passes theirs to `listener`. */
+export function subscribeToOtherTabs(listener: (change: StorageChange) => void) {
+  if (typeof BroadcastChannel === 'undefined') return () => {};
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<StorageChange>) => listener(event.data);
+  const stopAnnouncing = onStorageChange((change) => channel.postMessage(change));
+
+  return () => {
+    stopAnnouncing();
+    channel.close();
+  };
+}
+
+function getLocks(): LockManager | null {
+  return typeof navigator !== 'undefined' && navigator.locks ? navigator.locks : null;
+}
+
+/** Runs `task` once no other tab holds the lock, holding it until the task settles. */
+export async function withTabLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+  const locks = getLocks();
+  if (!locks) return task();
+  return locks.request(`${LOCK_PREFIX}${name}`, () => task());
+}
+
+/** Like withTabLock, but skips the task (returning null) if another tab has the lock. */
+export async function tryWithTabLock<T>(name: string, task: () => Promise<T>): Promise<T | null> {
+  const locks = getLocks();
+  if (!locks) return task();
+  return locks.request(`${LOCK_PREFIX}${name}`, { ifAvailable: true }, (lock) => (lock ? task() : null));
+}
+
+/**
+ * Queues for leadership of `name` and calls `onElected` when this tab gets it.
+ * The tab leads until the returned function is called or the tab closes, at
+ * which point the next tab in line takes over.
+ */
+export function electLeader(name: string, onElected: () => void) {
+  const locks = getLocks();
+  if (!locks) {
+    onElected();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let resign = () => {};
+  locks
+    .request(`${LOCK_PREFIX}leader:${name}`, { signal: controller.signal }, () => new Promise<void>((resolve) => {
+      resign = resolve;
+      onElected();
+    }))
+    .catch(() => {
+      // Aborted while still waiting in line
+    });
+
+  return () => {
+    controller.abort();
+    resign();
+  };
+}
@@ -4,6 +4,7 @@
 
 /// <reference types="vite/client" />
 import { supabase } from "./supabaseClient";
+import type { TransactionDirection } from "../app/types";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Types
@@ -106,9 +107,11 @@ export async function initiateGoogleCalendarConnect(): Promise<void> {
 export interface LocalTransaction {
     id: string;
     date: string;        // YYYY-MM-DD
-    amount: number;
+    amount: number;      // in the home currency
     category: string;    // category id / label
+    splits?: Array<{ category: string; amount: number }>; // per-category portions of amount, labels like category
     vendor: string;
+    direction: TransactionDirection; // only expenses and refunds count toward the daily total
     deletedAt?: number;  // undefined = not deleted
     isRecurring?: boolean; // for daily summary: Total Recurring / Non-Recurring
 }
@@ -148,7 +151,9 @@ export async function syncGoogleCalendar(
             date: t.date,
             amount: t.amount,
             category: t.category,
+            splits: t.splits,
             vendor: t.vendor,
+            direction: t.direction,
             isRecurring: t.isRecurring,
         }));
 
@@ -0,0 +1,70 @@
+import { supabase } from './supabaseClient';
+import { Receipt, Transaction, TransactionAttachment } from '../app/types';
+import { PDF_MIME_TYPE } from '../app/utils/receiptExtractionService';
+import { storage } from '../app/utils/storage';
+
+export const RECEIPT_BUCKET = 'receipts';
+
+// Objects live under the owner's id so storage policies can match on the first folder
+const getReceiptPath = (userId: string, receiptId: string, mimeType = 'image/jpeg') =>
+    `${userId}/${receiptId}.${mimeType === PDF_MIME_TYPE ? 'pdf' : 'jpg'}`;
+
+export async function downloadReceipt(userId: string, attachment: TransactionAttachment): Promise<Blob | null> {
+    if (!supabase) return null;
+    const { data, error } = await supabase.storage
+        .from(RECEIPT_BUCKET)
+        .download(getReceiptPath(userId, attachment.id, attachment.mimeType));
+    if (error) {
+        console.warn('Receipt download failed:', error.message);
+        return null;
+    }
+    return data;
+}
+
+/**
+ * Upload attachments that transactions reference but storage doesn't have yet,
+ * and delete the stored copies of removed ones. Runs before expenses are
+ * pushed so other devices never see an attachment they can't download.
+ */
+export async function syncReceipts(userId: string, storageScope: string, transactions: Transaction[]) {
+    if (!supabase) return;
+    const bucket = supabase.storage.from(RECEIPT_BUCKET);
+    const referenced = new Set(
+        transactions.filter(t => !t.deletedAt).flatMap(t => (t.attachments ?? []).map(a => a.id))
+    );
+    const receipts = await storage.getAll<Receipt>('receipts', storageScope);
+
+    for (const receipt of receipts) {
+        if (receipt.deletedAt || receipt.uploadedAt || !referenced.has(receipt.id)) continue;
+        const mimeType = receipt.mimeType ?? 'image/jpeg';
+        const { error } = await bucket.upload(getReceiptPath(userId, receipt.id, mimeType), receipt.image, {
+            contentType: mimeType,
+            upsert: true,
+        });
+        if (error) throw error;
+        await storage.set('receipts', receipt.id, { ...receipt, uploadedAt: Date.now() }, storageScope);
+    }
+
+    const discarded = receipts.filter(r => r.deletedAt);
+    if (discarded.length > 0) {
+        const uploaded = discarded.filter(r => r.uploadedAt);
+        if (uploaded.length > 0) {
+            const { error } = await bucket.remove(uploaded.map(r => getReceiptPath(userId, r.id, r.mimeType)));
+            if (error) throw error;
+        }
+        for (const r of discarded) await storage.remove('receipts', r.id, storageScope);
+    }
+}
+
+/** Delete every stored receipt for a user, used when wiping all their data. */
+export async function clearRemoteReceipts(userId: string) {
+    if (!supabase) return;
+    const bucket = supabase.storage.from(RECEIPT_BUCKET);
+    for (;;) {
+        const { data, error } = await bucket.list(userId, { limit: 100 });
+        if (error) throw error;
+        if (!data || data.length === 0) return;
+        const { error: removeError } = await bucket.remove(data.map(object => `${userId}/${object.name}`));
+        if (removeError) throw removeError;
+    }
+}
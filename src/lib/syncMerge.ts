@@ -0,0 +1,58 @@
+import { SyncCollection } from '../app/types';
+import { stableStringify } from '../app/utils/stableStringify';
+
+/*
+ * Three-way merge of one synced record. `base` is the copy this device last
+ * agreed on with the server (kept in the syncBase store), so each side's edits
+ * are whatever differs from it. No timestamps are compared, which keeps device
+ * clock skew out of it:
+ *
+ * - a field only one side changed takes that side's value
+ * - a field both sides set to the same value is fine
+ * - a field both sides changed differently is a conflict; the local value is
+ *   kept until the user picks one
+ */
+
+// Sync bookkeeping rather than data the user edits
+const IGNORED_FIELDS = new Set(['id', 'updatedAt']);
+
+export interface FieldMergeResult<T> {
+    merged: T;
+    conflicts: string[]; // Field names both sides changed differently
+}
+
+export function getSyncConflictId(collection: SyncCollection, recordId: string, field: string) {
+    return `${collection}:${recordId}:${field}`;
+}
+
+export function mergeFields<T extends object>(local: T, remote: T, base: T): FieldMergeResult<T> {
+    const localRecord = local as Record<string, unknown>;
+    const remoteRecord = remote as Record<string, unknown>;
+    const baseRecord = base as Record<string, unknown>;
+    const merged: Record<string, unknown> = { ...localRecord };
+    const conflicts: string[] = [];
+    const fields = new Set([...Object.keys(localRecord), ...Object.keys(remoteRecord)]);
+
+    fields.forEach(field => {
+        if (IGNORED_FIELDS.has(field)) return;
+        const localValue = localRecord[field];
+        const remoteValue = remoteRecord[field];
+        if (isSameValue(localValue, remoteValue)) return;
+
+        const localChanged = !isSameValue(localValue, baseRecord[field]);
+        const remoteChanged = !isSameValue(remoteValue, baseRecord[field]);
+        if (!localChanged) {
+            merged[field] = remoteValue;
+        } else if (remoteChanged) {
+            // Deleted on both devices: when exactly doesn't matter
+            if (field === 'deletedAt' && localValue && remoteValue) return;
+            conflicts.push(field);
+        }
+    });
+
+    return { merged: merged as T, conflicts };
+}
+
+export function isSameValue(a: unknown, b: unknown) {
+    return stableStringify(a) === stableStringify(b);
+}
@@ -0,0 +1,107 @@
+import { Settings, SyncCollectionStatus, SyncRun, SyncRunError, SyncStatusCollection, SyncStep } from '../app/types';
+
+/*
+ * Bookkeeping for one sync run. SyncService reports each pull and push as it
+ * finishes; `finish` turns that into the settings to save: the per-collection
+ * status (a collection that wasn't part of the run keeps its old entry), the
+ * run log, and `lastSyncError` summing up every error still standing.
+ */
+
+export const SYNC_RUN_LIMIT = 20;
+
+export const SYNC_STATUS_LABELS: Record<SyncStatusCollection, string> = {
+    transactions: 'Transactions',
+    categories: 'Categories',
+    vendorRules: 'Vendor Rules',
+    recurringExceptions: 'Recurring Exceptions',
+    accounts: 'Accounts',
+    budgets: 'Budgets',
+    receipts: 'Receipts',
+};
+
+export function formatSyncRunError(error: SyncRunError) {
+    return `${SYNC_STATUS_LABELS[error.collection]} ${error.step === 'pull' ? 'Pull' : 'Push'}: ${error.message}`;
+}
+
+/** Errors from each collection's latest pull and push, in label order. */
+export function getStandingErrors(status: Settings['syncStatus'] = {}): SyncRunError[] {
+    return (Object.keys(SYNC_STATUS_LABELS) as SyncStatusCollection[]).flatMap((collection) => {
+        const entry = status[collection];
+        const errors: SyncRunError[] = [];
+        if (entry?.pullError) errors.push({ collection, step: 'pull', message: entry.pullError });
+        if (entry?.pushError) errors.push({ collection, step: 'push', message: entry.pushError });
+        return errors;
+    });
+}
+
+/** Standing errors plus a failed built-in category check, for badges and summaries. */
+export function countSyncProblems(settings: Settings) {
+    return getStandingErrors(settings.syncStatus).length + (settings.systemCategoriesError ? 1 : 0);
+}
+
+export function createSyncReport(settings: Settings, target: SyncRun['target'], full: boolean, startedAt = Date.now()) {
+    const status: Partial<Record<SyncStatusCollection, SyncCollectionStatus>> = { ...settings.syncStatus };
+    const errors: SyncRunError[] = [];
+    let checkedSystemCategories = false;
+    let systemCategoriesError: string | undefined;
+
+    const update = (collection: SyncStatusCollection, changes: SyncCollectionStatus) => {
+        status[collection] = { ...status[collection], ...changes };
+    };
+
+    const buildRun = (fatalError?: string): SyncRun => ({
+        id: crypto.randomUUID(),
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        target,
+        full,
+        errors,
+        systemCategoriesError,
+        fatalError,
+    });
+
+    const appendRun = (run: SyncRun) => [run, ...(settings.syncRuns ?? [])].slice(0, SYNC_RUN_LIMIT);
+
+    return {
+        succeeded(collection: SyncStatusCollection, step: SyncStep) {
+            update(collection, step === 'pull'
+                ? { lastPullAt: startedAt, pullError: undefined }
+                : { lastPushAt: startedAt, pushError: undefined });
+        },
+
+        failed(collection: SyncStatusCollection, step: SyncStep, message: string) {
+            errors.push({ collection, step, message });
+            update(collection, step === 'pull' ? { pullError: message } : { pushError: message });
+        },
+
+        /** Outcome of making sure the built-in categories exist remotely; `error` is undefined when they do. */
+        systemCategoriesChecked(error?: string) {
+            checkedSystemCategories = true;
+            systemCategoriesError = error;
+        },
+
+        finish(): Partial<Settings> {
+            const standingSystemError = checkedSystemCategories ? systemCategoriesError : settings.systemCategoriesError;
+            const messages = [
+                ...(standingSystemError ? [`System Categories: ${standingSystemError}`] : []),
+                ...getStandingErrors(status).map(formatSyncRunError),
+            ];
+            return {
+                lastSyncError: messages.length > 0 ? messages.join(' | ') : undefined,
+                syncStatus: status,
+                syncRuns: appendRun(buildRun()),
+                systemCategoriesError: standingSystemError,
+            };
+        },
+
+        /** For a run that failed before anything was saved: only the log and the error change. */
+        abort(message: string): Partial<Settings> {
+            return {
+                lastSyncError: `Fatal: ${message}`,
+                syncRuns: appendRun(buildRun(message)),
+            };
+        },
+    };
+}
+
+export type SyncReport = ReturnType<typeof createSyncReport>;
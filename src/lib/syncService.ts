@@ -1,8 +1,13 @@
 import { supabase } from './supabaseClient';
-import { Transaction, Category, VendorRule, Settings, RecurringException } from '../app/types';
+import { Transaction, Category, VendorRule, Settings, RecurringException, Account, Budget, SyncCollection, SyncConflict, SyncStatusCollection, SyncStep } from '../app/types';
+import { getBudgetTargetKey } from '../app/utils/budgetTargets';
 import { getStorageScope, storage } from '../app/utils/storage';
 import { isUUID } from '../app/utils/uuidMigration';
 import { ensureSystemCategories } from './systemCategorySync';
+import { syncReceipts } from './receiptStorage';
+import { getSyncConflictId, isSameValue, mergeFields } from './syncMerge';
+import { createSyncReport } from './syncReport';
+import { getSyncRecordKey, OUTBOX_STORE, OutboxEntry, readOutbox, settleOutbox } from '../app/utils/syncOutbox';
 
 // --- Mappers ---
 
@@ -12,14 +17,24 @@ function mapExpenseToLocal(row: any): Transaction {
         vendor: row.vendor,
         amount: row.amount,
         category: row.category_id,
+        splits: Array.isArray(row.splits) && row.splits.length > 0 ? row.splits : undefined,
+        direction: row.direction || 'expense',
+        accountId: row.account_id || undefined,
+        transferAccountId: row.transfer_account_id || undefined,
         date: row.date,
         note: row.note || undefined,
+        currency: row.currency || undefined,
+        exchangeRate: row.exchange_rate != null ? Number(row.exchange_rate) : undefined,
+        exchangeRateCurrency: row.exchange_rate_currency || undefined,
         photoUrl: row.photo_url || undefined,
+        attachments: Array.isArray(row.attachments) && row.attachments.length > 0 ? row.attachments : undefined,
         isRecurring: row.is_recurring,
         recurrenceType: row.recurrence_type || undefined,
         endDate: row.end_date || undefined,
         isActive: row.is_active,
         endedAt: row.ended_at ? new Date(row.ended_at).toISOString().split('T')[0] : undefined,
+        batchId: row.batch_id || undefined,
+        bankReference: row.bank_reference || undefined,
         updatedAt: new Date(row.updated_at).getTime(),
         deletedAt: row.deleted_at ? new Date(row.deleted_at).getTime() : undefined,
     };
@@ -32,14 +47,24 @@ function mapExpenseToRemote(local: Transaction, userId: string): any {
         vendor: local.vendor,
         category_id: local.category,
         amount: local.amount,
+        splits: local.splits && local.splits.length > 0 ? local.splits : null,
+        direction: local.direction ?? 'expense',
+        account_id: local.accountId ?? null,
+        transfer_account_id: local.transferAccountId ?? null,
         date: local.date,
         note: local.note,
-        photo_url: local.photoUrl,
+        currency: local.currency ?? null,
+        exchange_rate: local.exchangeRate ?? null,
+        exchange_rate_currency: local.exchangeRateCurrency ?? null,
+        photo_url: local.photoUrl ?? null,
+        attachments: local.attachments && local.attachments.length > 0 ? local.attachments : null,
         is_recurring: local.isRecurring ?? false,
         recurrence_type: local.recurrenceType,
         end_date: local.endDate,
         is_active: local.isActive ?? true,
         ended_at: local.endedAt ? new Date(local.endedAt).toISOString() : null,
+        batch_id: local.batchId ?? null,
+        bank_reference: local.bankReference ?? null,
         updated_at: local.updatedAt ? new Date(local.updatedAt).toISOString() : new Date().toISOString(),
         deleted_at: local.deletedAt ? new Date(local.deletedAt).toISOString() : null,
     };
@@ -52,6 +77,7 @@ function mapCategoryToLocal(row: any): Category {
         icon: row.icon || 'Box', // default fallback
         color: row.color || '#cccccc',
         group: row.group || 'Other',
+        batchId: row.batch_id || undefined,
         updatedAt: new Date(row.updated_at).getTime(),
         deletedAt: row.deleted_at ? new Date(row.deleted_at).getTime() : undefined,
     };
@@ -66,6 +92,7 @@ function mapCategoryToRemote(local: Category, userId: string): any {
         color: local.color,
         "group": local.group,
         is_system: local.id.startsWith('cat-'),
+        batch_id: local.batchId ?? null,
         updated_at: local.updatedAt ? new Date(local.updatedAt).toISOString() : new Date().toISOString(),
         deleted_at: local.deletedAt ? new Date(local.deletedAt).toISOString() : null,
     };
@@ -120,16 +147,165 @@ function mapExceptionToRemote(local: RecurringException, userId: string): any {
     };
 }
 
+function mapAccountToLocal(row: any): Account {
+    return {
+        id: row.id,
+        name: row.name,
+        type: row.type || 'other',
+        openingBalance: Number(row.opening_balance) || 0,
+        color: row.color || '#2563EB',
+        createdAt: new Date(row.created_at).getTime(),
+        updatedAt: new Date(row.updated_at).getTime(),
+        deletedAt: row.deleted_at ? new Date(row.deleted_at).getTime() : undefined,
+    };
+}
+
+function mapAccountToRemote(local: Account, userId: string): any {
+    return {
+        id: local.id,
+        user_id: userId,
+        name: local.name,
+        type: local.type,
+        opening_balance: local.openingBalance,
+        color: local.color,
+        created_at: new Date(local.createdAt).toISOString(),
+        updated_at: local.updatedAt ? new Date(local.updatedAt).toISOString() : new Date().toISOString(),
+        deleted_at: local.deletedAt ? new Date(local.deletedAt).toISOString() : null,
+    };
+}
+
+function mapBudgetToLocal(row: any): Budget {
+    return {
+        id: row.id,
+        scope: row.scope || 'category',
+        categoryId: row.category_id || undefined,
+        group: row.group_name || undefined,
+        limit: Number(row.monthly_limit) || 0,
+        period: row.period || 'monthly',
+        periodStart: row.period_start || undefined,
+        periodEnd: row.period_end || undefined,
+        rollover: !!row.rollover,
+        createdAt: new Date(row.created_at).getTime(),
+        updatedAt: new Date(row.updated_at).getTime(),
+        deletedAt: row.deleted_at ? new Date(row.deleted_at).getTime() : undefined,
+    };
+}
+
+function mapBudgetToRemote(local: Budget, userId: string): any {
+    return {
+        id: local.id,
+        user_id: userId,
+        scope: local.scope,
+        category_id: local.categoryId ?? null,
+        group_name: local.group ?? null,
+        monthly_limit: local.limit,
+        period: local.period,
+        period_start: local.periodStart ?? null,
+        period_end: local.periodEnd ?? null,
+        rollover: local.rollover ?? false,
+        created_at: new Date(local.createdAt).toISOString(),
+        updated_at: local.updatedAt ? new Date(local.updatedAt).toISOString() : new Date().toISOString(),
+        deleted_at: local.deletedAt ? new Date(local.deletedAt).toISOString() : null,
+    };
+}
+
 // --- Sync Service ---
 
+// Tables that broadcast their changes over Supabase Realtime
+const REALTIME_TABLES = ['expenses', 'categories', 'vendor_rules', 'recurring_exceptions', 'accounts', 'budgets'] as const;
+
+export type RealtimeTable = typeof REALTIME_TABLES[number];
+
+// Local records are keyed by these ids; recurring_exceptions rows have no id column of their own
+const REALTIME_MAPPERS: Record<RealtimeTable, (row: any) => { id: string }> = {
+    expenses: mapExpenseToLocal,
+    categories: mapCategoryToLocal,
+    vendor_rules: mapRuleToLocal,
+    recurring_exceptions: mapExceptionToLocal,
+    accounts: mapAccountToLocal,
+    budgets: mapBudgetToLocal,
+};
+
+export interface RemoteRowChange {
+    table: RealtimeTable;
+    row: any;
+}
+
+// Records a batch of Realtime changes replaced or added, ready to put into state
+export interface RemoteUpdate {
+    transactions: Transaction[];
+    categories: Category[];
+    vendorRules: VendorRule[];
+    recurringExceptions: RecurringException[];
+    accounts: Account[];
+    budgets: Budget[];
+    removedBudgetIds: string[]; // Re-keyed onto a remote budget's id
+    conflicts: SyncConflict[];
+}
+
+interface MergeState {
+    userId: string;
+    outbox: Map<string, OutboxEntry>; // Records with local edits the server doesn't have yet
+    bases: Map<string, unknown>; // Last copy of each record this device and the server agreed on
+    nextBases: Map<string, unknown>;
+    conflicts: SyncConflict[];
+    pushed: Map<string, number>; // Outbox key → queuedAt that reached the server
+    failed: Map<string, string>; // Outbox key → error
+    ignoreBackoff?: boolean; // Push records still waiting out a failed push, too
+}
+
+export interface SyncOptions {
+    only?: SyncStatusCollection; // Retry one collection instead of syncing everything
+    full?: boolean; // Pull every row again, not just those past the saved revisions
+}
+
+const PUSH_BATCH_SIZE = 200;
+const PUSH_ATTEMPTS = 3; // Per batch within one sync; after that the records wait in the outbox
+
+async function withRetry(run: () => Promise<void>) {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await run();
+        } catch (err) {
+            if (attempt >= PUSH_ATTEMPTS) throw err;
+            await new Promise(resolve => setTimeout(resolve, 500 * 2 ** (attempt - 1)));
+        }
+    }
+}
+
+// The merge keeps untouched records as the same objects, so anything new is what changed
+function getChangedEntries<T extends { id: string }>(before: T[], after: T[]): Array<[string, T]> {
+    const unchanged = new Set(before);
+    return after.filter(record => !unchanged.has(record)).map(record => [record.id, record]);
+}
+
+// PostgREST caps every response (1000 rows by default), so pulls come in pages of at most this many
+const PULL_PAGE_SIZE = 1000;
+
+// Revisions are taken when a row is written, not when its transaction commits,
+// so a slower write can land below a cursor that has already moved past it.
+// Each pull re-reads this far below the cursor. The sequence is shared by every
+// user, so this is a number of writes across the whole server, not this user's
+// rows. mergeCollections skips re-read rows that match what it already has, so
+// they aren't written again.
+const REVISION_OVERLAP = 1000;
+
+// Rows carry a server-assigned revision, so pulls don't depend on device clocks
+function getMaxRevision(rows: any[], current = 0) {
+    return rows.reduce((max, row) => Math.max(max, Number(row.revision) || 0), current);
+}
+
 export class SyncService {
     static async sync(
         localTransactions: Transaction[],
         localCategories: Category[],
         localVendorRules: VendorRule[],
         localExceptions: RecurringException[],
+        localAccounts: Account[],
+        localBudgets: Budget[],
         settings: Settings,
-        updateContextState: (transactions: Transaction[], categories: Category[], vendorRules: VendorRule[], exceptions: RecurringException[], newSettings: Partial<Settings>) => void
+        updateContextState: (transactions: Transaction[], categories: Category[], vendorRules: VendorRule[], exceptions: RecurringException[], accounts: Account[], budgets: Budget[], newSettings: Partial<Settings>, conflicts: SyncConflict[]) => void,
+        options: SyncOptions = {}
     ) {
         if (!supabase) {
             console.log('Sync disabled: Supabase not configured');
@@ -142,211 +318,438 @@ export class SyncService {
             return;
         }
 
+        const client = supabase;
         const userId = session.user.id;
         const storageScope = getStorageScope(userId);
-        const lastPullAt = settings.lastPullAt ? new Date(settings.lastPullAt).toISOString() : new Date(0).toISOString();
-        const lastPushAt = settings.lastPushAt || 0;
+        const { only, full = false } = options;
+        // A full resync starts every pull from the first revision
+        const revisions: Record<string, number> = full ? {} : { ...settings.syncRevisions };
         const syncTimestamp = Date.now();
+        const report = createSyncReport(settings, only ?? 'all', full, syncTimestamp);
 
         // Accumulators for partial success
         let mergedTransactions = localTransactions;
         let mergedCategories = localCategories;
         let mergedRules = localVendorRules;
         let mergedExceptions = localExceptions;
-        let syncErrors: string[] = [];
+        let mergedAccounts = localAccounts;
+        let mergedBudgets = localBudgets;
 
-        try {
+        // Runs one pull or push if it is part of this sync, and reports how it went
+        const runStep = async (collection: SyncStatusCollection, step: SyncStep, run: () => Promise<void>) => {
+            if (only && only !== collection) return;
             try {
-                await ensureSystemCategories(userId);
+                await run();
+                report.succeeded(collection, step);
             } catch (err: any) {
-                console.warn('Sync bootstrap (system categories) failed:', err.message);
-                syncErrors.push(`System Categories: ${err.message}`);
+                console.warn(`Sync ${step === 'pull' ? 'Pull' : 'Push'} (${collection}) failed:`, err.message);
+                // We don't necessarily treat a missing recurring_exceptions table as a sync error
+                if (collection === 'recurringExceptions' && err.message.includes('schema cache')) return;
+                report.failed(collection, step, err.message);
+            }
+        };
+
+        // Pages by revision rather than by offset, so a row edited mid-pull moves ahead instead of shifting others out of view
+        const pullRows = async (table: string, fromRevision?: number) => {
+            const rows: any[] = [];
+            let after = fromRevision === undefined ? undefined : Math.max(0, fromRevision - REVISION_OVERLAP);
+            for (;;) {
+                let query = client.from(table).select('*').eq('user_id', userId);
+                if (after !== undefined) query = query.gt('revision', after);
+                const { data, error } = await query.order('revision').limit(PULL_PAGE_SIZE);
+                if (error) throw error;
+                const page = data || [];
+                rows.push(...page);
+                if (page.length < PULL_PAGE_SIZE) return rows;
+                after = Number(page[page.length - 1].revision);
+            }
+        };
+
+        try {
+            const mergeState: MergeState = {
+                userId,
+                outbox: await readOutbox(storageScope),
+                bases: new Map(await storage.getEntries<unknown>('syncBase', storageScope)),
+                nextBases: new Map(),
+                conflicts: [],
+                pushed: new Map(),
+                failed: new Map(),
+                // Asked for by the user, so records backing off after a failed push go now
+                ignoreBackoff: full || !!only,
+            };
+
+            if (!only || only === 'categories') {
+                try {
+                    await ensureSystemCategories(userId);
+                    report.systemCategoriesChecked();
+                } catch (err: any) {
+                    console.warn('Sync bootstrap (system categories) failed:', err.message);
+                    report.systemCategoriesChecked(err.message);
+                }
             }
 
             // ==========================================
             // 1. PULL FROM REMOTE (Isolated)
             // ==========================================
 
-            // Expenses
-            try {
-                const { data: remoteExpenses, error: eErr } = await supabase
-                    .from('expenses')
-                    .select('*')
-                    .eq('user_id', userId)
-                    .or(`updated_at.gt.${lastPullAt},deleted_at.gt.${lastPullAt}`);
-                if (eErr) throw eErr;
-                mergedTransactions = this.mergeCollections(localTransactions, remoteExpenses || [], mapExpenseToLocal);
-            } catch (err: any) {
-                console.warn('Sync Pull (expenses) failed:', err.message);
-                syncErrors.push(`Expenses Pull: ${err.message}`);
-            }
+            await runStep('transactions', 'pull', async () => {
+                const remoteExpenses = await pullRows('expenses', revisions.expenses ?? 0);
+                mergedTransactions = this.mergeCollections('transactions', localTransactions, remoteExpenses, mapExpenseToLocal, mapExpenseToRemote, mergeState);
+                revisions.expenses = getMaxRevision(remoteExpenses, revisions.expenses);
+            });
 
-            // Categories
-            try {
-                const { data: remoteCategories, error: cErr } = await supabase
-                    .from('categories')
-                    .select('*')
-                    .eq('user_id', userId)
-                    .or(`updated_at.gt.${lastPullAt},deleted_at.gt.${lastPullAt}`);
-                if (cErr) throw cErr;
-                mergedCategories = this.mergeCollections(localCategories, remoteCategories || [], mapCategoryToLocal);
-            } catch (err: any) {
-                console.warn('Sync Pull (categories) failed:', err.message);
-                syncErrors.push(`Categories Pull: ${err.message}`);
-            }
+            await runStep('categories', 'pull', async () => {
+                const remoteCategories = await pullRows('categories', revisions.categories ?? 0);
+                mergedCategories = this.mergeCollections('categories', localCategories, remoteCategories, mapCategoryToLocal, mapCategoryToRemote, mergeState);
+                revisions.categories = getMaxRevision(remoteCategories, revisions.categories);
+            });
 
-            // Rules
-            try {
-                const { data: remoteRules, error: rErr } = await supabase
-                    .from('vendor_rules')
-                    .select('*')
-                    .eq('user_id', userId)
-                    .or(`updated_at.gt.${lastPullAt},deleted_at.gt.${lastPullAt}`);
-                if (rErr) throw rErr;
-                mergedRules = this.mergeCollections(localVendorRules, remoteRules || [], mapRuleToLocal);
-            } catch (err: any) {
-                console.warn('Sync Pull (vendor_rules) failed:', err.message);
-                syncErrors.push(`Vendor Rules Pull: ${err.message}`);
-            }
+            await runStep('vendorRules', 'pull', async () => {
+                const remoteRules = await pullRows('vendor_rules', revisions.vendor_rules ?? 0);
+                mergedRules = this.mergeCollections('vendorRules', localVendorRules, remoteRules, mapRuleToLocal, mapRuleToRemote, mergeState);
+                revisions.vendor_rules = getMaxRevision(remoteRules, revisions.vendor_rules);
+            });
 
             // Exceptions (Optional)
-            try {
-                const { data: remoteExceptions, error: xErr } = await supabase
-                    .from('recurring_exceptions')
-                    .select('*')
-                    .eq('user_id', userId)
-                    .or(`updated_at.gt.${lastPullAt},deleted_at.gt.${lastPullAt}`);
-                if (xErr) throw xErr;
-                mergedExceptions = this.mergeCollections(localExceptions, remoteExceptions || [], mapExceptionToLocal);
-            } catch (err: any) {
-                console.warn('Sync Pull (recurring_exceptions) failed:', err.message);
-                // We don't necessarily treat this as a fatal core sync error if it's just "table not found"
-                if (!err.message.includes('schema cache')) {
-                    syncErrors.push(`Recurring Exceptions Pull: ${err.message}`);
-                }
-            }
+            await runStep('recurringExceptions', 'pull', async () => {
+                const remoteExceptions = await pullRows('recurring_exceptions', revisions.recurring_exceptions ?? 0);
+                mergedExceptions = this.mergeCollections('recurringExceptions', localExceptions, remoteExceptions, mapExceptionToLocal, mapExceptionToRemote, mergeState);
+                revisions.recurring_exceptions = getMaxRevision(remoteExceptions, revisions.recurring_exceptions);
+            });
+
+            await runStep('accounts', 'pull', async () => {
+                const remoteAccounts = await pullRows('accounts', revisions.accounts ?? 0);
+                mergedAccounts = this.mergeCollections('accounts', localAccounts, remoteAccounts, mapAccountToLocal, mapAccountToRemote, mergeState);
+                revisions.accounts = getMaxRevision(remoteAccounts, revisions.accounts);
+            });
+
+            // Budgets (always a full pull, ignoring the revision cursor: there is at
+            // most one row per target, and adopting remote ids needs all of them)
+            await runStep('budgets', 'pull', async () => {
+                const remoteBudgets = await pullRows('budgets');
+                const rekeyedBudgets = this.adoptRemoteBudgetIds(localBudgets, remoteBudgets, mergeState);
+                mergedBudgets = this.mergeCollections('budgets', rekeyedBudgets, remoteBudgets, mapBudgetToLocal, mapBudgetToRemote, mergeState);
+            });
 
             // ==========================================
             // 2. PUSH TO REMOTE (Isolated)
             // ==========================================
 
-            // Expenses
-            try {
-                const dirtyExpenses = mergedTransactions.filter(t => t.updatedAt && t.updatedAt > lastPushAt);
-                const validDirtyExpenses = dirtyExpenses.filter(t => isUUID(t.id));
-                if (validDirtyExpenses.length > 0) {
-                    const { error } = await supabase.from('expenses').upsert(
-                        validDirtyExpenses.map(t => mapExpenseToRemote(t, userId))
-                    );
-                    if (error) throw error;
-                }
-            } catch (err: any) {
-                console.warn('Sync Push (expenses) failed:', err.message);
-                syncErrors.push(`Expenses Push: ${err.message}`);
-            }
+            // Accounts (before expenses so account_id references resolve)
+            await runStep('accounts', 'push', () =>
+                this.pushQueued('accounts', 'accounts', mergedAccounts, a => isUUID(a.id), mapAccountToLocal, mapAccountToRemote, mergeState));
 
-            // Categories
-            try {
-                const dirtyCategories = mergedCategories.filter(c => c.updatedAt && c.updatedAt > lastPushAt);
-                const validDirtyCategories = dirtyCategories.filter(c => c.id.startsWith('cat-') || isUUID(c.id));
-                if (validDirtyCategories.length > 0) {
-                    const { error } = await supabase.from('categories').upsert(
-                        validDirtyCategories.map(c => mapCategoryToRemote(c, userId))
-                    );
-                    if (error) throw error;
-                }
-            } catch (err: any) {
-                console.warn('Sync Push (categories) failed:', err.message);
-                syncErrors.push(`Categories Push: ${err.message}`);
-            }
+            // Attachments (before expenses so the files they reference can be downloaded)
+            await runStep('receipts', 'push', () => syncReceipts(userId, storageScope, mergedTransactions));
 
-            // Rules
-            try {
-                const dirtyRules = mergedRules.filter(r => r.updatedAt && r.updatedAt > lastPushAt);
-                const validDirtyRules = dirtyRules.filter(r => isUUID(r.id));
-                if (validDirtyRules.length > 0) {
-                    const { error } = await supabase.from('vendor_rules').upsert(
-                        validDirtyRules.map(r => mapRuleToRemote(r, userId))
-                    );
-                    if (error) throw error;
-                }
-            } catch (err: any) {
-                console.warn('Sync Push (vendor_rules) failed:', err.message);
-                syncErrors.push(`Vendor Rules Push: ${err.message}`);
-            }
+            await runStep('transactions', 'push', () =>
+                this.pushQueued('transactions', 'expenses', mergedTransactions, t => isUUID(t.id), mapExpenseToLocal, mapExpenseToRemote, mergeState));
+
+            await runStep('categories', 'push', () =>
+                this.pushQueued('categories', 'categories', mergedCategories, c => c.id.startsWith('cat-') || isUUID(c.id), mapCategoryToLocal, mapCategoryToRemote, mergeState));
+
+            // Budgets (after categories so category_id references resolve)
+            await runStep('budgets', 'push', () =>
+                this.pushQueued('budgets', 'budgets', mergedBudgets, b => isUUID(b.id), mapBudgetToLocal, mapBudgetToRemote, mergeState));
+
+            await runStep('vendorRules', 'push', () =>
+                this.pushQueued('vendorRules', 'vendor_rules', mergedRules, r => isUUID(r.id), mapRuleToLocal, mapRuleToRemote, mergeState));
 
             // Exceptions (Optional)
-            try {
-                const dirtyExceptions = mergedExceptions.filter(x => x.updatedAt && x.updatedAt > lastPushAt);
-                const validDirtyExceptions = dirtyExceptions.filter(x => isUUID(x.ruleId));
-                if (validDirtyExceptions.length > 0) {
-                    const { error } = await supabase.from('recurring_exceptions').upsert(
-                        validDirtyExceptions.map(x => mapExceptionToRemote(x, userId))
-                    );
-                    if (error) throw error;
-                }
-            } catch (err: any) {
-                console.warn('Sync Push (recurring_exceptions) failed:', err.message);
-                if (!err.message.includes('schema cache')) {
-                    syncErrors.push(`Recurring Exceptions Push: ${err.message}`);
-                }
-            }
+            await runStep('recurringExceptions', 'push', () =>
+                this.pushQueued('recurringExceptions', 'recurring_exceptions', mergedExceptions, x => isUUID(x.ruleId), mapExceptionToLocal, mapExceptionToRemote, mergeState));
 
             // ==========================================
             // 3. PERSIST & UPDATE STATE
             // ==========================================
 
-            // Persist the merged collections to IndexedDB
-            for (const t of mergedTransactions) await storage.set('transactions', t.id, t, storageScope);
-            for (const c of mergedCategories) await storage.set('categories', c.id, c, storageScope);
-            for (const r of mergedRules) await storage.set('vendorRules', r.id, r, storageScope);
-            for (const x of mergedExceptions) await storage.set('recurringExceptions', x.id, x, storageScope);
+            await settleOutbox(storageScope, mergeState.outbox, mergeState.pushed, mergeState.failed);
+
+            for (const b of localBudgets) {
+                // Budgets re-keyed onto a remote id leave their old record behind
+                if (!mergedBudgets.some(m => m.id === b.id)) await storage.remove('budgets', b.id, storageScope);
+            }
 
-            // Update settings
-            const hasFatalError = syncErrors.length > 0;
+            // Update settings (a retry of one collection leaves the others' timestamps alone)
             const newSettings: Partial<Settings> = {
-                lastPullAt: syncTimestamp,
-                lastPushAt: syncTimestamp,
-                lastSyncError: hasFatalError ? syncErrors.join(' | ') : undefined
+                ...(only ? {} : { lastPullAt: syncTimestamp, lastPushAt: syncTimestamp }),
+                ...report.finish(),
+                syncRevisions: revisions,
             };
 
-            await storage.set('settings', 'app_settings', { ...settings, ...newSettings }, storageScope);
+            // Only records the merge replaced are written, all in one transaction
+            await storage.putEntries({
+                transactions: getChangedEntries(localTransactions, mergedTransactions),
+                categories: getChangedEntries(localCategories, mergedCategories),
+                vendorRules: getChangedEntries(localVendorRules, mergedRules),
+                recurringExceptions: getChangedEntries(localExceptions, mergedExceptions),
+                accounts: getChangedEntries(localAccounts, mergedAccounts),
+                budgets: getChangedEntries(localBudgets, mergedBudgets),
+                syncBase: Array.from(mergeState.nextBases),
+                syncConflicts: mergeState.conflicts.map(conflict => [conflict.id, conflict]),
+                settings: [['app_settings', { ...settings, ...newSettings }]],
+            }, storageScope);
 
             // Send back to React context
-            updateContextState(mergedTransactions, mergedCategories, mergedRules, mergedExceptions, newSettings);
+            updateContextState(mergedTransactions, mergedCategories, mergedRules, mergedExceptions, mergedAccounts, mergedBudgets, newSettings, mergeState.conflicts);
 
         } catch (error: any) {
             console.error('Core Sync Failure:', error);
-            const newSettings: Partial<Settings> = { lastSyncError: `Fatal: ${error.message}` };
+            const newSettings = report.abort(error.message);
             await storage.set('settings', 'app_settings', { ...settings, ...newSettings }, storageScope);
-            updateContextState(localTransactions, localCategories, localVendorRules, localExceptions, newSettings);
+            updateContextState(localTransactions, localCategories, localVendorRules, localExceptions, localAccounts, localBudgets, newSettings, []);
         }
     }
 
+    /**
+     * Listens for inserts and updates to the signed-in user's synced rows.
+     * Deletions are soft (deleted_at), so they arrive as updates as well.
+     * `onSubscribed` runs on every (re)connect, since changes made while the
+     * channel was down are only picked up by a pull. Returns the unsubscribe.
+     */
+    static subscribeToChanges(userId: string, onChange: (change: RemoteRowChange) => void, onSubscribed: () => void): () => void {
+        const client = supabase;
+        if (!client) return () => {};
+
+        const channel = client.channel(`sync:${userId}`);
+        for (const table of REALTIME_TABLES) {
+            channel.on('postgres_changes', { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` }, payload => {
+                if (payload.eventType !== 'DELETE') onChange({ table, row: payload.new });
+            });
+        }
+        channel.subscribe(status => {
+            if (status === 'SUBSCRIBED') onSubscribed();
+        });
+
+        return () => {
+            client.removeChannel(channel);
+        };
+    }
+
+    /**
+     * Merges rows received over Realtime the same way a pull does, against the
+     * same bases and outbox, and saves the result in one transaction. Rows that
+     * match their base are this device's own pushes coming back and are
+     * skipped. Revision cursors aren't moved: the next pull fetches these rows
+     * again, which also covers any event that was missed.
+     */
+    static async applyRemoteChanges(
+        changes: RemoteRowChange[],
+        localTransactions: Transaction[],
+        localCategories: Category[],
+        localVendorRules: VendorRule[],
+        localExceptions: RecurringException[],
+        localAccounts: Account[],
+        localBudgets: Budget[],
+        updateContextState: (update: RemoteUpdate) => void
+    ) {
+        if (!supabase) return;
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session || !session.user) return;
+
+        const userId = session.user.id;
+        const storageScope = getStorageScope(userId);
+        const mergeState: MergeState = {
+            userId,
+            outbox: await readOutbox(storageScope),
+            bases: new Map(await storage.getEntries<unknown>('syncBase', storageScope)),
+            nextBases: new Map(),
+            conflicts: [],
+            pushed: new Map(),
+            failed: new Map(),
+        };
+
+        // Only the highest revision of each row matters when several edits arrive together
+        const latestRows = new Map<string, RemoteRowChange>();
+        for (const change of changes) {
+            const key = `${change.table}:${REALTIME_MAPPERS[change.table](change.row).id}`;
+            const current = latestRows.get(key);
+            if (!current || Number(change.row.revision) >= Number(current.row.revision)) latestRows.set(key, change);
+        }
+        const rowsFor = <T extends { id: string }>(table: RealtimeTable, collection: SyncCollection, mapToLocal: (row: any) => T) =>
+            Array.from(latestRows.values())
+                .filter(change => change.table === table)
+                .map(change => change.row)
+                .filter(row => {
+                    const remoteItem = mapToLocal(row);
+                    return !isSameValue(remoteItem, mergeState.bases.get(getSyncRecordKey(collection, remoteItem.id)));
+                });
+
+        const mergedTransactions = this.mergeCollections('transactions', localTransactions, rowsFor('expenses', 'transactions', mapExpenseToLocal), mapExpenseToLocal, mapExpenseToRemote, mergeState);
+        const mergedCategories = this.mergeCollections('categories', localCategories, rowsFor('categories', 'categories', mapCategoryToLocal), mapCategoryToLocal, mapCategoryToRemote, mergeState);
+        const mergedRules = this.mergeCollections('vendorRules', localVendorRules, rowsFor('vendor_rules', 'vendorRules', mapRuleToLocal), mapRuleToLocal, mapRuleToRemote, mergeState);
+        const mergedExceptions = this.mergeCollections('recurringExceptions', localExceptions, rowsFor('recurring_exceptions', 'recurringExceptions', mapExceptionToLocal), mapExceptionToLocal, mapExceptionToRemote, mergeState);
+        const mergedAccounts = this.mergeCollections('accounts', localAccounts, rowsFor('accounts', 'accounts', mapAccountToLocal), mapAccountToLocal, mapAccountToRemote, mergeState);
+        const budgetRows = rowsFor('budgets', 'budgets', mapBudgetToLocal);
+        const rekeyedBudgets = this.adoptRemoteBudgetIds(localBudgets, budgetRows, mergeState);
+        const mergedBudgets = this.mergeCollections('budgets', rekeyedBudgets, budgetRows, mapBudgetToLocal, mapBudgetToRemote, mergeState);
+
+        const changed = {
+            transactions: getChangedEntries(localTransactions, mergedTransactions),
+            categories: getChangedEntries(localCategories, mergedCategories),
+            vendorRules: getChangedEntries(localVendorRules, mergedRules),
+            recurringExceptions: getChangedEntries(localExceptions, mergedExceptions),
+            accounts: getChangedEntries(localAccounts, mergedAccounts),
+            budgets: getChangedEntries(localBudgets, mergedBudgets),
+        };
+        const removedBudgetIds = localBudgets.filter(b => !mergedBudgets.some(m => m.id === b.id)).map(b => b.id);
+        const rekeyedOutbox = rekeyedBudgets
+            .filter((b, index) => b.id !== localBudgets[index].id)
+            .map(b => getSyncRecordKey('budgets', b.id))
+            .filter(key => mergeState.outbox.has(key))
+            .map((key): [string, OutboxEntry] => [key, mergeState.outbox.get(key)!]);
+
+        await storage.putEntries({
+            ...changed,
+            syncBase: Array.from(mergeState.nextBases),
+            syncConflicts: mergeState.conflicts.map(conflict => [conflict.id, conflict]),
+            [OUTBOX_STORE]: rekeyedOutbox,
+        }, storageScope);
+        for (const id of removedBudgetIds) await storage.remove('budgets', id, storageScope);
+
+        const records = <T>(entries: Array<[string, T]>) => entries.map(([, record]) => record);
+        updateContextState({
+            transactions: records(changed.transactions),
+            categories: records(changed.categories),
+            vendorRules: records(changed.vendorRules),
+            recurringExceptions: records(changed.recurringExceptions),
+            accounts: records(changed.accounts),
+            budgets: records(changed.budgets),
+            removedBudgetIds,
+            conflicts: mergeState.conflicts,
+        });
+    }
+
+    /**
+     * The remote table allows one budget per target (category, group or the
+     * overall cap), so a budget created on this device for a target that
+     * already has a remote row takes over that row's id instead of competing
+     * with it.
+     */
+    private static adoptRemoteBudgetIds(localBudgets: Budget[], remoteRows: any[], state: MergeState): Budget[] {
+        const remoteIdByTarget = new Map<string, string>(
+            remoteRows.map(row => [getBudgetTargetKey(mapBudgetToLocal(row)), row.id])
+        );
+        return localBudgets.map(b => {
+            const remoteId = remoteIdByTarget.get(getBudgetTargetKey(b));
+            if (!remoteId || remoteId === b.id) return b;
+            // A queued budget that took over a remote id is pushed under that id
+            const queued = state.outbox.get(getSyncRecordKey('budgets', b.id));
+            if (queued) state.outbox.set(getSyncRecordKey('budgets', remoteId), { ...queued, recordId: remoteId });
+            return { ...b, id: remoteId };
+        });
+    }
+
     private static mergeCollections<T extends { id: string; updatedAt?: number }>(
+        collection: SyncCollection,
         localArray: T[],
         remoteRows: any[],
-        mapToLocal: (row: any) => T
+        mapToLocal: (row: any) => T,
+        mapToRemote: (local: T, userId: string) => any,
+        state: MergeState
     ): T[] {
         const localMap = new Map(localArray.map(item => [item.id, item]));
 
         for (const row of remoteRows) {
             const remoteItem = mapToLocal(row);
             const localItem = localMap.get(remoteItem.id);
-
-            if (!localItem) {
-                // If it doesn't exist locally at all, accept remote
+            const baseKey = getSyncRecordKey(collection, remoteItem.id);
+            const base = state.bases.get(baseKey) as T | undefined;
+            // Already merged, e.g. re-read from the revision overlap or this device's own push coming back
+            if (localItem && isSameValue(remoteItem, base)) continue;
+            state.nextBases.set(baseKey, remoteItem);
+            // Matches the local copy, so only the base moves; the record isn't written again
+            if (localItem && isSameValue(remoteItem, mapToLocal(mapToRemote(localItem, state.userId)))) continue;
+
+            if (!localItem || !state.outbox.has(baseKey)) {
+                // Nothing unpushed on this device, so the server copy is simply newer
                 localMap.set(remoteItem.id, remoteItem);
-            } else {
-                // Last Writer Wins via updatedAt
+                continue;
+            }
+
+            if (!base) {
+                // Never synced from this device, so there is nothing to tell the edits apart: last writer wins
                 const remoteTime = remoteItem.updatedAt || 0;
                 const localTime = localItem.updatedAt || 0;
                 if (remoteTime >= localTime) {
                     localMap.set(remoteItem.id, remoteItem);
                 }
+                continue;
+            }
+
+            // Compare like with like: the local record as the server would store it
+            const normalizedLocal = mapToLocal(mapToRemote(localItem, state.userId));
+            const { merged, conflicts } = mergeFields(normalizedLocal, remoteItem, base);
+            localMap.set(remoteItem.id, { ...localItem, ...merged, updatedAt: localItem.updatedAt });
+
+            const detectedAt = Date.now();
+            for (const field of conflicts) {
+                state.conflicts.push({
+                    id: getSyncConflictId(collection, remoteItem.id, field),
+                    collection,
+                    recordId: remoteItem.id,
+                    field,
+                    localValue: (normalizedLocal as Record<string, unknown>)[field],
+                    remoteValue: (remoteItem as Record<string, unknown>)[field],
+                    detectedAt,
+                });
             }
         }
 
         return Array.from(localMap.values());
     }
+
+    /**
+     * Upserts the queued records of one collection in batches. A batch that
+     * still fails after a few tries stays queued with a backoff, and its error
+     * is rethrown for the sync report. Pushed records become the base for the
+     * next merge, since that is what the server now holds.
+     */
+    private static async pushQueued<T extends { id: string }>(
+        collection: SyncCollection,
+        table: string,
+        records: T[],
+        isPushable: (record: T) => boolean,
+        mapToLocal: (row: any) => T,
+        mapToRemote: (local: T, userId: string) => any,
+        state: MergeState
+    ) {
+        const client = supabase;
+        if (!client) return;
+
+        const now = Date.now();
+        const recordsById = new Map(records.map(record => [record.id, record]));
+        const due: T[] = [];
+        state.outbox.forEach((entry, key) => {
+            if (entry.collection !== collection) return;
+            const record = recordsById.get(entry.recordId);
+            if (!record || !isPushable(record)) {
+                // Gone, or an id the server would reject: nothing left to push
+                state.pushed.set(key, entry.queuedAt);
+            } else if (state.ignoreBackoff || !entry.retryAt || entry.retryAt <= now) {
+                due.push(record);
+            }
+        });
+
+        let firstError: any = null;
+        for (let start = 0; start < due.length; start += PUSH_BATCH_SIZE) {
+            const batch = due.slice(start, start + PUSH_BATCH_SIZE);
+            try {
+                await withRetry(async () => {
+                    const { error } = await client.from(table).upsert(batch.map(record => mapToRemote(record, state.userId)));
+                    if (error) throw error;
+                });
+                for (const record of batch) {
+                    const key = getSyncRecordKey(collection, record.id);
+                    state.pushed.set(key, state.outbox.get(key)!.queuedAt);
+                    state.nextBases.set(key, mapToLocal(mapToRemote(record, state.userId)));
+                }
+            } catch (err: any) {
+                for (const record of batch) state.failed.set(getSyncRecordKey(collection, record.id), err.message);
+                if (!firstError) firstError = err;
+            }
+        }
+
+        if (firstError) throw firstError;
+    }
 }
@@ -29,16 +29,31 @@ function toLocalDateString(d: Date): string {
     return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
 }
 
-/** One transaction from the client (category may be name or id). */
+/** One transaction from the client (category may be name or id). Amounts are in the home currency. */
 interface IncomingTx {
     id: string;
     date: string;
     amount: number;
     category: string;
+    /** Present for split transactions: per-category portions that sum to amount. */
+    splits?: Array<{ category: string; amount: number }>;
     vendor: string;
+    direction?: "expense" | "income" | "refund" | "transfer"; // Missing from older clients: expense
     isRecurring?: boolean;
 }
 
+/** Multiplier that turns an amount into spend: refunds take money back off, income and transfers aren't spending. */
+function getSpendSign(t: IncomingTx): number {
+    switch (t.direction ?? "expense") {
+        case "expense":
+            return 1;
+        case "refund":
+            return -1;
+        default:
+            return 0;
+    }
+}
+
 /** Build the exact daily summary description (plain text, no emojis). */
 function buildDailyDescription(
     total: number,
@@ -140,7 +155,8 @@ Deno.serve(async (req: Request) => {
         const minDateStr = toLocalDateString(pastCutoff);
         const maxDateStr = toLocalDateString(futureCutoff);
 
-        const activeTxs = submitted.filter((t) => t.date >= minDateStr && t.date <= maxDateStr);
+        // Income and transfers aren't spending, so a day with only those gets no event
+        const activeTxs = submitted.filter((t) => t.date >= minDateStr && t.date <= maxDateStr && getSpendSign(t) !== 0);
 
         // ── 4. Group by day (idempotency: one event per day, keyed by "summary:YYYY-MM-DD") ──
         const byDay = new Map<string, IncomingTx[]>();
@@ -191,14 +207,17 @@ Deno.serve(async (req: Request) => {
 
         // ── 7. Upsert one event per day that has transactions ─────────────────
         for (const [day, txs] of byDay.entries()) {
-            const total = txs.reduce((s, t) => s + t.amount, 0);
-            const recurringTotal = txs.filter((t) => t.isRecurring).reduce((s, t) => s + t.amount, 0);
+            const total = txs.reduce((s, t) => s + getSpendSign(t) * t.amount, 0);
+            const recurringTotal = txs.filter((t) => t.isRecurring).reduce((s, t) => s + getSpendSign(t) * t.amount, 0);
             const nonRecurringTotal = total - recurringTotal;
 
             const categoryMap = new Map<string, number>();
             for (const t of txs) {
-                const cur = categoryMap.get(t.category) ?? 0;
-                categoryMap.set(t.category, cur + t.amount);
+                const portions = t.splits && t.splits.length > 1 ? t.splits : [{ category: t.category, amount: t.amount }];
+                for (const portion of portions) {
+                    const cur = categoryMap.get(portion.category) ?? 0;
+                    categoryMap.set(portion.category, cur + getSpendSign(t) * portion.amount);
+                }
             }
             const byCategory = Array.from(categoryMap.entries())
                 .map(([label, amount]) => ({ label, amount }))
@@ -206,8 +225,10 @@ Deno.serve(async (req: Request) => {
 
             const breakdown = txs.map((t) => ({
                 vendor: t.vendor,
-                category: t.category,
-                amount: t.amount,
+                category: t.splits && t.splits.length > 1
+                    ? `Split: ${t.splits.map((s) => s.category).join(", ")}`
+                    : t.category,
+                amount: getSpendSign(t) * t.amount,
                 isRecurring: !!t.isRecurring,
             }));
 
@@ -0,0 +1,16 @@
+-- Migration: add a direction to expenses so income, refunds and transfers can be recorded
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS direction text NOT NULL DEFAULT 'expense';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_constraint
+        WHERE conname = 'expenses_direction_check'
+    ) THEN
+        ALTER TABLE expenses
+        ADD CONSTRAINT expenses_direction_check
+        CHECK (direction IN ('expense', 'income', 'refund', 'transfer'));
+    END IF;
+END $$;
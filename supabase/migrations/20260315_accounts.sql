@@ -0,0 +1,53 @@
+-- Migration: accounts / payment methods and the expense columns that reference them
+
+CREATE TABLE IF NOT EXISTS accounts (
+    id uuid PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    type text NOT NULL DEFAULT 'other' CHECK (type IN ('cash', 'chequing', 'savings', 'credit_card', 'other')),
+    opening_balance numeric NOT NULL DEFAULT 0,
+    color text,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    deleted_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS accounts_user_updated_idx ON accounts(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS accounts_user_deleted_idx ON accounts(user_id, deleted_at);
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS accounts_user_isolation ON accounts;
+CREATE POLICY accounts_user_isolation
+    ON accounts
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS account_id uuid;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS transfer_account_id uuid;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_constraint
+        WHERE conname = 'expenses_account_id_fkey'
+    ) THEN
+        ALTER TABLE expenses
+        ADD CONSTRAINT expenses_account_id_fkey
+        FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_constraint
+        WHERE conname = 'expenses_transfer_account_id_fkey'
+    ) THEN
+        ALTER TABLE expenses
+        ADD CONSTRAINT expenses_transfer_account_id_fkey
+        FOREIGN KEY (transfer_account_id) REFERENCES accounts(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS expenses_user_account_idx ON expenses(user_id, account_id);
@@ -0,0 +1,18 @@
+-- Migration: store the entry currency and the exchange rate captured for each expense
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS currency text;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS exchange_rate numeric;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS exchange_rate_currency text;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_constraint
+        WHERE conname = 'expenses_exchange_rate_check'
+    ) THEN
+        ALTER TABLE expenses
+        ADD CONSTRAINT expenses_exchange_rate_check
+        CHECK (exchange_rate IS NULL OR exchange_rate > 0);
+    END IF;
+END $$;
@@ -0,0 +1,3 @@
+-- Migration: let one expense be split across several categories
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS splits jsonb;
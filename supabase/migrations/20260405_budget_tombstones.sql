@@ -0,0 +1,6 @@
+-- Migration: soft-delete budgets so they sync like the other collections
+
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS budgets_user_updated_idx ON budgets(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS budgets_user_deleted_idx ON budgets(user_id, deleted_at);
@@ -0,0 +1,18 @@
+-- Migration: budget periods beyond monthly (monthly_limit now means "limit per period")
+
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS period text NOT NULL DEFAULT 'monthly';
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS period_start date;
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS period_end date;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_constraint
+        WHERE conname = 'budgets_period_check'
+    ) THEN
+        ALTER TABLE budgets
+        ADD CONSTRAINT budgets_period_check
+        CHECK (period IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'yearly', 'custom'));
+    END IF;
+END $$;
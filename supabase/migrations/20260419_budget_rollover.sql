@@ -0,0 +1,3 @@
+-- Migration: optional carry-forward of unspent or overspent budget amounts
+
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS rollover boolean NOT NULL DEFAULT false;
@@ -0,0 +1,18 @@
+-- Migration: budgets on a whole category group or on all spending, alongside per-category budgets
+
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS scope text NOT NULL DEFAULT 'category'
+    CHECK (scope IN ('category', 'group', 'total'));
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS group_name text;
+ALTER TABLE budgets ALTER COLUMN category_id DROP NOT NULL;
+
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_user_id_category_id_key;
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_target_check;
+ALTER TABLE budgets ADD CONSTRAINT budgets_target_check CHECK (
+    (scope = 'category' AND category_id IS NOT NULL)
+    OR (scope = 'group' AND group_name IS NOT NULL)
+    OR scope = 'total'
+);
+
+-- One budget per target: a category, a group, or the overall cap
+CREATE UNIQUE INDEX IF NOT EXISTS budgets_user_target_idx
+    ON budgets(user_id, scope, COALESCE(category_id, ''), COALESCE(group_name, ''));
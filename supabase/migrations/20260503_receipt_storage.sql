@@ -0,0 +1,16 @@
+-- Migration: receipt images move out of expenses.photo_url into a private storage bucket
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_id uuid;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipts', 'receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are stored as <user id>/<receipt id>.jpg
+DROP POLICY IF EXISTS "Users can manage their own receipts" ON storage.objects;
+CREATE POLICY "Users can manage their own receipts"
+    ON storage.objects
+    FOR ALL
+    TO authenticated
+    USING (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text)
+    WITH CHECK (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,11 @@
+-- Migration: several attachments (images and PDFs) per expense instead of a single receipt_id
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS attachments jsonb;
+
+UPDATE expenses
+SET attachments = jsonb_build_array(
+    jsonb_build_object('id', receipt_id, 'name', 'Receipt.jpg', 'mimeType', 'image/jpeg')
+)
+WHERE receipt_id IS NOT NULL AND attachments IS NULL;
+
+ALTER TABLE expenses DROP COLUMN IF EXISTS receipt_id;
@@ -0,0 +1,4 @@
+-- Migration: stamp the import or bulk action that last touched a record, so it can be rolled back
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS batch_id uuid;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS batch_id uuid;
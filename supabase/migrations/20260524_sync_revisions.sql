@@ -0,0 +1,46 @@
+-- Migration: server-assigned revisions on synced rows
+-- Devices pull rows with a revision above the highest one they have seen,
+-- instead of comparing updated_at values written by (possibly skewed) device clocks.
+
+CREATE SEQUENCE IF NOT EXISTS sync_revision_seq;
+
+CREATE OR REPLACE FUNCTION bump_sync_revision() RETURNS trigger AS $$
+BEGIN
+    NEW.revision := nextval('sync_revision_seq');
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The default numbers existing rows as the column is added
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+ALTER TABLE vendor_rules ADD COLUMN IF NOT EXISTS revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+ALTER TABLE recurring_exceptions ADD COLUMN IF NOT EXISTS revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+
+DROP TRIGGER IF EXISTS expenses_sync_revision ON expenses;
+CREATE TRIGGER expenses_sync_revision BEFORE INSERT OR UPDATE ON expenses
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+DROP TRIGGER IF EXISTS categories_sync_revision ON categories;
+CREATE TRIGGER categories_sync_revision BEFORE INSERT OR UPDATE ON categories
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+DROP TRIGGER IF EXISTS vendor_rules_sync_revision ON vendor_rules;
+CREATE TRIGGER vendor_rules_sync_revision BEFORE INSERT OR UPDATE ON vendor_rules
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+DROP TRIGGER IF EXISTS recurring_exceptions_sync_revision ON recurring_exceptions;
+CREATE TRIGGER recurring_exceptions_sync_revision BEFORE INSERT OR UPDATE ON recurring_exceptions
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+DROP TRIGGER IF EXISTS accounts_sync_revision ON accounts;
+CREATE TRIGGER accounts_sync_revision BEFORE INSERT OR UPDATE ON accounts
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+DROP TRIGGER IF EXISTS budgets_sync_revision ON budgets;
+CREATE TRIGGER budgets_sync_revision BEFORE INSERT OR UPDATE ON budgets
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+
+CREATE INDEX IF NOT EXISTS expenses_user_revision_idx ON expenses(user_id, revision);
+CREATE INDEX IF NOT EXISTS categories_user_revision_idx ON categories(user_id, revision);
+CREATE INDEX IF NOT EXISTS vendor_rules_user_revision_idx ON vendor_rules(user_id, revision);
+CREATE INDEX IF NOT EXISTS recurring_exceptions_user_revision_idx ON recurring_exceptions(user_id, revision);
+CREATE INDEX IF NOT EXISTS accounts_user_revision_idx ON accounts(user_id, revision);
+CREATE INDEX IF NOT EXISTS budgets_user_revision_idx ON budgets(user_id, revision);
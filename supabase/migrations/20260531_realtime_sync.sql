@@ -0,0 +1,18 @@
+-- Migration: broadcast changes to synced tables over Supabase Realtime
+-- Signed-in devices subscribe to their own rows (RLS applies to Realtime too),
+-- so an edit on one device shows up on the others without a manual sync.
+
+DO $$
+DECLARE
+    synced_table text;
+BEGIN
+    FOREACH synced_table IN ARRAY ARRAY['expenses', 'categories', 'vendor_rules', 'recurring_exceptions', 'accounts', 'budgets'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = synced_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', synced_table);
+        END IF;
+    END LOOP;
+END;
+$$;
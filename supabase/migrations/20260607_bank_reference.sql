@@ -0,0 +1,3 @@
+-- Migration: keep the bank's own id for imported statement lines, so re-imports are recognised
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS bank_reference text;
@@ -12,14 +12,24 @@ CREATE TABLE expenses (
     vendor text NOT NULL,
     category_id text NOT NULL, 
     amount numeric NOT NULL,
+    splits jsonb, -- [{ id, category, amount, note }] when the amount is split across categories
+    direction text NOT NULL DEFAULT 'expense' CHECK (direction IN ('expense', 'income', 'refund', 'transfer')),
+    account_id uuid,
+    transfer_account_id uuid,
     date date NOT NULL, 
     note text,
-    photo_url text,
+    currency text, -- NULL means the user's home currency
+    exchange_rate numeric CHECK (exchange_rate IS NULL OR exchange_rate > 0),
+    exchange_rate_currency text,
+    photo_url text, -- legacy inline images; new receipts go to the 'receipts' bucket
+    attachments jsonb, -- [{ id, name, mimeType }] objects <user id>/<id>.jpg|.pdf in the 'receipts' bucket
     is_recurring boolean DEFAULT false,
     recurrence_type text, 
     end_date date,
     is_active boolean DEFAULT true,
     ended_at timestamp with time zone,
+    batch_id uuid, -- import or bulk action that last created or changed the row
+    bank_reference text, -- bank's id for an imported statement line (OFX FITID, CAMT AcctSvcrRef, MT940 reference)
     created_at timestamp with time zone DEFAULT now(),
     updated_at timestamp with time zone DEFAULT now(),
     deleted_at timestamp with time zone
@@ -47,6 +57,7 @@ CREATE TABLE categories (
     color text,
     "group" text,
     is_system boolean DEFAULT false,
+    batch_id uuid, -- import that created the category
     created_at timestamp with time zone DEFAULT now(),
     updated_at timestamp with time zone DEFAULT now(),
     deleted_at timestamp with time zone
@@ -114,7 +125,84 @@ CREATE POLICY "Users can manage their own recurring exceptions"
     WITH CHECK (auth.uid() = user_id);
 
 -------------------------------------------------------------------------------
--- 5. google_calendar_connections
+-- 5. accounts
+--    Where money is held (cash, chequing, credit card...). Expenses reference
+--    them through account_id / transfer_account_id.
+-------------------------------------------------------------------------------
+CREATE TABLE accounts (
+    id uuid PRIMARY KEY, -- supplied by client
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    type text NOT NULL DEFAULT 'other' CHECK (type IN ('cash', 'chequing', 'savings', 'credit_card', 'other')),
+    opening_balance numeric NOT NULL DEFAULT 0,
+    color text,
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now(),
+    deleted_at timestamp with time zone
+);
+
+CREATE INDEX accounts_user_updated_idx ON accounts(user_id, updated_at);
+CREATE INDEX accounts_user_deleted_idx ON accounts(user_id, deleted_at);
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own accounts"
+    ON accounts
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE expenses
+    ADD CONSTRAINT expenses_account_id_fkey
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE expenses
+    ADD CONSTRAINT expenses_transfer_account_id_fkey
+    FOREIGN KEY (transfer_account_id) REFERENCES accounts(id) ON DELETE SET NULL;
+
+-------------------------------------------------------------------------------
+-- 6. budgets
+--    One limit per target (a category, a category group, or all spending),
+--    repeating each period (or covering one custom range). monthly_limit holds the amount per period; the name predates
+--    periods. Soft-deleted like the other synced collections so removals made
+--    offline reach other devices.
+-------------------------------------------------------------------------------
+CREATE TABLE budgets (
+    id uuid PRIMARY KEY, -- supplied by client
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    scope text NOT NULL DEFAULT 'category' CHECK (scope IN ('category', 'group', 'total')),
+    category_id text REFERENCES categories(id) ON DELETE CASCADE,
+    group_name text,
+    monthly_limit numeric(10, 2) NOT NULL,
+    period text NOT NULL DEFAULT 'monthly' CHECK (period IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'yearly', 'custom')),
+    period_start date,
+    period_end date,
+    rollover boolean NOT NULL DEFAULT false,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+    deleted_at timestamp with time zone,
+    CONSTRAINT budgets_target_check CHECK (
+        (scope = 'category' AND category_id IS NOT NULL)
+        OR (scope = 'group' AND group_name IS NOT NULL)
+        OR scope = 'total'
+    )
+);
+
+CREATE UNIQUE INDEX budgets_user_target_idx
+    ON budgets(user_id, scope, COALESCE(category_id, ''), COALESCE(group_name, ''));
+CREATE INDEX budgets_user_updated_idx ON budgets(user_id, updated_at);
+CREATE INDEX budgets_user_deleted_idx ON budgets(user_id, deleted_at);
+
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own budgets"
+    ON budgets
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-------------------------------------------------------------------------------
+-- 7. google_calendar_connections
 --    Stores Google OAuth refresh tokens.
 --    RLS: DENY ALL from client — service role only.
 -------------------------------------------------------------------------------
@@ -134,7 +222,7 @@ ALTER TABLE google_calendar_connections ENABLE ROW LEVEL SECURITY;
 -- Edge Functions use service role key to bypass RLS.
 
 -------------------------------------------------------------------------------
--- 6. google_calendar_status (view)
+-- 8. google_calendar_status (view)
 --    Safe client-readable view: strips refresh_token.
 -------------------------------------------------------------------------------
 CREATE VIEW google_calendar_status AS
@@ -158,7 +246,7 @@ GRANT SELECT ON google_calendar_status TO authenticated;
 -- Alternatively, use a security-definer function (see calendarService.ts).
 
 -------------------------------------------------------------------------------
--- 7. google_calendar_events
+-- 9. google_calendar_events
 --    Tracks Google Calendar event IDs per expense_id to guarantee idempotence.
 -------------------------------------------------------------------------------
 CREATE TABLE google_calendar_events (
@@ -179,3 +267,69 @@ CREATE POLICY "Users can manage their own calendar events"
     FOR ALL
     USING (auth.uid() = user_id)
     WITH CHECK (auth.uid() = user_id);
+
+-------------------------------------------------------------------------------
+-- 10. receipts storage bucket
+--     Attachments as <user id>/<id>.jpg or .pdf, referenced by expenses.attachments.
+-------------------------------------------------------------------------------
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipts', 'receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can manage their own receipts"
+    ON storage.objects
+    FOR ALL
+    TO authenticated
+    USING (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text)
+    WITH CHECK (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-------------------------------------------------------------------------------
+-- 11. sync revisions
+--     Every insert or update of a synced row takes the next value of one
+--     sequence. Devices pull rows above the highest revision they have seen,
+--     so device clocks (which set updated_at) don't decide what gets pulled.
+--     Revisions are taken at write time, not commit time, so pulls re-read a
+--     margin below that highest revision.
+-------------------------------------------------------------------------------
+CREATE SEQUENCE sync_revision_seq;
+
+CREATE FUNCTION bump_sync_revision() RETURNS trigger AS $$
+BEGIN
+    NEW.revision := nextval('sync_revision_seq');
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE expenses ADD COLUMN revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+ALTER TABLE categories ADD COLUMN revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+ALTER TABLE vendor_rules ADD COLUMN revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+ALTER TABLE recurring_exceptions ADD COLUMN revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+ALTER TABLE accounts ADD COLUMN revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+ALTER TABLE budgets ADD COLUMN revision bigint NOT NULL DEFAULT nextval('sync_revision_seq');
+
+CREATE TRIGGER expenses_sync_revision BEFORE INSERT OR UPDATE ON expenses
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+CREATE TRIGGER categories_sync_revision BEFORE INSERT OR UPDATE ON categories
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+CREATE TRIGGER vendor_rules_sync_revision BEFORE INSERT OR UPDATE ON vendor_rules
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+CREATE TRIGGER recurring_exceptions_sync_revision BEFORE INSERT OR UPDATE ON recurring_exceptions
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+CREATE TRIGGER accounts_sync_revision BEFORE INSERT OR UPDATE ON accounts
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+CREATE TRIGGER budgets_sync_revision BEFORE INSERT OR UPDATE ON budgets
+    FOR EACH ROW EXECUTE FUNCTION bump_sync_revision();
+
+CREATE INDEX expenses_user_revision_idx ON expenses(user_id, revision);
+CREATE INDEX categories_user_revision_idx ON categories(user_id, revision);
+CREATE INDEX vendor_rules_user_revision_idx ON vendor_rules(user_id, revision);
+CREATE INDEX recurring_exceptions_user_revision_idx ON recurring_exceptions(user_id, revision);
+CREATE INDEX accounts_user_revision_idx ON accounts(user_id, revision);
+CREATE INDEX budgets_user_revision_idx ON budgets(user_id, revision);
+
+-------------------------------------------------------------------------------
+-- 12. realtime
+--     Synced tables are published to Supabase Realtime, so open devices
+--     receive each other's edits as they are saved.
+-------------------------------------------------------------------------------
+ALTER PUBLICATION supabase_realtime ADD TABLE expenses, categories, vendor_rules, recurring_exceptions, accounts, budgets;
@@ -1,14 +1,48 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
+import fs from 'fs'
 import path from 'path'
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react'
 
+// Receipt OCR runs fully offline, so the Tesseract worker, WASM cores and
+// English language data are served from /tesseract/ instead of a CDN
+const TESSERACT_ASSETS: Record<string, string> = {
+  'worker.min.js': 'node_modules/tesseract.js/dist/worker.min.js',
+  'tesseract-core-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'tesseract-core-simd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'eng.traineddata.gz': 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+}
+
+function tesseractAssets(): Plugin {
+  return {
+    name: 'tesseract-assets',
+    configureServer(server) {
+      server.middlewares.use('/tesseract', (req, res, next) => {
+        const source = TESSERACT_ASSETS[(req.url || '').replace(/^\//, '').split('?')[0]]
+        if (!source) return next()
+        res.setHeader('Content-Type', source.endsWith('.gz') ? 'application/octet-stream' : 'text/javascript')
+        fs.createReadStream(path.resolve(__dirname, source)).pipe(res)
+      })
+    },
+    generateBundle() {
+      for (const [name, source] of Object.entries(TESSERACT_ASSETS)) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `tesseract/${name}`,
+          source: fs.readFileSync(path.resolve(__dirname, source)),
+        })
+      }
+    },
+  }
+}
+
 export default defineConfig({
   plugins: [
     // The React and Tailwind plugins are both required for Make, even if
     // Tailwind is not being actively used – do not remove them
     react(),
     tailwindcss(),
+    tesseractAssets(),
   ],
   resolve: {
     alias: {